@@ -105,6 +105,11 @@ export interface SurveyCompletionEvent extends SurveyAnalyticsEvent {
     totalPages: number;
     completionRate: number;
     responses?: Record<string, any>;
+    /** survey_complete: how the survey ended, and the ending block reached if any */
+    outcome?: string;
+    endingId?: string;
+    endingName?: string;
+    outcomeCode?: string;
   };
 }
 
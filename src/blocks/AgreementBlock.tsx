@@ -713,6 +713,8 @@ export const AgreementBlock: BlockDefinition = {
   type: 'agreement',
   name: 'Agreement (Name + Signature)',
   description: 'Agreement text with required name and signature capture',
+  category: 'Advanced',
+  tags: ['signature', 'consent', 'terms', 'legal'],
   icon: <PenLine className="w-4 h-4" />,
   defaultData: {
     type: 'agreement',
@@ -2909,6 +2909,8 @@ export const AuthBlock: BlockDefinition = {
   type: 'auth',
   name: 'Authentication',
   description: 'Step-by-step user authentication with optional OTP',
+  category: 'Advanced',
+  tags: ['login', 'sign in', 'otp', 'verification'],
   icon: <UserCheck className="w-4 h-4" />,
   defaultData: {
     type: 'auth',
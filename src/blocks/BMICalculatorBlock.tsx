@@ -860,6 +860,7 @@ const BMIChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const [step, setStep] = useState<'unit' | 'height' | 'weight' | 'result'>('unit');
   const [unitSystem, setUnitSystem] = useState<'metric' | 'imperial'>(
     (value?.unitSystem as 'metric' | 'imperial') || (block.defaultUnit as 'metric' | 'imperial') || 'metric'
@@ -1148,7 +1149,7 @@ const BMIChatRenderer: React.FC<ChatRendererProps> = ({
               : undefined
           }
         >
-          Continue
+          {t('ui.continue')}
         </Button>
       </div>
     );
@@ -1162,6 +1163,8 @@ export const BMICalculatorBlock: BlockDefinition = {
   type: "bmiCalculator",
   name: "BMI Calculator",
   description: "Modern BMI calculator with sleek design and intuitive controls",
+  category: "Logic",
+  tags: ["bmi", "health", "height", "weight", "calculator"],
   icon: <Activity className="w-4 h-4" />,
   defaultData: {
     type: "bmiCalculator",
@@ -91,7 +91,8 @@ return "Low Risk";`}
           rows={8}
         />
         <p className="text-xs text-muted-foreground">
-          Full JavaScript code block. Can return numbers, strings, or complex objects. Use field names as variables.
+          A single expression or a block with <code>const</code>, <code>if</code> and <code>return</code>, evaluated in a sandbox.
+          Can return numbers, strings, or complex objects. Use field names as variables.
         </p>
         <div className="text-xs text-muted-foreground bg-muted p-3 rounded space-y-2">
           <strong>Examples:</strong>
@@ -519,6 +520,8 @@ export const CalculatedFieldBlock: BlockDefinition = {
   type: "calculatedField",
   name: "Calculated Field",
   description: "Display a value calculated from a formula based on other fields",
+  category: "Logic",
+  tags: ["formula", "computed", "total", "math"],
   icon: <Calculator className="w-4 h-4" />,
   defaultData: {
     type: "calculatedField",
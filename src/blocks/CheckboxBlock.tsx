@@ -38,6 +38,8 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useSurveyForm } from '../context/SurveyFormContext';
+import { OptionSearch } from '../components/ui/OptionSearch';
 
 interface CheckboxOption {
   id: string;
@@ -364,6 +366,8 @@ const CheckboxRenderer = forwardRef<HTMLButtonElement, CheckboxRendererProps>(
           </div>
         )}
 
+        <OptionSearch block={block} disabled={disabled} className="mt-2" />
+
         {/* Checkbox options */}
         <div className="space-y-2 mt-2">
           {options.map((option: CheckboxOption, index: number) => {
@@ -503,6 +507,7 @@ const CheckboxChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
 
   // Get options from block
@@ -613,8 +618,8 @@ const CheckboxChatRenderer: React.FC<ChatRendererProps> = ({
         }
       >
         {selectedValues.length > 0
-          ? `Continue with ${selectedValues.length} selected`
-          : 'Continue'}
+          ? t('ui.continueWithSelected', { count: selectedValues.length })
+          : t('ui.continue')}
       </Button>
     </div>
   );
@@ -625,6 +630,8 @@ export const CheckboxBlock: BlockDefinition = {
   type: 'checkbox',
   name: 'Checkbox',
   description: 'Single checkbox for binary/boolean options',
+  category: 'Choice',
+  tags: ['boolean', 'yes no', 'toggle', 'consent'],
   icon: <CheckSquare className="w-4 h-4" />,
   defaultData: {
     type: 'checkbox',
@@ -1020,6 +1020,8 @@ export const ConditionalBlock: BlockDefinition = {
   type: 'conditional',
   name: 'Conditional Block',
   description: 'Display content only when specific conditions are met',
+  category: 'Logic',
+  tags: ['show if', 'branching', 'visibility', 'condition'],
   icon: <GitBranch className="w-4 h-4" />,
   defaultData: {
     type: 'conditional',
@@ -22,6 +22,7 @@ import { cn } from '../lib/utils';
 import { generateFieldName } from './utils/GenFieldName';
 import { themes } from '../themes';
 import { format } from 'date-fns';
+import { useSurveyForm } from '../context/SurveyFormContext';
 
 /**
  * Calculate a date based on age (years ago from today)
@@ -467,6 +468,7 @@ const DatePickerChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const storageKey = `survey_field_${block.uuid || block.fieldName}`;
 
   const [date, setDate] = useState<Date | null>(() => {
@@ -618,7 +620,7 @@ const DatePickerChatRenderer: React.FC<ChatRendererProps> = ({
               : undefined
           }
         >
-          Continue
+          {t('ui.continue')}
         </Button>
       </div>
 
@@ -846,6 +848,8 @@ export const DatePickerBlock: BlockDefinition = {
   type: 'datepicker',
   name: 'Date Picker',
   description: 'Calendar component for selecting a date',
+  category: 'Advanced',
+  tags: ['date', 'calendar', 'birthday'],
   icon: <Calendar className="w-4 h-4" />,
   defaultData: {
     type: 'datepicker',
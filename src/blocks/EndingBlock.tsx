@@ -0,0 +1,232 @@
+import React from "react";
+import { BlockDefinition, ContentBlockItemProps, SurveyOutcome } from "../types";
+import { Input } from "../components/ui/input";
+import { Textarea } from "../components/ui/textarea";
+import { Label } from "../components/ui/label";
+import { Badge } from "../components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { Flag } from "lucide-react";
+import { ENDING_BLOCK_TYPE } from "../utils/outcomes";
+
+const OUTCOME_LABELS: Record<SurveyOutcome, string> = {
+  complete: "Complete",
+  screenedOut: "Screened out",
+  overQuota: "Over quota",
+};
+
+// Form component for editing the block configuration
+const EndingBlockForm: React.FC<ContentBlockItemProps> = ({
+  data,
+  onUpdate,
+}) => {
+  // Handle field changes
+  const handleChange = (field: string, value: any) => {
+    onUpdate?.({
+      ...data,
+      [field]: value,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="name">Ending Name</Label>
+          <Input
+            id="name"
+            value={data.name || ""}
+            onChange={(e) => handleChange("name", e.target.value)}
+            placeholder="Booking confirmed"
+          />
+          <p className="text-xs text-muted-foreground">
+            Shown in the builder and reported with the submission.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="outcomeCode">Outcome Code</Label>
+          <Input
+            id="outcomeCode"
+            value={data.outcomeCode || ""}
+            onChange={(e) => handleChange("outcomeCode", e.target.value)}
+            placeholder="booking-confirmed"
+          />
+          <p className="text-xs text-muted-foreground">
+            Reported with the submission and analytics.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="outcome">Outcome</Label>
+          <Select
+            value={data.outcome || "complete"}
+            onValueChange={(value) => handleChange("outcome", value)}
+          >
+            <SelectTrigger id="outcome">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OUTCOME_LABELS) as SurveyOutcome[]).map((outcome) => (
+                <SelectItem key={outcome} value={outcome}>
+                  {OUTCOME_LABELS[outcome]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="className">CSS Class Names</Label>
+          <Input
+            id="className"
+            value={data.className || ""}
+            onChange={(e) => handleChange("className", e.target.value)}
+            placeholder="thank-you"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm" htmlFor="label">Heading</Label>
+        <Input
+          id="label"
+          value={data.label || ""}
+          onChange={(e) => handleChange("label", e.target.value)}
+          placeholder="Thanks, {firstName}!"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm" htmlFor="description">Message</Label>
+        <Textarea
+          id="description"
+          value={data.description || ""}
+          onChange={(e) => handleChange("description", e.target.value)}
+          placeholder="We'll see you on {appointmentDate}."
+          rows={3}
+        />
+        <p className="text-xs text-muted-foreground">
+          Type {"{"} to insert an answer.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm" htmlFor="redirectUrl">Redirect URL (Optional)</Label>
+        <Input
+          id="redirectUrl"
+          value={data.redirectUrl || ""}
+          onChange={(e) => handleChange("redirectUrl", e.target.value)}
+          placeholder="https://example.com/next-steps"
+        />
+      </div>
+
+      {data.redirectUrl && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm" htmlFor="redirectDelay">Redirect After (seconds)</Label>
+            <Input
+              id="redirectDelay"
+              type="number"
+              min={0}
+              value={data.redirectDelay ?? 5}
+              onChange={(e) => handleChange("redirectDelay", e.target.value === "" ? null : Number(e.target.value))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm" htmlFor="redirectFields">Answers to Pass Along</Label>
+            <Input
+              id="redirectFields"
+              value={(data.redirectFields || []).join(", ")}
+              onChange={(e) =>
+                handleChange(
+                  "redirectFields",
+                  e.target.value.split(",").map((field) => field.trim()).filter(Boolean)
+                )
+              }
+              placeholder="email, plan"
+            />
+            <p className="text-xs text-muted-foreground">
+              Field names, added to the URL as query parameters.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Component to render the block in the builder
+const EndingBlockItem: React.FC<ContentBlockItemProps> = ({
+  data,
+}) => {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={data.outcome && data.outcome !== "complete" ? "destructive" : "secondary"}>
+          {OUTCOME_LABELS[(data.outcome as SurveyOutcome) || "complete"]}
+        </Badge>
+        {data.outcomeCode && <Badge variant="outline">{data.outcomeCode}</Badge>}
+        {data.name && <span className="text-sm font-medium">{data.name}</span>}
+      </div>
+      <div className="text-center py-2">
+        <h3 className="text-lg font-semibold">{data.label || "Thank you!"}</h3>
+        {data.description && <p className="text-sm text-muted-foreground">{data.description}</p>}
+      </div>
+      {data.redirectUrl && (
+        <p className="text-xs text-muted-foreground truncate">
+          Redirects to {data.redirectUrl} after {data.redirectDelay ?? 5}s
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Preview component shown in the block library
+const EndingBlockPreview: React.FC = () => {
+  return (
+    <div className="w-full flex items-center justify-center py-1">
+      <div className="text-center w-4/5 max-w-full text-sm">
+        <span className="font-medium">Thank you!</span>
+        <span className="text-muted-foreground"> · end page</span>
+      </div>
+    </div>
+  );
+};
+
+// Export the block definition
+export const EndingBlock: BlockDefinition = {
+  type: ENDING_BLOCK_TYPE,
+  name: "Ending",
+  description: "End page with an outcome, an outcome code and an optional redirect",
+  category: "Content",
+  tags: ["end", "thank you", "screen out", "redirect"],
+  icon: <Flag className="w-4 h-4" />,
+  defaultData: {
+    type: ENDING_BLOCK_TYPE,
+    name: "",
+    label: "Thank you!",
+    description: "Your response has been recorded.",
+    outcome: "complete",
+    outcomeCode: "",
+    redirectUrl: "",
+    redirectDelay: 5,
+    redirectFields: [],
+    className: "",
+  },
+  renderItem: (props) => <EndingBlockItem {...props} />,
+  renderFormFields: (props) => <EndingBlockForm {...props} />,
+  renderPreview: () => <EndingBlockPreview />,
+  // Reaching an ending ends the survey; SurveyForm shows it in place of the layout
+  renderBlock: () => null,
+  validate: (data) => {
+    if (data.redirectDelay != null && data.redirectDelay < 0) return "Redirect delay can't be negative";
+    return null;
+  },
+};
@@ -700,6 +700,8 @@ export const FileUploadBlock: BlockDefinition = {
   type: 'fileupload',
   name: 'File Upload',
   description: 'Component for uploading files',
+  category: 'Advanced',
+  tags: ['upload', 'attachment', 'document', 'image'],
   icon: <Upload className="w-4 h-4" />,
   defaultData: {
     type: 'fileupload',
@@ -142,6 +142,8 @@ export const HtmlBlock: BlockDefinition = {
   type: "html",
   name: "HTML",
   description: "Custom HTML content",
+  category: "Content",
+  tags: ["custom", "embed", "rich text"],
   icon: <Code className="w-4 h-4" />,
   defaultData: {
     type: "html",
@@ -187,6 +187,8 @@ export const MarkdownBlock: BlockDefinition = {
   type: "markdown",
   name: "Markdown",
   description: "Formatted text content using Markdown syntax",
+  category: "Content",
+  tags: ["text", "heading", "paragraph", "instructions"],
   icon: <FileText className="w-4 h-4" />,
   defaultData: {
     type: "markdown",
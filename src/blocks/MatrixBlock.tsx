@@ -1,14 +1,25 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import type {
   BlockData,
   BlockDefinition,
   ContentBlockItemProps,
+  MatrixCellType,
+  MatrixColumn,
+  MatrixRow,
   ThemeDefinition,
 } from '../types';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Button } from '../components/ui/button';
+import { Checkbox } from '../components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
 import {
   Table,
   TableBody,
@@ -17,7 +28,7 @@ import {
   TableHeader,
   TableRow,
 } from '../components/ui/table';
-import { CirclePlus, CircleX, Grid3X3, GripVertical } from 'lucide-react';
+import { CirclePlus, CircleX, Grid3X3, GripVertical, Star } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 import { generateFieldName } from './utils/GenFieldName';
 import { cn } from '../lib/utils';
@@ -39,17 +50,35 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useSurveyForm } from '../context/SurveyFormContext';
+import {
+  DEFAULT_RATING_MAX,
+  getMatrixCellType,
+  getMatrixOutputSchema,
+  getMatrixRows,
+  isChoiceMatrix,
+  isMatrixRowAnswered,
+  orderMatrixRows,
+  validateMatrixCell,
+  validateMatrixValue,
+} from '../utils/matrix';
+
+type MatrixValue = Record<string, any>; // Row ID to the row's answer
+
+const CELL_TYPE_LABELS: Record<MatrixCellType, string> = {
+  radio: 'Single choice per row',
+  checkbox: 'Multiple choice per row',
+  dropdown: 'Dropdown',
+  text: 'Text',
+  number: 'Number',
+  rating: 'Rating',
+};
 
-interface MatrixQuestion {
-  id: string;
-  text: string;
-}
+// Cell types a column can have in a dropdown, text, number or rating matrix
+const COLUMN_CELL_TYPES: Array<Exclude<MatrixCellType, 'radio'>> = ['checkbox', 'dropdown', 'text', 'number', 'rating'];
 
-interface MatrixOption {
-  id: string;
-  text: string;
-  value: string;
-}
+// Below this width the grid is shown as one card per row
+const CARD_VIEW_MAX_WIDTH = 560;
 
 // Form component for editing the block configuration
 const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
@@ -61,14 +90,11 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
   const [newOptionValue, setNewOptionValue] = useState('');
 
   // Extract matrix data from block data
-  const questions: MatrixQuestion[] = data.questions || [];
-  const options: MatrixOption[] = data.options || [];
+  const questions: MatrixRow[] = data.questions || [];
+  const options: MatrixColumn[] = data.options || [];
 
   // Handle field changes
-  const handleChange = (
-    field: string,
-    value: string | MatrixQuestion[] | MatrixOption[]
-  ) => {
+  const handleChange = (field: string, value: any) => {
     onUpdate?.({
       ...data,
       [field]: value,
@@ -99,11 +125,11 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
   };
 
   // Handle updating a question
-  const handleUpdateQuestion = (index: number, text: string) => {
+  const handleUpdateQuestion = (index: number, changes: Partial<MatrixRow>) => {
     const newQuestions = [...questions];
     newQuestions[index] = {
       ...newQuestions[index],
-      text,
+      ...changes,
     };
     handleChange('questions', newQuestions);
   };
@@ -134,15 +160,11 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
   };
 
   // Handle updating an option
-  const handleUpdateOption = (
-    index: number,
-    field: 'text' | 'value',
-    value: string
-  ) => {
+  const handleUpdateOption = (index: number, changes: Partial<MatrixColumn>) => {
     const newOptions = [...options];
     newOptions[index] = {
       ...newOptions[index],
-      [field]: value,
+      ...changes,
     };
     handleChange('options', newOptions);
   };
@@ -231,6 +253,30 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
         />
       </div>
 
+      <div className="space-y-2">
+        <Label className="text-sm">Cell Type</Label>
+        <Select
+          value={data.cellType || 'radio'}
+          onValueChange={(cellType) => handleChange('cellType', cellType)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CELL_TYPE_LABELS) as MatrixCellType[]).map((cellType) => (
+              <SelectItem key={cellType} value={cellType}>
+                {CELL_TYPE_LABELS[cellType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {isChoiceMatrix(data)
+            ? 'Columns are the answer options of every row'
+            : 'Every column is its own question; columns can change their cell type below'}
+        </p>
+      </div>
+
       {/* Rows (questions) section */}
       <div className="space-y-2 border rounded-md p-4">
         <div className="flex justify-between items-center">
@@ -308,6 +354,8 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
                   key={option.id}
                   option={option}
                   index={index}
+                  showCellSettings={!isChoiceMatrix(data)}
+                  defaultCellType={getMatrixCellType(data)}
                   onUpdateOption={handleUpdateOption}
                   onRemoveOption={handleRemoveOption}
                 />
@@ -356,73 +404,43 @@ const MatrixBlockForm: React.FC<ContentBlockItemProps> = ({
           placeholder="Rating"
         />
       </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="minAnsweredRows">
+            Minimum Answered Rows
+          </Label>
+          <Input
+            id="minAnsweredRows"
+            type="number"
+            min={0}
+            value={data.minAnsweredRows ?? ''}
+            onChange={(e) =>
+              handleChange('minAnsweredRows', e.target.value ? Number(e.target.value) : undefined)
+            }
+            placeholder="No minimum"
+          />
+        </div>
+        <div className="flex items-end gap-2 pb-2">
+          <Checkbox
+            id="randomizeRows"
+            checked={!!data.randomizeRows}
+            onCheckedChange={(checked) => handleChange('randomizeRows', checked === true)}
+          />
+          <Label className="text-sm" htmlFor="randomizeRows">
+            Randomize row order
+          </Label>
+        </div>
+      </div>
     </div>
   );
 };
 
 // Component to render the block in the survey
 const MatrixBlockItem: React.FC<ContentBlockItemProps> = ({ data }) => {
-  const [responses, setResponses] = React.useState<Record<string, string>>({});
-  const questions: MatrixQuestion[] = data.questions || [];
-  const options: MatrixOption[] = data.options || [];
-
-  const handleSelect = (questionId: string, value: string) => {
-    setResponses({
-      ...responses,
-      [questionId]: value,
-    });
-  };
-
-  return (
-    <div className="space-y-4">
-      {data.label && <h3 className="text-lg font-medium">{data.label}</h3>}
+  const [responses, setResponses] = React.useState<MatrixValue>({});
 
-      {data.description && (
-        <p className="text-sm text-muted-foreground">{data.description}</p>
-      )}
-
-      <div className="border rounded-md overflow-x-auto">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead className="w-[250px]"></TableHead>
-              {options.map((option) => (
-                <TableHead
-                  key={option.id}
-                  className="text-center whitespace-nowrap"
-                >
-                  {option.text}
-                </TableHead>
-              ))}
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {questions.map((question) => (
-              <RadioGroup
-                key={question.id}
-                asChild // ← render your TableRow instead of a div
-                value={responses[question.id] || ''}
-                onValueChange={(value) => handleSelect(question.id, value)}
-              >
-                <TableRow>
-                  <TableCell className="font-medium">{question.text}</TableCell>
-                  {options.map((option) => (
-                    <TableCell key={option.id} className="text-center">
-                      <RadioGroupItem
-                        value={option.value}
-                        id={`${data.fieldName}-${question.id}-${option.id}`}
-                        className="mx-auto"
-                      />
-                    </TableCell>
-                  ))}
-                </TableRow>
-              </RadioGroup>
-            ))}
-          </TableBody>
-        </Table>
-      </div>
-    </div>
-  );
+  return <MatrixRenderer block={data} value={responses} onChange={setResponses} />;
 };
 
 // Preview component shown in the block library
@@ -437,10 +455,162 @@ const MatrixBlockPreview: React.FC = () => {
   );
 };
 
+// Rows in display order; a random order is picked once per mount
+function useMatrixRows(block: BlockData): MatrixRow[] {
+  const [order] = useState(() => orderMatrixRows(block).map((row) => row.id));
+  const rows = getMatrixRows(block);
+
+  return useMemo(() => {
+    if (!block.randomizeRows) return rows;
+    const position = (row: MatrixRow) => {
+      const index = order.indexOf(row.id);
+      return index === -1 ? order.length : index;
+    };
+    return [...rows].sort((a, b) => position(a) - position(b));
+  }, [rows, order, block.randomizeRows]);
+}
+
+// Whether the element is too narrow for the grid
+function useIsNarrow(ref: React.RefObject<HTMLElement | null>): boolean {
+  const [isNarrow, setIsNarrow] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(([entry]) => {
+      setIsNarrow(entry.contentRect.width < CARD_VIEW_MAX_WIDTH);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return isNarrow;
+}
+
+interface MatrixCellInputProps {
+  block: BlockData;
+  column: MatrixColumn;
+  id: string;
+  value: any;
+  onChange: (value: any) => void;
+  onBlur?: () => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  theme: ThemeDefinition;
+  /** Accessible name when there is no visible label */
+  label?: string;
+}
+
+/**
+ * The editor of one cell in a dropdown, text, number or rating matrix
+ */
+const MatrixCellInput: React.FC<MatrixCellInputProps> = ({
+  block,
+  column,
+  id,
+  value,
+  onChange,
+  onBlur,
+  disabled,
+  invalid,
+  theme,
+  label,
+}) => {
+  const cellType = getMatrixCellType(block, column);
+
+  switch (cellType) {
+    case 'checkbox':
+      return (
+        <Checkbox
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => {
+            onChange(checked === true);
+            onBlur?.();
+          }}
+          disabled={disabled}
+          aria-invalid={invalid}
+          aria-label={label}
+        />
+      );
+
+    case 'dropdown':
+      return (
+        <Select
+          value={value ?? ''}
+          onValueChange={(selected) => {
+            onChange(selected);
+            onBlur?.();
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} aria-invalid={invalid} aria-label={label} className="min-w-[8rem]">
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            {(column.choices || []).map((choice) => (
+              <SelectItem key={choice.id} value={choice.value}>
+                {choice.text}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'rating': {
+      const max = column.max || DEFAULT_RATING_MAX;
+      return (
+        <div id={id} role="radiogroup" aria-label={label} aria-invalid={invalid} className="flex justify-center gap-0.5">
+          {Array.from({ length: max }, (_, index) => index + 1).map((stars) => (
+            <button
+              key={stars}
+              type="button"
+              role="radio"
+              aria-checked={value === stars}
+              aria-label={`${stars} / ${max}`}
+              disabled={disabled}
+              onClick={() => {
+                onChange(value === stars ? undefined : stars);
+                onBlur?.();
+              }}
+              className="p-0.5 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <Star
+                className={cn('h-5 w-5', stars <= (value || 0) && 'fill-current')}
+                style={{ color: stars <= (value || 0) ? theme.colors.primary : theme.colors.border }}
+              />
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <Input
+          id={id}
+          type={cellType === 'number' ? 'number' : 'text'}
+          value={value ?? ''}
+          onChange={(e) => {
+            const input = e.target.value;
+            onChange(input === '' ? undefined : cellType === 'number' ? Number(input) : input);
+          }}
+          onBlur={onBlur}
+          min={cellType === 'number' ? column.min : undefined}
+          max={cellType === 'number' ? column.max : undefined}
+          disabled={disabled}
+          aria-invalid={invalid}
+          aria-label={label}
+          className={cn('min-w-[6rem]', theme.field.input)}
+        />
+      );
+  }
+};
+
 interface MatrixRendererProps {
   block: BlockData;
-  value?: Record<string, string>; // Question ID to selected option value
-  onChange?: (value: Record<string, string>) => void;
+  value?: MatrixValue;
+  onChange?: (value: MatrixValue) => void;
   onBlur?: () => void;
   error?: string;
   disabled?: boolean;
@@ -457,15 +627,17 @@ const MatrixRenderer: React.FC<MatrixRendererProps> = ({
   theme = null,
 }) => {
   const themeConfig = theme ?? themes.default;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isNarrow = useIsNarrow(containerRef);
 
   // Parse matrix data from block
-  const questions: MatrixQuestion[] = block.questions || [];
-  const options: MatrixOption[] = block.options || [];
+  const questions = useMatrixRows(block);
+  const options: MatrixColumn[] = block.options || [];
+  const cellType = getMatrixCellType(block);
+  const isChoice = isChoiceMatrix(block);
 
   // Initialize responses from value prop or empty object
-  const [responses, setResponses] = useState<Record<string, string>>(
-    () => value || {}
-  );
+  const [responses, setResponses] = useState<MatrixValue>(() => value || {});
 
   // Update local state when props change - only if value has actual entries
   // Use JSON comparison to avoid infinite loops from object reference changes
@@ -481,12 +653,16 @@ const MatrixRenderer: React.FC<MatrixRendererProps> = ({
     }
   }, [value]);
 
-  // Handle option selection
-  const handleSelect = (questionId: string, optionValue: string) => {
-    const newResponses = {
-      ...responses,
-      [questionId]: optionValue,
-    };
+  // Row errors are shown with the block's error, i.e. once it has been validated
+  const rowErrors = error ? validateMatrixValue(responses, block).rowErrors : {};
+
+  const updateRow = (questionId: string, rowValue: any, blur = true) => {
+    const newResponses = { ...responses };
+    if (rowValue === undefined || (Array.isArray(rowValue) && rowValue.length === 0)) {
+      delete newResponses[questionId];
+    } else {
+      newResponses[questionId] = rowValue;
+    }
 
     setResponses(newResponses);
 
@@ -494,13 +670,224 @@ const MatrixRenderer: React.FC<MatrixRendererProps> = ({
       onChange(newResponses);
     }
 
-    if (onBlur) {
+    if (blur && onBlur) {
       onBlur();
     }
   };
 
+  // Handle option selection
+  const handleSelect = (questionId: string, optionValue: string) => {
+    if (cellType === 'checkbox') {
+      const selected: string[] = Array.isArray(responses[questionId]) ? responses[questionId] : [];
+      updateRow(
+        questionId,
+        selected.includes(optionValue)
+          ? selected.filter((selectedValue) => selectedValue !== optionValue)
+          : [...selected, optionValue]
+      );
+    } else {
+      updateRow(questionId, optionValue);
+    }
+  };
+
+  const handleCellChange = (questionId: string, column: MatrixColumn, cellValue: any) => {
+    const row = { ...(responses[questionId] || {}) };
+    if (cellValue === undefined) {
+      delete row[column.value];
+    } else {
+      row[column.value] = cellValue;
+    }
+    updateRow(questionId, Object.keys(row).length > 0 ? row : undefined, false);
+  };
+
+  const isSelected = (questionId: string, option: MatrixColumn) =>
+    cellType === 'checkbox'
+      ? Array.isArray(responses[questionId]) && responses[questionId].includes(option.value)
+      : responses[questionId] === option.value;
+
+  // A choice cell; radio cells of a row share one name so they stay exclusive
+  const renderChoice = (question: MatrixRow, option: MatrixColumn, id: string, label?: string) =>
+    cellType === 'checkbox' ? (
+      <Checkbox
+        id={id}
+        checked={isSelected(question.id, option)}
+        onCheckedChange={() => handleSelect(question.id, option.value)}
+        disabled={disabled}
+        aria-invalid={!!rowErrors[question.id]}
+        aria-label={label}
+        className={cn(isSelected(question.id, option) && themeConfig.container.activeBorder)}
+      />
+    ) : (
+      <RadioGroupItem
+        id={id}
+        value={option.value}
+        aria-invalid={!!error}
+        aria-label={label}
+        className={cn(isSelected(question.id, option) && themeConfig.container.activeBorder)}
+      />
+    );
+
+  const renderCell = (question: MatrixRow, option: MatrixColumn, id: string, label?: string) => (
+    <MatrixCellInput
+      block={block}
+      column={option}
+      id={id}
+      value={responses[question.id]?.[option.value]}
+      onChange={(cellValue) => handleCellChange(question.id, option, cellValue)}
+      onBlur={onBlur}
+      disabled={disabled}
+      invalid={!!rowErrors[question.id]}
+      theme={themeConfig}
+      label={label}
+    />
+  );
+
+  const renderRowError = (question: MatrixRow) =>
+    rowErrors[question.id] && (
+      <div className={cn('text-xs text-destructive', themeConfig.field.error)}>
+        {rowErrors[question.id]}
+      </div>
+    );
+
+  // One card per row, for narrow screens
+  const renderCards = () => (
+    <div className="space-y-3">
+      {questions.map((question) => {
+        const headingId = `${block.fieldName}-${question.id}-label`;
+        const answered = isMatrixRowAnswered(block, responses[question.id]);
+
+        const choices = options.map((option) => {
+          const id = `${block.fieldName}-${question.id}-${option.id}`;
+          return (
+            <div key={option.id} className="flex items-center gap-3">
+              {renderChoice(question, option, id)}
+              <Label htmlFor={id} className={cn('font-normal', themeConfig.field.text)}>
+                {option.text}
+              </Label>
+            </div>
+          );
+        });
+
+        return (
+          <div
+            key={question.id}
+            role="group"
+            aria-labelledby={headingId}
+            className={cn(
+              'rounded-md border p-4 space-y-3',
+              themeConfig.container.card,
+              answered && themeConfig.container.activeBg
+            )}
+          >
+            <div id={headingId} className={cn('font-medium', themeConfig.field.text)}>
+              {question.text}
+            </div>
+
+            {isChoice && cellType === 'radio' ? (
+              <RadioGroup
+                name={`${block.fieldName}-${question.id}`}
+                value={responses[question.id] ?? ''}
+                onValueChange={(optionValue) => handleSelect(question.id, optionValue)}
+                disabled={disabled}
+                className="gap-2"
+              >
+                {choices}
+              </RadioGroup>
+            ) : isChoice ? (
+              <div className="space-y-2">{choices}</div>
+            ) : (
+              options.map((option) => {
+                const id = `${block.fieldName}-${question.id}-${option.id}`;
+                return (
+                  <div key={option.id} className="space-y-1">
+                    <Label htmlFor={id} className={cn('text-sm', themeConfig.field.text)}>
+                      {option.text}
+                    </Label>
+                    <div>{renderCell(question, option, id)}</div>
+                  </div>
+                );
+              })
+            )}
+
+            {renderRowError(question)}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTable = () => (
+    <div className={cn('rounded-md border overflow-x-auto', themeConfig.container.card)}>
+      <Table>
+        <TableHeader className={themeConfig.container.header}>
+          <TableRow>
+            <TableHead className="w-[250px]">
+              {block.columnHeader || ''}
+            </TableHead>
+
+            {options.map((option) => (
+              <TableHead
+                key={option.id}
+                className="text-center whitespace-nowrap"
+              >
+                {option.text}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {questions.map((question) => (
+            <TableRow
+              key={question.id}
+              className={cn(
+                isMatrixRowAnswered(block, responses[question.id]) && themeConfig.container.activeBg
+              )}
+            >
+              <TableCell
+                className={cn('font-medium', themeConfig.field.text)}
+              >
+                {question.text}
+                {renderRowError(question)}
+              </TableCell>
+
+              {options.map((option) => {
+                const id = `${block.fieldName}-${question.id}-${option.id}`;
+                const label = `${question.text}: ${option.text}`;
+
+                return (
+                  <TableCell key={option.id} className="text-center">
+                    <div className="flex items-center justify-center">
+                      {!isChoice ? (
+                        renderCell(question, option, id, label)
+                      ) : cellType === 'radio' ? (
+                        <RadioGroup
+                          name={`${block.fieldName}-${question.id}`}
+                          value={responses[question.id]}
+                          onValueChange={(value) =>
+                            handleSelect(question.id, value)
+                          }
+                          disabled={disabled}
+                          className="flex"
+                        >
+                          {renderChoice(question, option, id, label)}
+                        </RadioGroup>
+                      ) : (
+                        renderChoice(question, option, id, label)
+                      )}
+                    </div>
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
   return (
-    <div className="survey-matrix space-y-4 w-full min-w-0">
+    <div ref={containerRef} className="survey-matrix space-y-4 w-full min-w-0">
       {/* Matrix Title */}
       {block.label && (
         <Label className={cn('text-base block', themeConfig.field.label)}>
@@ -520,74 +907,8 @@ const MatrixRenderer: React.FC<MatrixRendererProps> = ({
         </div>
       )}
 
-      {/* Matrix Table */}
-      <div className={cn('rounded-md border', themeConfig.container.card)}>
-        <Table>
-          <TableHeader className={themeConfig.container.header}>
-            <TableRow>
-              <TableHead className="w-[250px]">
-                {block.columnHeader || ''}
-              </TableHead>
-
-              {options.map((option) => (
-                <TableHead
-                  key={option.id}
-                  className="text-center whitespace-nowrap"
-                >
-                  {option.text}
-                </TableHead>
-              ))}
-            </TableRow>
-          </TableHeader>
-
-          <TableBody>
-            {questions.map((question) => (
-              <TableRow
-                key={question.id}
-                className={cn(
-                  responses[question.id] && themeConfig.container.activeBg
-                )}
-              >
-                <TableCell
-                  className={cn('font-medium', themeConfig.field.text)}
-                >
-                  {question.text}
-                </TableCell>
-
-                {options.map((option) => {
-                  const id = `${block.fieldName}-${question.id}-${option.id}`;
-                  const isSelected = responses[question.id] === option.value;
-
-                  return (
-                    <TableCell key={option.id} className="text-center">
-                      <div className="flex items-center justify-center">
-                        <RadioGroup
-                          name={`${block.fieldName}-${question.id}`}
-                          value={responses[question.id]}
-                          onValueChange={(value) =>
-                            handleSelect(question.id, value)
-                          }
-                          disabled={disabled}
-                          className="flex"
-                        >
-                          <RadioGroupItem
-                            id={id}
-                            value={option.value}
-                            aria-invalid={!!error}
-                            className={cn(
-                              isSelected && themeConfig.container.activeBorder
-                            )}
-                          />
-                        </RadioGroup>
-                      </div>
-                    </TableCell>
-                  );
-                })}
-              </TableRow>
-            ))}
-          </TableBody>
-        </Table>
-      </div>
+      {/* Matrix Table, or cards on narrow screens */}
+      {isNarrow ? renderCards() : renderTable()}
 
       {/* Error message */}
       {error && (
@@ -606,9 +927,9 @@ const MatrixRenderer: React.FC<MatrixRendererProps> = ({
 
 // Sortable question component for drag and drop
 interface SortableMatrixQuestionProps {
-  question: MatrixQuestion;
+  question: MatrixRow;
   index: number;
-  onUpdateQuestion: (index: number, text: string) => void;
+  onUpdateQuestion: (index: number, changes: Partial<MatrixRow>) => void;
   onRemoveQuestion: (index: number) => void;
 }
 
@@ -649,10 +970,20 @@ const SortableMatrixQuestion: React.FC<SortableMatrixQuestionProps> = ({
       <div className="flex-grow">
         <Input
           value={question.text}
-          onChange={(e) => onUpdateQuestion(index, e.target.value)}
+          onChange={(e) => onUpdateQuestion(index, { text: e.target.value })}
           placeholder="Question text"
         />
       </div>
+      <div className="flex items-center gap-1.5">
+        <Checkbox
+          id={`matrix-row-required-${question.id}`}
+          checked={!!question.required}
+          onCheckedChange={(checked) => onUpdateQuestion(index, { required: checked === true })}
+        />
+        <Label className="text-xs" htmlFor={`matrix-row-required-${question.id}`}>
+          Required
+        </Label>
+      </div>
       <Button
         type="button"
         variant="ghost"
@@ -668,19 +999,21 @@ const SortableMatrixQuestion: React.FC<SortableMatrixQuestionProps> = ({
 
 // Sortable option component for drag and drop
 interface SortableMatrixOptionProps {
-  option: MatrixOption;
+  option: MatrixColumn;
   index: number;
-  onUpdateOption: (
-    index: number,
-    field: 'text' | 'value',
-    value: string
-  ) => void;
+  /** Show the column's cell type and validation (dropdown, text, number and rating matrices) */
+  showCellSettings: boolean;
+  /** Cell type the column has without an override */
+  defaultCellType: MatrixCellType;
+  onUpdateOption: (index: number, changes: Partial<MatrixColumn>) => void;
   onRemoveOption: (index: number) => void;
 }
 
 const SortableMatrixOption: React.FC<SortableMatrixOptionProps> = ({
   option,
   index,
+  showCellSettings,
+  defaultCellType,
   onUpdateOption,
   onRemoveOption,
 }) => {
@@ -699,40 +1032,127 @@ const SortableMatrixOption: React.FC<SortableMatrixOptionProps> = ({
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const cellType = option.cellType || defaultCellType;
+  const toNumber = (value: string) => (value === '' ? undefined : Number(value));
+
   return (
-    <div ref={setNodeRef} style={style} className="flex items-center gap-2">
-      <button
-        type="button"
-        className="cursor-grab hover:cursor-grabbing text-muted-foreground hover:text-foreground transition-colors"
-        {...attributes}
-        {...listeners}
-      >
-        <GripVertical className="h-4 w-4" />
-      </button>
-      <div className="w-6 h-6 flex items-center justify-center">
-        <span className="text-xs text-muted-foreground">{index + 1}</span>
-      </div>
-      <div className="flex-grow grid grid-cols-2 gap-2">
-        <Input
-          value={option.text}
-          onChange={(e) => onUpdateOption(index, 'text', e.target.value)}
-          placeholder="Option label"
-        />
-        <Input
-          value={option.value}
-          onChange={(e) => onUpdateOption(index, 'value', e.target.value)}
-          placeholder="Option value"
-        />
+    <div ref={setNodeRef} style={style} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className="cursor-grab hover:cursor-grabbing text-muted-foreground hover:text-foreground transition-colors"
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <div className="w-6 h-6 flex items-center justify-center">
+          <span className="text-xs text-muted-foreground">{index + 1}</span>
+        </div>
+        <div className="flex-grow grid grid-cols-2 gap-2">
+          <Input
+            value={option.text}
+            onChange={(e) => onUpdateOption(index, { text: e.target.value })}
+            placeholder="Option label"
+          />
+          <Input
+            value={option.value}
+            onChange={(e) => onUpdateOption(index, { value: e.target.value })}
+            placeholder="Option value"
+          />
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onRemoveOption(index)}
+          className="text-destructive"
+        >
+          <CircleX className="h-4 w-4" />
+        </Button>
       </div>
-      <Button
-        type="button"
-        variant="ghost"
-        size="icon"
-        onClick={() => onRemoveOption(index)}
-        className="text-destructive"
-      >
-        <CircleX className="h-4 w-4" />
-      </Button>
+
+      {showCellSettings && (
+        <div className="ms-14 me-10 grid grid-cols-2 gap-2">
+          <Select
+            value={cellType}
+            onValueChange={(value: Exclude<MatrixCellType, 'radio'>) =>
+              onUpdateOption(index, { cellType: value === defaultCellType ? undefined : value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLUMN_CELL_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type === 'checkbox' ? 'Checkbox' : CELL_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1.5">
+            <Checkbox
+              id={`matrix-column-required-${option.id}`}
+              checked={!!option.required}
+              onCheckedChange={(checked) => onUpdateOption(index, { required: checked === true })}
+            />
+            <Label className="text-xs" htmlFor={`matrix-column-required-${option.id}`}>
+              Required in answered rows
+            </Label>
+          </div>
+
+          {cellType === 'dropdown' && (
+            <Input
+              className="col-span-2"
+              value={(option.choices || []).map((choice) => choice.text).join(', ')}
+              onChange={(e) =>
+                onUpdateOption(index, {
+                  choices: e.target.value
+                    .split(',')
+                    .map((text) => text.trim())
+                    .filter(Boolean)
+                    .map((text) => ({ id: text, text, value: text })),
+                })
+              }
+              placeholder="Choices (comma separated)"
+            />
+          )}
+          {(cellType === 'number' || cellType === 'text') && (
+            <>
+              <Input
+                type="number"
+                value={option.min ?? ''}
+                onChange={(e) => onUpdateOption(index, { min: toNumber(e.target.value) })}
+                placeholder={cellType === 'text' ? 'Min length' : 'Min value'}
+              />
+              <Input
+                type="number"
+                value={option.max ?? ''}
+                onChange={(e) => onUpdateOption(index, { max: toNumber(e.target.value) })}
+                placeholder={cellType === 'text' ? 'Max length' : 'Max value'}
+              />
+            </>
+          )}
+          {cellType === 'text' && (
+            <Input
+              className="col-span-2"
+              value={option.pattern || ''}
+              onChange={(e) => onUpdateOption(index, { pattern: e.target.value || undefined })}
+              placeholder="Pattern (regular expression)"
+            />
+          )}
+          {cellType === 'rating' && (
+            <Input
+              type="number"
+              min={2}
+              value={option.max ?? ''}
+              onChange={(e) => onUpdateOption(index, { max: toNumber(e.target.value) })}
+              placeholder={`Stars (${DEFAULT_RATING_MAX})`}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -740,9 +1160,9 @@ const SortableMatrixOption: React.FC<SortableMatrixOptionProps> = ({
 // Chat Renderer Types
 interface ChatRendererProps {
   block: BlockData;
-  value?: Record<string, string>;
-  onChange: (value: Record<string, string>) => void;
-  onSubmit: (value: Record<string, string>) => void;
+  value?: MatrixValue;
+  onChange: (value: MatrixValue) => void;
+  onSubmit: (value: MatrixValue) => void;
   theme?: ThemeDefinition;
   disabled?: boolean;
   error?: string;
@@ -761,23 +1181,29 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
 
   // Parse matrix data from block
-  const questions: MatrixQuestion[] = block.questions || [];
-  const options: MatrixOption[] = block.options || [];
+  const questions = useMatrixRows(block);
+  const options: MatrixColumn[] = block.options || [];
+  const cellType = getMatrixCellType(block);
+  const isChoice = isChoiceMatrix(block);
+  // Surveys that say which rows must be answered let the others be skipped
+  const rowsOptional = !!block.minAnsweredRows || questions.some((question) => question.required);
 
   // Track current step (which question we're on)
   const [currentStep, setCurrentStep] = useState<number>(() => {
     // Start at first unanswered question
-    const firstUnanswered = questions.findIndex((q) => !value[q.id]);
+    const firstUnanswered = questions.findIndex((q) => !isMatrixRowAnswered(block, value[q.id]));
     return firstUnanswered === -1 ? questions.length : firstUnanswered;
   });
 
   // Local responses state
-  const [responses, setResponses] = useState<Record<string, string>>(
+  const [responses, setResponses] = useState<MatrixValue>(
     () => value || {}
   );
+  const [rowError, setRowError] = useState<string | null>(null);
 
   // Sync with external value changes
   useEffect(() => {
@@ -789,35 +1215,93 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
   // Current question being shown
   const currentQuestion = questions[currentStep];
   const isComplete = currentStep >= questions.length;
-  const answeredCount = Object.keys(responses).length;
+  const blockError = validateMatrixValue(responses, block).error;
+
+  const updateResponses = (questionId: string, rowValue: any) => {
+    const newResponses = { ...responses };
+    if (rowValue === undefined || (Array.isArray(rowValue) && rowValue.length === 0)) {
+      delete newResponses[questionId];
+    } else {
+      newResponses[questionId] = rowValue;
+    }
+    setResponses(newResponses);
+    onChange(newResponses);
+    setRowError(null);
+    return newResponses;
+  };
+
+  const goToNext = (newResponses: MatrixValue) => {
+    setRowError(null);
+    if (currentStep < questions.length - 1) {
+      setCurrentStep(currentStep + 1);
+    } else {
+      // All questions answered, submit directly when the answer is complete
+      setCurrentStep(questions.length);
+      if (!validateMatrixValue(newResponses, block).error) {
+        onSubmit(newResponses);
+      }
+    }
+  };
 
   // Handle selecting an option for the current question
   const handleOptionSelect = (optionValue: string) => {
     if (disabled || !currentQuestion) return;
 
-    const newResponses = {
-      ...responses,
-      [currentQuestion.id]: optionValue,
-    };
+    if (cellType === 'checkbox') {
+      const selected: string[] = Array.isArray(responses[currentQuestion.id]) ? responses[currentQuestion.id] : [];
+      updateResponses(
+        currentQuestion.id,
+        selected.includes(optionValue)
+          ? selected.filter((selectedValue) => selectedValue !== optionValue)
+          : [...selected, optionValue]
+      );
+      return;
+    }
 
-    setResponses(newResponses);
-    onChange(newResponses);
+    const newResponses = updateResponses(currentQuestion.id, optionValue);
 
     // Auto-advance to next question after a brief delay
-    setTimeout(() => {
-      if (currentStep < questions.length - 1) {
-        setCurrentStep(currentStep + 1);
-      } else {
-        // All questions answered, submit directly
-        setCurrentStep(questions.length);
-        onSubmit(newResponses);
+    setTimeout(() => goToNext(newResponses), 300);
+  };
+
+  const handleCellChange = (column: MatrixColumn, cellValue: any) => {
+    if (!currentQuestion) return;
+    const row = { ...(responses[currentQuestion.id] || {}) };
+    if (cellValue === undefined) {
+      delete row[column.value];
+    } else {
+      row[column.value] = cellValue;
+    }
+    updateResponses(currentQuestion.id, Object.keys(row).length > 0 ? row : undefined);
+  };
+
+  // Checkbox and cell rows are confirmed with a button
+  const handleNext = () => {
+    if (!currentQuestion) return;
+    const rowValue = responses[currentQuestion.id];
+
+    if (!isMatrixRowAnswered(block, rowValue)) {
+      if (!rowsOptional || currentQuestion.required) {
+        setRowError(t('validation.required'));
+        return;
+      }
+    } else if (!isChoice) {
+      for (const column of options) {
+        const cellError = validateMatrixCell(block, column, rowValue?.[column.value]);
+        if (cellError) {
+          setRowError(`${column.text}: ${cellError}`);
+          return;
+        }
       }
-    }, 300);
+    }
+
+    goToNext(responses);
   };
 
   // Handle going back to a previous question
   const handleGoBack = () => {
     if (currentStep > 0) {
+      setRowError(null);
       setCurrentStep(currentStep - 1);
     }
   };
@@ -832,15 +1316,15 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
     return (
       <div className="flex flex-col gap-4 w-full">
         {/* Error message */}
-        {error && (
-          <p className={cn('text-sm', themeConfig.field.error)}>{error}</p>
+        {(error || blockError) && (
+          <p className={cn('text-sm', themeConfig.field.error)}>{error || blockError}</p>
         )}
 
         {/* Submit button */}
         <Button
           type="button"
           onClick={handleSubmit}
-          disabled={disabled || answeredCount < questions.length}
+          disabled={disabled || !!blockError}
           className={cn(
             'h-12 rounded-xl w-full font-semibold',
             themeConfig.button.primary
@@ -849,7 +1333,7 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
             backgroundColor: themeConfig.colors.primary,
           }}
         >
-          Continue
+          {t('ui.continue')}
         </Button>
       </div>
     );
@@ -864,7 +1348,7 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
           <button
             type="button"
             onClick={handleGoBack}
-            className="absolute left-0 top-0 text-sm underline h-full flex items-start cursor-pointer"
+            className="absolute start-0 top-0 text-sm underline h-full flex items-start cursor-pointer"
             style={{ color: themeConfig.colors.primary }}
           >
             Back
@@ -898,69 +1382,113 @@ const MatrixChatRenderer: React.FC<ChatRendererProps> = ({
         {currentQuestion?.text}
       </p>
 
-      {/* Option buttons */}
-      <div className="flex flex-col gap-2">
-        {options.map((option) => {
-          const isSelected = responses[currentQuestion?.id] === option.value;
-
-          return (
-            <button
-              key={option.id}
-              type="button"
-              onClick={() => handleOptionSelect(option.value)}
-              disabled={disabled}
-              className={cn(
-                'relative w-full flex justify-between items-center transition-all border',
-                themeConfig.field.select,
-                disabled && 'opacity-50 cursor-not-allowed'
-              )}
-              style={{
-                borderColor: isSelected
-                  ? themeConfig.colors.primary
-                  : themeConfig.colors.border,
-              }}
-            >
-              <p
+      {/* Option buttons, or the row's cells */}
+      {isChoice ? (
+        <div className="flex flex-col gap-2">
+          {options.map((option) => {
+            const isSelected =
+              cellType === 'checkbox'
+                ? Array.isArray(responses[currentQuestion?.id]) &&
+                  responses[currentQuestion.id].includes(option.value)
+                : responses[currentQuestion?.id] === option.value;
+
+            return (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => handleOptionSelect(option.value)}
+                disabled={disabled}
+                aria-pressed={cellType === 'checkbox' ? isSelected : undefined}
                 className={cn(
-                  'text-left transition-colors mb-0',
-                  themeConfig.field.label
+                  'relative w-full flex justify-between items-center transition-all border',
+                  themeConfig.field.select,
+                  disabled && 'opacity-50 cursor-not-allowed'
                 )}
-                style={{
-                  color: isSelected
-                    ? themeConfig.colors.primary
-                    : themeConfig.colors.text,
-                  marginBottom: 0,
-                  fontWeight: 500,
-                }}
-              >
-                {option.text}
-              </p>
-
-              {/* Radio indicator */}
-              <div
-                className="flex h-6 w-6 items-center justify-center rounded-full border bg-white shrink-0 transition-colors"
                 style={{
                   borderColor: isSelected
                     ? themeConfig.colors.primary
                     : themeConfig.colors.border,
-                  flexShrink: 0,
                 }}
               >
-                {isSelected && (
-                  <div
-                    className="h-3 w-3 rounded-full"
-                    style={{ backgroundColor: themeConfig.colors.primary }}
-                  />
-                )}
+                <p
+                  className={cn(
+                    'text-start transition-colors mb-0',
+                    themeConfig.field.label
+                  )}
+                  style={{
+                    color: isSelected
+                      ? themeConfig.colors.primary
+                      : themeConfig.colors.text,
+                    marginBottom: 0,
+                    fontWeight: 500,
+                  }}
+                >
+                  {option.text}
+                </p>
+
+                {/* Radio or checkbox indicator */}
+                <div
+                  className={cn(
+                    'flex h-6 w-6 items-center justify-center border bg-white shrink-0 transition-colors',
+                    cellType === 'checkbox' ? 'rounded-md' : 'rounded-full'
+                  )}
+                  style={{
+                    borderColor: isSelected
+                      ? themeConfig.colors.primary
+                      : themeConfig.colors.border,
+                    flexShrink: 0,
+                  }}
+                >
+                  {isSelected && (
+                    <div
+                      className={cn('h-3 w-3', cellType === 'checkbox' ? 'rounded-sm' : 'rounded-full')}
+                      style={{ backgroundColor: themeConfig.colors.primary }}
+                    />
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="flex flex-col gap-3">
+          {options.map((option) => {
+            const id = `${block.fieldName}-chat-${currentQuestion.id}-${option.id}`;
+            return (
+              <div key={option.id} className="flex flex-col gap-1.5">
+                <Label htmlFor={id} className={cn('text-sm', themeConfig.field.text)}>
+                  {option.text}
+                </Label>
+                <MatrixCellInput
+                  block={block}
+                  column={option}
+                  id={id}
+                  value={responses[currentQuestion.id]?.[option.value]}
+                  onChange={(cellValue) => handleCellChange(option, cellValue)}
+                  disabled={disabled}
+                  theme={themeConfig}
+                />
               </div>
-            </button>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(cellType === 'checkbox' || !isChoice) && (
+        <Button
+          type="button"
+          onClick={handleNext}
+          disabled={disabled}
+          className={cn('h-12 rounded-xl w-full font-semibold', themeConfig.button.primary)}
+          style={{ backgroundColor: themeConfig.colors.primary }}
+        >
+          {t('ui.next')}
+        </Button>
+      )}
 
       {/* Error message */}
-      {error && (
-        <p className={cn('text-sm', themeConfig.field.error)}>{error}</p>
+      {(rowError || error) && (
+        <p className={cn('text-sm', themeConfig.field.error)}>{rowError || error}</p>
       )}
     </div>
   );
@@ -971,6 +1499,8 @@ export const MatrixBlock: BlockDefinition = {
   type: 'matrix',
   name: 'Matrix / Grid',
   description: 'Grid of questions with the same response options',
+  category: 'Choice',
+  tags: ['grid', 'likert', 'table', 'rating scale'],
   icon: <Grid3X3 className="w-4 h-4" />,
   defaultData: {
     type: 'matrix',
@@ -978,6 +1508,7 @@ export const MatrixBlock: BlockDefinition = {
     label: 'Please rate the following items',
     description: 'Select one option for each row',
     columnHeader: 'Rating',
+    cellType: 'radio',
     questions: [
       { id: uuidv4(), text: 'Item 1' },
       { id: uuidv4(), text: 'Item 2' },
@@ -996,6 +1527,7 @@ export const MatrixBlock: BlockDefinition = {
     label: 'Please rate the following items',
     description: 'Select one option for each row',
     columnHeader: 'Rating',
+    cellType: 'radio',
     questions: [
       { id: uuidv4(), text: 'Item 1' },
       { id: uuidv4(), text: 'Item 2' },
@@ -1021,8 +1553,16 @@ export const MatrixBlock: BlockDefinition = {
       return 'At least one question is required';
     if (!data.options || data.options.length === 0)
       return 'At least one option is required';
+    if (data.minAnsweredRows && data.minAnsweredRows > data.questions.length)
+      return 'Minimum answered rows cannot exceed the number of rows';
+    const dropdownWithoutChoices = (data.options as MatrixColumn[]).find(
+      (column) => getMatrixCellType(data, column) === 'dropdown' && !column.choices?.length
+    );
+    if (dropdownWithoutChoices)
+      return `Dropdown column "${dropdownWithoutChoices.text}" needs choices`;
     return null;
   },
+  validateValue: (value, data) => validateMatrixValue(value, data).error,
   // Input schema - signals to the AI handler that it should treat the block as a multi-step collection flow, asking about each row individually
   inputSchema: {
     type: 'object',
@@ -1030,11 +1570,10 @@ export const MatrixBlock: BlockDefinition = {
       // Dynamic keys based on questions, values are strings (selected option values)
     },
   },
-  // Output schema - this block returns an object with question IDs mapped to selected values
+  // Output schema - this block returns an object keyed by question ID; see getOutputSchema for the row shape
   outputSchema: {
     type: 'object',
-    properties: {
-      // Dynamic keys based on questions, values are strings (selected option values)
-    },
+    properties: {},
   },
+  getOutputSchema: (data) => getMatrixOutputSchema(data),
 };
@@ -33,6 +33,9 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useSurveyForm } from '../context/SurveyFormContext';
+import { OptionSearch } from '../components/ui/OptionSearch';
+import { getStaticOptions } from '../utils/optionSources';
 
 interface RadioOption {
   id: string;
@@ -345,6 +348,8 @@ const RadioRenderer: React.FC<RadioRendererProps> = ({
         </div>
       )}
 
+      <OptionSearch block={block} disabled={disabled} />
+
       {/* Radio options */}
       <RadioGroup
         value={value?.toString()}
@@ -465,6 +470,8 @@ export const RadioBlock: BlockDefinition = {
   type: 'radio',
   name: 'Radio Buttons',
   description: 'Single selection from multiple options',
+  category: 'Choice',
+  tags: ['single choice', 'options', 'multiple choice'],
   icon: <CircleCheck className="w-4 h-4" />,
   defaultData: {
     type: 'radio',
@@ -522,7 +529,7 @@ export const RadioBlock: BlockDefinition = {
   validate: (data) => {
     if (!data.fieldName) return 'Field name is required';
     if (!data.label) return 'Label is required';
-    if (!data.labels || !data.labels.length)
+    if (!data.optionsSource && !getStaticOptions(data).length)
       return 'At least one option is required';
     return null;
   },
@@ -542,6 +549,22 @@ export const RadioBlock: BlockDefinition = {
   outputSchema: {
     type: 'string',
   },
+  configSchema: {
+    properties: {
+      options: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['label', 'value'],
+          properties: {
+            id: { type: 'string' },
+            label: { type: 'string' },
+            value: { type: ['string', 'number', 'boolean'] },
+          },
+        },
+      },
+    },
+  },
   chatRenderer: (props) => <RadioChatRenderer {...props} />,
 };
 
@@ -554,6 +577,7 @@ const RadioChatRenderer: React.FC<ChatRendererProps> = ({
   disabled,
   theme = null,
 }) => {
+  const { t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
   const options: RadioOption[] = block.options || [];
 
@@ -674,7 +698,7 @@ const RadioChatRenderer: React.FC<ChatRendererProps> = ({
           backgroundColor: themeConfig.colors.primary,
         }}
       >
-        Continue
+        {t('ui.continue')}
       </Button>
     </div>
   );
@@ -15,6 +15,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { generateFieldName } from './utils/GenFieldName';
 import { cn } from '../lib/utils';
 import { themes } from '../themes';
+import { useSurveyForm } from '../context/SurveyFormContext';
 
 // Form component for editing the block configuration
 const RangeBlockForm: React.FC<ContentBlockItemProps> = ({
@@ -201,8 +202,8 @@ const RangeBlockItem: React.FC<ContentBlockItemProps> = ({ data }) => {
       marks.push(
         <div
           key={i}
-          className="absolute text-xs -translate-x-1/2"
-          style={{ left: `${((i - min) / (max - min)) * 100}%`, top: '20px' }}
+          className="absolute text-xs -translate-x-1/2 rtl:translate-x-1/2"
+          style={{ insetInlineStart: `${((i - min) / (max - min)) * 100}%`, top: '20px' }}
         >
           {i}
         </div>
@@ -349,8 +350,8 @@ const RangeRenderer: React.FC<RangeRendererProps> = ({
       marks.push(
         <div
           key={i}
-          className="absolute text-xs -translate-x-1/2"
-          style={{ left: `${percentage}%`, top: '20px' }}
+          className="absolute text-xs -translate-x-1/2 rtl:translate-x-1/2"
+          style={{ insetInlineStart: `${percentage}%`, top: '20px' }}
         >
           {i}
         </div>
@@ -447,6 +448,7 @@ const RangeChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error: externalError,
 }) => {
+  const { t } = useSurveyForm();
   // Parse block configuration
   const min = parseInt(String(block.min || '0'), 10);
   const max = parseInt(String(block.max || '100'), 10);
@@ -531,7 +533,7 @@ const RangeChatRenderer: React.FC<ChatRendererProps> = ({
             : undefined
         }
       >
-        Continue
+        {t('ui.continue')}
       </Button>
     </div>
   );
@@ -542,6 +544,8 @@ export const RangeBlock: BlockDefinition = {
   type: 'range',
   name: 'Range Slider',
   description: 'Slider for selecting numeric values within a range',
+  category: 'Advanced',
+  tags: ['slider', 'scale', 'rating', 'number'],
   icon: <ArrowRightToLine className="w-4 h-4" />,
   defaultData: {
     type: 'range',
@@ -605,4 +609,12 @@ export const RangeBlock: BlockDefinition = {
   outputSchema: {
     type: 'number',
   },
+  configSchema: {
+    properties: {
+      min: { type: ['number', 'null'] },
+      max: { type: ['number', 'null'] },
+      step: { type: ['number', 'null'], minimum: 0 },
+      markStep: { type: ['number', 'null'], minimum: 0 },
+    },
+  },
 };
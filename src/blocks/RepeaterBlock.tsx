@@ -0,0 +1,512 @@
+import React, { useRef, useState } from 'react';
+import type {
+  BlockData,
+  BlockDefinition,
+  BlockRendererProps,
+  ContentBlockItemProps,
+} from '../types';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Button } from '../components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../components/ui/select';
+import { ChevronDown, CirclePlus, CircleX, Repeat } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { generateFieldName } from './utils/GenFieldName';
+import { cn } from '../lib/utils';
+import { themes } from '../themes';
+import { useSurveyForm } from '../context/SurveyFormContext';
+import { BlockRenderer } from '../renderer/renderers/BlockRenderer';
+import { getAllBlockDefinitions, getBlockDefinition } from './index';
+import {
+  getRepeaterChildBlock,
+  getRepeaterEntries,
+  getVisibleRepeaterChildren,
+  validateRepeaterValue,
+  type RepeaterEntry,
+} from '../utils/repeater';
+
+const createTemplate = (): BlockData[] => [
+  {
+    type: 'textfield',
+    uuid: uuidv4(),
+    fieldName: 'name',
+    label: 'Name',
+    placeholder: '',
+    required: true,
+  },
+  {
+    type: 'textfield',
+    uuid: uuidv4(),
+    fieldName: 'details',
+    label: 'Details',
+    placeholder: '',
+  },
+];
+
+// Form component for editing the block configuration
+const RepeaterBlockForm: React.FC<ContentBlockItemProps> = ({
+  data,
+  onUpdate,
+}) => {
+  const template: BlockData[] = data.template || [];
+  const [expandedChild, setExpandedChild] = useState<string | null>(null);
+
+  // Any registered block can be repeated, except another repeater
+  const childTypes = getAllBlockDefinitions().filter(
+    (definition) => definition.type !== 'repeater' && definition.renderBlock
+  );
+
+  const handleChange = (field: string, value: any) => {
+    onUpdate?.({
+      ...data,
+      [field]: value,
+    });
+  };
+
+  const handleAddChild = (type: string) => {
+    const definition = getBlockDefinition(type);
+    if (!definition) return;
+    const child = {
+      ...(definition.generateDefaultData?.() ?? definition.defaultData),
+      uuid: uuidv4(),
+    };
+    handleChange('template', [...template, child]);
+    setExpandedChild(child.uuid);
+  };
+
+  const handleUpdateChild = (index: number, child: BlockData) => {
+    const newTemplate = [...template];
+    newTemplate[index] = child;
+    handleChange('template', newTemplate);
+  };
+
+  const handleRemoveChild = (index: number) => {
+    const newTemplate = [...template];
+    newTemplate.splice(index, 1);
+    handleChange('template', newTemplate);
+  };
+
+  const handleCountChange = (field: 'minItems' | 'maxItems', value: string) => {
+    handleChange(field, value === '' ? undefined : Math.max(0, Number(value)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="fieldName">
+            Field Name
+          </Label>
+          <Input
+            id="fieldName"
+            value={data.fieldName || ''}
+            onChange={(e) => handleChange('fieldName', e.target.value)}
+            placeholder="medications"
+          />
+          <p className="text-xs text-muted-foreground">
+            Stores a list with one object per entry
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="label">
+            Label
+          </Label>
+          <Input
+            id="label"
+            value={data.label || ''}
+            onChange={(e) => handleChange('label', e.target.value)}
+            placeholder="List each medication you take"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm" htmlFor="description">
+          Description/Help Text
+        </Label>
+        <Input
+          id="description"
+          value={data.description || ''}
+          onChange={(e) => handleChange('description', e.target.value)}
+          placeholder="Additional information about this question"
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="itemLabel">
+            Entry Name
+          </Label>
+          <Input
+            id="itemLabel"
+            value={data.itemLabel || ''}
+            onChange={(e) => handleChange('itemLabel', e.target.value)}
+            placeholder="Medication"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="minItems">
+            Minimum Entries
+          </Label>
+          <Input
+            id="minItems"
+            type="number"
+            min={0}
+            value={data.minItems ?? ''}
+            onChange={(e) => handleCountChange('minItems', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm" htmlFor="maxItems">
+            Maximum Entries
+          </Label>
+          <Input
+            id="maxItems"
+            type="number"
+            min={0}
+            value={data.maxItems ?? ''}
+            onChange={(e) => handleCountChange('maxItems', e.target.value)}
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      {/* Questions asked for every entry */}
+      <div className="space-y-2 border rounded-md p-4">
+        <Label>Questions for each entry</Label>
+        <p className="text-xs text-muted-foreground">
+          Field names become the keys of each entry, e.g.{' '}
+          <code>{`${data.fieldName || 'medications'}[0].${template[0]?.fieldName || 'name'}`}</code>
+        </p>
+
+        <div className="space-y-2">
+          {template.map((child, index) => {
+            const definition = getBlockDefinition(child.type);
+            const key = child.uuid || String(index);
+            const isExpanded = expandedChild === key;
+            return (
+              <div key={key} className="border rounded-md">
+                <div className="flex items-center gap-2 p-2">
+                  <button
+                    type="button"
+                    className="flex flex-1 items-center gap-2 text-left text-sm"
+                    onClick={() => setExpandedChild(isExpanded ? null : key)}
+                  >
+                    <ChevronDown
+                      className={cn(
+                        'h-4 w-4 text-muted-foreground transition-transform',
+                        !isExpanded && '-rotate-90'
+                      )}
+                    />
+                    <span className="font-medium">
+                      {child.label || child.fieldName || definition?.name}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {definition?.name || child.type}
+                    </span>
+                  </button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemoveChild(index)}
+                  >
+                    <CircleX className="h-4 w-4 text-muted-foreground" />
+                  </Button>
+                </div>
+                {isExpanded && definition?.renderFormFields && (
+                  <div className="border-t p-3">
+                    {definition.renderFormFields({
+                      data: child,
+                      onUpdate: (updated) => handleUpdateChild(index, updated),
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex items-center gap-2 pt-2 border-t">
+            <CirclePlus className="h-4 w-4 text-muted-foreground" />
+            <Select value="" onValueChange={handleAddChild}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add a question" />
+              </SelectTrigger>
+              <SelectContent>
+                {childTypes.map((definition) => (
+                  <SelectItem key={definition.type} value={definition.type}>
+                    {definition.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Component to render the block in the builder canvas
+const RepeaterBlockItem: React.FC<ContentBlockItemProps> = ({ data }) => {
+  const template: BlockData[] = data.template || [];
+  const itemLabel = data.itemLabel || 'Entry';
+
+  return (
+    <div className="space-y-3">
+      {data.label && <h3 className="text-lg font-medium">{data.label}</h3>}
+
+      {data.description && (
+        <p className="text-sm text-muted-foreground">{data.description}</p>
+      )}
+
+      <div className="border rounded-md p-3 space-y-2">
+        <div className="text-sm font-medium">{itemLabel} 1</div>
+        {template.map((child, index) => (
+          <div
+            key={child.uuid || index}
+            className="flex items-center justify-between text-sm border rounded px-3 py-2"
+          >
+            <span>{child.label || child.fieldName}</span>
+            <span className="text-xs text-muted-foreground">
+              {getBlockDefinition(child.type)?.name || child.type}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <Button type="button" variant="outline" size="sm" disabled>
+        <CirclePlus className="h-4 w-4 mr-2" />
+        Add {itemLabel}
+      </Button>
+    </div>
+  );
+};
+
+// Preview component shown in the block library
+const RepeaterBlockPreview: React.FC = () => {
+  return (
+    <div className="w-full flex items-center justify-center py-1">
+      <div className="w-4/5 max-w-full h-10 border rounded-md flex items-center justify-center">
+        <Repeat className="w-4 h-4 mr-2 text-muted-foreground" />
+        <span className="text-sm text-muted-foreground">Repeating group</span>
+      </div>
+    </div>
+  );
+};
+
+const RepeaterRenderer: React.FC<BlockRendererProps> = ({
+  block,
+  value,
+  onChange,
+  onBlur,
+  error,
+  disabled,
+  customComponents,
+  theme = null,
+}) => {
+  const themeConfig = theme ?? themes.default;
+  const { t, values } = useSurveyForm();
+  const itemLabel = block.itemLabel || 'Entry';
+  const minItems = block.minItems || 0;
+
+  // Show empty entries up to the minimum; they are stored once something is answered
+  const storedEntries = getRepeaterEntries(value);
+  const entries: RepeaterEntry[] =
+    storedEntries.length >= minItems
+      ? storedEntries
+      : [...storedEntries, ...Array.from({ length: minItems - storedEntries.length }, () => ({}))];
+  const canAdd = !block.maxItems || entries.length < block.maxItems;
+  const canRemove = entries.length > minItems;
+
+  // Stable keys so removing an entry doesn't hand its state to the next one
+  const keysRef = useRef<string[]>([]);
+  while (keysRef.current.length < entries.length) keysRef.current.push(uuidv4());
+  keysRef.current.length = entries.length;
+
+  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const { entryErrors } = validateRepeaterValue(entries, block, getBlockDefinition, values);
+
+  const update = (newEntries: RepeaterEntry[]) => {
+    onChange?.(newEntries);
+  };
+
+  const handleChildChange = (index: number, fieldName: string, childValue: any) => {
+    const newEntries = [...entries];
+    newEntries[index] = { ...newEntries[index], [fieldName]: childValue };
+    update(newEntries);
+  };
+
+  const handleAdd = () => {
+    keysRef.current.push(uuidv4());
+    update([...entries, {}]);
+  };
+
+  const handleRemove = (index: number) => {
+    keysRef.current.splice(index, 1);
+    const newEntries = [...entries];
+    newEntries.splice(index, 1);
+    update(newEntries);
+    if (onBlur) onBlur();
+  };
+
+  return (
+    <div className="survey-repeater space-y-4 w-full min-w-0">
+      {/* Label */}
+      {block.label && (
+        <Label className={cn('text-base', themeConfig.field.label)}>
+          {block.label}
+        </Label>
+      )}
+
+      {/* Description */}
+      {block.description && (
+        <div
+          className={cn(
+            'text-sm text-muted-foreground',
+            themeConfig.field.description
+          )}
+        >
+          {block.description}
+        </div>
+      )}
+
+      {/* Entries */}
+      {entries.map((entry, index) => (
+        <div
+          key={keysRef.current[index]}
+          role="group"
+          aria-label={t('ui.repeater.entry', { item: itemLabel, number: index + 1 })}
+          className="rounded-lg border p-4 space-y-4"
+          style={{ borderColor: themeConfig.colors?.border }}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">
+              {t('ui.repeater.entry', { item: itemLabel, number: index + 1 })}
+            </div>
+            {canRemove && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(index)}
+                disabled={disabled}
+              >
+                <CircleX className="h-4 w-4 me-1" />
+                {t('ui.repeater.remove')}
+              </Button>
+            )}
+          </div>
+
+          {getVisibleRepeaterChildren(block, entry, values).map((child) => {
+            const childKey = `${index}.${child.fieldName}`;
+            const childError = entryErrors[index]?.[child.fieldName];
+            return (
+              <BlockRenderer
+                key={child.uuid || child.fieldName}
+                block={getRepeaterChildBlock(block, child, index)}
+                value={entry[child.fieldName]}
+                onChange={(childValue) => handleChildChange(index, child.fieldName, childValue)}
+                onBlur={() => {
+                  setTouched((prev) => ({ ...prev, [childKey]: true }));
+                  if (onBlur) onBlur();
+                }}
+                // Entry errors show once the field was left or the block was validated
+                error={childError && (touched[childKey] || error) ? childError : undefined}
+                disabled={disabled}
+                customComponents={customComponents}
+                theme={theme}
+              />
+            );
+          })}
+        </div>
+      ))}
+
+      {canAdd && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleAdd}
+          disabled={disabled}
+          className={cn(themeConfig.button?.secondary)}
+        >
+          <CirclePlus className="h-4 w-4 me-2" />
+          {t('ui.repeater.add', { item: itemLabel })}
+        </Button>
+      )}
+
+      {/* Error message */}
+      {error && (
+        <div
+          className={cn(
+            'text-sm font-medium text-destructive',
+            themeConfig.field.error
+          )}
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Export the block definition
+export const RepeaterBlock: BlockDefinition = {
+  type: 'repeater',
+  name: 'Repeating Group',
+  description: 'Respondents add as many entries as they need, each with the same questions',
+  category: 'Advanced',
+  tags: ['repeat', 'list', 'group', 'loop'],
+  icon: <Repeat className="w-4 h-4" />,
+  defaultData: {
+    type: 'repeater',
+    fieldName: generateFieldName('repeater'),
+    label: 'Add each item',
+    description: '',
+    itemLabel: 'Item',
+    minItems: 1,
+    template: createTemplate(),
+  },
+  generateDefaultData: () => ({
+    type: 'repeater',
+    fieldName: generateFieldName('repeater'),
+    label: 'Add each item',
+    description: '',
+    itemLabel: 'Item',
+    minItems: 1,
+    template: createTemplate(),
+  }),
+
+  renderItem: (props) => <RepeaterBlockItem {...props} />,
+  renderFormFields: (props) => <RepeaterBlockForm {...props} />,
+  renderPreview: () => <RepeaterBlockPreview />,
+  renderBlock: (props) => <RepeaterRenderer {...props} />,
+  validate: (data) => {
+    if (!data.fieldName) return 'Field name is required';
+    if (!data.label) return 'Label is required';
+    if (!data.template || data.template.length === 0)
+      return 'At least one question is required';
+    const fieldNames = data.template.map((child: BlockData) => child.fieldName).filter(Boolean);
+    if (new Set(fieldNames).size !== fieldNames.length)
+      return 'Questions in a repeating group need unique field names';
+    if (data.maxItems && data.minItems && data.maxItems < data.minItems)
+      return 'Maximum entries must be at least the minimum';
+    return null;
+  },
+  validateValue: (value, data) =>
+    validateRepeaterValue(value, data, getBlockDefinition).error,
+  // Output schema - this block returns an array with one object per entry, keyed by the template's field names
+  outputSchema: {
+    type: 'array',
+    items: {
+      type: 'object',
+    },
+  },
+};
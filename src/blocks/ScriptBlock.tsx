@@ -36,17 +36,18 @@ const ScriptBlockForm: React.FC<ContentBlockItemProps> = ({
         </p>
       </div>
       <div className="space-y-2">
-        <Label className="text-sm" htmlFor="script">JavaScript Code</Label>
+        <Label className="text-sm" htmlFor="script">Script</Label>
         <p className="text-xs text-muted-foreground">
-          This script will be executed when the page is rendered.
-          The script has access to <code>formData</code>, <code>pageData</code>,
-          and <code>renderer</code> objects.
+          This script runs in a sandbox when the page is rendered and whenever values change.
+          It has access to <code>fieldValues</code>, <code>getFieldValue</code>, <code>setValue</code>,
+          <code>setError</code>, <code>currentPage</code> and <code>showAlert</code>.
+          Use <code>throw new Error("...")</code> to reject the current value.
         </p>
         <Textarea
           id="script"
           value={data.script || ""}
           onChange={(e) => handleChange("script", e.target.value)}
-          placeholder="// Example: validate or transform form data\nconsole.log('Running script...');\nformData.calculatedValue = formData.input1 + formData.input2;"
+          placeholder="// Example: validate or transform form data\nconst total = Number(getFieldValue('input1')) + Number(getFieldValue('input2'));\nsetValue('calculatedValue', total);"
           rows={12}
           className="font-mono text-sm"
         />
@@ -79,8 +80,8 @@ const ScriptBlockPreview: React.FC = () => {
   return (
     <div className="w-full flex items-center justify-center py-1">
       <div className="text-center w-4/5 max-w-full text-sm">
-        <span className="text-muted-foreground">JavaScript</span>
-        <code className="px-2 py-1 bg-muted rounded-md text-xs">console.log()</code>
+        <span className="text-muted-foreground">Script</span>
+        <code className="px-2 py-1 bg-muted rounded-md text-xs">setValue()</code>
       </div>
     </div>
   );
@@ -92,7 +93,7 @@ interface ScriptRendererProps {
 }
 
 /**
- * The ScriptRenderer evaluates JavaScript code in a controlled environment.
+ * The ScriptRenderer evaluates the script with the sandboxed expression engine.
  * It doesn't render anything visible but can modify form state, show/hide questions,
  * validate fields, etc. based on the script's logic.
  */
@@ -140,12 +141,14 @@ const ScriptRenderer: React.FC<ScriptRendererProps> = ({ block }) => {
 export const ScriptBlock: BlockDefinition = {
   type: "script",
   name: "Script",
-  description: "Custom JavaScript code for form logic",
+  description: "Custom script for form logic",
+  category: "Logic",
+  tags: ["code", "javascript", "custom logic"],
   icon: <Terminal className="w-4 h-4" />,
   defaultData: {
     type: "script",
     label: "Script Block",
-    script: "// This script runs when the page loads\nconsole.log('Script block executed');\n\n// You can access and modify form data\n// formData.calculated = formData.input1 + formData.input2;",
+    script: "// This script runs when the page loads\nshowAlert('Script block executed');\n\n// You can access and modify form data\n// setValue('calculated', getFieldValue('input1') + getFieldValue('input2'));",
   },
   renderItem: (props) => <ScriptBlockItem {...props} />,
   renderFormFields: (props) => <ScriptBlockForm {...props} />,
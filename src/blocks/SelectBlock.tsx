@@ -39,6 +39,9 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { useSurveyForm } from '../context/SurveyFormContext';
+import { OptionSearch } from '../components/ui/OptionSearch';
+import { getStaticOptions } from '../utils/optionSources';
 
 interface SelectOption {
   id: string;
@@ -346,9 +349,8 @@ export const SelectRenderer = forwardRef<
     onChange?.(e.target.value);
   };
 
-  // Get labels and values arrays from the block
-  const labels = block.labels || [];
-  const values = block.values || labels.map((_, i) => i);
+  // Options (or the legacy labels/values arrays) as resolved for this respondent
+  const options = getStaticOptions(block);
 
   return (
     <div className="survey-select space-y-2 w-full min-w-0">
@@ -374,6 +376,8 @@ export const SelectRenderer = forwardRef<
         </div>
       )}
 
+      <OptionSearch block={block} disabled={disabled} />
+
       {/* Select field */}
       <Select
         name={block.fieldName}
@@ -382,9 +386,9 @@ export const SelectRenderer = forwardRef<
         }
         onValueChange={(selectedValue) => {
           // Find the original value type (string or number)
-          const index = values.findIndex((v) => v.toString() === selectedValue);
-          if (index !== -1) {
-            onChange?.(values[index]);
+          const option = options.find((o) => String(o.value) === selectedValue);
+          if (option) {
+            onChange?.(option.value);
           } else {
             onChange?.(selectedValue);
           }
@@ -404,13 +408,12 @@ export const SelectRenderer = forwardRef<
           <SelectValue placeholder={block.placeholder || 'Select an option'} />
         </SelectTrigger>
         <SelectContent>
-          {labels.map((label, index) => {
-            const optionValue = values[index];
+          {options.map((option, index) => {
             const stringValue =
-              optionValue !== undefined ? optionValue.toString() : '';
+              option.value !== undefined ? option.value.toString() : '';
             return (
-              <SelectItem key={index} value={stringValue}>
-                {label}
+              <SelectItem key={option.id || index} value={stringValue}>
+                {option.label}
               </SelectItem>
             );
           })}
@@ -514,6 +517,7 @@ const SelectChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
   const options: SelectOption[] =
     block.options ||
@@ -616,7 +620,7 @@ const SelectChatRenderer: React.FC<ChatRendererProps> = ({
           backgroundColor: themeConfig.colors.primary,
         }}
       >
-        Continue
+        {t('ui.continue')}
       </Button>
     </div>
   );
@@ -627,6 +631,8 @@ export const SelectBlock: BlockDefinition = {
   type: 'select',
   name: 'Dropdown Select',
   description: 'Single selection from a dropdown list',
+  category: 'Choice',
+  tags: ['dropdown', 'single choice', 'list'],
   icon: <ListFilter className="w-4 h-4" />,
   defaultData: {
     type: 'select',
@@ -686,7 +692,7 @@ export const SelectBlock: BlockDefinition = {
   validate: (data) => {
     if (!data.fieldName) return 'Field name is required';
     if (!data.label) return 'Label is required';
-    if (!data.labels || !data.labels.length)
+    if (!data.optionsSource && !getStaticOptions(data).length)
       return 'At least one option is required';
     return null;
   },
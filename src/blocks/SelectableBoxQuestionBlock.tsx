@@ -25,6 +25,7 @@ import { generateFieldName } from './utils/GenFieldName';
 import { cn } from '../lib/utils';
 import { themes } from '../themes';
 import { useSurveyForm } from '../context/SurveyFormContext';
+import { OptionSearch } from '../components/ui/OptionSearch';
 import {
   DndContext,
   closestCenter,
@@ -775,6 +776,8 @@ const SelectableBoxRenderer: React.FC<SelectableBoxRendererProps> = ({
         </div>
       )}
 
+      <OptionSearch block={block} disabled={disabled} />
+
       {/* Selectable Boxes */}
       {isMultiSelect ? (
         <div
@@ -987,6 +990,7 @@ const SelectableBoxChatRenderer: React.FC<ChatRendererProps> = ({
   disabled = false,
   error,
 }) => {
+  const { t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
   const options: BoxOption[] = block.options || [];
   const isMultiSelect = block.multiSelect === true;
@@ -1159,8 +1163,8 @@ const SelectableBoxChatRenderer: React.FC<ChatRendererProps> = ({
         {isMultiSelect &&
         Array.isArray(selectedValue) &&
         selectedValue.length > 0
-          ? `Continue with ${selectedValue.length} selected`
-          : 'Continue'}
+          ? t('ui.continueWithSelected', { count: selectedValue.length })
+          : t('ui.continue')}
       </Button>
     </div>
   );
@@ -1171,6 +1175,8 @@ export const SelectableBoxQuestionBlock: BlockDefinition = {
   type: 'selectablebox',
   name: 'Selectable Box Question',
   description: 'Question with selectable box options',
+  category: 'Choice',
+  tags: ['cards', 'tiles', 'single choice', 'buttons'],
   icon: <CheckSquare className="w-4 h-4" />,
   defaultData: {
     type: 'selectablebox',
@@ -1224,7 +1230,7 @@ export const SelectableBoxQuestionBlock: BlockDefinition = {
   validate: (data) => {
     if (!data.fieldName) return 'Field name is required';
     if (!data.label) return 'Label is required';
-    if (!data.options || data.options.length === 0)
+    if (!data.optionsSource && (!data.options || data.options.length === 0))
       return 'At least one option is required';
     return null;
   },
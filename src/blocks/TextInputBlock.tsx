@@ -186,6 +186,8 @@ export const TextInputBlock: BlockDefinition = {
   type: "textfield",
   name: "Text Input",
   description: "Single line text field for short answers",
+  category: "Text",
+  tags: ["input", "short answer", "name", "email", "phone"],
   icon: <LucideTextCursor className="w-4 h-4" />,
   defaultData: {
     type: "textfield",
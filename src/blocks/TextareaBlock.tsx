@@ -201,6 +201,8 @@ export const TextareaBlock: BlockDefinition = {
   type: "textarea",
   name: "Text Area",
   description: "Multi-line text field for longer answers",
+  category: "Text",
+  tags: ["long answer", "comment", "feedback", "paragraph"],
   icon: <LucideTextCursor className="w-4 h-4" />,
   defaultData: {
     type: "textarea",
@@ -12,11 +12,13 @@ import { CalculatedFieldBlock } from "./CalculatedFieldBlock";
 // import { CheckoutBlock } from "./CheckoutBlock";
 import { ConditionalBlock } from "./ConditionalBlock";
 import { DatePickerBlock } from "./DatePickerBlock";
+import { EndingBlock } from "./EndingBlock";
 import { FileUploadBlock } from "./FileUploadBlock";
 import { HtmlBlock } from "./HtmlBlock";
 import { MarkdownBlock } from "./MarkdownBlock";
 import { MatrixBlock } from "./MatrixBlock";
 import { RangeBlock } from "./RangeBlock";
+import { RepeaterBlock } from "./RepeaterBlock";
 import { ScriptBlock } from "./ScriptBlock";
 import { SelectableBoxQuestionBlock } from "./SelectableBoxQuestionBlock";
 // import { PatientBlock } from "./PatientBlock";
@@ -37,11 +39,13 @@ export const blockRegistry: Record<string, BlockDefinition> = {
   // checkout: CheckoutBlock,
   conditional: ConditionalBlock,
   datepicker: DatePickerBlock,
+  ending: EndingBlock,
   fileupload: FileUploadBlock,
   html: HtmlBlock,
   markdown: MarkdownBlock,
   matrix: MatrixBlock,
   range: RangeBlock,
+  repeater: RepeaterBlock,
   script: ScriptBlock,
   selectablebox: SelectableBoxQuestionBlock,
 };
@@ -63,10 +67,12 @@ export const StandardBlocks: BlockDefinition[] = [
   DatePickerBlock,
   FileUploadBlock,
   MatrixBlock,
+  RepeaterBlock,
   
   // Content blocks
   MarkdownBlock,
   HtmlBlock,
+  EndingBlock,
 
   // Logic blocks
   AuthBlock,
@@ -94,11 +100,13 @@ export {
   // CheckoutBlock,
   ConditionalBlock,
   DatePickerBlock,
+  EndingBlock,
   FileUploadBlock,
   HtmlBlock,
   MarkdownBlock,
   MatrixBlock,
   RangeBlock,
+  RepeaterBlock,
   ScriptBlock,
   SelectableBoxQuestionBlock
 };
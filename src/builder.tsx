@@ -37,11 +37,13 @@ export {
   CalculatedFieldBlock,
   ConditionalBlock,
   DatePickerBlock,
+  EndingBlock,
   FileUploadBlock,
   HtmlBlock,
   MarkdownBlock,
   MatrixBlock,
   RangeBlock,
+  RepeaterBlock,
   ScriptBlock,
   SelectableBoxQuestionBlock,
   AgreementBlock
@@ -62,6 +64,50 @@ export {
   linkNodes,
 } from './utils/nodeUtils';
 
+// Survey linting (static checks of conditions and formulas)
+export { lintSurvey, lintExpression, lintPipedText } from './utils/surveyLinter';
+export type { ExpressionLintContext, ExpressionLintResult } from './utils/surveyLinter';
+export { LintIssueBadge, LintIssueList } from './builder/common/LintIssues';
+export { PipedFieldAutocomplete } from './builder/common/PipedFieldAutocomplete';
+export { OptionsSourceEditor } from './builder/common/OptionsSourceEditor';
+
+// Block library search and snippets
+export { searchBlockDefinitions, groupBlockDefinitions, fuzzyScore, UNCATEGORIZED_BLOCKS } from './utils/blockSearch';
+export {
+  createSnippet,
+  instantiateSnippet,
+  createLocalSnippetStore,
+  createMemorySnippetStore,
+} from './utils/snippets';
+export { cloneBlocks, pickBlockLocalizations } from './utils/blockCloning';
+export type { CloneBlocksOptions, ClonedBlocks } from './utils/blockCloning';
+export {
+  renameExpressionFields,
+  renamePipedTextFields,
+  renameBlockFieldReferences,
+  renameLocalizationFields,
+  renameSurveyField,
+  findFieldReferences,
+} from './utils/fieldReferences';
+export type { FieldRenames, FieldReference, SurveyFieldRename } from './utils/fieldReferences';
+export { FieldRenameDialog, DanglingReferencesDialog, FieldReferenceList } from './builder/common/FieldRename';
+
+// Multi-select, bulk actions and block copy/paste
+export {
+  pickBlocks,
+  removeBlocks,
+  updateBlocks,
+  insertBlocksAfter,
+  moveBlocksToPage,
+  selectBlockRange,
+  collectFieldNames,
+  collectBlockUuids,
+} from './utils/blockSelection';
+export { BLOCK_CLIPBOARD_FORMAT, serializeBlocksForClipboard, parseBlocksFromClipboard } from './utils/blockClipboard';
+export type { ClipboardBlocks } from './utils/blockClipboard';
+export { useBlockClipboard } from './hooks/useBlockClipboard';
+export { BulkBlockActions } from './builder/common/BulkBlockActions';
+
 // Global custom fields components (builder-only)
 export { GlobalCustomFields } from './builder/common/GlobalCustomFields';
 export { ReferenceQuestionKeyField } from './examples/ReferenceQuestionKeyField';
@@ -77,4 +123,9 @@ export type {
   SurveyMode,
   EditorMode,
   ContentBlockItemProps,
+  SurveyLintIssue,
+  SurveyLintSeverity,
+  SurveyLintSource,
+  BlockSnippet,
+  BlockSnippetStore,
 } from './types';
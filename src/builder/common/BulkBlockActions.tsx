@@ -0,0 +1,113 @@
+import type React from "react";
+import { useState } from "react";
+import { ClipboardCopy, ClipboardPaste, CopyPlus, Trash2, X } from "lucide-react";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select";
+import type { BlockData } from "../../types";
+
+interface BulkBlockActionsProps {
+  count: number;
+  /** Pages the selection can move to; moving is hidden without them (pageless surveys) */
+  pages?: Array<{ uuid: string; name: string }>;
+  onMove?: (pageUuid: string) => void;
+  onDuplicate: () => void;
+  onCopy: () => void;
+  onPaste: () => void;
+  onDelete: () => void;
+  /** Sets the same properties on every selected block */
+  onUpdate: (changes: Partial<BlockData>) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+// showContinueButton is left unset for "Default" so the layout decides
+const CONTINUE_BUTTON_VALUES: Record<string, boolean | undefined> = { show: true, hide: false, default: undefined };
+
+/**
+ * Toolbar for the blocks selected in the builder
+ */
+export const BulkBlockActions: React.FC<BulkBlockActionsProps> = ({
+  count,
+  pages,
+  onMove,
+  onDuplicate,
+  onCopy,
+  onPaste,
+  onDelete,
+  onUpdate,
+  onClear,
+  className = "",
+}) => {
+  const [blockClass, setBlockClass] = useState("");
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 rounded-md border bg-card p-2 text-sm shadow-sm ${className}`}>
+      <span className="font-medium px-1">{count} selected</span>
+
+      {pages && pages.length > 0 && onMove && (
+        <Select value="" onValueChange={onMove}>
+          <SelectTrigger className="h-8 w-40" aria-label="Move to page">
+            <SelectValue placeholder="Move to page" />
+          </SelectTrigger>
+          <SelectContent>
+            {pages.map((page) => (
+              <SelectItem key={page.uuid} value={page.uuid}>{page.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Select value="" onValueChange={(value) => onUpdate({ showContinueButton: CONTINUE_BUTTON_VALUES[value] })}>
+        <SelectTrigger className="h-8 w-44" aria-label="Continue button">
+          <SelectValue placeholder="Continue button" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="show">Show continue button</SelectItem>
+          <SelectItem value="hide">Hide continue button</SelectItem>
+          <SelectItem value="default">Layout default</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <Input
+          className="h-8 w-32"
+          value={blockClass}
+          onChange={(e) => setBlockClass(e.target.value)}
+          placeholder="CSS class"
+          aria-label="CSS class"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onUpdate({ className: blockClass.trim() || undefined })}
+        >
+          Apply
+        </Button>
+      </div>
+
+      <Button type="button" variant="outline" size="sm" onClick={onDuplicate}>
+        <CopyPlus className="h-4 w-4 mr-1" /> Duplicate
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={onCopy} title="Copy (Ctrl+C)">
+        <ClipboardCopy className="h-4 w-4 mr-1" /> Copy
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={onPaste} title="Paste (Ctrl+V)">
+        <ClipboardPaste className="h-4 w-4 mr-1" /> Paste
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={onDelete}>
+        <Trash2 className="h-4 w-4 mr-1" /> Delete
+      </Button>
+      <Button type="button" variant="ghost" size="icon" className="h-8 w-8" aria-label="Clear selection" onClick={onClear}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -12,6 +12,9 @@ import {
 import type { BlockData } from "../../types";
 import { useSurveyBuilder } from "../../context/SurveyBuilderContext";
 import { GlobalCustomFields } from "./GlobalCustomFields";
+import { CHOICE_BLOCK_TYPES, OptionsSourceEditor } from "./OptionsSourceEditor";
+import { BlockOrderEditor } from "./RandomizationEditor";
+import { ENDING_TARGETS } from "./navigation-rules-types";
 
 /**
  * CommonBlockRules
@@ -83,6 +86,11 @@ export const CommonBlockRules: React.FC<CommonBlockRulesProps> = ({ data, onUpda
   }, [data.isEndBlock]);
 
   const allBlocks = (state.rootNode?.items as BlockData[]) || [];
+  // Answers can only be carried forward from questions asked before this block
+  const blockIndex = allBlocks.findIndex((block) => block.uuid === data.uuid);
+  const carryForwardSources = (blockIndex >= 0 ? allBlocks.slice(0, blockIndex) : allBlocks).filter(
+    (block) => block.uuid !== data.uuid && block.fieldName && CHOICE_BLOCK_TYPES.includes(block.type)
+  );
 
   return (
     <div className="space-y-4 p-4 mt-4 border rounded-lg bg-card">
@@ -100,6 +108,9 @@ export const CommonBlockRules: React.FC<CommonBlockRulesProps> = ({ data, onUpda
             <SelectContent>
                 <SelectItem value="default">Default (Next in sequence)</SelectItem>
                 <SelectItem value="submit">Submit / End Survey</SelectItem>
+                {ENDING_TARGETS.map((ending) => (
+                    <SelectItem key={ending.value} value={ending.value}>{ending.label}</SelectItem>
+                ))}
                 {allBlocks.map(block => (
                     <SelectItem key={block.uuid} value={block.uuid || ""} disabled={block.uuid === data.uuid}>
                         {block.label || block.text || block.fieldName || "Untitled Block"}
@@ -136,6 +147,23 @@ export const CommonBlockRules: React.FC<CommonBlockRulesProps> = ({ data, onUpda
           />
           <Label className="text-sm" htmlFor="is-show-block">Show Next Button?</Label>
         </div>
+
+        {CHOICE_BLOCK_TYPES.includes(data.type) && (
+          <OptionsSourceEditor data={data} onUpdate={onUpdate} sourceBlocks={carryForwardSources} />
+        )}
+
+        <BlockOrderEditor data={data} onUpdate={onUpdate} />
+
+        {!!state.rootNode?.quotas?.length && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="is-quota-checkpoint"
+              checked={!!data.quotaCheckpoint}
+              onCheckedChange={(checked) => onUpdate?.({ ...data, quotaCheckpoint: checked === true || undefined })}
+            />
+            <Label className="text-sm" htmlFor="is-quota-checkpoint">Check quotas after this block?</Label>
+          </div>
+        )}
       </div>
       
       {/* Render global custom fields if they exist */}
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "../../components/ui/dialog";
+import { useSurveyBuilder } from "../../context/SurveyBuilderContext";
+import { collectFieldNames } from "../../utils/blockSelection";
+import type { FieldReference } from "../../utils/fieldReferences";
+
+// Field names are read as identifiers in conditions and formulas
+const FIELD_NAME_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+interface FieldReferenceListProps {
+  references: FieldReference[];
+  /** Show each text as it will read after the change */
+  showRenamed?: boolean;
+}
+
+/**
+ * References grouped by the block that holds them
+ */
+export const FieldReferenceList: React.FC<FieldReferenceListProps> = ({ references, showRenamed = false }) => {
+  const groups = new Map<string, FieldReference[]>();
+  for (const reference of references) {
+    const key = reference.blockUuid || reference.blockName;
+    groups.set(key, [...(groups.get(key) || []), reference]);
+  }
+
+  return (
+    <div className="max-h-72 overflow-y-auto space-y-2">
+      {[...groups.entries()].map(([key, group]) => (
+        <div key={key} className="rounded-md border p-2 text-xs">
+          <div className="font-medium text-sm mb-1">{group[0].blockName}</div>
+          <ul className="space-y-1">
+            {group.map((reference, index) => (
+              <li key={`${reference.path}-${index}`} className="grid grid-cols-[10rem_1fr] gap-2">
+                <span className="text-muted-foreground truncate" title={reference.path}>{reference.path}</span>
+                <span className="font-mono break-all">
+                  {showRenamed ? (
+                    <>
+                      <span className="line-through text-muted-foreground">{reference.text}</span>
+                      {" → "}
+                      <span>{reference.renamed}</span>
+                    </>
+                  ) : (
+                    reference.text
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface FieldRenameDialogProps {
+  fieldName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Renames a field along with every condition, formula, validation rule, piped
+ * text and translation that refers to it, after showing what will change
+ */
+export const FieldRenameDialog: React.FC<FieldRenameDialogProps> = ({ fieldName, open, onOpenChange }) => {
+  const { state, renameField, previewFieldRename } = useSurveyBuilder();
+  const [newName, setNewName] = useState(fieldName);
+
+  useEffect(() => {
+    if (open) setNewName(fieldName);
+  }, [open, fieldName]);
+
+  const trimmed = newName.trim();
+  const taken = open && trimmed !== fieldName && !!state.rootNode && collectFieldNames([state.rootNode]).includes(trimmed);
+  const error = !FIELD_NAME_PATTERN.test(trimmed)
+    ? "Use letters, digits, _ or $, not starting with a digit"
+    : taken
+      ? `Another block already uses "${trimmed}"`
+      : null;
+  const preview = open && !error ? previewFieldRename(fieldName, trimmed) : [];
+  // The block's own field name is always among the changes
+  const references = preview.filter((reference) => reference.path !== "fieldName");
+  const placeCount = new Set(references.map((reference) => reference.blockUuid || reference.blockName)).size;
+
+  const handleRename = () => {
+    if (error || trimmed === fieldName) return;
+    renameField(fieldName, trimmed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Rename field "{fieldName}"</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="field-rename-input">New field name</Label>
+            <Input
+              id="field-rename-input"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleRename();
+              }}
+              autoFocus
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          {!error && trimmed !== fieldName && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {references.length === 0
+                  ? "Nothing else refers to this field."
+                  : `Updates ${references.length} reference${references.length === 1 ? "" : "s"} in ${placeCount} place${placeCount === 1 ? "" : "s"}:`}
+              </p>
+              <FieldReferenceList references={preview} showRenamed />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleRename} disabled={!!error || trimmed === fieldName}>
+            Rename
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface DanglingReferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fieldNames: string[];
+  references: FieldReference[];
+  onConfirm: () => void;
+}
+
+/**
+ * Asks before deleting blocks whose fields other blocks still refer to
+ */
+export const DanglingReferencesDialog: React.FC<DanglingReferencesDialogProps> = ({
+  open,
+  onOpenChange,
+  fieldNames,
+  references,
+  onConfirm,
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-2xl">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-600" />
+          Delete {fieldNames.map((name) => `"${name}"`).join(", ")}?
+        </DialogTitle>
+      </DialogHeader>
+      <p className="text-sm text-muted-foreground">
+        {references.length === 1 ? "This reference" : `These ${references.length} references`} will point at a field that no longer exists:
+      </p>
+      <FieldReferenceList references={references} />
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          onClick={() => {
+            // Confirm first: closing means cancel to callers that wait on the answer
+            onConfirm();
+            onOpenChange(false);
+          }}
+        >
+          Delete anyway
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+);
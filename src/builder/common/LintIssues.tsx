@@ -0,0 +1,86 @@
+import React from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { Badge } from "../../components/ui/badge";
+import { cn } from "../../lib/utils";
+import type { SurveyLintIssue } from "../../types";
+
+const SOURCE_LABELS: Record<SurveyLintIssue["source"], string> = {
+  navigationRule: "Navigation rule",
+  visibleIf: "Visibility condition",
+  validationRule: "Validation rule",
+  formula: "Formula",
+  pipedText: "Piped text",
+};
+
+const describeIssue = (issue: SurveyLintIssue) =>
+  `${SOURCE_LABELS[issue.source]}${issue.ruleIndex !== undefined ? ` ${issue.ruleIndex + 1}` : ""}: ${issue.message}`;
+
+interface LintIssueBadgeProps {
+  issues: SurveyLintIssue[];
+  className?: string;
+}
+
+/**
+ * Compact error/warning count for a block header. Hover shows the messages.
+ */
+export const LintIssueBadge: React.FC<LintIssueBadgeProps> = ({ issues, className }) => {
+  if (issues.length === 0) return null;
+
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  const title = issues.map(describeIssue).join("\n");
+
+  return (
+    <Badge
+      variant={errorCount > 0 ? "destructive" : "outline"}
+      className={cn(
+        "gap-1",
+        errorCount === 0 && "border-yellow-300 text-yellow-700 bg-yellow-50",
+        className
+      )}
+      title={title}
+    >
+      {errorCount > 0 ? <AlertCircle className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+      {errorCount > 0 && `${errorCount} error${errorCount > 1 ? "s" : ""}`}
+      {errorCount > 0 && warningCount > 0 && ", "}
+      {warningCount > 0 && `${warningCount} warning${warningCount > 1 ? "s" : ""}`}
+    </Badge>
+  );
+};
+
+interface LintIssueListProps {
+  issues: SurveyLintIssue[];
+  /** Hide the "Navigation rule 2:" prefix when the list is already shown next to the rule */
+  hideSource?: boolean;
+}
+
+/**
+ * Inline list of lint messages, shown below the rule or formula they belong to
+ */
+export const LintIssueList: React.FC<LintIssueListProps> = ({ issues, hideSource }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, idx) => (
+        <li
+          key={idx}
+          className={cn(
+            "flex items-start gap-1.5 text-xs",
+            issue.severity === "error" ? "text-destructive" : "text-yellow-700"
+          )}
+        >
+          {issue.severity === "error"
+            ? <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+            : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+          <span>
+            {hideSource ? issue.message : describeIssue(issue)}
+            {issue.expression && (
+              <code className="ml-1 font-mono text-muted-foreground">{issue.expression}</code>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
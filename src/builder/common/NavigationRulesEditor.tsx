@@ -14,7 +14,11 @@ import {
 import { useSurveyBuilder } from "../../context/SurveyBuilderContext";
 import type { BlockData, NavigationRule } from "../../types";
 import { NavigationRuleValueInput } from "./NavigationRuleValueInput";
+import { LintIssueList } from "./LintIssues";
+import { parseEndingTarget } from "../../utils/outcomes";
+import { lintSurveyBlock } from "../../utils/surveyLinter";
 import {
+  ENDING_TARGETS,
   OPERATORS,
   enhancedRuleToStandard,
   standardRuleToEnhanced,
@@ -183,7 +187,7 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
         if (node.uuid && node.navigationRules) {
           const targets: string[] = [];
           for (const rule of node.navigationRules) {
-            if (rule.target && rule.target !== 'submit') {
+            if (rule.target && !parseEndingTarget(rule.target)) {
               targets.push(rule.target);
             }
           }
@@ -374,6 +378,15 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
     return pageOptions.length > 1 || allBlockOptions.length > 1;
   }, [pageOptions.length, blockOptions.length, allBlockOptions.length, state.enableDebug]);
 
+  // Lint the rules as edited, not as last saved on the node
+  const ruleIssues = React.useMemo(() => {
+    if (!data.uuid) return [];
+    const draft = { ...data, navigationRules: rules.map(buildRule) };
+    return lintSurveyBlock(state.rootNode, draft, state.definitions.blocks).filter(
+      (issue) => issue.source === "navigationRule"
+    );
+  }, [data, rules, state.rootNode, state.definitions.blocks]);
+
   const navigationCycles = React.useMemo(() => {
     return detectNavigationCycles(state.rootNode);
   }, [state.rootNode, detectNavigationCycles]);
@@ -405,10 +418,10 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
   }, []);
 
   const handleTargetChange = React.useCallback((index: number, val: string) => {
-    if (val === "submit") {
+    if (val === "submit" || parseEndingTarget(val)) {
       setRules((prev) => {
         const newRules = [...prev];
-        newRules[index] = { ...newRules[index], target: "submit", isPage: false };
+        newRules[index] = { ...newRules[index], target: val, isPage: false };
         return newRules;
       });
       return;
@@ -563,8 +576,8 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
                 <Label className="text-sm">Target</Label>
                 <Select
                   value={
-                    rule.target === "submit"
-                      ? "submit"
+                    rule.target === "submit" || parseEndingTarget(rule.target)
+                      ? rule.target
                       : rule.isPage
                         ? `page:${rule.target}`
                         : `block:${rule.target}`
@@ -594,10 +607,19 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
                     <SelectItem value="submit" className="font-medium">
                       <span className="text-sm">Submit Form</span>
                     </SelectItem>
+                    {ENDING_TARGETS.map((ending) => (
+                      <SelectItem key={ending.value} value={ending.value} className="font-medium">
+                        <span className="text-sm">{ending.label}</span>
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+            <LintIssueList
+              issues={ruleIssues.filter((issue) => issue.ruleIndex === index)}
+              hideSource
+            />
             {!hideRemoveButton && (
               <div className="flex justify-end">
                 <Button
@@ -732,8 +754,8 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
               <Label className="text-sm">Target</Label>
               <Select
                 value={
-                  rule.target === "submit"
-                    ? "submit"
+                  rule.target === "submit" || parseEndingTarget(rule.target)
+                    ? rule.target
                     : rule.isPage
                       ? `page:${rule.target}`
                       : `block:${rule.target}`
@@ -763,10 +785,19 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
                   <SelectItem value="submit" className="font-medium">
                     <span className="text-sm">Submit Form</span>
                   </SelectItem>
+                  {ENDING_TARGETS.map((ending) => (
+                    <SelectItem key={ending.value} value={ending.value} className="font-medium">
+                      <span className="text-sm">{ending.label}</span>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
           </div>
+          <LintIssueList
+            issues={ruleIssues.filter((issue) => issue.ruleIndex === index)}
+            hideSource
+          />
           {!hideRemoveButton && (
             <div className="flex justify-end">
               <Button
@@ -781,7 +812,7 @@ export const NavigationRulesEditor: React.FC<Props> = ({ data, onUpdate, editRul
           )}
         </div>
     );
-  }, [fieldOptions, pageOptions, blockOptions, handleRuleChange, handleTargetChange, removeRule, data.type, findBlockByFieldName, getBlockOptions, hideRemoveButton]);
+  }, [fieldOptions, pageOptions, blockOptions, handleRuleChange, handleTargetChange, removeRule, data.type, findBlockByFieldName, getBlockOptions, hideRemoveButton, ruleIssues]);
 
   // Don't render the editor if there's only one page or one block
   if (!shouldShowEditor) {
@@ -21,6 +21,8 @@ import {
 } from "../../components/ui/select";
 import { useSurveyBuilder } from "../../context/SurveyBuilderContext";
 import type { BlockData, NavigationRule } from "../../types";
+import { parseEndingTarget } from "../../utils/outcomes";
+import { ENDING_TARGETS } from "./navigation-rules-types";
 
 interface Props {
   data: BlockData;
@@ -177,10 +179,10 @@ export const NavigationRulesEditorDialog = ({
   };
 
   const handleTargetChange = (index: number, val: string) => {
-    if (val === "submit") {
+    if (val === "submit" || parseEndingTarget(val)) {
       setRules((prev) => {
         const newRules = [...prev];
-        newRules[index] = { ...newRules[index], target: "submit", isPage: false };
+        newRules[index] = { ...newRules[index], target: val, isPage: false };
         return newRules;
       });
       return;
@@ -271,8 +273,8 @@ export const NavigationRulesEditorDialog = ({
                   <Label>Target</Label>
                   <Select
                     value={
-                      rule.target === "submit"
-                        ? "submit"
+                      rule.target === "submit" || parseEndingTarget(rule.target)
+                        ? rule.target
                         : rule.isPage
                           ? `page:${rule.target}`
                           : `block:${rule.target}`
@@ -300,6 +302,11 @@ export const NavigationRulesEditorDialog = ({
                         ))}
                       </SelectGroup>
                       <SelectItem value="submit">Submit</SelectItem>
+                      {ENDING_TARGETS.map((ending) => (
+                        <SelectItem key={ending.value} value={ending.value}>
+                          {ending.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,129 @@
+import React from "react";
+import { Checkbox } from "../../components/ui/checkbox";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select";
+import type { BlockData, OptionsSource } from "../../types";
+
+/** Block types whose options can come from an options source */
+export const CHOICE_BLOCK_TYPES = ["select", "radio", "checkbox", "selectablebox"];
+
+interface OptionsSourceEditorProps {
+  data: BlockData;
+  onUpdate?: (data: BlockData) => void;
+  /** Choice blocks whose answers can be carried forward into this one */
+  sourceBlocks: BlockData[];
+}
+
+/**
+ * Where a choice block's options come from: its own list, the answer to an
+ * earlier question, or an options provider registered in `customData.optionsProviders`
+ */
+export const OptionsSourceEditor: React.FC<OptionsSourceEditorProps> = ({ data, onUpdate, sourceBlocks }) => {
+  const source = data.optionsSource;
+
+  const setSource = (optionsSource: OptionsSource | undefined) => {
+    onUpdate?.({ ...data, optionsSource });
+  };
+
+  const handleTypeChange = (type: string) => {
+    if (type === "carryForward") {
+      setSource({ type: "carryForward", field: sourceBlocks[0]?.fieldName || "", include: "selected" });
+    } else if (type === "provider") {
+      setSource({ type: "provider", provider: "" });
+    } else {
+      setSource(undefined);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm">Option Source</Label>
+        <Select value={source?.type || "static"} onValueChange={handleTypeChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="static">Options listed on this block</SelectItem>
+            <SelectItem value="carryForward" disabled={sourceBlocks.length === 0}>
+              Carry forward from an earlier question
+            </SelectItem>
+            <SelectItem value="provider">Options provider</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {source?.type === "carryForward" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={source.field} onValueChange={(field) => setSource({ ...source, field })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Question" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceBlocks.map((block) => (
+                <SelectItem key={block.fieldName} value={block.fieldName}>
+                  {block.label || block.fieldName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={source.include || "selected"}
+            onValueChange={(include: "selected" | "unselected") => setSource({ ...source, include })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="selected">Selected options</SelectItem>
+              <SelectItem value="unselected">Options not selected</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {source?.type === "provider" && (
+        <div className="space-y-2">
+          <Input
+            value={source.provider}
+            onChange={(e) => setSource({ ...source, provider: e.target.value })}
+            placeholder="Provider name, e.g. countries"
+          />
+          <Input
+            value={(source.dependsOn || []).join(", ")}
+            onChange={(e) => {
+              const dependsOn = e.target.value.split(",").map((field) => field.trim()).filter(Boolean);
+              setSource({ ...source, dependsOn: dependsOn.length ? dependsOn : undefined });
+            }}
+            placeholder="Reload when these fields change (comma separated)"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={source.minSearchLength ?? ""}
+            onChange={(e) =>
+              setSource({ ...source, minSearchLength: e.target.value ? Number(e.target.value) : undefined })
+            }
+            placeholder="Characters to type before searching"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="options-searchable"
+          checked={!!data.searchable}
+          onCheckedChange={(checked) => onUpdate?.({ ...data, searchable: checked === true })}
+        />
+        <Label className="text-sm" htmlFor="options-searchable">Searchable option list?</Label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useRef, useState } from "react";
+import { cn } from "../../lib/utils";
+
+type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+interface Suggestions {
+  target: TextControl;
+  /** Index of the `{` that opened the piped field */
+  start: number;
+  query: string;
+  top: number;
+  left: number;
+}
+
+interface PipedFieldAutocompleteProps {
+  /** Field names that can be piped into the text, e.g. fields answered earlier */
+  fields: string[];
+  children: React.ReactNode;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const isTextControl = (element: EventTarget | null): element is TextControl =>
+  element instanceof HTMLTextAreaElement ||
+  (element instanceof HTMLInputElement && ["text", "search", ""].includes(element.type));
+
+// Sets the value the way typing would, so React's onChange sees the update
+const setControlValue = (control: TextControl, value: string) => {
+  const prototype = control instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+  Object.getOwnPropertyDescriptor(prototype, "value")?.set?.call(control, value);
+  control.dispatchEvent(new Event("input", { bubbles: true }));
+};
+
+/**
+ * Suggests field names while typing `{` in any text input inside it, for
+ * piping answers into labels ("Thanks {firstName}!")
+ */
+export const PipedFieldAutocomplete: React.FC<PipedFieldAutocompleteProps> = ({ fields, children, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const matches = suggestions
+    ? fields
+        .filter((field) => field.toLowerCase().startsWith(suggestions.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateSuggestions = (control: TextControl) => {
+    const caret = control.selectionStart ?? control.value.length;
+    // An unclosed `{` directly before the caret, followed by a partial field name
+    const match = /\{\s*([\w.]*)$/.exec(control.value.slice(0, caret));
+    if (!match || !containerRef.current || fields.length === 0) {
+      setSuggestions(null);
+      return;
+    }
+
+    const controlRect = control.getBoundingClientRect();
+    const containerRect = containerRef.current.getBoundingClientRect();
+    setSuggestions({
+      target: control,
+      start: match.index,
+      query: match[1],
+      top: controlRect.bottom - containerRect.top,
+      left: controlRect.left - containerRect.left,
+    });
+    setActiveIndex(0);
+  };
+
+  const insertField = (field: string) => {
+    if (!suggestions) return;
+    const { target, start } = suggestions;
+    const caret = target.selectionStart ?? target.value.length;
+    const after = target.value.slice(caret).replace(/^[\w.]*\}?/, "");
+    const inserted = `{${field}}`;
+    setControlValue(target, target.value.slice(0, start) + inserted + after);
+    target.focus();
+    target.setSelectionRange(start + inserted.length, start + inserted.length);
+    setSuggestions(null);
+  };
+
+  const handleInput = (event: React.FormEvent<HTMLDivElement>) => {
+    if (isTextControl(event.target)) updateSuggestions(event.target);
+  };
+
+  const handleKeyDownCapture = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!suggestions || matches.length === 0 || event.target !== suggestions.target) return;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => (index + step + matches.length) % matches.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      event.stopPropagation();
+      insertField(matches[activeIndex] ?? matches[0]);
+    } else if (event.key === "Escape") {
+      event.stopPropagation();
+      setSuggestions(null);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn("relative", className)}
+      onInput={handleInput}
+      onKeyDownCapture={handleKeyDownCapture}
+      onBlur={() => setSuggestions(null)}
+    >
+      {children}
+      {suggestions && matches.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 min-w-[12rem] max-h-60 overflow-auto rounded-md border bg-popover p-1 text-sm shadow-md"
+          style={{ top: suggestions.top, left: suggestions.left }}
+        >
+          {matches.map((field, index) => (
+            <li
+              key={field}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "cursor-pointer rounded-sm px-2 py-1 font-mono",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+              // Keep focus in the input so the blur handler doesn't close the list first
+              onMouseDown={(event) => {
+                event.preventDefault();
+                insertField(field);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+            >
+              {`{${field}}`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
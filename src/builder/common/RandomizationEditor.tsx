@@ -0,0 +1,119 @@
+import React from "react";
+import { Checkbox } from "../../components/ui/checkbox";
+import { Label } from "../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../components/ui/select";
+import type { BlockData, ChoiceOption, OrderMode } from "../../types";
+import { CHOICE_BLOCK_TYPES } from "./OptionsSourceEditor";
+
+const ORDER_MODE_LABELS: Record<OrderMode, string> = {
+  fixed: "As listed",
+  shuffle: "Random",
+  rotate: "Rotate across respondents",
+};
+
+interface OrderModeSelectProps {
+  label: string;
+  value?: OrderMode;
+  onChange: (value: OrderMode | undefined) => void;
+  /** Shows the label inside the trigger instead of above it, for headers */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Picks how a list is ordered for each respondent
+ */
+export const OrderModeSelect: React.FC<OrderModeSelectProps> = ({ label, value, onChange, compact, className }) => {
+  const select = (
+    <Select
+      value={value || "fixed"}
+      onValueChange={(mode: OrderMode) => onChange(mode === "fixed" ? undefined : mode)}
+    >
+      <SelectTrigger className={className} aria-label={label}>
+        {compact ? <span className="truncate">{label}: {ORDER_MODE_LABELS[value || "fixed"]}</span> : <SelectValue />}
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ORDER_MODE_LABELS) as OrderMode[]).map((mode) => (
+          <SelectItem key={mode} value={mode}>
+            {ORDER_MODE_LABELS[mode]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (compact) return select;
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">{label}</Label>
+      {select}
+    </div>
+  );
+};
+
+interface BlockOrderEditorProps {
+  data: BlockData;
+  onUpdate?: (data: BlockData) => void;
+}
+
+/**
+ * Option order of choice blocks, with options kept last (e.g. "None of the
+ * above"), and whether the block keeps its place when its page is reordered
+ */
+export const BlockOrderEditor: React.FC<BlockOrderEditorProps> = ({ data, onUpdate }) => {
+  const options: ChoiceOption[] = Array.isArray(data.options) ? data.options : [];
+  const hasOwnOptions = CHOICE_BLOCK_TYPES.includes(data.type) && !data.optionsSource && options.length > 0;
+
+  const setPinLast = (index: number, pinLast: boolean) => {
+    onUpdate?.({
+      ...data,
+      options: options.map((option, i) => (i === index ? { ...option, pinLast: pinLast || undefined } : option)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {hasOwnOptions && (
+        <>
+          <OrderModeSelect
+            label="Option Order"
+            value={data.optionOrder}
+            onChange={(optionOrder) => onUpdate?.({ ...data, optionOrder })}
+          />
+          {data.optionOrder && (
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Keep at the end</Label>
+              {options.map((option, index) => (
+                <div key={option.id || index} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`pin-last-${option.id || index}`}
+                    checked={!!option.pinLast}
+                    onCheckedChange={(checked) => setPinLast(index, checked === true)}
+                  />
+                  <Label className="text-sm" htmlFor={`pin-last-${option.id || index}`}>
+                    {option.label || option.value}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="is-pinned-block"
+          checked={!!data.pinned}
+          onCheckedChange={(checked) => onUpdate?.({ ...data, pinned: checked === true || undefined })}
+        />
+        <Label className="text-sm" htmlFor="is-pinned-block">Keep in place when the page is reordered?</Label>
+      </div>
+    </div>
+  );
+};
@@ -1,3 +1,5 @@
+import { getEndingTarget } from '../../utils/outcomes';
+
 export interface OperatorDefinition {
   value: string;
   label: string;
@@ -58,6 +60,12 @@ export const OPERATORS: OperatorDefinition[] = [
   { value: 'ageBetween', label: 'Age between', description: 'Age calculated from date is between two values', category: 'date', valueType: 'array' },
 ];
 
+/** Navigation targets that end the survey without completing it */
+export const ENDING_TARGETS = [
+  { value: getEndingTarget('screenedOut'), label: 'Screen out' },
+  { value: getEndingTarget('overQuota'), label: 'Over quota' },
+];
+
 export interface EnhancedNavigationRule {
   field: string;
   operator: string;
@@ -18,15 +18,24 @@ import {
   OnConnectStart,
   type OnSelectionChangeFunc,
   type OnReconnect,
+  type OnBeforeDelete,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { v4 as uuidv4 } from "uuid";
 
 import { useSurveyBuilder } from "../../context/SurveyBuilderContext";
+import { useUndoRedoShortcuts } from "../../hooks/useUndoRedoShortcuts";
+import { useBlockClipboard } from "../../hooks/useBlockClipboard";
+import { BulkBlockActions } from "../common/BulkBlockActions";
+import { DanglingReferencesDialog } from "../common/FieldRename";
+import type { FieldReference } from "../../utils/fieldReferences";
+import { cloneBlocks } from "../../utils/blockCloning";
+import { mergeLocalizations } from "../../utils/localization";
+import { collectFieldNames, insertBlocksAfter, updateBlocks } from "../../utils/blockSelection";
 import { SurveyNode } from "./nodes/SurveyNode";
 import { ButtonEdge } from "./edges/ButtonEdge";
 import { getLayoutedElements } from "./utils/layout";
-import type { BlockData } from "../../types";
+import type { BlockData, LocalizationMap } from "../../types";
 import { FlowV2Sidebar } from "./FlowV2Sidebar";
 import { FlowV2Toolbar } from "./FlowV2Toolbar";
 import type { FlowV2Mode } from "./types";
@@ -36,6 +45,7 @@ import { getHumanReadableCondition } from "./utils/conditionLabel";
 import { areAllOptionsCoveredByRules } from "../../utils/conditionalUtils";
 import { Button } from "../../components/ui/button";
 import { BlocksMapProvider } from "./utils/BlocksMapContext";
+import { isEndingBlock, parseEndingTarget } from "../../utils/outcomes";
 
 import { Plus, ArrowUpToLine, ArrowDownToLine, Pencil } from "lucide-react";
 
@@ -54,8 +64,10 @@ interface FlowV3BuilderProps {
 }
 
 const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
-  const { state, updateNode } = useSurveyBuilder();
-  const { fitView, zoomIn, zoomOut, getNodes } = useReactFlow();
+  const { state, updateNode, updateLocalizations, undo, redo, getFieldReferences } = useSurveyBuilder();
+  const { fitView, zoomIn, zoomOut, getNodes, deleteElements } = useReactFlow();
+
+  useUndoRedoShortcuts({ undo, redo });
 
   
   const [mode, setMode] = useState<FlowV2Mode>("select");
@@ -141,7 +153,8 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
 
     // Helper to resolve target - OPTIMIZED: uses Map for O(1) lookup
     const resolveNavigationTarget = (target: string): string => {
-      if (!target || target === "submit" || target === "end") return "submit";
+      // Screen-out and over-quota endings are drawn as the end node too
+      if (!target || parseEndingTarget(target) || target === "end") return "submit";
       // First try direct UUID lookup (O(1))
       const targetBlock = blocksMap.get(target);
       if (targetBlock) return targetBlock.uuid || "";
@@ -211,6 +224,9 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
         const blockId = block.uuid || `block-${index}`;
         const navRules = block.navigationRules || [];
 
+        // Ending blocks end the survey, so nothing leaves them
+        if (isEndingBlock(block)) return;
+
         // Determine target for sequential flow first
         let nextBlockId = index < blocks.length - 1 ? blocks[index + 1].uuid || `block-${index + 1}` : "submit";
 
@@ -463,7 +479,7 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
       const hasActiveRules = deletedBlocks.some(block => {
           return block.navigationRules && block.navigationRules.some(rule => {
              return rule.target && 
-                    rule.target !== "submit" && 
+                    !parseEndingTarget(rule.target) && 
                     rule.target !== "end" && 
                     !deletedBlockUuids.has(rule.target); // Target is still alive
           });
@@ -552,6 +568,31 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
     [state.rootNode, updateNode, setNodes]
   );
 
+  // Deletes waiting for the author to confirm that references will dangle
+  const [pendingDelete, setPendingDelete] = useState<{
+    fieldNames: string[];
+    references: FieldReference[];
+    resolve: (confirmed: boolean) => void;
+  } | null>(null);
+
+  // Runs before every delete (keyboard, toolbar, cut); asks first when
+  // conditions or formulas elsewhere still read a deleted field
+  const onBeforeDelete: OnBeforeDelete = useCallback(async ({ nodes: deletingNodes }) => {
+    const deletingBlocks = deletingNodes
+      .filter(node => node.type === "survey-node")
+      .map(node => (node.data as any).block as BlockData)
+      .filter(block => block?.uuid);
+    const fieldNames = deletingBlocks.map(block => block.fieldName).filter(Boolean) as string[];
+    const references = getFieldReferences(fieldNames, deletingBlocks.map(block => block.uuid!));
+    if (references.length === 0) return true;
+    return new Promise<boolean>(resolve => setPendingDelete({ fieldNames, references, resolve }));
+  }, [getFieldReferences]);
+
+  const settlePendingDelete = (confirmed: boolean) => {
+    pendingDelete?.resolve(confirmed);
+    setPendingDelete(null);
+  };
+
   // Use refs for state values that event handlers need - this prevents listener recreation
   const stateRef = useRef(state);
   const updateNodeRef = useRef(updateNode);
@@ -1087,6 +1128,53 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
   );
 
 
+  // === Bulk operations on the selected blocks ===
+  const selectedBlocks = useMemo(
+    () => blocks.filter(block => block.uuid && selectedNodeIds.has(block.uuid)),
+    [blocks, selectedNodeIds]
+  );
+
+  // Copies get new uuids and field names, and go after the last selected block.
+  // Pastes bring their translations, duplicates take them from this survey.
+  const insertBlockCopies = useCallback((copied: BlockData[], localizations: LocalizationMap = state.localizations) => {
+    if (!state.rootNode) return;
+    const existing = new Set(blocksMap.keys());
+    const { blocks: copies, localizations: copiedLocalizations } = cloneBlocks(copied, {
+      keepTarget: target => existing.has(target),
+      existingFieldNames: collectFieldNames(blocks),
+      localizations,
+    });
+    if (Object.keys(copiedLocalizations).length > 0) {
+      updateLocalizations(mergeLocalizations(state.localizations, copiedLocalizations));
+    }
+    updateNode(state.rootNode.uuid!, {
+      ...state.rootNode,
+      items: insertBlocksAfter(blocks, selectedBlocks[selectedBlocks.length - 1]?.uuid, copies),
+    });
+  }, [state.rootNode, state.localizations, blocks, blocksMap, selectedBlocks, updateNode, updateLocalizations]);
+
+  // Goes through React Flow so onNodesDelete bridges the flow around the gap
+  const deleteSelectedBlocks = useCallback(() => {
+    deleteElements({ nodes: selectedBlocks.map(block => ({ id: block.uuid! })) });
+  }, [deleteElements, selectedBlocks]);
+
+  const updateSelectedBlocks = useCallback((changes: Partial<BlockData>) => {
+    if (!state.rootNode) return;
+    updateNode(state.rootNode.uuid!, {
+      ...state.rootNode,
+      items: updateBlocks(blocks, selectedNodeIds, changes),
+    });
+  }, [state.rootNode, blocks, selectedNodeIds, updateNode]);
+
+  const { copyBlocks, pasteBlocks } = useBlockClipboard({
+    getSelectedBlocks: () => selectedBlocks,
+    localizations: state.localizations,
+    onPaste: insertBlockCopies,
+    // Goes through onBeforeDelete, which asks first about dangling references
+    onCut: deleteSelectedBlocks,
+    containerRef: reactFlowWrapper,
+  });
+
   // Callbacks for sidebar drag events (kept as noop for sidebar compatibility)
   const handleDragStart = useCallback(() => {}, []);
   const handleDragEnd = useCallback(() => {}, []);
@@ -1330,6 +1418,7 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
                 onNodesChange={onNodesChange}
                 onEdgesChange={onEdgesChange}
                 onNodesDelete={onNodesDelete}
+                onBeforeDelete={onBeforeDelete}
                 onConnect={onConnect}
                 onConnectStart={onConnectStart}
                 onConnectEnd={onConnectEnd}
@@ -1348,9 +1437,10 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
                 minZoom={0.1}
                 maxZoom={1.5}
                 panOnScroll
-                selectionOnDrag
-                // panOnDrag={mode === "pan" || mode === "select"}
-                // selectionOnDrag={mode === "select"}
+                selectionOnDrag={mode === "select"}
+                // Dragging the canvas draws a selection box in select mode; pan with the middle or right button
+                panOnDrag={mode === "select" ? [1, 2] : true}
+                multiSelectionKeyCode={["Shift", "Meta", "Control"]}
                 connectOnClick={mode === "connect"}
                 elevateEdgesOnSelect={true}
                 proOptions={{ hideAttribution: true }}
@@ -1360,6 +1450,19 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
                 <Panel position="top-right" className="bg-white/80 dark:bg-slate-900/80 p-2 rounded shadow-sm border border-slate-200 dark:border-slate-700 text-xs text-slate-500 dark:text-slate-400">
                     Double-click nodes to edit. Click lines to see options.
                 </Panel>
+                {selectedBlocks.length > 0 && (
+                  <Panel position="bottom-center">
+                    <BulkBlockActions
+                      count={selectedBlocks.length}
+                      onDuplicate={() => insertBlockCopies(selectedBlocks)}
+                      onCopy={() => copyBlocks(selectedBlocks)}
+                      onPaste={pasteBlocks}
+                      onDelete={deleteSelectedBlocks}
+                      onUpdate={updateSelectedBlocks}
+                      onClear={() => setNodes(current => current.map(node => (node.selected ? { ...node, selected: false } : node)))}
+                    />
+                  </Panel>
+                )}
             </ReactFlow>
 
             {/* Edge Tooltip - rendered outside ReactFlow for proper positioning */}
@@ -1477,6 +1580,14 @@ const FlowV3BuilderInner: React.FC<FlowV3BuilderProps> = ({ onClose }) => {
         onOpenChange={setShowBlockSelector}
         onSelect={handleBlockSelect}
       />
+
+      <DanglingReferencesDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && settlePendingDelete(false)}
+        fieldNames={pendingDelete?.fieldNames || []}
+        references={pendingDelete?.references || []}
+        onConfirm={() => settlePendingDelete(true)}
+      />
     </div>
     </BlocksMapProvider>
   );
@@ -11,6 +11,7 @@ import { NavigationRulesEditor } from "../common/NavigationRulesEditor";
 import { ValidationRulesEditor } from "../common/ValidationRulesEditor";
 import { CommonBlockRules } from "../common/CommonBlockRules";
 import { ABTestEditor } from "../common/ABTestEditor";
+import { OrderModeSelect } from "../common/RandomizationEditor";
 
 interface NodeConfigPanelProps {
   nodeId: string | null;
@@ -228,6 +229,14 @@ export const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({
           </div>
         )}
 
+        {(nodeData.items?.length || nodeData.nodes?.length) ? (
+          <OrderModeSelect
+            label={nodeData.nodes?.length ? "Page and Section Order" : "Page Order"}
+            value={nodeData.itemOrder}
+            onChange={(itemOrder) => handleUpdateField('itemOrder', itemOrder)}
+          />
+        ) : null}
+
         <div className="bg-muted p-3 rounded-lg">
           <div className="text-sm font-medium mb-2">Structure</div>
           <div className="text-xs text-muted-foreground space-y-1">
@@ -8,11 +8,13 @@ import { CircleDot, GripVertical, PieChart, Settings, Trash2, GitBranch } from "
 import { Button } from "../../../components/ui/button";
 import { Badge } from "../../../components/ui/badge";
 import { useBlocksMap } from "../utils/BlocksMapContext";
+import { LintIssueBadge } from "../../common/LintIssues";
+import { isEndingBlock } from "../../../utils/outcomes";
 
 // Custom Node Component - Performance optimized
 // Using areEqual comparison to prevent unnecessary re-renders
 const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>) => {
-  const { state } = useSurveyBuilder();
+  const { state, getLintIssues } = useSurveyBuilder();
   const { deleteElements } = useReactFlow();
   const blocksMap = useBlocksMap();
 
@@ -32,6 +34,11 @@ const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>
     [state.definitions.blocks, block.type]
   );
 
+  const lintIssues = useMemo(
+    () => (block.uuid ? getLintIssues(block.uuid) : []),
+    [block.uuid, getLintIssues]
+  );
+
   // Stable reference for delete - only depends on id and deleteElements
   const handleDelete = useCallback((e?: React.MouseEvent) => {
       e?.stopPropagation();
@@ -67,6 +74,7 @@ const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>
   const hasActiveRules = block.navigationRules && block.navigationRules.some(rule => 
     rule.target && rule.target !== "submit" && rule.target !== "end"
   );
+  const isEnding = isEndingBlock(block);
 
   return (
     <div
@@ -108,9 +116,10 @@ const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>
               A/B Testing ({block.abTest.variants.length} variants)
             </Badge>
           )}
+          <LintIssueBadge issues={lintIssues} />
         </div>
             <div className="text-sm font-medium text-slate-800 dark:text-slate-200 truncate">
-              {block.fieldName}
+              {isEnding ? block.name : block.fieldName}
             </div>
 
       </div>
@@ -118,15 +127,17 @@ const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>
 
       {/* Node Actions Toolbar (Visible on Hover) */}
       <div className="absolute -top-3 right-4 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10">
-        <Button
-            variant="secondary"
-            size="icon"
-            className="h-7 w-7 rounded-full shadow-sm border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700"
-            onClick={handleAddBranch}
-            title="Add Branch"
-        >
-            <GitBranch className="h-3.5 w-3.5 text-slate-600 dark:text-slate-300" />
-        </Button>
+        {!isEnding && (
+          <Button
+              variant="secondary"
+              size="icon"
+              className="h-7 w-7 rounded-full shadow-sm border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 hover:bg-slate-100 dark:hover:bg-slate-700"
+              onClick={handleAddBranch}
+              title="Add Branch"
+          >
+              <GitBranch className="h-3.5 w-3.5 text-slate-600 dark:text-slate-300" />
+          </Button>
+        )}
         <Button
             variant="secondary"
             size="icon"
@@ -166,12 +177,14 @@ const SurveyNodeInner = ({ id, data, selected }: NodeProps<Node<FlowV3NodeData>>
         )}
       </div>
 
-      {/* Source Handle (Bottom) */}
-      <Handle
-        type="source"
-        position={Position.Bottom}
-        className="!w-3 !h-3 !bg-slate-400 !border-2 !border-white dark:!border-slate-900"
-      />
+      {/* Source Handle (Bottom) - endings have no next step */}
+      {!isEnding && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          className="!w-3 !h-3 !bg-slate-400 !border-2 !border-white dark:!border-slate-900"
+        />
+      )}
     </div>
   );
 };
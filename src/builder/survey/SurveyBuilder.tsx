@@ -6,22 +6,29 @@ import { SurveyNode } from "./SurveyNode";
 import { LocalizationEditor } from "./helpers/LocalizationEditor";
 import { v4 as uuidv4 } from "uuid";
 import { BlockLibrary } from "./panels/BlockLibrary";
+import { QuotaEditor } from "./panels/QuotaEditor";
+import { ScoringEditor } from "./panels/ScoringEditor";
+import { ScenarioEditor } from "./panels/ScenarioEditor";
 import { JsonEditor } from "./helpers/JsonEditor";
-import { BlockDefinition, GlobalCustomField, LocalizationMap, NodeData, NodeDefinition, ThemeDefinition, LayoutProps, SurveyMode, EditorMode } from "../../types";
+import { BlockDefinition, GlobalCustomField, LocalizationMap, NodeData, NodeDefinition, ThemeDefinition, LayoutProps, SurveyMode, EditorMode, SurveyValidationResult, BlockSnippetStore } from "../../types";
 import { SurveyBuilderProvider, useSurveyBuilder } from "../../context/SurveyBuilderContext";
 import { SurveyGraph } from "./SurveyGraph";
 import { ThemeBuilder } from "./panels/ThemeBuilder";
 import { PreviewSurvey } from "./panels/PreviewSurvey";
 import { FlowV3Builder } from "../flowv3";
+import { useUndoRedoShortcuts } from "../../hooks/useUndoRedoShortcuts";
+import { migrateSurvey } from "../../utils/surveyMigrations";
+import { validateSurveyDocument } from "../../utils/surveySchema";
 
 // Define the props
 interface SurveyBuilderProps {
   initialData?: {
+    schemaVersion?: number;
     rootNode?: NodeData;
     localizations?: LocalizationMap;
     theme?: ThemeDefinition;
   };
-  onDataChange?: (data: { rootNode: NodeData | null; localizations: LocalizationMap }) => void;
+  onDataChange?: (data: { schemaVersion: number; rootNode: NodeData | null; localizations: LocalizationMap }) => void;
   blockDefinitions?: BlockDefinition[];
   nodeDefinitions?: NodeDefinition[];
   globalCustomFields?: GlobalCustomField[];
@@ -37,13 +44,19 @@ interface SurveyBuilderProps {
    */
   mode?: SurveyMode;
   editorType?: EditorMode;
+  /** Where the block library keeps snippets, e.g. a team-wide API; localStorage by default */
+  snippetStore?: BlockSnippetStore;
 }
 
 // Ref handle interface - methods exposed to parent components
 export interface SurveyBuilderHandle {
   updateTheme: (theme: ThemeDefinition) => void;
   getTheme: () => ThemeDefinition;
-  importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition }) => void;
+  /** Rejects documents that fail schema validation; the result lists errors and warnings */
+  importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition; schemaVersion?: number }) => SurveyValidationResult;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
 }
 
 // The main component wrapped with provider
@@ -58,7 +71,8 @@ export const SurveyBuilder = forwardRef<SurveyBuilderHandle, SurveyBuilderProps>
   customData,
   logo = null,
   mode = 'pageless',
-  editorType = 'full'
+  editorType = 'full',
+  snippetStore
 }, ref) => {
   return (
     <SurveyBuilderProvider initialData={initialData} customData={customData} mode={mode}>
@@ -73,6 +87,7 @@ export const SurveyBuilder = forwardRef<SurveyBuilderHandle, SurveyBuilderProps>
         logo={logo}
         mode={mode}
         editorType={editorType}
+        snippetStore={snippetStore}
       />
     </SurveyBuilderProvider>
   );
@@ -88,7 +103,8 @@ const SurveyBuilderContent = forwardRef<SurveyBuilderHandle, Omit<SurveyBuilderP
   previewLayout,
   logo = null,
   mode = 'pageless',
-  editorType = 'full'
+  editorType = 'full',
+  snippetStore
 }, ref) => {
   const {
     state,
@@ -101,6 +117,9 @@ const SurveyBuilderContent = forwardRef<SurveyBuilderHandle, Omit<SurveyBuilderP
     setGlobalCustomFields,
     updateTheme,
     importSurvey,
+    undo,
+    redo,
+    canUndo,
   } = useSurveyBuilder();
 
   // Expose methods to parent via ref
@@ -109,15 +128,29 @@ const SurveyBuilderContent = forwardRef<SurveyBuilderHandle, Omit<SurveyBuilderP
       updateTheme(theme);
     },
     getTheme: () => state.theme,
-    importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition }) => {
+    importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition; schemaVersion?: number }) => {
+      const validation = validateSurveyDocument(migrateSurvey(data), {
+        blockDefinitions: Object.values(state.definitions.blocks),
+      });
+      if (!validation.valid) {
+        console.error("importSurvey: invalid survey document", validation.errors);
+        return validation;
+      }
       importSurvey(data);
+      return validation;
     },
-  }), [updateTheme, state.theme, importSurvey]);
+    undo,
+    redo,
+    canUndo: () => canUndo,
+  }), [updateTheme, state.theme, state.definitions.blocks, importSurvey, undo, redo, canUndo]);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [isThemeBuilderOpen, setIsThemeBuilderOpen] = useState(false);
   const [isFlowBuilderOpen, setIsFlowBuilderOpen] = useState(false);
   const [flowBuilderKey, setFlowBuilderKey] = useState(0);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  // The flow builder sheet binds its own shortcuts while open
+  useUndoRedoShortcuts({ undo, redo, enabled: !isFlowBuilderOpen });
   
   // 1. Block definitions (once or on true changes only)
   React.useEffect(() => {
@@ -278,9 +311,15 @@ const SurveyBuilderContent = forwardRef<SurveyBuilderHandle, Omit<SurveyBuilderP
               <Tabs defaultValue="blocks" className="mt-4">
                 <TabsList className="mb-4">
                   <TabsTrigger value="blocks">Block Library</TabsTrigger>
+                  <TabsTrigger value="quotas">Quotas</TabsTrigger>
+                  <TabsTrigger value="scoring">Scoring</TabsTrigger>
+                  <TabsTrigger value="tests">Tests</TabsTrigger>
                   <TabsTrigger value="json">JSON</TabsTrigger>
                 </TabsList>
-                <TabsContent value="blocks" className="overflow-y-auto"><BlockLibrary /></TabsContent>
+                <TabsContent value="blocks" className="overflow-y-auto"><BlockLibrary snippetStore={snippetStore} /></TabsContent>
+                <TabsContent value="quotas" className="overflow-y-auto"><QuotaEditor /></TabsContent>
+                <TabsContent value="scoring" className="overflow-y-auto"><ScoringEditor /></TabsContent>
+                <TabsContent value="tests" className="overflow-y-auto"><ScenarioEditor /></TabsContent>
                 <TabsContent value="json"><JsonEditor /></TabsContent>
               </Tabs>
             </SheetContent>
@@ -8,6 +8,10 @@ import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
 import { BlockData } from "../../../types";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "../../../components/ui/dialog";
 import {CommonBlockRules} from "../../common/CommonBlockRules";
+import { LintIssueBadge, LintIssueList } from "../../common/LintIssues";
+import { PipedFieldAutocomplete } from "../../common/PipedFieldAutocomplete";
+import { DanglingReferencesDialog, FieldRenameDialog } from "../../common/FieldRename";
+import type { FieldReference } from "../../../utils/fieldReferences";
 import { PieChart } from "lucide-react";
 
 // Lazy load heavy rule editors - they're only used when dialog is open
@@ -19,16 +23,38 @@ interface ContentBlockItemProps {
   data: BlockData;
   onUpdate: (data: BlockData) => void;
   onRemove: () => void;
+  /** Part of the multi-selection */
+  selected?: boolean;
+  /** Click on the header; Ctrl/Cmd and Shift extend the selection */
+  onSelect?: (event: React.MouseEvent) => void;
 }
 
+// Clicks on the header's buttons and inputs don't select the block
+const isInteractiveTarget = (target: EventTarget) =>
+  target instanceof Element && !!target.closest("button, a, input, textarea, select, [role='dialog']");
+
 export const ContentBlockItem: React.FC<ContentBlockItemProps> = ({
   data,
   onUpdate,
   onRemove,
+  selected = false,
+  onSelect,
 }) => {
-  const { state } = useSurveyBuilder();
+  const { state, getLintIssues, getAvailableFieldsBefore, getFieldReferences } = useSurveyBuilder();
   const [isEditing, setIsEditing] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [danglingReferences, setDanglingReferences] = useState<FieldReference[]>([]);
   const blockDefinition = state.definitions.blocks[data.type];
+  const lintIssues = data.uuid ? getLintIssues(data.uuid) : [];
+  // Answers from earlier blocks can be piped into this block's text
+  const pipedFields = isEditing ? getAvailableFieldsBefore(data.uuid || data.fieldName || "") : [];
+
+  // Warn first when conditions or formulas elsewhere still use this block's answer
+  const handleRemove = () => {
+    const references = data.fieldName ? getFieldReferences([data.fieldName], data.uuid ? [data.uuid] : []) : [];
+    if (references.length > 0) setDanglingReferences(references);
+    else onRemove();
+  };
 
   if (!blockDefinition) {
     return (
@@ -52,8 +78,13 @@ export const ContentBlockItem: React.FC<ContentBlockItemProps> = ({
   }
 
   return (
-    <Card className="mb-4 content-block-item">
-      <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between pb-2">
+    <Card className={`mb-4 content-block-item ${selected ? "ring-2 ring-primary" : ""}`} aria-selected={onSelect ? selected : undefined}>
+      <CardHeader
+        className={`flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between pb-2 ${onSelect ? "cursor-pointer select-none" : ""}`}
+        onClick={(e) => {
+          if (onSelect && !isInteractiveTarget(e.target)) onSelect(e);
+        }}
+      >
         <div className="flex gap-2 items-center flex-wrap">
           {blockDefinition.icon && <span>{blockDefinition.icon}</span>}
           <span className="font-medium">{data.name || blockDefinition.name}</span>
@@ -68,6 +99,7 @@ export const ContentBlockItem: React.FC<ContentBlockItemProps> = ({
               A/B Testing ({data.abTest.variants.length} variants)
             </Badge>
           )}
+          <LintIssueBadge issues={lintIssues} />
         </div>
         <div className="flex flex-wrap gap-2 sm:flex-nowrap">
           <Dialog open={isEditing} onOpenChange={setIsEditing}>
@@ -88,14 +120,16 @@ export const ContentBlockItem: React.FC<ContentBlockItemProps> = ({
                   <div className="flex items-center gap-2">
                     <Label className="text-base font-semibold">Block Configuration</Label>
                   </div>
-                  {blockDefinition.renderFormFields({
-                    data,
-                    onUpdate,
-                    onRemove: () => {
-                      setIsEditing(false);
-                      onRemove();
-                    },
-                  })}
+                  <PipedFieldAutocomplete fields={pipedFields}>
+                    {blockDefinition.renderFormFields({
+                      data,
+                      onUpdate,
+                      onRemove: () => {
+                        setIsEditing(false);
+                        handleRemove();
+                      },
+                    })}
+                  </PipedFieldAutocomplete>
                 </div>
                 <CommonBlockRules data={data} onUpdate={onUpdate} />
                 <Suspense fallback={<div className="p-4 text-sm text-muted-foreground">Loading editors...</div>}>
@@ -107,17 +141,42 @@ export const ContentBlockItem: React.FC<ContentBlockItemProps> = ({
             </DialogContent>
           </Dialog>
 
+          {data.fieldName && (
+            <Button type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setIsRenaming(true)}
+            >
+              Rename
+            </Button>
+          )}
+
           <Button type="button"
             variant="outline"
             size="sm"
-            onClick={onRemove}
+            onClick={handleRemove}
           >
             Remove
           </Button>
         </div>
+        {data.fieldName && (
+          <FieldRenameDialog fieldName={data.fieldName} open={isRenaming} onOpenChange={setIsRenaming} />
+        )}
+        <DanglingReferencesDialog
+          open={danglingReferences.length > 0}
+          onOpenChange={(open) => !open && setDanglingReferences([])}
+          fieldNames={data.fieldName ? [data.fieldName] : []}
+          references={danglingReferences}
+          onConfirm={onRemove}
+        />
       </CardHeader>
 
       <CardContent>
+        {lintIssues.length > 0 && (
+          <div className="mb-3">
+            <LintIssueList issues={lintIssues} />
+          </div>
+        )}
         {blockDefinition.renderItem({
           data,
           onUpdate,
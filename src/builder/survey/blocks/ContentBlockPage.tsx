@@ -26,17 +26,23 @@ import { ContentBlockItem } from "./ContentBlockItem";
 import { v4 as uuidv4 } from "uuid";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
 import { BlockData } from "../../../types";
+import { OrderModeSelect } from "../../common/RandomizationEditor";
 
 interface ContentBlockPageProps {
   data: BlockData;
   onUpdate: (data: BlockData) => void;
   onRemove: () => void;
+  /** Uuids of the blocks selected in the builder, on any page */
+  selectedBlocks?: Set<string>;
+  onSelectBlock?: (uuid: string, event: React.MouseEvent) => void;
 }
 
 export const ContentBlockPage: React.FC<ContentBlockPageProps> = ({
   data,
   onUpdate,
   onRemove,
+  selectedBlocks,
+  onSelectBlock,
 }) => {
   const { state } = useSurveyBuilder();
   const [collapsed, setCollapsed] = useState(false);
@@ -117,6 +123,13 @@ export const ContentBlockPage: React.FC<ContentBlockPageProps> = ({
 
         {/* Action buttons */}
         <div className="flex flex-wrap gap-2 sm:flex-nowrap">
+          <OrderModeSelect
+            compact
+            label="Block order"
+            value={data.itemOrder}
+            onChange={(itemOrder) => onUpdate({ ...data, itemOrder })}
+            className="h-8 grow sm:grow-0 sm:w-[240px]"
+          />
           <Button
             type="button"
             variant="outline"
@@ -176,6 +189,8 @@ export const ContentBlockPage: React.FC<ContentBlockPageProps> = ({
                           handleBlockUpdate(index, updatedBlock)
                         }
                         onRemove={() => handleBlockRemove(index)}
+                        selected={!!block.uuid && !!selectedBlocks?.has(block.uuid)}
+                        onSelect={onSelectBlock && block.uuid ? (e) => onSelectBlock(block.uuid!, e) : undefined}
                       />
                     </div>
                   </SortableItem>
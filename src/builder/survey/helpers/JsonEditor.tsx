@@ -6,9 +6,30 @@ import { Textarea } from "../../../components/ui/textarea";
 import { Alert, AlertDescription, AlertTitle } from "../../../components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../../components/ui/tabs";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
-import { NodeData, BlockData } from "../../../types";
+import { NodeData, BlockData, SurveyValidationError } from "../../../types";
 import { ensureNodeUuids } from "../../../utils/nodeUtils";
 import { detectSurveyMode } from "../../../utils/surveyUtils";
+import { migrateSurvey } from "../../../utils/surveyMigrations";
+import { generateSurveyJsonSchema, validateSurveyDocument } from "../../../utils/surveySchema";
+import { generateSurveyResponseTypes } from "../../../utils/responseTypes";
+
+type ResponseTypeFormat = "typescript" | "jsonSchema" | "zod";
+
+// Keep long validation reports readable
+const MAX_LISTED_ISSUES = 10;
+
+const IssueList: React.FC<{ issues: SurveyValidationError[] }> = ({ issues }) => (
+  <ul className="mt-2 space-y-1 text-xs">
+    {issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+      <li key={idx}>
+        <code className="font-mono">{issue.path}</code>: {issue.message}
+      </li>
+    ))}
+    {issues.length > MAX_LISTED_ISSUES && (
+      <li>...and {issues.length - MAX_LISTED_ISSUES} more</li>
+    )}
+  </ul>
+);
 
 /**
  * Converts a paged survey structure to pageless by extracting all blocks from pages
@@ -70,6 +91,10 @@ export const JsonEditor: React.FC = () => {
   const [importJson, setImportJson] = useState<string>("");
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<SurveyValidationError[]>([]);
+  const [validationWarnings, setValidationWarnings] = useState<SurveyValidationError[]>([]);
+  const [typesFormat, setTypesFormat] = useState<ResponseTypeFormat>("typescript");
+  const [typesOutput, setTypesOutput] = useState<string>("");
 
   // Get current builder mode
   const builderMode = state.mode;
@@ -87,25 +112,57 @@ export const JsonEditor: React.FC = () => {
     }, 3000);
   };
 
+  // Generate the type of the onSubmit payload
+  const handleGenerateTypes = (format: ResponseTypeFormat) => {
+    setTypesFormat(format);
+    if (!state.rootNode) {
+      setTypesOutput("");
+      return;
+    }
+    const types = generateSurveyResponseTypes(state.rootNode, state.definitions.blocks, { zod: format === "zod" });
+    setTypesOutput(
+      format === "typescript" ? types.typescript
+        : format === "zod" ? types.zod || ""
+        : JSON.stringify(types.jsonSchema, null, 2)
+    );
+  };
+
   // Import survey from JSON
   const handleImport = () => {
     try {
       setError(null);
       setSuccess(null);
+      setValidationErrors([]);
+      setValidationWarnings([]);
 
       if (!importJson.trim()) {
         setError("Please enter JSON data to import");
         return;
       }
 
-      const data = JSON.parse(importJson);
+      const parsed = JSON.parse(importJson);
 
       // Validate the imported data
-      if (!data.rootNode || typeof data.rootNode !== "object") {
+      if (!parsed.rootNode || typeof parsed.rootNode !== "object") {
         setError("Invalid survey data: rootNode is required and must be an object");
         return;
       }
 
+      // Upgrade older documents before converting between modes
+      const data = migrateSurvey(parsed);
+
+      const validation = validateSurveyDocument(data, {
+        blockDefinitions: Object.values(state.definitions.blocks),
+      });
+      const warnings = validation.errors.filter((issue) => issue.severity === "warning");
+      if (!validation.valid) {
+        setValidationErrors(validation.errors.filter((issue) => issue.severity === "error"));
+        setValidationWarnings(warnings);
+        setError("Invalid survey data: the document does not match the survey schema");
+        return;
+      }
+      setValidationWarnings(warnings);
+
       // Detect the mode of the imported survey
       const importedMode = detectSurveyMode(data.rootNode as NodeData);
 
@@ -128,6 +185,7 @@ export const JsonEditor: React.FC = () => {
       const rootNodeWithUuids = ensureNodeUuids(rootNodeToImport);
 
       importSurvey({
+        schemaVersion: data.schemaVersion,
         rootNode: rootNodeWithUuids,
         localizations: data.localizations || { en: {} },
         theme: data.theme || null
@@ -148,6 +206,7 @@ export const JsonEditor: React.FC = () => {
         <TabsList>
           <TabsTrigger value="import">Import</TabsTrigger>
           <TabsTrigger value="export">Export</TabsTrigger>
+          <TabsTrigger value="types" onClick={() => handleGenerateTypes(typesFormat)}>Response Types</TabsTrigger>
         </TabsList>
 
         <TabsContent value="import">
@@ -188,7 +247,19 @@ export const JsonEditor: React.FC = () => {
             {error && (
               <Alert variant="destructive">
                 <AlertTitle>Error</AlertTitle>
-                <AlertDescription>{error}</AlertDescription>
+                <AlertDescription>
+                  {error}
+                  {validationErrors.length > 0 && <IssueList issues={validationErrors} />}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {validationWarnings.length > 0 && (
+              <Alert variant="default" className="bg-yellow-50 border-yellow-300 text-yellow-800">
+                <AlertTitle>Warnings</AlertTitle>
+                <AlertDescription>
+                  <IssueList issues={validationWarnings} />
+                </AlertDescription>
               </Alert>
             )}
 
@@ -217,6 +288,16 @@ export const JsonEditor: React.FC = () => {
             </div>
 
             <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline"
+                onClick={() => {
+                  const schema = generateSurveyJsonSchema(Object.values(state.definitions.blocks));
+                  navigator.clipboard.writeText(JSON.stringify(schema, null, 2));
+                  setSuccess("JSON Schema copied to clipboard!");
+                  setTimeout(() => setSuccess(null), 3000);
+                }}
+              >
+                Copy JSON Schema
+              </Button>
               <Button type="button" onClick={handleExport}>Refresh</Button>
               <Button type="button"
                 onClick={() => {
@@ -238,6 +319,56 @@ export const JsonEditor: React.FC = () => {
             )}
           </div>
         </TabsContent>
+
+        <TabsContent value="types">
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-medium mb-2">Response Types</h3>
+              <p className="text-sm text-muted-foreground mb-2">
+                The shape of the data passed to <code>onSubmit</code>. Fields that can be hidden or skipped are optional.
+              </p>
+              <div className="flex gap-2 mb-2">
+                {([["typescript", "TypeScript"], ["jsonSchema", "JSON Schema"], ["zod", "Zod"]] as const).map(([format, label]) => (
+                  <Button
+                    key={format}
+                    type="button"
+                    size="sm"
+                    variant={typesFormat === format ? "default" : "outline"}
+                    onClick={() => handleGenerateTypes(format)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <Textarea
+                value={typesOutput}
+                rows={12}
+                className="font-mono text-sm"
+                readOnly
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="button"
+                onClick={() => {
+                  navigator.clipboard.writeText(typesOutput);
+                  setSuccess("Copied to clipboard!");
+                  setTimeout(() => setSuccess(null), 3000);
+                }}
+                disabled={!typesOutput}
+              >
+                Copy to Clipboard
+              </Button>
+            </div>
+
+            {success && (
+              <Alert variant="default" className="bg-green-50 border-green-300 text-green-800">
+                <AlertTitle>Success</AlertTitle>
+                <AlertDescription>{success}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,134 +1,198 @@
 import type React from "react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "../../../components/ui/card";
 import { Label } from "../../../components/ui/label";
 import { Alert, AlertDescription } from "../../../components/ui/alert";
-import { ClipboardCopy } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import { Progress } from "../../../components/ui/progress";
+import { Switch } from "../../../components/ui/switch";
+import { ClipboardCopy, Download, Upload } from "lucide-react";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
 import { LocalizationMap } from "../../../types";
+import {
+  DEFAULT_LANGUAGE,
+  collectLocalizationEntries,
+  getEntryTranslation,
+  getLocalizationCoverage,
+} from "../../../utils/localization";
+import {
+  exportLocalizationsToCsv,
+  exportLocalizationsToXliff,
+  importLocalizationsFromCsv,
+  importLocalizationsFromXliff,
+} from "../../../utils/localizationFormats";
+
+type StatusMessage = { type: "success" | "error"; text: string };
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export const LocalizationEditor: React.FC = () => {
   const { state, updateLocalizations } = useSurveyBuilder();
   const [newLanguageCode, setNewLanguageCode] = useState("");
-  const [labels, setLabels] = useState<string[]>([]);
   const [localizations, setLocalizations] = useState<LocalizationMap>({});
-  const [copySuccess, setCopySuccess] = useState<string | null>(null);
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [expandedLanguage, setExpandedLanguage] = useState<string | null>(null);
+  const [showMissingOnly, setShowMissingOnly] = useState(false);
 
   // Initialize localizations from state
   useEffect(() => {
-    setLocalizations(state.localizations);
+    setLocalizations(state.localizations || {});
   }, [state.localizations]);
 
-  // Extract all labels from the survey
-  useEffect(() => {
-    if (!state.rootNode) return;
-
-    const extractedLabels = extractLabelsFromSurvey(state.rootNode);
-    setLabels(extractedLabels);
+  // Every translatable text in the survey, keyed by block
+  const entries = useMemo(() => collectLocalizationEntries(state.rootNode), [state.rootNode]);
 
-    // Make sure all labels exist in the English version
-    updateEnglishLabels(extractedLabels);
-  }, [state.rootNode]);
+  // English is the source language - the text authored in the survey
+  const languages = Object.keys(localizations).filter((langCode) => langCode !== DEFAULT_LANGUAGE);
 
-  // Update English labels
-  const updateEnglishLabels = (extractedLabels: string[]) => {
-    const englishLabels = { ...(localizations.en || {}) };
+  const coverage = useMemo(
+    () => getLocalizationCoverage(state.rootNode, localizations, languages),
+    [state.rootNode, localizations]
+  );
 
-    let updated = false;
-    for (const label of extractedLabels) {
-      if (!englishLabels[label]) {
-        englishLabels[label] = label;
-        updated = true;
-      }
-    }
+  const showStatus = (message: StatusMessage) => {
+    setStatus(message);
+    setTimeout(() => setStatus(null), 4000);
+  };
 
-    if (updated) {
-      const updatedLocalizations = {
-        ...localizations,
-        en: englishLabels,
-      };
-      setLocalizations(updatedLocalizations);
-      updateLocalizations(updatedLocalizations);
-    }
+  const applyLocalizations = (updatedLocalizations: LocalizationMap) => {
+    setLocalizations(updatedLocalizations);
+    updateLocalizations(updatedLocalizations);
   };
 
   // Add a new language
   const handleAddLanguage = () => {
-    if (!newLanguageCode || newLanguageCode.trim() === "") return;
-    if (localizations[newLanguageCode]) return; // Language already exists
-
-    const newLang: Record<string, string> = {};
-
-    // Initialize with empty strings
-    labels.forEach((label) => {
-      newLang[label] = "";
-    });
-
-    const updatedLocalizations = {
-      ...localizations,
-      [newLanguageCode]: newLang,
-    };
+    const langCode = newLanguageCode.trim();
+    if (!langCode) return;
+    if (localizations[langCode]) return; // Language already exists
 
-    setLocalizations(updatedLocalizations);
-    updateLocalizations(updatedLocalizations);
+    applyLocalizations({ ...localizations, [langCode]: {} });
+    setExpandedLanguage(langCode);
     setNewLanguageCode("");
   };
 
   // Remove a language
   const handleRemoveLanguage = (langCode: string) => {
-    if (langCode === "en") return; // Cannot remove English
-
     const { [langCode]: _, ...rest } = localizations;
-    setLocalizations(rest);
-    updateLocalizations(rest);
+    applyLocalizations(rest);
   };
 
   // Update a translation
-  const handleUpdateTranslation = (
-    langCode: string,
-    label: string,
-    value: string
-  ) => {
-    const updatedLang = {
-      ...localizations[langCode],
-      [label]: value,
-    };
-
-    const updatedLocalizations = {
-      ...localizations,
-      [langCode]: updatedLang,
-    };
+  const handleUpdateTranslation = (langCode: string, key: string, value: string) => {
+    const updatedLang = { ...localizations[langCode] };
+    if (value) {
+      updatedLang[key] = value;
+    } else {
+      delete updatedLang[key];
+    }
+    applyLocalizations({ ...localizations, [langCode]: updatedLang });
+  };
 
-    setLocalizations(updatedLocalizations);
-    updateLocalizations(updatedLocalizations);
+  // Drop keys that no longer match anything in the survey (deleted blocks, options, ...)
+  const handleRemoveUnused = (langCode: string) => {
+    const unused = new Set(coverage[langCode]?.unused || []);
+    const updatedLang = Object.fromEntries(
+      Object.entries(localizations[langCode] || {}).filter(([key]) => !unused.has(key))
+    );
+    applyLocalizations({ ...localizations, [langCode]: updatedLang });
+    showStatus({ type: "success", text: `Removed ${unused.size} unused keys from ${langCode}` });
   };
 
   // Copy localizations to clipboard
   const handleCopyToClipboard = () => {
     navigator.clipboard.writeText(JSON.stringify(localizations, null, 2));
-    setCopySuccess("Copied to clipboard!");
-    setTimeout(() => setCopySuccess(null), 3000);
+    showStatus({ type: "success", text: "Copied to clipboard!" });
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(exportLocalizationsToCsv(entries, localizations, languages), "survey-translations.csv", "text/csv");
+  };
+
+  const handleExportXliff = (langCode: string) => {
+    downloadFile(
+      exportLocalizationsToXliff(entries, localizations, langCode),
+      `survey-translations.${langCode}.xlf`,
+      "application/xliff+xml"
+    );
+  };
+
+  // Import translations from a CSV or XLIFF file
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const content = e.target?.result as string;
+        const result = /\.csv$/i.test(file.name)
+          ? importLocalizationsFromCsv(content, localizations)
+          : importLocalizationsFromXliff(content, localizations);
+        applyLocalizations(result.localizations);
+        showStatus({
+          type: "success",
+          text: `Imported ${result.updated} translations${result.languages.length ? ` for ${result.languages.join(", ")}` : ""}`,
+        });
+      } catch (error) {
+        console.error("Error importing translations:", error);
+        showStatus({ type: "error", text: `Could not import ${file.name}: ${(error as Error).message}` });
+      }
+    };
+    reader.readAsText(file);
   };
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-2">
         <h2 className="text-xl font-semibold">Localizations</h2>
-        <Button type="button"
-          variant="outline"
-          onClick={handleCopyToClipboard}
-          className="flex items-center gap-2"
-        >
-          <ClipboardCopy className="w-4 h-4" />
-          <span>Copy JSON</span>
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <label>
+            <Button type="button" variant="outline" asChild className="flex items-center gap-2">
+              <span>
+                <Upload className="w-4 h-4" />
+                Import CSV / XLIFF
+              </span>
+            </Button>
+            <input type="file" accept=".csv,.xlf,.xliff,.xml" onChange={handleImport} className="hidden" />
+          </label>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleExportCsv}
+            disabled={languages.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export CSV</span>
+          </Button>
+          <Button type="button"
+            variant="outline"
+            onClick={handleCopyToClipboard}
+            className="flex items-center gap-2"
+          >
+            <ClipboardCopy className="w-4 h-4" />
+            <span>Copy JSON</span>
+          </Button>
+        </div>
       </div>
 
-      {copySuccess && (
-        <Alert variant="default" className="bg-green-50 border-green-300 text-green-800">
-          <AlertDescription>{copySuccess}</AlertDescription>
+      {status && (
+        <Alert
+          variant={status.type === "error" ? "destructive" : "default"}
+          className={status.type === "success" ? "bg-green-50 border-green-300 text-green-800" : undefined}
+        >
+          <AlertDescription>{status.text}</AlertDescription>
         </Alert>
       )}
 
@@ -145,7 +209,7 @@ export const LocalizationEditor: React.FC = () => {
         <Button type="button" onClick={handleAddLanguage}>Add</Button>
       </div>
 
-      {labels.length === 0 && (
+      {entries.length === 0 && (
         <Alert>
           <AlertDescription>
             No text labels found in the survey. Add content with text to enable localization.
@@ -154,111 +218,107 @@ export const LocalizationEditor: React.FC = () => {
       )}
 
       <div className="space-y-6">
-        {Object.keys(localizations).map((langCode) => (
-          <Card key={langCode}>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-lg">
-                {langCode === "en" ? "English (Default)" : langCode}
-              </CardTitle>
-              {langCode !== "en" && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => handleRemoveLanguage(langCode)}
-                >
-                  Remove
-                </Button>
-              )}
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {labels.map((label) => (
-                  <div key={label} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="flex flex-col">
-                      <Label className="mb-2">{langCode === "en" ? "Original Text" : "English"}</Label>
-                      <div className="p-2 bg-muted rounded-md text-sm">
-                        {langCode === "en" ? label : localizations.en[label] || label}
+        {languages.map((langCode) => {
+          const languageCoverage = coverage[langCode];
+          const isExpanded = expandedLanguage === langCode;
+          const missingKeys = new Set(languageCoverage.missing.map((entry) => entry.key));
+          const visibleEntries = showMissingOnly ? languageCoverage.missing : entries;
+
+          return (
+            <Card key={langCode}>
+              <CardHeader className="space-y-3 pb-2">
+                <div className="flex flex-row items-center justify-between gap-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    {langCode}
+                    <Badge variant={languageCoverage.missing.length === 0 ? "default" : "secondary"}>
+                      {languageCoverage.percentage}%
+                    </Badge>
+                  </CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleExportXliff(langCode)}>
+                      Export XLIFF
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setExpandedLanguage(isExpanded ? null : langCode)}
+                    >
+                      {isExpanded ? "Hide" : "Edit"}
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveLanguage(langCode)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={languageCoverage.percentage} />
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  <span>
+                    {languageCoverage.translated} of {languageCoverage.total} translated
+                  </span>
+                  {languageCoverage.missing.length > 0 && (
+                    <span className="text-destructive">{languageCoverage.missing.length} missing</span>
+                  )}
+                  {languageCoverage.unused.length > 0 && (
+                    <span className="flex items-center gap-2">
+                      {languageCoverage.unused.length} unused
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => handleRemoveUnused(langCode)}
+                      >
+                        Clean up
+                      </Button>
+                    </span>
+                  )}
+                </div>
+              </CardHeader>
+              {isExpanded && (
+                <CardContent>
+                  <div className="flex items-center gap-2 mb-4">
+                    <Switch
+                      id={`missing-only-${langCode}`}
+                      checked={showMissingOnly}
+                      onCheckedChange={setShowMissingOnly}
+                    />
+                    <Label htmlFor={`missing-only-${langCode}`}>Show missing only</Label>
+                  </div>
+                  <div className="space-y-4">
+                    {visibleEntries.map((entry) => (
+                      <div key={entry.key} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="flex flex-col">
+                          <Label className="mb-2 text-xs text-muted-foreground">{entry.context}</Label>
+                          <div className="p-2 bg-muted rounded-md text-sm whitespace-pre-wrap break-words">
+                            {entry.source}
+                          </div>
+                        </div>
+                        <div className="flex flex-col">
+                          <Label className="mb-2">{`${langCode} Translation`}</Label>
+                          <Input
+                            value={getEntryTranslation(entry, langCode, localizations) || ""}
+                            onChange={(e) => handleUpdateTranslation(langCode, entry.key, e.target.value)}
+                            aria-invalid={missingKeys.has(entry.key)}
+                          />
+                        </div>
                       </div>
-                    </div>
-                    <div className="flex flex-col">
-                      <Label className="mb-2">{langCode === "en" ? "English" : `${langCode} Translation`}</Label>
-                      <Input
-                        value={localizations[langCode][label] || ""}
-                        onChange={(e) =>
-                          handleUpdateTranslation(langCode, label, e.target.value)
-                        }
-                        disabled={langCode === "en"}
-                      />
-                    </div>
+                    ))}
+                    {visibleEntries.length === 0 && (
+                      <p className="text-sm text-muted-foreground">Everything is translated.</p>
+                    )}
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                </CardContent>
+              )}
+            </Card>
+          );
+        })}
       </div>
     </div>
   );
 };
-
-// Helper function to extract all labels from a survey - FIXED VERSION
-const extractLabelsFromSurvey = (node: any): string[] => {
-  const labels: Set<string> = new Set();
-
-  // Process the current node
-  const processNode = (currentNode: any) => {
-    if (!currentNode) return;
-
-    // Extract text content from the current node itself
-    if (currentNode.name) labels.add(currentNode.name);
-    if (currentNode.label) labels.add(currentNode.label);
-    if (currentNode.description) labels.add(currentNode.description);
-    if (currentNode.text) labels.add(currentNode.text);
-    if (currentNode.html) labels.add(currentNode.html);
-    if (currentNode.placeholder) labels.add(currentNode.placeholder);
-
-    // Extract from options array (for selectablebox, radio, etc.)
-    if (currentNode.options && Array.isArray(currentNode.options)) {
-      for (const option of currentNode.options) {
-        if (option.label) labels.add(option.label);
-        if (option.text) labels.add(option.text);
-      }
-    }
-
-    // Extract from labels array (for radio buttons, dropdowns)
-    if (currentNode.labels && Array.isArray(currentNode.labels)) {
-      for (const label of currentNode.labels) {
-        if (typeof label === 'string') labels.add(label);
-      }
-    }
-
-    // Process items array - this handles both section->sets and set->form elements
-    if (currentNode.items && Array.isArray(currentNode.items)) {
-      // console.log(`Processing ${currentNode.items.length} items for node:`, currentNode.type);
-      for (const item of currentNode.items) {
-        if (item && typeof item === 'object') {
-          processNode(item); // Recursively process each item
-        }
-      }
-    }
-
-    // Process nodes array (old structure)
-    if (currentNode.nodes && Array.isArray(currentNode.nodes)) {
-      // console.log(`Processing ${currentNode.nodes.length} child nodes for node:`, currentNode.type);
-      for (const childNode of currentNode.nodes) {
-        if (typeof childNode !== "string" && childNode) {
-          processNode(childNode);
-        }
-      }
-    }
-  };
-
-  // console.log('Starting label extraction from:', node);
-  processNode(node);
-  
-  const labelsArray = Array.from(labels);
-  // console.log('Final extracted labels:', labelsArray);
-  
-  return labelsArray;
-};
\ No newline at end of file
@@ -8,7 +8,7 @@ import { Textarea } from "../../../components/ui/textarea";
 import { Label } from "../../../components/ui/label";
 import { v4 as uuidv4 } from "uuid";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
-import { NodeData, BlockData } from "../../../types";
+import { NodeData, BlockData, LocalizationMap } from "../../../types";
 import {
   Root as Sortable,
   Content as SortableContent,
@@ -18,6 +18,23 @@ import {
 import { arrayMove } from "@dnd-kit/sortable";
 import { GripVertical, Plus } from "lucide-react";
 import { ContentBlockItem } from "../blocks/ContentBlockItem";
+import { OrderModeSelect } from "../../common/RandomizationEditor";
+import { BulkBlockActions } from "../../common/BulkBlockActions";
+import { DanglingReferencesDialog } from "../../common/FieldRename";
+import type { FieldReference } from "../../../utils/fieldReferences";
+import { useBlockClipboard } from "../../../hooks/useBlockClipboard";
+import { cloneBlocks } from "../../../utils/blockCloning";
+import { mergeLocalizations } from "../../../utils/localization";
+import {
+  collectBlockUuids,
+  collectFieldNames,
+  insertBlocksAfter,
+  moveBlocksToPage,
+  pickBlocks,
+  removeBlocks,
+  selectBlockRange,
+  updateBlocks,
+} from "../../../utils/blockSelection";
 
 // Lazy load ContentBlockPage - only used in tabs for paged mode
 const ContentBlockPage = lazy(() => import("../blocks/ContentBlockPage").then(m => ({ default: m.ContentBlockPage })));
@@ -33,13 +50,130 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
   onUpdate,
   onRemove,
 }) => {
-  const { createNode, state } = useSurveyBuilder();
+  const { createNode, state, getFieldReferences, updateLocalizations } = useSurveyBuilder();
   const [collapsed, setCollapsed] = useState(false);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selectedBlockIds, setSelectedBlockIds] = useState<string[]>([]);
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [danglingReferences, setDanglingReferences] = useState<FieldReference[]>([]);
 
   // Determine if we're in pageless mode
   const isPagelessMode = state.mode === 'pageless';
 
+  // === Multi-selection and bulk operations ===
+  const items = (data.items || []) as BlockData[];
+  // Blocks in the order they are listed, across pages
+  const blockOrder = (isPagelessMode ? items : items.flatMap((page) => page.items || []))
+    .map((block) => block.uuid)
+    .filter(Boolean) as string[];
+  // Blocks removed since they were selected drop out of the selection
+  const selectedBlocks = new Set(selectedBlockIds.filter((uuid) => blockOrder.includes(uuid)));
+
+  const handleSelectBlock = (uuid: string, event: React.MouseEvent) => {
+    if (event.shiftKey && selectionAnchor) {
+      setSelectedBlockIds(selectBlockRange(blockOrder, selectionAnchor, uuid));
+      return;
+    }
+    if (event.ctrlKey || event.metaKey) {
+      setSelectedBlockIds(selectedBlocks.has(uuid)
+        ? [...selectedBlocks].filter((id) => id !== uuid)
+        : [...selectedBlocks, uuid]);
+    } else {
+      setSelectedBlockIds(selectedBlocks.size === 1 && selectedBlocks.has(uuid) ? [] : [uuid]);
+    }
+    setSelectionAnchor(uuid);
+  };
+
+  const clearSelection = () => {
+    setSelectedBlockIds([]);
+    setSelectionAnchor(null);
+  };
+
+  // Copies get new uuids and field names; rules to blocks in this survey still work.
+  // Pastes bring their translations, duplicates take them from this survey.
+  const insertCopies = (blocks: BlockData[], localizations: LocalizationMap = state.localizations) => {
+    const existing = collectBlockUuids(items);
+    const { blocks: copies, localizations: copiedLocalizations } = cloneBlocks(blocks, {
+      keepTarget: (target) => existing.has(target),
+      existingFieldNames: collectFieldNames(items),
+      localizations,
+    });
+    if (Object.keys(copiedLocalizations).length > 0) {
+      updateLocalizations(mergeLocalizations(state.localizations, copiedLocalizations));
+    }
+    const lastSelected = blockOrder.filter((uuid) => selectedBlocks.has(uuid)).pop();
+
+    let newItems: BlockData[];
+    if (lastSelected || isPagelessMode) {
+      newItems = insertBlocksAfter(items, lastSelected, copies);
+    } else if (items.length > 0) {
+      // Nothing selected: paste onto the last page
+      newItems = items.map((page, index) =>
+        index === items.length - 1 ? { ...page, items: [...(page.items || []), ...copies] } : page
+      );
+    } else {
+      newItems = [{ type: "set", name: "Page 1", uuid: uuidv4(), items: copies }];
+    }
+    onUpdate({ ...data, items: newItems });
+    setSelectedBlockIds(copies.map((block) => block.uuid!).filter(Boolean));
+  };
+
+  const deleteSelected = () => {
+    onUpdate({ ...data, items: removeBlocks(items, selectedBlocks) });
+    clearSelection();
+  };
+
+  const selectedFieldNames = pickBlocks(items, selectedBlocks)
+    .map((block) => block.fieldName)
+    .filter(Boolean) as string[];
+
+  // Warn first when blocks that stay behind use the deleted answers
+  const confirmDeleteSelected = () => {
+    const references = getFieldReferences(selectedFieldNames, selectedBlocks);
+    if (references.length > 0) setDanglingReferences(references);
+    else deleteSelected();
+  };
+
+  const { copyBlocks, pasteBlocks } = useBlockClipboard({
+    getSelectedBlocks: () => pickBlocks(items, selectedBlocks),
+    localizations: state.localizations,
+    onPaste: insertCopies,
+    // Cutting is a delete too, so it asks first about dangling references
+    onCut: confirmDeleteSelected,
+    containerRef,
+    // Nested sections would paste twice
+    enabled: data.uuid === state.rootNode?.uuid,
+  });
+
+  const renderBulkActions = () =>
+    selectedBlocks.size > 0 && (
+      <>
+        <DanglingReferencesDialog
+          open={danglingReferences.length > 0}
+          onOpenChange={(open) => !open && setDanglingReferences([])}
+          fieldNames={selectedFieldNames}
+          references={danglingReferences}
+          onConfirm={deleteSelected}
+        />
+        <BulkBlockActions
+          className="sticky top-0 z-10 mb-3"
+          count={selectedBlocks.size}
+          pages={isPagelessMode ? undefined : items.map((page, index) => ({
+            uuid: page.uuid!,
+            name: page.name || `Page ${index + 1}`,
+          })).filter((page) => page.uuid)}
+          onMove={(pageUuid) => onUpdate({ ...data, items: moveBlocksToPage(items, selectedBlocks, pageUuid) })}
+          onDuplicate={() => insertCopies(pickBlocks(items, selectedBlocks))}
+          onCopy={() => copyBlocks(pickBlocks(items, selectedBlocks))}
+          onPaste={pasteBlocks}
+          onDelete={confirmDeleteSelected}
+          onUpdate={(changes) => onUpdate({ ...data, items: updateBlocks(items, selectedBlocks, changes) })}
+          onClear={clearSelection}
+        />
+      </>
+    );
+
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onUpdate({
       ...data,
@@ -339,6 +473,8 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
                         handleBlockUpdate(index, updatedBlock)
                       }
                       onRemove={() => handleBlockRemove(index)}
+                      selected={!!block.uuid && selectedBlocks.has(block.uuid)}
+                      onSelect={block.uuid ? (e) => handleSelectBlock(block.uuid!, e) : undefined}
                     />
                   </div>
                 </SortableItem>
@@ -411,6 +547,8 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
                     data={page}
                     onUpdate={(updatedPage) => handleUpdatePage(index, updatedPage)}
                     onRemove={() => handleRemovePage(index)}
+                    selectedBlocks={selectedBlocks}
+                    onSelectBlock={handleSelectBlock}
                   />
                 </div>
               </SortableItem>
@@ -423,7 +561,7 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
   );
 
   return (
-    <Card className="mb-4 section-node">
+    <Card ref={containerRef} className="mb-4 section-node">
       <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between pb-2">
         <div className="w-full sm:w-auto">
           <Input
@@ -434,6 +572,13 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
           />
         </div>
         <div className="flex flex-wrap gap-2 sm:flex-nowrap">
+          <OrderModeSelect
+            compact
+            label={isPagelessMode ? "Block order" : "Page order"}
+            value={data.itemOrder}
+            onChange={(itemOrder) => onUpdate({ ...data, itemOrder })}
+            className="h-8 sm:w-[240px]"
+          />
           <Button
             type="button"
             variant="outline"
@@ -469,6 +614,7 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
             {/* Pageless mode: show blocks directly */}
             {isPagelessMode && (
               <TabsContent value="blocks">
+                {renderBulkActions()}
                 {renderBlocksContent()}
               </TabsContent>
             )}
@@ -476,6 +622,7 @@ export const SectionNode: React.FC<SectionNodeProps> = ({
             {/* Paged mode: show pages */}
             {!isPagelessMode && (
               <TabsContent value="pages">
+                {renderBulkActions()}
                 {renderPagesContent()}
               </TabsContent>
             )}
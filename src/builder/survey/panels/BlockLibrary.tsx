@@ -1,53 +1,319 @@
-import type React from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Search, Star, Trash2 } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import { Button } from "../../../components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../../../components/ui/card";
+import { Checkbox } from "../../../components/ui/checkbox";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
+import type { BlockDefinition, BlockSnippet, BlockSnippetStore } from "../../../types";
+import { collectFieldNames } from "../../../utils/blockSelection";
+import { groupBlockDefinitions, searchBlockDefinitions, UNCATEGORIZED_BLOCKS } from "../../../utils/blockSearch";
+import { createLocalSnippetStore, createSnippet, instantiateSnippet } from "../../../utils/snippets";
+import { mergeLocalizations } from "../../../utils/localization";
+import { getSurveyPages } from "../../../utils/surveyUtils";
 
-export const BlockLibrary: React.FC = () => {
-  const { state } = useSurveyBuilder();
+interface BlockLibraryProps {
+  /** Where snippets are kept; localStorage when not given */
+  snippetStore?: BlockSnippetStore;
+}
+
+const FAVOURITES_KEY = "survey_builder_favourite_blocks";
+const ALL = "all";
+const FAVOURITES = "favourites";
+
+const readFavourites = (): string[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(FAVOURITES_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    // Storage is disabled or holds something else
+    return [];
+  }
+};
+
+const writeFavourites = (types: string[]) => {
+  try {
+    window.localStorage.setItem(FAVOURITES_KEY, JSON.stringify(types));
+  } catch (error) {
+    console.warn("Could not save favourite blocks:", error);
+  }
+};
+
+export const BlockLibrary: React.FC<BlockLibraryProps> = ({ snippetStore }) => {
+  const { state, updateNode, updateLocalizations } = useSurveyBuilder();
+  const store = useMemo(() => snippetStore || createLocalSnippetStore(), [snippetStore]);
+
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState(ALL);
+  const [favourites, setFavourites] = useState<string[]>(readFavourites);
+  const [snippets, setSnippets] = useState<BlockSnippet[]>([]);
+  const [snippetName, setSnippetName] = useState("");
+  const [snippetDescription, setSnippetDescription] = useState("");
+  const [selectedBlocks, setSelectedBlocks] = useState<string[]>([]);
+  const [includeNavigation, setIncludeNavigation] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .list()
+      .then((list) => !cancelled && setSnippets(list))
+      .catch((error) => console.error("Error loading block snippets:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const definitions = Object.values(state.definitions.blocks);
+  const categories = groupBlockDefinitions(definitions).map((group) => group.category);
+  const surveyBlocks = state.rootNode
+    ? getSurveyPages(state.rootNode, state.mode).flat().filter((block) => block.uuid)
+    : [];
+
+  const matches = searchBlockDefinitions(definitions, query).filter((definition) =>
+    category === ALL
+      ? true
+      : category === FAVOURITES
+        ? favourites.includes(definition.type)
+        : (definition.category || UNCATEGORIZED_BLOCKS) === category
+  );
+  // Search results are ranked; browsing shows favourites first, then categories
+  const groups = query.trim()
+    ? [{ category: "Results", definitions: matches }]
+    : [
+        ...(category === ALL && favourites.length > 0
+          ? [{ category: "Favourites", definitions: matches.filter((item) => favourites.includes(item.type)) }]
+          : []),
+        ...groupBlockDefinitions(matches),
+      ].filter((group) => group.definitions.length > 0);
+
+  const toggleFavourite = (type: string) => {
+    const next = favourites.includes(type) ? favourites.filter((item) => item !== type) : [...favourites, type];
+    setFavourites(next);
+    writeFavourites(next);
+  };
+
+  const saveSnippet = async () => {
+    const blocks = surveyBlocks.filter((block) => selectedBlocks.includes(block.uuid!));
+    const snippet = createSnippet(snippetName.trim(), blocks, {
+      description: snippetDescription.trim() || undefined,
+      includeNavigation,
+      localizations: state.localizations,
+    });
+    try {
+      await store.save(snippet);
+      setSnippets([...snippets, snippet]);
+      setSnippetName("");
+      setSnippetDescription("");
+      setSelectedBlocks([]);
+    } catch (error) {
+      console.error("Error saving block snippet:", error);
+    }
+  };
+
+  const removeSnippet = async (id: string) => {
+    try {
+      await store.remove(id);
+      setSnippets(snippets.filter((snippet) => snippet.id !== id));
+    } catch (error) {
+      console.error("Error removing block snippet:", error);
+    }
+  };
+
+  // Pageless surveys get the blocks at the end; paged surveys get a new page
+  const insertSnippet = (snippet: BlockSnippet) => {
+    const rootNode = state.rootNode;
+    if (!rootNode?.uuid) return;
+    const { blocks, localizations } = instantiateSnippet(snippet, collectFieldNames(rootNode.items || []));
+    const items = state.mode === "pageless"
+      ? [...(rootNode.items || []), ...blocks]
+      : [...(rootNode.items || []), { type: "set", name: snippet.name, uuid: uuidv4(), items: blocks }];
+    if (Object.keys(localizations).length > 0) {
+      updateLocalizations(mergeLocalizations(state.localizations, localizations));
+    }
+    updateNode(rootNode.uuid, { items });
+  };
+
+  const renderBlockCard = (definition: BlockDefinition) => {
+    const isFavourite = favourites.includes(definition.type);
+    return (
+      <Card
+        key={definition.type}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData("application/x-block-type", definition.type);
+        }}
+        className="hover:bg-accent/10 cursor-pointer transition-colors"
+      >
+        <CardHeader className="p-3">
+          <CardTitle className="text-sm flex items-center gap-2">
+            {definition.icon && <span>{definition.icon}</span>}
+            <span className="flex-1">{definition.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label={isFavourite ? "Remove from favourites" : "Add to favourites"}
+              aria-pressed={isFavourite}
+              onClick={() => toggleFavourite(definition.type)}
+            >
+              <Star className={`h-4 w-4 ${isFavourite ? "fill-current text-yellow-500" : ""}`} />
+            </Button>
+          </CardTitle>
+          <CardDescription className="text-xs">
+            {definition.description}
+          </CardDescription>
+        </CardHeader>
+        {definition.renderPreview && (
+          <CardContent className="p-3 pt-0">
+            <div className="border rounded-md p-2 bg-muted/50">
+              {definition.renderPreview()}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+    );
+  };
 
   return (
     <div className="space-y-4">
       <div>
         <h3 className="text-sm font-medium mb-2">Available Block Types</h3>
         <p className="text-sm text-muted-foreground mb-4">
-          These are the content blocks that can be added to survey pages.
+          These are the content blocks that can be added to survey pages. Drag one onto a page to add it.
         </p>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          {Object.entries(state.definitions.blocks).map(([type, definition]) => (
-            <Card
-              key={type}
-              draggable
-              onDragStart={(e) => {
-                e.dataTransfer.setData("application/x-block-type", type);
-              }}
-              className="hover:bg-accent/10 cursor-pointer transition-colors"
+        <div className="relative mb-2">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search blocks, e.g. dropdown or date"
+            aria-label="Search blocks"
+            className="pl-8"
+          />
+        </div>
+        <div className="flex flex-wrap gap-1 mb-4">
+          {[ALL, FAVOURITES, ...categories].map((item) => (
+            <Button
+              type="button"
+              key={item}
+              variant={category === item ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs capitalize"
+              onClick={() => setCategory(item)}
             >
-              <CardHeader className="p-3">
-                <CardTitle className="text-sm flex items-center gap-2">
-                  {definition.icon && <span>{definition.icon}</span>}
-                  {definition.name}
-                </CardTitle>
-                <CardDescription className="text-xs">
-                  {definition.description}
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="p-3 pt-0">
-                <div className="border rounded-md p-2 bg-muted/50">
-                  {definition.renderPreview()}
-                </div>
-              </CardContent>
-            </Card>
+              {item}
+            </Button>
           ))}
+        </div>
 
-          {Object.keys(state.definitions.blocks).length === 0 && (
-            <div className="col-span-1 sm:col-span-2 p-4 bg-muted rounded-md text-center">
-              <p className="text-muted-foreground">
-                No block definitions available. Add block definitions to get started.
-              </p>
+        {groups.map((group) => (
+          <div key={group.category} className="mb-4">
+            <h4 className="text-xs font-semibold uppercase text-muted-foreground mb-2">{group.category}</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {group.definitions.map(renderBlockCard)}
             </div>
-          )}
+          </div>
+        ))}
+
+        {definitions.length === 0 ? (
+          <div className="p-4 bg-muted rounded-md text-center">
+            <p className="text-muted-foreground">
+              No block definitions available. Add block definitions to get started.
+            </p>
+          </div>
+        ) : groups.length === 0 && (
+          <p className="text-sm text-muted-foreground">No blocks match.</p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium mb-2">Snippets</h3>
+          <p className="text-sm text-muted-foreground">
+            Saved sets of configured blocks. Inserted blocks get new IDs and field names, and conditions between
+            them are updated to match.
+          </p>
         </div>
+
+        {snippets.map((snippet) => (
+          <Card key={snippet.id}>
+            <CardHeader className="p-3">
+              <CardTitle className="text-sm flex items-center gap-2">
+                <span className="flex-1">{snippet.name}</span>
+                <Badge variant="outline">
+                  {snippet.blocks.length} {snippet.blocks.length === 1 ? "block" : "blocks"}
+                </Badge>
+                <Button type="button" size="sm" disabled={!state.rootNode} onClick={() => insertSnippet(snippet)}>
+                  Insert
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete snippet"
+                  onClick={() => removeSnippet(snippet.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardTitle>
+              <CardDescription className="text-xs">
+                {snippet.description || snippet.blocks.map((block) => block.label || block.type).join(", ")}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ))}
+
+        {surveyBlocks.length > 0 && (
+          <Card>
+            <CardContent className="space-y-3 p-3">
+              <Label className="text-xs">Save Blocks as a Snippet</Label>
+              <Input
+                value={snippetName}
+                onChange={(e) => setSnippetName(e.target.value)}
+                placeholder="Snippet name, e.g. Standard demographics"
+              />
+              <Input
+                value={snippetDescription}
+                onChange={(e) => setSnippetDescription(e.target.value)}
+                placeholder="Description (optional)"
+              />
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {surveyBlocks.map((block) => (
+                  <label key={block.uuid} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedBlocks.includes(block.uuid!)}
+                      onCheckedChange={(checked) =>
+                        setSelectedBlocks(
+                          checked
+                            ? [...selectedBlocks, block.uuid!]
+                            : selectedBlocks.filter((uuid) => uuid !== block.uuid)
+                        )
+                      }
+                    />
+                    <span className="truncate">{block.label || block.fieldName || block.type}</span>
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={includeNavigation} onCheckedChange={(checked) => setIncludeNavigation(!!checked)} />
+                Keep navigation rules between these blocks
+              </label>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!snippetName.trim() || selectedBlocks.length === 0}
+                onClick={saveSnippet}
+              >
+                Save Snippet
+              </Button>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       <div>
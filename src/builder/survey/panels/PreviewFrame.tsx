@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { PortalContainerContext } from "../../../components/ui/portal-container";
+
+interface PreviewFrameProps {
+  title: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FRAME_DOCUMENT = '<!DOCTYPE html><html><head></head><body style="margin:0"></body></html>';
+
+const isStyleNode = (node: Node): node is HTMLElement =>
+  node instanceof HTMLElement &&
+  (node.tagName === "STYLE" || (node.tagName === "LINK" && (node as HTMLLinkElement).rel === "stylesheet"));
+
+/**
+ * Renders its children inside an iframe, so media queries and breakpoints see
+ * the frame's width instead of the builder's window. The page's stylesheets are
+ * copied in and kept in sync as more are added (fonts, themes, hot reloads).
+ */
+export const PreviewFrame: React.FC<PreviewFrameProps> = ({ title, className, children }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [body, setBody] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const frameDocument = body?.ownerDocument;
+    if (!frameDocument) return;
+
+    const copies = new Map<Node, Node>();
+    const copy = (node: Node) => {
+      if (!isStyleNode(node) || copies.has(node)) return;
+      const clone = frameDocument.importNode(node, true);
+      copies.set(node, clone);
+      frameDocument.head.appendChild(clone);
+    };
+    const syncHtml = () => {
+      // Dark mode and theme variables are set on the root element
+      frameDocument.documentElement.className = document.documentElement.className;
+      frameDocument.documentElement.setAttribute("style", document.documentElement.getAttribute("style") || "");
+    };
+
+    document.head.childNodes.forEach(copy);
+    syncHtml();
+
+    const headObserver = new MutationObserver((mutations) => {
+      for (const mutation of mutations) {
+        mutation.addedNodes.forEach(copy);
+        mutation.removedNodes.forEach((node) => {
+          (copies.get(node) as ChildNode | undefined)?.remove();
+          copies.delete(node);
+        });
+        // Style tags rewritten in place, e.g. by hot reloads
+        if (mutation.type === "characterData" || mutation.target !== document.head) {
+          const styleNode = mutation.target.nodeType === Node.TEXT_NODE ? mutation.target.parentNode : mutation.target;
+          const clone = styleNode && copies.get(styleNode);
+          if (clone) clone.textContent = styleNode.textContent;
+        }
+      }
+    });
+    headObserver.observe(document.head, { childList: true, subtree: true, characterData: true });
+
+    const htmlObserver = new MutationObserver(syncHtml);
+    htmlObserver.observe(document.documentElement, { attributes: true, attributeFilter: ["class", "style"] });
+
+    return () => {
+      headObserver.disconnect();
+      htmlObserver.disconnect();
+    };
+  }, [body]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={title}
+      className={className}
+      srcDoc={FRAME_DOCUMENT}
+      onLoad={() => setBody(frameRef.current?.contentDocument?.body ?? null)}
+    >
+      {body &&
+        createPortal(
+          <PortalContainerContext.Provider value={body}>{children}</PortalContainerContext.Provider>,
+          body
+        )}
+    </iframe>
+  );
+};
@@ -0,0 +1,81 @@
+import type React from "react";
+import { Badge } from "../../../components/ui/badge";
+import type { SurveyEngineState } from "../../../engine";
+import type { BlockData, NavigationHistoryEntry } from "../../../types";
+
+interface PreviewStatePanelProps {
+  state: SurveyEngineState | null;
+  /** Every block of the survey, to name history entries and rules */
+  blocks: BlockData[];
+}
+
+const blockName = (block: BlockData | undefined, fallback: string) =>
+  block ? block.label || block.fieldName || block.name || block.type : fallback;
+
+const JsonSection: React.FC<{ title: string; value: Record<string, any> }> = ({ title, value }) => (
+  <div className="space-y-1">
+    <h4 className="text-xs font-semibold uppercase text-muted-foreground">{title}</h4>
+    <pre className="p-2 text-xs rounded border border-border bg-muted overflow-x-auto">
+      {Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : "{}"}
+    </pre>
+  </div>
+);
+
+/**
+ * Live answers, computed values and navigation history of the preview, with the
+ * navigation rule that fired at each step
+ */
+export const PreviewStatePanel: React.FC<PreviewStatePanelProps> = ({ state, blocks }) => {
+  if (!state) {
+    return <p className="p-3 text-sm text-muted-foreground">Waiting for the preview to start.</p>;
+  }
+
+  const findBlock = (uuid?: string) => (uuid ? blocks.find((block) => block.uuid === uuid) : undefined);
+
+  const describeRule = (entry: NavigationHistoryEntry) => {
+    if (!entry.rule) return null;
+    const owner = findBlock(entry.rule.blockUuid);
+    const rule = owner?.navigationRules?.[entry.rule.ruleIndex];
+    return (
+      <p className="text-xs text-muted-foreground">
+        Rule {entry.rule.ruleIndex + 1} of {blockName(owner, entry.rule.blockUuid)}
+        {rule?.condition && <code className="ml-1 font-mono">{rule.isDefault ? "default" : rule.condition}</code>}
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-4 p-3">
+      {state.outcome && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Ended:</span>
+          <Badge variant={state.outcome === "complete" ? "secondary" : "destructive"}>{state.outcome}</Badge>
+          {state.ending && <span className="text-muted-foreground">{state.ending.name || state.ending.id}</span>}
+        </div>
+      )}
+
+      <JsonSection title="Values" value={state.values} />
+      <JsonSection title="Computed Values" value={state.computedValues} />
+      {Object.keys(state.conditionalErrors).length > 0 && (
+        <JsonSection title="Errors" value={state.conditionalErrors} />
+      )}
+
+      <div className="space-y-1">
+        <h4 className="text-xs font-semibold uppercase text-muted-foreground">Navigation History</h4>
+        <ol className="space-y-2">
+          {state.navigationHistory.map((entry, index) => (
+            <li key={`${entry.timestamp}-${index}`} className="rounded border border-border p-2">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {index + 1}. {blockName(findBlock(entry.blockUuid), entry.blockUuid || entry.pageUuid)}
+                </span>
+                <Badge variant="outline">{entry.trigger}</Badge>
+              </div>
+              {describeRule(entry)}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,225 @@
-import type React from "react";
-import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../../../components/ui/card";
+import React, { useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { RotateCcw, Save, Trash2 } from "lucide-react";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select";
 import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
+import type { SurveyEngineState } from "../../../engine";
 import { SurveyForm } from "../../../renderer/SurveyForm";
-import type { LayoutProps } from "../../../types";
+import type { LayoutProps, ProgressBarOptions, TestPersona } from "../../../types";
+import { isEndingBlock } from "../../../utils/outcomes";
+import { getSurveyPages } from "../../../utils/surveyUtils";
+import { PreviewFrame } from "./PreviewFrame";
+import { PreviewStatePanel } from "./PreviewStatePanel";
 
 interface PreviewSurveyProps {
   layout?: string | React.FC<LayoutProps>;
   logo?: any;
 }
 
+type PreviewDevice = "mobile" | "tablet" | "desktop";
+
+const DEVICE_FRAMES: Record<PreviewDevice, { label: string; className: string }> = {
+  mobile: { label: "Mobile", className: "w-[390px] h-[844px] rounded-[2rem] border-8" },
+  tablet: { label: "Tablet", className: "w-[820px] h-[1180px] rounded-[1.5rem] border-8" },
+  desktop: { label: "Desktop", className: "w-full h-full" },
+};
+
+const PREVIEW_LAYOUTS = ["default", "chat", "voice"];
+
+// The layout passed to the builder, when it's a component rather than a registered name
+const CUSTOM_LAYOUT = "custom";
+const FROM_START = "start";
+const NO_PERSONA = "none";
+
+const PROGRESS_BAR: ProgressBarOptions = {
+  type: "percentage",
+  showPercentage: true,
+  showStepInfo: true,
+  position: "top",
+};
+
+/**
+ * Runs the survey being built. The preview can start at any block, prefill the
+ * answers of a saved test persona, switch device frame and layout, and shows
+ * the live engine state next to the form.
+ */
 export const PreviewSurvey: React.FC<PreviewSurveyProps> = ({ layout, logo = null }) => {
-  const { state } = useSurveyBuilder();
+  const { state, updateNode } = useSurveyBuilder();
+  const rootNode = state.rootNode;
+
+  const [device, setDevice] = useState<PreviewDevice>("desktop");
+  const [layoutName, setLayoutName] = useState(
+    typeof layout === "string" ? layout : layout ? CUSTOM_LAYOUT : "default"
+  );
+  const [startBlockId, setStartBlockId] = useState(FROM_START);
+  const [personaId, setPersonaId] = useState(NO_PERSONA);
+  const [personaName, setPersonaName] = useState("");
+  const [showState, setShowState] = useState(true);
+  const [run, setRun] = useState(0);
+  const [engineState, setEngineState] = useState<SurveyEngineState | null>(null);
+
+  const pages = useMemo(() => (rootNode ? getSurveyPages(rootNode, state.mode) : []), [rootNode, state.mode]);
+  const blocks = useMemo(() => pages.flat(), [pages]);
+
+  if (!rootNode) {
+    return <p className="p-4">Add some blocks to see survey in action</p>;
+  }
+
+  const personas = rootNode.testPersonas || [];
+  const persona = personas.find((item) => item.id === personaId);
+  const layoutOptions = layoutName === CUSTOM_LAYOUT || typeof layout === "function"
+    ? [CUSTOM_LAYOUT, ...PREVIEW_LAYOUTS]
+    : PREVIEW_LAYOUTS;
+
+  const setPersonas = (next: TestPersona[]) => updateNode(rootNode.uuid!, { testPersonas: next });
+
+  const savePersona = () => {
+    const saved: TestPersona = {
+      id: uuidv4(),
+      name: personaName.trim() || `Persona ${personas.length + 1}`,
+      values: engineState?.values || {},
+    };
+    setPersonas([...personas, saved]);
+    setPersonaId(saved.id);
+    setPersonaName("");
+  };
+
+  const deletePersona = () => {
+    setPersonas(personas.filter((item) => item.id !== personaId));
+    setPersonaId(NO_PERSONA);
+  };
 
   return (
-    <div className="w-full min-w-screen min-h-screen">
-      {state.rootNode ? (
-        <SurveyForm
-          survey={state}
-          mode={state.mode}
-          enableDebug={false}
-          abTestPreviewMode={true}
-          layout={layout}
-          logo={logo}
-          customData={state.customData}
-          progressBar={{
-            type: 'percentage',
-            showPercentage: true,
-            showStepInfo: true,
-            position: 'top',
-          }}
-        />
-      ) : (
-        <p className="p-4">Add some blocks to see survey in action</p>
-      )}
+    <div className="w-full min-w-screen h-screen flex flex-col">
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b bg-background">
+        <Select value={device} onValueChange={(value: PreviewDevice) => setDevice(value)}>
+          <SelectTrigger className="w-32" aria-label="Device">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DEVICE_FRAMES) as PreviewDevice[]).map((key) => (
+              <SelectItem key={key} value={key}>{DEVICE_FRAMES[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={layoutName} onValueChange={setLayoutName}>
+          <SelectTrigger className="w-32" aria-label="Layout">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {layoutOptions.map((name) => (
+              <SelectItem key={name} value={name} className="capitalize">{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={startBlockId} onValueChange={setStartBlockId}>
+          <SelectTrigger className="w-48" aria-label="Start at">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FROM_START}>From the start</SelectItem>
+            {pages.map((page, pageIndex) => (
+              <SelectGroup key={pageIndex}>
+                <SelectLabel>Page {pageIndex + 1}</SelectLabel>
+                {page
+                  .filter((block) => block.uuid && !isEndingBlock(block))
+                  .map((block) => (
+                    <SelectItem key={block.uuid} value={block.uuid!}>
+                      {block.label || block.fieldName || block.type}
+                    </SelectItem>
+                  ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={personaId} onValueChange={setPersonaId}>
+          <SelectTrigger className="w-44" aria-label="Test persona">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PERSONA}>No test data</SelectItem>
+            {personas.map((item) => (
+              <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {persona && (
+          <Button type="button" variant="ghost" size="icon" aria-label="Delete test persona" onClick={deletePersona}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+
+        <div className="flex items-center gap-1">
+          <Input
+            className="h-9 w-40"
+            value={personaName}
+            onChange={(e) => setPersonaName(e.target.value)}
+            placeholder="Persona name"
+            aria-label="Persona name"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={!engineState || Object.keys(engineState.values).length === 0}
+            onClick={savePersona}
+          >
+            <Save className="h-4 w-4 mr-1" /> Save Answers
+          </Button>
+        </div>
+
+        <Button type="button" variant="outline" size="sm" onClick={() => setRun((count) => count + 1)}>
+          <RotateCcw className="h-4 w-4 mr-1" /> Restart
+        </Button>
+        <Button type="button" variant={showState ? "secondary" : "outline"} size="sm" onClick={() => setShowState(!showState)}>
+          State
+        </Button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 overflow-auto bg-muted flex justify-center items-start">
+          {/* An iframe, so the layout's breakpoints respond to the device's width */}
+          <PreviewFrame
+            title={`${DEVICE_FRAMES[device].label} preview`}
+            className={`${DEVICE_FRAMES[device].className} shrink-0 border-foreground/80 bg-background`}
+          >
+            <SurveyForm
+              // A new run starts whenever where it starts or what it's prefilled with changes
+              key={`${layoutName}:${startBlockId}:${personaId}:${run}`}
+              survey={state}
+              mode={state.mode}
+              enableDebug={false}
+              abTestPreviewMode={true}
+              layout={layoutName === CUSTOM_LAYOUT ? layout : layoutName}
+              logo={logo}
+              customData={state.customData}
+              startBlockId={startBlockId === FROM_START ? undefined : startBlockId}
+              initialValues={persona?.values}
+              onStateChange={setEngineState}
+              progressBar={PROGRESS_BAR}
+            />
+          </PreviewFrame>
+        </div>
+
+        {showState && (
+          <div className="w-80 shrink-0 border-l bg-background overflow-y-auto">
+            <PreviewStatePanel state={engineState} blocks={blocks} />
+          </div>
+        )}
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,161 @@
+import type React from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Trash2 } from "lucide-react";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "../../../components/ui/card";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import { Textarea } from "../../../components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select";
+import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
+import type { QuotaDefinition, SurveyEndingScreen, SurveyOutcome } from "../../../types";
+import { DEFAULT_UI_STRINGS } from "../../../utils/localization";
+import { SURVEY_OUTCOMES } from "../../../utils/outcomes";
+
+const OUTCOME_LABELS: Record<SurveyOutcome, string> = {
+  complete: "Complete",
+  screenedOut: "Screened out",
+  overQuota: "Over quota",
+};
+
+/**
+ * Quotas on the root node, and the end page of each outcome
+ */
+export const QuotaEditor: React.FC = () => {
+  const { state, updateNode } = useSurveyBuilder();
+  const rootNode = state.rootNode;
+
+  if (!rootNode?.uuid) {
+    return <p className="text-sm text-muted-foreground">Create a survey first to add quotas.</p>;
+  }
+
+  const quotas = rootNode.quotas || [];
+  const endings = rootNode.endings || {};
+
+  const setQuotas = (next: QuotaDefinition[]) => updateNode(rootNode.uuid!, { quotas: next });
+
+  const updateQuota = (index: number, changes: Partial<QuotaDefinition>) => {
+    setQuotas(quotas.map((quota, i) => (i === index ? { ...quota, ...changes } : quota)));
+  };
+
+  const updateEnding = (outcome: SurveyOutcome, changes: SurveyEndingScreen) => {
+    updateNode(rootNode.uuid!, { endings: { ...endings, [outcome]: { ...endings[outcome], ...changes } } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium mb-1">Quotas</h3>
+          <p className="text-sm text-muted-foreground">
+            Quotas are checked on blocks marked as quota checkpoints and when the survey is completed. Respondents
+            who match a full quota are sent to its ending. Counts come from the form's <code>quotaProvider</code>.
+          </p>
+        </div>
+
+        {quotas.map((quota, index) => (
+          <Card key={quota.id}>
+            <CardContent className="space-y-3 p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={quota.name || ""}
+                  onChange={(e) => updateQuota(index, { name: e.target.value })}
+                  placeholder="Quota name, e.g. Female 18-24"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove quota"
+                  onClick={() => setQuotas(quotas.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Condition</Label>
+                <Input
+                  value={quota.condition}
+                  onChange={(e) => updateQuota(index, { condition: e.target.value })}
+                  placeholder='gender == "female" && age_group == "18-24"'
+                  className="font-mono text-xs"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Completes needed</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={quota.limit}
+                    onChange={(e) => updateQuota(index, { limit: Number(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">When full</Label>
+                  <Select
+                    value={quota.outcome || "overQuota"}
+                    onValueChange={(outcome: QuotaDefinition["outcome"]) => updateQuota(index, { outcome })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="overQuota">{OUTCOME_LABELS.overQuota}</SelectItem>
+                      <SelectItem value="screenedOut">{OUTCOME_LABELS.screenedOut}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setQuotas([...quotas, { id: uuidv4(), name: "", condition: "", limit: 100 }])}
+        >
+          Add Quota
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium mb-1">End Pages</h3>
+          <p className="text-sm text-muted-foreground">
+            Shown when the survey ends with each outcome. Leave a complete page empty to keep the layout's own
+            completion message.
+          </p>
+        </div>
+
+        {SURVEY_OUTCOMES.map((outcome) => (
+          <Card key={outcome}>
+            <CardHeader className="p-3 pb-0">
+              <CardTitle className="text-sm">{OUTCOME_LABELS[outcome]}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 p-3">
+              <Input
+                value={endings[outcome]?.title || ""}
+                onChange={(e) => updateEnding(outcome, { title: e.target.value || undefined })}
+                placeholder={DEFAULT_UI_STRINGS[`ui.ending.${outcome}.title`]}
+              />
+              <Textarea
+                value={endings[outcome]?.message || ""}
+                onChange={(e) => updateEnding(outcome, { message: e.target.value || undefined })}
+                placeholder={DEFAULT_UI_STRINGS[`ui.ending.${outcome}.message`]}
+                rows={2}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
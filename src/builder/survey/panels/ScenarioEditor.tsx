@@ -0,0 +1,330 @@
+import React, { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Play, Trash2 } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import { Textarea } from "../../../components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select";
+import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
+import { analyzePathCoverage, getCoverageScenarios, runTestScenarios } from "../../../engine";
+import type { PathCoverageReport, TestScenarioResult } from "../../../engine";
+import type { BlockData, SurveyOutcome, TestScenario } from "../../../types";
+import { isEndingBlock, SURVEY_OUTCOMES } from "../../../utils/outcomes";
+import { getSurveyPages } from "../../../utils/surveyUtils";
+
+const ANY = "any";
+
+const OUTCOME_LABELS: Record<SurveyOutcome, string> = {
+  complete: "Complete",
+  screenedOut: "Screened out",
+  overQuota: "Over quota",
+};
+
+/**
+ * Test scenarios on the root node, run against the survey's navigation, and
+ * path coverage of its navigation rules
+ */
+export const ScenarioEditor: React.FC = () => {
+  const { state, updateNode } = useSurveyBuilder();
+  const rootNode = state.rootNode;
+  const [results, setResults] = useState<Record<string, TestScenarioResult>>({});
+  const [report, setReport] = useState<PathCoverageReport | null>(null);
+  const [running, setRunning] = useState(false);
+  // Answers being typed, kept until they parse
+  const [drafts, setDrafts] = useState<Record<string, { text: string; error?: string }>>({});
+
+  if (!rootNode?.uuid) {
+    return <p className="text-sm text-muted-foreground">Create a survey first to add test scenarios.</p>;
+  }
+
+  const survey = { rootNode, mode: state.mode, localizations: state.localizations };
+  const scenarios = rootNode.testScenarios || [];
+  const blocks = getSurveyPages(rootNode, state.mode).flat();
+  const endings = blocks.filter((block) => isEndingBlock(block) && block.uuid);
+
+  const blockName = (id: string) => {
+    const block: BlockData | undefined = blocks.find((item) => item.uuid === id || item.fieldName === id);
+    return block ? block.fieldName || block.name || block.label || id : id;
+  };
+
+  // Expected paths name blocks by field name where they have one
+  const pathName = (id: string) => blocks.find((item) => item.uuid === id)?.fieldName || id;
+
+  const setScenarios = (next: TestScenario[]) => updateNode(rootNode.uuid!, { testScenarios: next });
+
+  const updateScenario = (index: number, changes: Partial<TestScenario>) => {
+    setScenarios(scenarios.map((scenario, i) => (i === index ? { ...scenario, ...changes } : scenario)));
+  };
+
+  const commitDraft = (index: number) => {
+    const scenario = scenarios[index];
+    const draft = drafts[scenario.id];
+    if (!draft) return;
+    try {
+      const values = JSON.parse(draft.text || "{}");
+      if (!values || typeof values !== "object" || Array.isArray(values)) throw new Error("Answers must be an object");
+      updateScenario(index, { values });
+      setDrafts(({ [scenario.id]: _, ...rest }) => rest);
+    } catch (error) {
+      setDrafts({ ...drafts, [scenario.id]: { ...draft, error: (error as Error).message } });
+    }
+  };
+
+  const runAll = async () => {
+    setRunning(true);
+    try {
+      const runResults = await runTestScenarios(survey, scenarios, { blockDefinitions: state.definitions.blocks });
+      setResults(Object.fromEntries(runResults.map((result) => [result.scenario.id, result])));
+    } catch (error) {
+      console.error("Error running test scenarios:", error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const analyze = async () => {
+    setRunning(true);
+    try {
+      setReport(await analyzePathCoverage(survey));
+    } catch (error) {
+      console.error("Error analyzing path coverage:", error);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  // Pins the scenario to the route it took on the last run
+  const acceptRoute = (index: number, result: TestScenarioResult) => {
+    updateScenario(index, {
+      expectedPath: result.route.path.map(pathName),
+      expectedOutcome: result.route.outcome || undefined,
+      expectedEnding: result.route.ending?.id,
+    });
+  };
+
+  const coveredRules = report?.rules.filter((rule) => rule.covered).length ?? 0;
+  const uncoveredRules = report?.rules.filter((rule) => !rule.covered) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium mb-1">Test Scenarios</h3>
+          <p className="text-sm text-muted-foreground">
+            Each scenario gives answers as their questions are reached and checks the route and ending. Leave an
+            expectation empty to skip it. Run them in your test suite with <code>runTestScenarios</code>.
+          </p>
+        </div>
+
+        {scenarios.map((scenario, index) => {
+          const result = results[scenario.id];
+          const draft = drafts[scenario.id];
+
+          return (
+            <Card key={scenario.id}>
+              <CardContent className="space-y-3 p-3">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={scenario.name}
+                    onChange={(e) => updateScenario(index, { name: e.target.value })}
+                    placeholder="Scenario name, e.g. Smoker over 65"
+                  />
+                  {result && (
+                    <Badge variant={result.passed ? "secondary" : "destructive"}>{result.passed ? "Passed" : "Failed"}</Badge>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove scenario"
+                    onClick={() => setScenarios(scenarios.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-xs">Answers (JSON)</Label>
+                  <Textarea
+                    value={draft?.text ?? JSON.stringify(scenario.values || {}, null, 2)}
+                    onChange={(e) => setDrafts({ ...drafts, [scenario.id]: { text: e.target.value } })}
+                    onBlur={() => commitDraft(index)}
+                    className="font-mono text-xs"
+                    rows={3}
+                  />
+                  {draft?.error && <p className="text-xs text-destructive">{draft.error}</p>}
+                </div>
+
+                <div className="space-y-1">
+                  <Label className="text-xs">Expected Path</Label>
+                  <Input
+                    // Remounts when the path is replaced, e.g. by Expect This Route
+                    key={(scenario.expectedPath || []).join(",")}
+                    defaultValue={(scenario.expectedPath || []).join(", ")}
+                    onBlur={(e) => {
+                      const path = e.target.value.split(",").map((item) => item.trim()).filter(Boolean);
+                      updateScenario(index, { expectedPath: path.length > 0 ? path : undefined });
+                    }}
+                    placeholder="Field names in order, e.g. smoker, age, packs"
+                    className="font-mono text-xs"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Expected Outcome</Label>
+                    <Select
+                      value={scenario.expectedOutcome || ANY}
+                      onValueChange={(value) =>
+                        updateScenario(index, { expectedOutcome: value === ANY ? undefined : (value as SurveyOutcome) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {SURVEY_OUTCOMES.map((outcome) => (
+                          <SelectItem key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Expected Ending</Label>
+                    <Select
+                      value={scenario.expectedEnding || ANY}
+                      onValueChange={(value) => updateScenario(index, { expectedEnding: value === ANY ? undefined : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Any</SelectItem>
+                        {endings.map((block) => (
+                          <SelectItem key={block.uuid} value={block.uuid!}>{block.name || block.label || block.uuid}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {result && (
+                  <div className="space-y-1 text-xs">
+                    <p className="text-muted-foreground">
+                      Route: {result.route.path.map(blockName).join(" → ") || "(none)"}
+                      {result.route.outcome && ` · ${OUTCOME_LABELS[result.route.outcome]}`}
+                    </p>
+                    {result.failures.map((failure, i) => (
+                      <p key={i} className="text-destructive">{failure}</p>
+                    ))}
+                    {!result.passed && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => acceptRoute(index, result)}>
+                        Expect This Route
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setScenarios([...scenarios, { id: uuidv4(), name: "", values: {} }])}
+          >
+            Add Scenario
+          </Button>
+          <Button type="button" disabled={running || scenarios.length === 0} onClick={runAll}>
+            <Play className="h-4 w-4 mr-1" /> Run All
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-sm font-medium mb-1">Path Coverage</h3>
+          <p className="text-sm text-muted-foreground">
+            Tries the answers that the navigation conditions depend on and reports rules that never fire, blocks
+            that are never shown and routes that loop.
+          </p>
+        </div>
+
+        <Button type="button" variant="outline" disabled={running} onClick={analyze}>
+          Analyze Paths
+        </Button>
+
+        {report && (
+          <div className="space-y-3 text-sm">
+            <p>
+              {report.paths.length} routes found. {coveredRules} of {report.rules.length} navigation rules fire.
+              {!report.complete && " Exploration stopped early, so some routes may be missing."}
+            </p>
+
+            {uncoveredRules.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Rules That Never Fire</Label>
+                {uncoveredRules.map((rule) => (
+                  <p key={`${rule.blockUuid}-${rule.ruleIndex}`} className="text-xs">
+                    {blockName(rule.blockUuid)}, rule {rule.ruleIndex + 1}:{" "}
+                    <code className="font-mono">{rule.condition}</code> → {rule.target}
+                    {rule.missingTarget && <span className="text-destructive"> (target doesn't exist)</span>}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {report.unreachableBlocks.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Never Shown</Label>
+                <p className="text-xs">{report.unreachableBlocks.map(blockName).join(", ")}</p>
+              </div>
+            )}
+
+            {report.deadEnds.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs">Dead Ends</Label>
+                {report.deadEnds.map((deadEnd) => (
+                  <p key={`${deadEnd.blockUuid}-${deadEnd.reason}`} className="text-xs text-destructive">
+                    {blockName(deadEnd.blockUuid)}: {deadEnd.message}
+                    {deadEnd.values && <code className="ml-1 font-mono">{JSON.stringify(deadEnd.values)}</code>}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={report.paths.every(({ route }) => !route.outcome)}
+              onClick={() =>
+                setScenarios([
+                  ...scenarios,
+                  ...getCoverageScenarios(report).map((scenario) => ({
+                    ...scenario,
+                    expectedPath: scenario.expectedPath?.map(pathName),
+                  })),
+                ])
+              }
+            >
+              Save Routes as Scenarios
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
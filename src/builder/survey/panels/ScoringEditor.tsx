@@ -0,0 +1,232 @@
+import type React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../../../components/ui/button";
+import { Card, CardContent } from "../../../components/ui/card";
+import { Checkbox } from "../../../components/ui/checkbox";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../../components/ui/select";
+import { useSurveyBuilder } from "../../../context/SurveyBuilderContext";
+import type { BlockData, ChoiceOption, MatrixColumn, ScoreBand, ScoreDefinition } from "../../../types";
+import { getMatrixColumns } from "../../../utils/matrix";
+import { findScoredBlocks, getScoreRange, isScorableBlock } from "../../../utils/scoring";
+import { getSurveyPages } from "../../../utils/surveyUtils";
+
+// A cleared number input removes the value
+const toNumber = (text: string): number | undefined => (text === "" ? undefined : Number(text));
+
+interface PointsEditorProps {
+  block: BlockData;
+  onUpdate: (uuid: string, data: Partial<BlockData>) => void;
+}
+
+// Points of each option of a block (each column of a matrix)
+const PointsEditor: React.FC<PointsEditorProps> = ({ block, onUpdate }) => {
+  const options: Array<ChoiceOption | MatrixColumn> = block.type === "matrix" ? getMatrixColumns(block) : block.options;
+
+  const setScore = (index: number, score: number | undefined) => {
+    onUpdate(block.uuid!, {
+      options: options.map((option, i) => (i === index ? { ...option, score } : option)),
+    });
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs font-medium">{block.label || block.fieldName}</Label>
+      {options.map((option, index) => (
+        <div key={option.id || index} className="flex items-center gap-2">
+          <span className="flex-1 truncate text-sm">{option.label ?? option.text ?? option.value}</span>
+          <Input
+            type="number"
+            aria-label={`Points for ${option.label ?? option.text ?? option.value}`}
+            className="h-8 w-20"
+            value={option.score ?? ""}
+            onChange={(e) => setScore(index, toNumber(e.target.value))}
+            placeholder="-"
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Score variables on the root node: the blocks they add up, the points of
+ * those blocks' options, bands, and the resulting score range
+ */
+export const ScoringEditor: React.FC = () => {
+  const { state, updateNode } = useSurveyBuilder();
+  const rootNode = state.rootNode;
+
+  if (!rootNode?.uuid) {
+    return <p className="text-sm text-muted-foreground">Create a survey first to add scores.</p>;
+  }
+
+  const scores = rootNode.scores || [];
+  const blocks = getSurveyPages(rootNode).flat();
+  const scorableBlocks = blocks.filter((block) => block.fieldName && block.uuid && isScorableBlock(block));
+
+  const setScores = (next: ScoreDefinition[]) => updateNode(rootNode.uuid!, { scores: next });
+
+  const updateScore = (index: number, changes: Partial<ScoreDefinition>) => {
+    setScores(scores.map((score, i) => (i === index ? { ...score, ...changes } : score)));
+  };
+
+  const toggleField = (index: number, fieldName: string, checked: boolean) => {
+    const fields = scores[index].fields || [];
+    updateScore(index, { fields: checked ? [...fields, fieldName] : fields.filter((field) => field !== fieldName) });
+  };
+
+  const updateBand = (scoreIndex: number, bandIndex: number, changes: Partial<ScoreBand>) => {
+    const bands = scores[scoreIndex].bands || [];
+    updateScore(scoreIndex, { bands: bands.map((band, i) => (i === bandIndex ? { ...band, ...changes } : band)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scores add up the points of the chosen options. Use a score's name in navigation conditions and piped
+        text (<code>{"{phq9}"}</code>), and its band as <code>phq9Band</code>. Both are included in the submission.
+      </p>
+
+      {scores.map((score, index) => {
+        const range = getScoreRange(score, blocks);
+        const scoredBlocks = findScoredBlocks(score, blocks);
+
+        return (
+          <Card key={index}>
+            <CardContent className="space-y-4 p-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={score.name}
+                  onChange={(e) => updateScore(index, { name: e.target.value.replace(/\s+/g, "") })}
+                  placeholder="Variable name, e.g. phq9"
+                  className="font-mono text-sm"
+                />
+                <Select
+                  value={score.method || "sum"}
+                  onValueChange={(method: ScoreDefinition["method"]) => updateScore(index, { method })}
+                >
+                  <SelectTrigger className="w-32" aria-label="Method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sum">Sum</SelectItem>
+                    <SelectItem value="average">Average</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove score"
+                  onClick={() => setScores(scores.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Scored Questions</Label>
+                {scorableBlocks.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Add radio, checkbox, select or matrix questions to score.</p>
+                )}
+                {scorableBlocks.map((block) => (
+                  <div key={block.uuid} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`score-${index}-${block.uuid}`}
+                      checked={(score.fields || []).includes(block.fieldName!)}
+                      onCheckedChange={(checked) => toggleField(index, block.fieldName!, checked === true)}
+                    />
+                    <Label className="text-sm" htmlFor={`score-${index}-${block.uuid}`}>
+                      {block.label || block.fieldName}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+
+              {scoredBlocks.length > 0 && (
+                <div className="space-y-3">
+                  <Label className="text-xs">Points</Label>
+                  {scoredBlocks.map((block) => (
+                    <PointsEditor key={block.uuid} block={block} onUpdate={updateNode} />
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <Label className="text-xs">Bands</Label>
+                {(score.bands || []).map((band, bandIndex) => (
+                  <div key={bandIndex} className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      aria-label="From"
+                      className="h-8 w-20"
+                      value={band.min ?? ""}
+                      onChange={(e) => updateBand(index, bandIndex, { min: toNumber(e.target.value) })}
+                    />
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Input
+                      type="number"
+                      aria-label="To"
+                      className="h-8 w-20"
+                      value={band.max ?? ""}
+                      onChange={(e) => updateBand(index, bandIndex, { max: toNumber(e.target.value) })}
+                    />
+                    <Input
+                      className="h-8"
+                      value={band.label}
+                      onChange={(e) => updateBand(index, bandIndex, { label: e.target.value })}
+                      placeholder="Mild"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove band"
+                      onClick={() => updateScore(index, { bands: (score.bands || []).filter((_, i) => i !== bandIndex) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    const last = score.bands?.[score.bands.length - 1];
+                    const min = last ? last.max + 1 : range?.min ?? 0;
+                    updateScore(index, { bands: [...(score.bands || []), { min, max: min, label: "" }] });
+                  }}
+                >
+                  <Plus className="h-4 w-4 mr-1" /> Add Band
+                </Button>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {range
+                  ? `Scores range from ${range.min} to ${range.max} when every question is answered.`
+                  : "Give the options points to see the score range."}
+              </p>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setScores([...scores, { name: `score${scores.length + 1}`, fields: [], method: "sum" }])}
+      >
+        Add Score
+      </Button>
+    </div>
+  );
+};
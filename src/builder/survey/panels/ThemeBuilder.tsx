@@ -1045,7 +1045,7 @@ const ResizeHandle: React.FC = () => {
 
 // Define the props
 interface ThemeBuilderProps {
-  onDataChange?: (data: { rootNode: NodeData | null; localizations: LocalizationMap; theme?: ThemeDefinition }) => void;
+  onDataChange?: (data: { schemaVersion: number; rootNode: NodeData | null; localizations: LocalizationMap; theme?: ThemeDefinition }) => void;
   customThemes?: Record<string, ThemeDefinition>;
   layout?: string | React.FC<LayoutProps>;
   logo?: any;
@@ -33,16 +33,13 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
     showPrevious: true,
     showNext: true,
     showSubmit: true,
-    previousText: 'Previous',
-    nextText: 'Next',
-    submitText: 'Submit',
     position: 'bottom',
     align: 'center',
     style: 'default',
   },
-  submitText = 'Submit',
+  submitText,
 }) => {
-  const { theme } = useSurveyForm();
+  const { theme, t } = useSurveyForm();
   const themeConfig = theme ?? themes.default;
   const isDarkMode = theme.name === 'dark';
 
@@ -50,8 +47,8 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
     showPrevious = true,
     showNext = true,
     showSubmit = true,
-    previousText = 'Previous',
-    nextText = 'Next',
+    previousText = t('ui.previous'),
+    nextText = t('ui.next'),
     position = 'bottom',
     align = 'center',
     style = 'default',
@@ -98,7 +95,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
           onClick={onPrevious}
           className="gap-1"
         >
-          <ArrowLeft className="h-4 w-4 mr-1" />
+          <ArrowLeft className="h-4 w-4 me-1 rtl:rotate-180" />
           {previousText}
         </Button>
       )}
@@ -116,7 +113,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
           className="gap-1"
         >
           {nextText}
-          <ArrowRight className="h-4 w-4 ml-1" />
+          <ArrowRight className="h-4 w-4 ms-1 rtl:rotate-180" />
         </Button>
       )}
 
@@ -129,8 +126,8 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
           disabled={!isValid}
           className="gap-1"
         >
-          {options.submitText || submitText}
-          <Send className="h-4 w-4 ml-1" />
+          {options.submitText || submitText || t('ui.submit')}
+          <Send className="h-4 w-4 ms-1" />
         </Button>
       )}
     </div>
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { useSurveyForm } from '../../context/SurveyFormContext';
+import { cn } from '../../lib/utils';
+import type { BlockData } from '../../types';
+import { Input } from './input';
+
+interface OptionSearchProps {
+  /** The resolved block (see `localizeBlock`), with `optionsLoading` / `optionsError` */
+  block: BlockData;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Wait for a pause in typing before filtering or asking the options provider
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Search box and loading / error status for choice blocks with dynamic options.
+ * Renders nothing for blocks with a static, non-searchable list.
+ */
+export const OptionSearch: React.FC<OptionSearchProps> = ({ block, disabled, className }) => {
+  const { engine, t } = useSurveyForm();
+  const fieldName = block.fieldName || '';
+  const [search, setSearch] = useState(() => engine?.getOptionsSearch(fieldName) || '');
+
+  useEffect(() => {
+    if (!engine || !block.searchable) return;
+    const timeout = setTimeout(() => engine.setOptionsSearch(fieldName, search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [engine, fieldName, search, block.searchable]);
+
+  const hasOptions = Array.isArray(block.options) && block.options.length > 0;
+  let status: string | null = null;
+  if (block.optionsError) {
+    status = t('ui.optionsError');
+  } else if (block.optionsLoading && !hasOptions) {
+    status = t('ui.loadingOptions');
+  } else if (block.searchable && search && !hasOptions) {
+    status = t('ui.noOptions');
+  }
+
+  if (!block.searchable && !status) return null;
+
+  return (
+    <div className={cn('survey-option-search space-y-2', className)}>
+      {block.searchable && (
+        <div className="relative">
+          <Search className="absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder={t('ui.searchOptions')}
+            aria-label={t('ui.searchOptions')}
+            aria-controls={fieldName || undefined}
+            disabled={disabled}
+            className="ps-9"
+          />
+          {block.optionsLoading && (
+            <Loader2 className="absolute end-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          )}
+        </div>
+      )}
+      {status && (
+        <div
+          role={block.optionsError ? 'alert' : 'status'}
+          aria-live="polite"
+          className={cn('text-sm', block.optionsError ? 'text-destructive' : 'text-muted-foreground')}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
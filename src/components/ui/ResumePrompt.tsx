@@ -0,0 +1,59 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import type { SurveyResumePromptText } from '../../types';
+import { Button } from './button';
+
+interface ResumePromptProps {
+  /** When the progress was saved (ms since epoch) */
+  savedAt?: number;
+  text?: SurveyResumePromptText;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+/**
+ * Asks whether to continue a saved survey or start again
+ */
+export const ResumePrompt: React.FC<ResumePromptProps> = ({
+  savedAt,
+  text = {},
+  onResume,
+  onStartOver,
+}) => {
+  const {
+    title = 'Resume where you left off?',
+    description = 'You have unfinished answers for this survey.',
+    resumeText = 'Resume',
+    startOverText = 'Start over',
+  } = text;
+
+  return (
+    <div className="flex flex-1 items-center justify-center p-6">
+      <div
+        role="dialog"
+        aria-labelledby="survey-resume-title"
+        className="w-full max-w-md rounded-xl border p-6 shadow"
+        style={{ backgroundColor: 'var(--survey-surface)', borderColor: 'var(--survey-border)' }}
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <History className="h-5 w-5" style={{ color: 'var(--survey-primary)' }} />
+          <h2 id="survey-resume-title" className="text-lg font-semibold" style={{ color: 'var(--survey-text)' }}>
+            {title}
+          </h2>
+        </div>
+        <p className="text-sm mb-6" style={{ color: 'var(--survey-text-muted)' }}>
+          {description}
+          {savedAt ? ` (${new Date(savedAt).toLocaleString()})` : ''}
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onStartOver}>
+            {startOverText}
+          </Button>
+          <Button onClick={onResume} autoFocus>
+            {resumeText}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { useSurveyForm } from '../../context/SurveyFormContext';
+
+interface SubmissionQueueStatusProps {
+  className?: string;
+}
+
+/**
+ * Tells the respondent that their answers are saved and waiting to be sent.
+ * Renders nothing unless the form uses an outbox with pending submissions.
+ */
+export const SubmissionQueueStatus: React.FC<SubmissionQueueStatusProps> = ({ className = '' }) => {
+  const { submissionQueue, retrySubmissions } = useSurveyForm();
+
+  if (!submissionQueue || submissionQueue.pending === 0) {
+    return null;
+  }
+
+  const { isSending, isOnline } = submissionQueue;
+  const message = isSending
+    ? 'Sending your answers…'
+    : isOnline
+      ? "Your answers are saved. We'll keep trying to send them."
+      : "Your answers are saved and will be sent when you're back online.";
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`flex items-center justify-center gap-2 text-sm ${className}`}
+      style={{ color: 'var(--survey-text-muted)' }}
+    >
+      {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CloudOff className="h-4 w-4" />}
+      <span>{message}</span>
+      {!isSending && isOnline && (
+        <button
+          type="button"
+          onClick={retrySubmissions}
+          className="inline-flex items-center gap-1 underline underline-offset-2"
+        >
+          <RefreshCw className="h-3 w-3" />
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+};
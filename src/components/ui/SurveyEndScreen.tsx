@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { useSurveyForm } from '../../context/SurveyFormContext';
+import type { BlockData, SurveyEndingInfo, SurveyOutcome } from '../../types';
+import { getEndingRedirectUrl } from '../../utils/outcomes';
+
+interface SurveyEndScreenProps {
+  outcome: SurveyOutcome;
+  /** The ending block the survey ended on; its text and redirect take precedence */
+  block?: BlockData;
+  className?: string;
+}
+
+/**
+ * The page shown once the survey has ended: the ending block's text, the
+ * outcome's `rootNode.endings` text, or the `ui.ending.*` strings. Counts down
+ * and redirects when the ending block has a redirect URL; in the builder
+ * preview it only shows the link, so the builder isn't navigated away.
+ */
+export const SurveyEndScreen: React.FC<SurveyEndScreenProps> = ({ outcome, block, className = '' }) => {
+  const { surveyData, values, computedValues, localizeBlock, t, theme, abTestPreviewMode } = useSurveyForm();
+  const screen = surveyData.rootNode.endings?.[outcome];
+  const ending = block ? localizeBlock(block) : undefined;
+
+  const redirectUrl = block ? getEndingRedirectUrl(block, { ...values, ...computedValues }) : null;
+  const [secondsLeft, setSecondsLeft] = useState(Math.max(0, block?.redirectDelay ?? 5));
+
+  useEffect(() => {
+    if (!redirectUrl || abTestPreviewMode) return;
+    if (secondsLeft <= 0) {
+      window.location.assign(redirectUrl);
+      return;
+    }
+    const timer = setTimeout(() => setSecondsLeft((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [redirectUrl, secondsLeft, abTestPreviewMode]);
+
+  return (
+    <div className={`flex flex-1 items-center justify-center p-6 ${block?.className || ''} ${className}`}>
+      <div role="status" aria-live="polite" className="w-full max-w-md text-center">
+        <h2 className={theme?.title || 'text-2xl font-semibold mb-2'} style={{ color: 'var(--survey-text)' }}>
+          {ending?.label || screen?.title || t(`ui.ending.${outcome}.title`)}
+        </h2>
+        <p className={theme?.description || 'text-base'} style={{ color: 'var(--survey-text-muted)' }}>
+          {ending?.description || screen?.message || t(`ui.ending.${outcome}.message`)}
+        </p>
+        {redirectUrl && (
+          <p className="mt-6 text-sm" style={{ color: 'var(--survey-text-muted)' }}>
+            {!abTestPreviewMode && <>{t('ui.ending.redirecting', { seconds: secondsLeft })}{' '}</>}
+            <a
+              href={redirectUrl}
+              className="underline"
+              style={{ color: 'var(--survey-primary)' }}
+              {...(abTestPreviewMode && { target: '_blank', rel: 'noopener noreferrer' })}
+            >
+              {t('ui.ending.redirectNow')}
+            </a>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Whether the survey's end replaces the layout with an end screen. Ending
+ * blocks always do; completes otherwise keep the layout (and its own
+ * completion message) unless a complete ending is configured.
+ */
+export const hasEndScreen = (
+  outcome: SurveyOutcome | null,
+  endings?: Partial<Record<SurveyOutcome, unknown>>,
+  ending?: SurveyEndingInfo | null
+) => !!outcome && (!!ending || outcome !== 'complete' || !!endings?.complete);
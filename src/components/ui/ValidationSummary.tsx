@@ -17,7 +17,7 @@ export const ValidationSummary: React.FC<ValidationSummaryProps> = ({
   showIcon = true,
   className = '',
 }) => {
-  const { errors, conditionalErrors } = useSurveyForm();
+  const { errors, conditionalErrors, t } = useSurveyForm();
 
   // Combine regular errors and conditional errors
   const allErrors = { ...errors, ...conditionalErrors };
@@ -37,7 +37,7 @@ export const ValidationSummary: React.FC<ValidationSummaryProps> = ({
       {showIcon && (
         <AlertCircle className="h-4 w-4" />
       )}
-      <AlertTitle>Validation Errors</AlertTitle>
+      <AlertTitle>{t('ui.validationErrors')}</AlertTitle>
       <AlertDescription>
         <ul className="mt-2 list-disc pl-5">
           {filteredErrors.map(([field, error]) => (
@@ -0,0 +1,9 @@
+import * as React from 'react';
+
+/**
+ * Where dialogs, sheets and select menus are portaled to. Unset means
+ * `document.body`; the builder's device preview points it at its iframe.
+ */
+export const PortalContainerContext = React.createContext<HTMLElement | null>(null);
+
+export const usePortalContainer = () => React.useContext(PortalContainerContext) ?? undefined;
@@ -49,6 +49,13 @@ const Slider: React.FC<SliderProps> = ({
     return ((val - min) / (max - min)) * 100;
   };
 
+  // Fraction of the track before the cursor; the track runs right to left under dir="rtl"
+  const getTrackFraction = (clientX: number, rect: DOMRect): number => {
+    const fraction = (clientX - rect.left) / rect.width;
+    const isRtl = !!trackRef.current && getComputedStyle(trackRef.current).direction === 'rtl';
+    return isRtl ? 1 - fraction : fraction;
+  };
+
   // Handle user interactions
   const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (disabled) return;
@@ -56,7 +63,7 @@ const Slider: React.FC<SliderProps> = ({
     const rect = trackRef.current?.getBoundingClientRect();
     if (!rect) return;
 
-    const percentage = (e.clientX - rect.left) / rect.width;
+    const percentage = getTrackFraction(e.clientX, rect);
     const newValue = min + percentage * (max - min);
     const normalizedValue = normalizeValue(newValue);
 
@@ -75,7 +82,7 @@ const Slider: React.FC<SliderProps> = ({
     const rect = trackRef.current.getBoundingClientRect();
     const percentage = Math.min(
       1,
-      Math.max(0, (clientX - rect.left) / rect.width)
+      Math.max(0, getTrackFraction(clientX, rect))
     );
     const newValue = min + percentage * (max - min);
     const normalizedValue = normalizeValue(newValue);
@@ -152,7 +159,7 @@ const Slider: React.FC<SliderProps> = ({
         <div
           className="absolute h-full rounded-full bg-primary"
           style={{
-            left: '0%',
+            insetInlineStart: '0%',
             width: `${getPercentage(internalValues[0])}%`,
           }}
         />
@@ -163,11 +170,11 @@ const Slider: React.FC<SliderProps> = ({
             key={index}
             ref={(el) => (thumbRefs.current[index] = el as any)}
             className={cn(
-              'absolute top-1/2 h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-primary bg-background shadow ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none',
+              'absolute top-1/2 h-4 w-4 -translate-x-1/2 rtl:translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-primary bg-background shadow ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none',
               dragging === index && 'ring-2 ring-ring ring-offset-2'
             )}
             style={{
-              left: `${getPercentage(val)}%`,
+              insetInlineStart: `${getPercentage(val)}%`,
             }}
             onMouseDown={handleThumbMouseDown(index)}
             onTouchStart={handleThumbTouchStart(index)}
@@ -3,6 +3,7 @@ import React from 'react';
 import { useEffect, useState, useCallback } from 'react';
 import { MobileNavigationHints, useIsMobile } from '../hooks/useMobileNavigation';
 import { MobileNavigationConfig } from '../types';
+import { useSurveyForm } from './SurveyFormContext';
 
 // Enhanced mobile navigation context
 export interface MobileNavigationContextType {
@@ -27,6 +28,8 @@ export function MobileNavigationProvider({
   defaultConfig?: MobileNavigationConfig;
 }) {
   const isMobile = useIsMobile();
+  // Swipes mirror with the survey's language, the same direction the layouts render with
+  const { direction } = useSurveyForm();
   const [gestureConfig, setGestureConfig] = useState<MobileNavigationConfig>(defaultConfig);
   const [enableMobileGestures, setEnableMobileGestures] = useState(true);
 
@@ -38,7 +41,7 @@ export function MobileNavigationProvider({
     <MobileNavigationContext.Provider value={{
       isMobile,
       enableMobileGestures,
-      gestureConfig,
+      gestureConfig: { ...gestureConfig, direction: gestureConfig.direction ?? direction },
       updateGestureConfig,
     }}>
       {children}
@@ -1,5 +1,5 @@
 import type React from "react";
-import { createContext, useContext, useReducer, type ReactNode } from "react"
+import { createContext, useCallback, useContext, useMemo, useReducer, type ReactNode } from "react"
 import { v4 as uuidv4 } from "uuid";
 import {
   type BlockDefinition,
@@ -11,10 +11,14 @@ import {
   type SurveyBuilderState,
   type ThemeDefinition,
   type UUID,
-  type SurveyMode
+  type SurveyMode,
+  type SurveyLintIssue
 } from "../types";
 import { uniloop as uniTheme } from "../themes";
 import { getOutputKeys, isObjectOutput } from "../utils/outputSchema";
+import { lintSurvey } from "../utils/surveyLinter";
+import { getSurveySchemaVersion, migrateSurvey } from "../utils/surveyMigrations";
+import { findFieldReferences, renameSurveyField, type FieldReference } from "../utils/fieldReferences";
 
 // Custom hook
 export const useSurveyBuilder = () => {
@@ -60,6 +64,9 @@ export const ActionTypes = {
   SET_GLOBAL_CUSTOM_FIELDS: "SET_GLOBAL_CUSTOM_FIELDS",
   SET_CUSTOM_DATA: "SET_CUSTOM_DATA",
   SET_MODE: "SET_MODE",
+  RENAME_FIELD: "RENAME_FIELD",
+  UNDO: "UNDO",
+  REDO: "REDO",
 };
 
 // Ensure rootNode always has type: "section" and a uuid when present
@@ -77,13 +84,15 @@ const surveyBuilderReducer = (
   action: SurveyBuilderAction
 ): SurveyBuilderState => {
   switch (action.type) {
-    case ActionTypes.INIT_SURVEY:
+    case ActionTypes.INIT_SURVEY: {
+      const document = migrateSurvey(action.payload);
       return {
         ...state,
-        rootNode: ensureRootNodeDefaults(action.payload.rootNode || null),
-        localizations: action.payload.localizations || { en: {} },
-        theme: action.payload.theme || uniTheme,
+        rootNode: ensureRootNodeDefaults(document.rootNode || null),
+        localizations: document.localizations || { en: {} },
+        theme: document.theme || uniTheme,
       };
+    }
     case ActionTypes.SET_ROOT_NODE:
       return {
         ...state,
@@ -322,13 +331,16 @@ const surveyBuilderReducer = (
         theme: action.payload,
       };
 
-    case ActionTypes.IMPORT_SURVEY:
+    case ActionTypes.IMPORT_SURVEY: {
+      // Older documents are upgraded to the current schema on load
+      const document = migrateSurvey(action.payload);
       return {
         ...state,
-        rootNode: ensureRootNodeDefaults(action.payload.rootNode || null),
-        localizations: action.payload.localizations || { en: {} },
-        theme: action.payload.theme || uniTheme,
+        rootNode: ensureRootNodeDefaults(document.rootNode || null),
+        localizations: document.localizations || { en: {} },
+        theme: document.theme || uniTheme,
       };
+    }
 
     case ActionTypes.SET_GLOBAL_CUSTOM_FIELDS:
       return {
@@ -348,11 +360,142 @@ const surveyBuilderReducer = (
         mode: action.payload,
       };
 
+    case ActionTypes.RENAME_FIELD: {
+      if (!state.rootNode) return state;
+      // Blocks and translations change together, as one undo step
+      const { rootNode, localizations } = renameSurveyField(state.rootNode, action.payload, state.localizations);
+      return rootNode === state.rootNode && localizations === state.localizations
+        ? state
+        : { ...state, rootNode, localizations: localizations || state.localizations };
+    }
+
     default:
       return state;
   }
 };
 
+// Undo/redo history over the survey document (rootNode, localizations, theme, mode).
+// Selection, display mode and definitions are editor state and are not recorded.
+type DocumentSnapshot = Pick<SurveyBuilderState, "rootNode" | "localizations" | "theme" | "mode">;
+
+interface SurveyBuilderHistory {
+  present: SurveyBuilderState;
+  past: DocumentSnapshot[];
+  future: DocumentSnapshot[];
+  // Key and time of the last recorded action, used to group rapid edits
+  lastGroupKey: string | null;
+  lastTimestamp: number;
+}
+
+const UNDOABLE_ACTIONS = new Set<string>([
+  ActionTypes.ADD_NODE,
+  ActionTypes.UPDATE_NODE,
+  ActionTypes.REMOVE_NODE,
+  ActionTypes.UPDATE_LOCALIZATIONS,
+  ActionTypes.UPDATE_THEME,
+  ActionTypes.IMPORT_SURVEY,
+  ActionTypes.SET_MODE,
+  ActionTypes.RENAME_FIELD,
+]);
+
+// Maximum number of undo steps kept
+const HISTORY_LIMIT = 100;
+
+// Edits with the same group key closer together than this become one undo step
+const HISTORY_GROUP_INTERVAL_MS = 1000;
+
+const takeSnapshot = (state: SurveyBuilderState): DocumentSnapshot => ({
+  rootNode: state.rootNode,
+  localizations: state.localizations,
+  theme: state.theme,
+  mode: state.mode,
+});
+
+const documentChanged = (previous: SurveyBuilderState, next: SurveyBuilderState) =>
+  previous.rootNode !== next.rootNode ||
+  previous.localizations !== next.localizations ||
+  previous.theme !== next.theme ||
+  previous.mode !== next.mode;
+
+// Typing into a field dispatches UPDATE_NODE for the same node and keys on every keystroke
+const getGroupKey = (action: SurveyBuilderAction): string | null => {
+  switch (action.type) {
+    case ActionTypes.UPDATE_NODE:
+      return `${action.type}:${action.payload.uuid}:${Object.keys(action.payload.nodeData || {}).sort().join(",")}`;
+    case ActionTypes.UPDATE_LOCALIZATIONS:
+    case ActionTypes.UPDATE_THEME:
+      return action.type;
+    default:
+      return null;
+  }
+};
+
+const createHistory = (present: SurveyBuilderState): SurveyBuilderHistory => ({
+  present,
+  past: [],
+  future: [],
+  lastGroupKey: null,
+  lastTimestamp: 0,
+});
+
+const surveyBuilderHistoryReducer = (
+  history: SurveyBuilderHistory,
+  action: SurveyBuilderAction
+): SurveyBuilderHistory => {
+  const { present, past, future } = history;
+
+  switch (action.type) {
+    case ActionTypes.UNDO: {
+      if (past.length === 0) return history;
+      return {
+        present: { ...present, ...past[past.length - 1] },
+        past: past.slice(0, -1),
+        future: [takeSnapshot(present), ...future],
+        lastGroupKey: null,
+        lastTimestamp: 0,
+      };
+    }
+
+    case ActionTypes.REDO: {
+      if (future.length === 0) return history;
+      return {
+        present: { ...present, ...future[0] },
+        past: [...past, takeSnapshot(present)],
+        future: future.slice(1),
+        lastGroupKey: null,
+        lastTimestamp: 0,
+      };
+    }
+  }
+
+  const next = surveyBuilderReducer(present, action);
+  if (next === present) return history;
+
+  // A new document replaces the history entirely
+  if (action.type === ActionTypes.INIT_SURVEY || action.type === ActionTypes.SET_ROOT_NODE) {
+    return createHistory(next);
+  }
+
+  if (!UNDOABLE_ACTIONS.has(action.type) || !documentChanged(present, next)) {
+    return { ...history, present: next };
+  }
+
+  const groupKey = getGroupKey(action);
+  const timestamp = action.timestamp ?? 0;
+  const grouped =
+    groupKey !== null &&
+    groupKey === history.lastGroupKey &&
+    timestamp - history.lastTimestamp < HISTORY_GROUP_INTERVAL_MS;
+
+  return {
+    present: next,
+    past: grouped ? past : [...past, takeSnapshot(present)].slice(-HISTORY_LIMIT),
+    future: [],
+    lastGroupKey: groupKey,
+    lastTimestamp: timestamp,
+  };
+};
+
 // Context
 interface SurveyBuilderContextType {
   state: SurveyBuilderState;
@@ -369,16 +512,28 @@ interface SurveyBuilderContextType {
   setDisplayMode: (mode: "list" | "graph" | "flow" | "lang" | "theme") => void;
   updateLocalizations: (localizations: LocalizationMap) => void;
   updateTheme: (theme: ThemeDefinition) => void;
-  importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition }) => void;
-  exportSurvey: () => { rootNode: NodeData | null; localizations: LocalizationMap; theme: ThemeDefinition };
+  importSurvey: (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition; schemaVersion?: number }) => void;
+  exportSurvey: () => { schemaVersion: number; rootNode: NodeData | null; localizations: LocalizationMap; theme: ThemeDefinition };
   setGlobalCustomFields: (customFields: GlobalCustomField[]) => void;
   setCustomData: (customData: any) => void;
   customData: any;
+  // Undo/redo of document changes
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   // Field collection utilities (includes nested fields from output schemas)
   getAvailableFields: (currentBlockId: string) => string[];
   getAvailableFieldsBefore: (currentBlockId: string) => string[];
   getAvailableFieldsUptoCurrent: (currentBlockId: string) => string[];
   getAvailableFieldsExcludingCurrent: (currentBlockId: string) => string[];
+  // Renaming fields together with every condition, formula and translation that refers to them
+  renameField: (oldName: string, newName: string) => void;
+  previewFieldRename: (oldName: string, newName: string) => FieldReference[];
+  getFieldReferences: (fieldNames: string[], excludeBlocks?: Iterable<string>) => FieldReference[];
+  // Static checks of conditions and formulas
+  lintIssues: SurveyLintIssue[];
+  getLintIssues: (blockId: string) => SurveyLintIssue[];
 }
 
 export const SurveyBuilderContext = createContext<SurveyBuilderContextType | undefined>(
@@ -389,6 +544,7 @@ export const SurveyBuilderContext = createContext<SurveyBuilderContextType | und
 interface SurveyBuilderProviderProps {
   children: ReactNode;
   initialData?: {
+    schemaVersion?: number;
     rootNode?: NodeData;
     localizations?: LocalizationMap;
     theme?: ThemeDefinition;
@@ -411,18 +567,31 @@ export const SurveyBuilderProvider: React.FC<SurveyBuilderProviderProps> = ({
   customData,
   mode = 'pageless',
 }) => {
-  const [state, dispatch] = useReducer(
-    surveyBuilderReducer,
-    {
-      ...initialState,
-      rootNode: ensureRootNodeDefaults(initialData?.rootNode || null),
-      localizations: initialData?.localizations || { en: {} },
-      theme: initialData?.theme || uniTheme,
-      enableDebug,
-      customData,
-      mode,
+  const [history, dispatchToHistory] = useReducer(
+    surveyBuilderHistoryReducer,
+    initialData,
+    (data) => {
+      // Saved documents are upgraded to the current schema before editing
+      const document = data?.rootNode ? migrateSurvey({ ...data, rootNode: data.rootNode }) : data;
+      return createHistory({
+        ...initialState,
+        rootNode: ensureRootNodeDefaults(document?.rootNode || null),
+        localizations: document?.localizations || { en: {} },
+        theme: document?.theme || uniTheme,
+        enableDebug,
+        customData,
+        mode,
+      });
     }
   );
+  const state = history.present;
+
+  const dispatch = useCallback((action: SurveyBuilderAction) => {
+    dispatchToHistory({ ...action, timestamp: action.timestamp ?? Date.now() });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: ActionTypes.UNDO }), [dispatch]);
+  const redo = useCallback(() => dispatch({ type: ActionTypes.REDO }), [dispatch]);
 
   // Helper functions
   const addBlockDefinition = (type: string, definition: BlockDefinition) => {
@@ -543,7 +712,7 @@ export const SurveyBuilderProvider: React.FC<SurveyBuilderProviderProps> = ({
     });
   };
 
-  const importSurvey = (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition }) => {
+  const importSurvey = (data: { rootNode: NodeData; localizations?: LocalizationMap; theme?: ThemeDefinition; schemaVersion?: number }) => {
     dispatch({
       type: ActionTypes.IMPORT_SURVEY,
       payload: data,
@@ -552,6 +721,7 @@ export const SurveyBuilderProvider: React.FC<SurveyBuilderProviderProps> = ({
 
   const exportSurvey = () => {
     return {
+      schemaVersion: getSurveySchemaVersion(),
       rootNode: state.rootNode,
       localizations: state.localizations,
       theme: state.theme,
@@ -857,6 +1027,34 @@ export const SurveyBuilderProvider: React.FC<SurveyBuilderProviderProps> = ({
     return [...new Set(fieldNames)];
   };
 
+  const renameField = (oldName: string, newName: string) => {
+    if (!oldName || !newName || oldName === newName) return;
+    dispatch({
+      type: ActionTypes.RENAME_FIELD,
+      payload: { [oldName]: newName },
+    });
+  };
+
+  // What renameField would change, without changing it
+  const previewFieldRename = (oldName: string, newName: string): FieldReference[] => {
+    if (!state.rootNode || !oldName || !newName || oldName === newName) return [];
+    return renameSurveyField(state.rootNode, { [oldName]: newName }, state.localizations).references;
+  };
+
+  const getFieldReferences = (fieldNames: string[], excludeBlocks?: Iterable<string>): FieldReference[] =>
+    findFieldReferences(state.rootNode, fieldNames, { localizations: state.localizations, excludeBlocks });
+
+  // Re-lint whenever the survey or the registered blocks change
+  const lintIssues = useMemo(
+    () => lintSurvey(state.rootNode, state.definitions.blocks),
+    [state.rootNode, state.definitions.blocks]
+  );
+
+  const getLintIssues = useCallback(
+    (blockId: string): SurveyLintIssue[] => lintIssues.filter((issue) => issue.blockId === blockId),
+    [lintIssues]
+  );
+
   const value = {
     state,
     dispatch,
@@ -879,6 +1077,15 @@ export const SurveyBuilderProvider: React.FC<SurveyBuilderProviderProps> = ({
     getAvailableFieldsBefore,
     getAvailableFieldsUptoCurrent,
     getAvailableFieldsExcludingCurrent,
+    renameField,
+    previewFieldRename,
+    getFieldReferences,
+    lintIssues,
+    getLintIssues,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
   };
 
   return (
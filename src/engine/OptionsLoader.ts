@@ -0,0 +1,82 @@
+import type { ChoiceOption } from '../types';
+
+export interface OptionsLoadState {
+  options: ChoiceOption[];
+  isLoading: boolean;
+  error?: string;
+}
+
+interface CacheEntry extends OptionsLoadState {
+  loadedAt: number;
+}
+
+/**
+ * Cache for options loaded from options providers. Results are kept for
+ * `ttlMs` and shared by every block asking for the same request; `onUpdate`
+ * runs when an asynchronous load finishes.
+ */
+export class OptionsLoader {
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly onUpdate: () => void,
+    private readonly ttlMs: number = 5 * 60 * 1000
+  ) {}
+
+  /**
+   * The cached result for `key`, starting a load when there is none or it expired.
+   * Expired options stay visible while they reload.
+   */
+  get(key: string, load: () => ChoiceOption[] | Promise<ChoiceOption[]>): OptionsLoadState {
+    const cached = this.cache.get(key);
+    if (cached && (cached.isLoading || Date.now() - cached.loadedAt < this.ttlMs)) {
+      return cached;
+    }
+
+    let result: ChoiceOption[] | Promise<ChoiceOption[]>;
+    try {
+      result = load();
+    } catch (error) {
+      return this.fail(key, error);
+    }
+
+    if (!(result instanceof Promise)) {
+      return this.store(key, { options: result || [], isLoading: false });
+    }
+
+    const loading = this.store(key, { options: cached?.options || [], isLoading: true });
+    result.then(
+      (options) => {
+        this.store(key, { options: options || [], isLoading: false });
+        this.onUpdate();
+      },
+      (error) => {
+        this.fail(key, error);
+        this.onUpdate();
+      }
+    );
+    return loading;
+  }
+
+  /**
+   * Drops cached results so the next render loads them again
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private store(key: string, state: OptionsLoadState): CacheEntry {
+    const entry = { ...state, loadedAt: Date.now() };
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private fail(key: string, error: unknown): CacheEntry {
+    console.error('Error loading options:', error);
+    return this.store(key, {
+      options: [],
+      isLoading: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,1092 @@
+import type {
+  BlockData,
+  BlockDefinition,
+  ChoiceOption,
+  LocalizationMap,
+  NavigationHistoryEntry,
+  NavigationRuleRef,
+  NodeData,
+  QuotaDefinition,
+  SurveyEndingInfo,
+  SurveyMode,
+  SurveyOutcome,
+  SurveyRandomization,
+} from '../types';
+import { validationRuleToFunction } from '../builder/common/validation-rules-types';
+import {
+  evaluateCondition,
+  executeCalculation,
+  getNextPageFromNavigationRules,
+  getNextPageIndex as calculateNextPageIndex,
+  findBlockPosition,
+  getEndingFromNavigationRules,
+  getMatchedNavigationRule,
+  getNextStepFromNavigationRules,
+  isBlockVisible,
+} from '../utils/conditionalUtils';
+import { detectSurveyMode, evaluateLogic, getSurveyPageIds, getSurveyPages } from '../utils/surveyUtils';
+import { createBlockLocalizer, translateMessage, translateUiString } from '../utils/localization';
+import { getPipedTexts, interpolateBlock } from '../utils/piping';
+import { formatMessage } from '../utils/messageFormat';
+import {
+  carryForwardOptions,
+  filterOptionsBySearch,
+  getStaticOptions,
+  hasDynamicOptions,
+  isValueInOptions,
+} from '../utils/optionSources';
+import { randomizeSurvey, resolveRandomizationSettings } from '../utils/randomization';
+import { findFullQuota, getMatchedQuotas } from '../utils/quotas';
+import { getEndingInfo, isEndingBlock } from '../utils/outcomes';
+import { calculateScores } from '../utils/scoring';
+import { isRepeaterBlock, validateRepeaterValue } from '../utils/repeater';
+import { OptionsLoader, type OptionsLoadState } from './OptionsLoader';
+import type {
+  SurveyEngineEventName,
+  SurveyEngineEvents,
+  SurveyEngineOptions,
+  SurveyEngineSnapshot,
+  SurveyEngineState,
+  SurveyEngineSurvey,
+} from './types';
+
+// Keep max 50 entries to prevent memory issues
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * Framework-agnostic survey runtime: navigation, visibility, computed values,
+ * validation and navigation history. SurveyFormProvider and the chat / voice
+ * layouts render on top of it; it can also drive a survey from React Native
+ * or a server.
+ *
+ * @example
+ * const engine = new SurveyEngine({ survey, blockDefinitions: StandardBlocks });
+ * engine.on('pageChange', (page) => console.log('page', page));
+ * engine.setValue('age', 42);
+ * await engine.next();
+ */
+export class SurveyEngine {
+  private options: SurveyEngineOptions;
+  private state: SurveyEngineState;
+  // The survey as authored, and in this respondent's order
+  private sourceRootNode: NodeData;
+  private rootNode: NodeData;
+  private randomization: Omit<SurveyRandomization, 'order'>;
+  private randomizationOrder: Record<string, string[]> = {};
+  private mode: SurveyMode;
+  private pages: BlockData[][] = [];
+  private pageIds: string[] = [];
+  private longestPathLength: number | null = null;
+  private localizations: LocalizationMap | undefined;
+  private localizer: <T extends BlockData | NodeData>(block: T) => T = (block) => block;
+  // Last piped copy of each block, reused while its text stays the same
+  private interpolated = new WeakMap<object, { signature: string; block: any }>();
+  // Last copy of each block with its resolved options, reused while they stay the same
+  private resolvedOptions = new WeakMap<object, { signature: string; block: any }>();
+  private optionsLoader: OptionsLoader;
+  // Search text typed into searchable option lists, by field name
+  private optionSearch: Record<string, string> = {};
+  private listeners: Partial<Record<SurveyEngineEventName, Set<(...args: any[]) => void>>> = {};
+
+  constructor(options: SurveyEngineOptions) {
+    this.options = options;
+    this.optionsLoader = new OptionsLoader(() => this.setState({}), options.optionsCacheTtlMs);
+    this.randomization = resolveRandomizationSettings(options.randomization);
+    this.loadSurvey(options.survey, options.mode);
+
+    const startBlock = options.startBlockId ? findBlockPosition(this.pages, options.startBlockId) : null;
+    if (options.startBlockId && !startBlock) {
+      console.warn(`[SurveyEngine] Start block "${options.startBlockId}" not found, starting from the first page`);
+    }
+    const startPage = startBlock?.pageIndex ?? options.startPage ?? 0;
+    const values = { ...(options.defaultValues || {}), ...(options.initialValues || {}) };
+
+    this.state = {
+      values,
+      errors: {},
+      conditionalErrors: {},
+      computedValues: this.calculateComputedValues(values, {}),
+      currentPage: startPage,
+      currentBlockIndex: startBlock?.blockIndex ?? 0,
+      isSubmitting: false,
+      language: options.language || 'en',
+      // Starting from a block is a fresh start there, not a resume with earlier pages to go back to
+      navigationHistory: startBlock && !options.initialNavigationHistory?.length
+        ? [{
+          pageUuid: this.pageIds[startBlock.pageIndex],
+          blockUuid: this.pages[startBlock.pageIndex][startBlock.blockIndex].uuid,
+          timestamp: Date.now(),
+          trigger: 'initial',
+        }]
+        : this.buildInitialHistory(startPage, options.initialNavigationHistory),
+      outcome: null,
+      ending: null,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Subscriptions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Registers an event listener and returns a function that removes it
+   */
+  on<K extends SurveyEngineEventName>(event: K, listener: SurveyEngineEvents[K]): () => void {
+    (this.listeners[event] ||= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends SurveyEngineEventName>(event: K, listener: SurveyEngineEvents[K]): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Store-style subscription to every state change (bound, for useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => this.on('change', listener);
+
+  /**
+   * Current state snapshot (bound, for useSyncExternalStore)
+   */
+  getState = (): SurveyEngineState => this.state;
+
+  private emit<K extends SurveyEngineEventName>(event: K, ...args: Parameters<SurveyEngineEvents[K]>): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(...args);
+      } catch (error) {
+        console.error(`Error in survey engine "${event}" listener:`, error);
+      }
+    });
+  }
+
+  private setState(partial: Partial<SurveyEngineState>): void {
+    const previous = this.state;
+    this.state = { ...previous, ...partial };
+
+    if (partial.values && partial.values !== previous.values) {
+      this.emit('values', this.state.values);
+    }
+    if (partial.navigationHistory && partial.navigationHistory !== previous.navigationHistory) {
+      this.emit('history', this.state.navigationHistory);
+    }
+    if (partial.currentPage !== undefined && partial.currentPage !== previous.currentPage) {
+      this.emit('pageChange', this.state.currentPage, this.getTotalPages());
+    }
+    this.emit('change', this.state);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Survey structure
+  // ---------------------------------------------------------------------------
+
+  private loadSurvey(survey: SurveyEngineSurvey, mode?: SurveyMode): void {
+    this.sourceRootNode = survey.rootNode;
+    this.localizations = survey.localizations;
+    this.mode = mode ?? survey.mode ?? detectSurveyMode(survey.rootNode);
+    this.layoutPages();
+    this.localizer = createBlockLocalizer(this.state?.language ?? this.options.language ?? 'en', this.localizations);
+  }
+
+  // Applies the respondent's order and splits the survey into pages
+  private layoutPages(): void {
+    const { rootNode, order } = randomizeSurvey(this.sourceRootNode, this.randomization);
+    this.rootNode = rootNode;
+    this.randomizationOrder = order;
+    // In pageless mode, each block becomes its own "page"
+    this.pages = getSurveyPages(this.rootNode, this.mode);
+    this.pageIds = getSurveyPageIds(this.rootNode, this.mode);
+    this.longestPathLength = null;
+  }
+
+  /**
+   * Swaps in a new survey definition (e.g. a live preview being edited).
+   * Answers and position are kept; no events are emitted.
+   */
+  setSurvey(survey: SurveyEngineSurvey, mode?: SurveyMode): void {
+    if (
+      survey.rootNode === this.sourceRootNode &&
+      survey.localizations === this.localizations &&
+      (mode ?? survey.mode ?? this.mode) === this.mode
+    ) return;
+    this.loadSurvey(survey, mode);
+  }
+
+  /**
+   * Replaces callbacks and validators without recreating the engine
+   */
+  setOptions(options: Partial<Pick<SurveyEngineOptions, 'computedFields' | 'customValidators' | 'blockDefinitions' | 'optionsProviders' | 'quotaProvider' | 'onSubmit'>>): void {
+    if (options.optionsProviders && options.optionsProviders !== this.options.optionsProviders) {
+      this.optionsLoader.clear();
+    }
+    this.options = { ...this.options, ...options };
+  }
+
+  getMode(): SurveyMode {
+    return this.mode;
+  }
+
+  /**
+   * The root node in this respondent's order
+   */
+  getRootNode(): NodeData {
+    return this.rootNode;
+  }
+
+  /**
+   * The seed, respondent index and every applied order
+   */
+  getRandomization(): SurveyRandomization {
+    return { ...this.randomization, order: this.randomizationOrder };
+  }
+
+  getPages(): BlockData[][] {
+    return this.pages;
+  }
+
+  getPageIds(): string[] {
+    return this.pageIds;
+  }
+
+  getTotalPages(): number {
+    return Math.max(1, this.pages.length);
+  }
+
+  getCurrentBlock(): BlockData | undefined {
+    return this.pages[this.state.currentPage]?.[this.state.currentBlockIndex];
+  }
+
+  private getBlockDefinition(type: string): BlockDefinition | undefined {
+    const { blockDefinitions } = this.options;
+    if (!blockDefinitions) return undefined;
+    if (typeof blockDefinitions === 'function') return blockDefinitions(type);
+    if (Array.isArray(blockDefinitions)) return blockDefinitions.find((definition) => definition.type === type);
+    return blockDefinitions[type];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Values and validation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Answers merged with computed values - the scope conditions are evaluated in
+   */
+  getContextValues(): Record<string, any> {
+    return { ...this.state.values, ...this.state.computedValues };
+  }
+
+  private calculateComputedValues(values: Record<string, any>, previous: Record<string, any>): Record<string, any> {
+    const computedFields = this.options.computedFields || {};
+    const scores = this.rootNode.scores;
+    if (Object.keys(computedFields).length === 0 && !scores?.length) return previous;
+
+    const computedValues: Record<string, any> = {};
+    Object.entries(computedFields).forEach(([fieldName, config]) => {
+      const result = executeCalculation(
+        {
+          formula: config.formula,
+          targetField: fieldName,
+          dependencies: config.dependencies,
+        },
+        { ...values, ...previous }
+      );
+      computedValues[fieldName] = config.format ? config.format(result) : result;
+    });
+
+    if (scores?.length) {
+      Object.assign(computedValues, calculateScores(scores, this.pages.flat(), { ...values, ...previous }));
+    }
+
+    return { ...previous, ...computedValues };
+  }
+
+  updateComputedValues(): void {
+    const computedValues = this.calculateComputedValues(this.state.values, this.state.computedValues);
+    if (computedValues !== this.state.computedValues) {
+      this.setState({ computedValues });
+    }
+  }
+
+  evaluateCondition(condition: string, contextData?: Record<string, any>): boolean {
+    return evaluateCondition(condition, { ...this.getContextValues(), ...(contextData || {}) });
+  }
+
+  /**
+   * Runs the block's `validateValue`, its validation rules and any custom
+   * validator for the field. Warning-level rules don't produce an error.
+   */
+  validateField(fieldName: string, value: any, values: Record<string, any> = this.state.values): string | null {
+    const contextValues = { ...values, ...this.state.computedValues };
+    const sourceBlock = this.pages.flat().find((block) => block.fieldName === fieldName);
+    // Rule messages come from the localized block, built-in messages are translated by text
+    const block = sourceBlock && this.localizeBlock(sourceBlock);
+
+    if (block) {
+      // Answers carried forward or hidden by an option's visibleIf may no longer be offered
+      if (
+        (block.optionsSource?.type === 'carryForward' || getStaticOptions(block).some((option) => option.visibleIf)) &&
+        !isValueInOptions(value, this.getOptionsState(block, { ignoreSearch: true, values }).options)
+      ) {
+        return this.translate('validation.invalidOption');
+      }
+
+      // A repeater's children may depend on other answers, which the block's validateValue doesn't see
+      const validateValue = isRepeaterBlock(block)
+        ? (repeaterValue: any) =>
+            validateRepeaterValue(repeaterValue, block, (type) => this.getBlockDefinition(type), contextValues).error
+        : this.getBlockDefinition(block.type)?.validateValue;
+      if (validateValue) {
+        try {
+          const blockValidationError = validateValue(value, block);
+          if (blockValidationError) {
+            return this.translateMessage(blockValidationError);
+          }
+        } catch (error) {
+          console.error(`Error in block validation for field ${fieldName}:`, error);
+          return `Validation error: ${(error as Error).message}`;
+        }
+      }
+
+      for (const rule of block.validationRules || []) {
+        try {
+          // Skip if there's a condition and it doesn't evaluate to true
+          if (rule.condition && !evaluateCondition(rule.condition, contextValues)) {
+            continue;
+          }
+
+          const validationError = validationRuleToFunction(rule)(value, contextValues);
+          if (validationError && rule.severity !== 'warning') {
+            return validationError;
+          }
+        } catch (error) {
+          console.error(`Error in custom validation rule for field ${fieldName}:`, error);
+          return `Validation error: ${(error as Error).message}`;
+        }
+      }
+    }
+
+    const validator = this.options.customValidators?.[fieldName];
+    if (validator) {
+      try {
+        const validatorError = validator.validate(value, contextValues);
+        return validatorError ? this.translateMessage(validatorError) : validatorError;
+      } catch (error) {
+        console.error(`Error validating field ${fieldName}:`, error);
+        return `Validation error: ${(error as Error).message}`;
+      }
+    }
+
+    return null;
+  }
+
+  private withConditionalError(field: string, error: string | null): Record<string, string> {
+    const conditionalErrors = { ...this.state.conditionalErrors };
+    if (error) {
+      conditionalErrors[field] = error;
+    } else {
+      delete conditionalErrors[field];
+    }
+    return conditionalErrors;
+  }
+
+  private withError(errors: Record<string, string>, field: string, error: string | null): Record<string, string> {
+    const updated = { ...errors };
+    if (error === null) {
+      delete updated[field];
+    } else {
+      updated[field] = error;
+    }
+    return updated;
+  }
+
+  /**
+   * Sets an answer, runs the page's exit logic and validates the field
+   */
+  setValue(field: string, value: any): void {
+    const values = { ...this.state.values, [field]: value };
+    let errors = this.state.errors;
+
+    const setParent = this.pages[this.state.currentPage]?.[0];
+    if (setParent && typeof setParent === 'object' && setParent.exitLogic) {
+      try {
+        const result = evaluateLogic(setParent.exitLogic, {
+          fieldValues: values,
+          getFieldValue: (name) => values[name] || this.state.computedValues[name],
+        });
+        if (result && typeof result === 'object' && this.isValid() === false) {
+          errors = this.withError(errors, field, result.errorMessage || 'Invalid value');
+        } else {
+          errors = this.withError(errors, field, null);
+        }
+      } catch (error) {
+        console.error('Error evaluating exit logic:', error);
+      }
+    }
+
+    this.setState({
+      values,
+      errors,
+      conditionalErrors: this.withConditionalError(field, this.validateField(field, value, values)),
+      computedValues: this.calculateComputedValues(values, this.state.computedValues),
+    });
+  }
+
+  /**
+   * Merges answers without validating them, e.g. when saved answers finish loading
+   */
+  setValues(values: Record<string, any>): void {
+    const merged = { ...this.state.values, ...values };
+    this.setState({
+      values: merged,
+      computedValues: this.calculateComputedValues(merged, this.state.computedValues),
+    });
+  }
+
+  setError(field: string, error: string | null): void {
+    this.setState({ errors: this.withError(this.state.errors, field, error) });
+  }
+
+  /**
+   * Switches the respondent's language. Field errors already shown are
+   * validated again so their messages switch too.
+   */
+  setLanguage(language: string): void {
+    if (language === this.state.language) return;
+
+    this.state = { ...this.state, language };
+    this.localizer = createBlockLocalizer(language, this.localizations);
+    const conditionalErrors: Record<string, string> = {};
+    Object.keys(this.state.conditionalErrors).forEach((field) => {
+      const error = this.validateField(field, this.state.values[field]);
+      if (error) conditionalErrors[field] = error;
+    });
+    this.setState({ language, conditionalErrors });
+  }
+
+  /**
+   * The block with its text, options and validation messages in the current
+   * language. Returns the same copy for the same block until the language changes.
+   */
+  localizeBlock<T extends BlockData | NodeData>(block: T): T {
+    return this.localizer(block);
+  }
+
+  /**
+   * Renderer text (`ui.*` keys, see DEFAULT_UI_STRINGS) in the current language
+   */
+  translate(key: string, params?: Record<string, string | number>): string {
+    return translateUiString(key, this.state.language, this.localizations, params);
+  }
+
+  /**
+   * Answers and computed values available to piped text
+   */
+  getMessageParams(): Record<string, any> {
+    return { ...this.state.computedValues, ...this.state.values };
+  }
+
+  /**
+   * Formats an ICU message (e.g. "Thanks {firstName}") with the current
+   * answers, in the current language
+   */
+  formatMessage(template: string, params?: Record<string, any>): string {
+    return formatMessage(template, { ...this.getMessageParams(), ...params }, this.state.language);
+  }
+
+  /**
+   * The block with the current answers piped into its label, description,
+   * agreement text and option labels. Returns the same copy until that text changes.
+   */
+  interpolateBlock<T extends BlockData | NodeData>(block: T): T {
+    const interpolated = interpolateBlock(block, this.getMessageParams(), this.state.language);
+    if (interpolated === block) return block;
+
+    const collectTexts = (item: any): string[] => [
+      ...getPipedTexts(item).map(({ text }) => text),
+      ...(Array.isArray(item.items) ? item.items.flatMap(collectTexts) : []),
+    ];
+    const signature = JSON.stringify(collectTexts(interpolated));
+    const cached = this.interpolated.get(block);
+    if (cached?.signature === signature) return cached.block;
+
+    this.interpolated.set(block, { signature, block: interpolated });
+    return interpolated;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Options
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The options a choice block offers right now: carried forward from an
+   * earlier answer or loaded from an options provider, without options whose
+   * `visibleIf` is false and filtered by the search text
+   */
+  getBlockOptions(block: BlockData): OptionsLoadState {
+    return this.getOptionsState(block);
+  }
+
+  /**
+   * Sets the search text of a searchable option list. Provider options are
+   * loaded again for the new text; other options are filtered locally.
+   */
+  setOptionsSearch(fieldName: string, search: string): void {
+    if ((this.optionSearch[fieldName] || '') === search) return;
+    this.optionSearch = { ...this.optionSearch, [fieldName]: search };
+    this.setState({});
+  }
+
+  getOptionsSearch(fieldName: string): string {
+    return this.optionSearch[fieldName] || '';
+  }
+
+  /**
+   * Drops cached provider options so they load again
+   */
+  reloadOptions(): void {
+    this.optionsLoader.clear();
+    this.setState({});
+  }
+
+  /**
+   * The block with `options` replaced by its current options (see
+   * `getBlockOptions`), plus `optionsLoading` and `optionsError`. Blocks with
+   * static options are returned as they are.
+   */
+  resolveBlockOptions<T extends BlockData | NodeData>(block: T): T {
+    if (!hasDynamicOptions(block as BlockData)) return block;
+
+    const { options, isLoading, error } = this.getOptionsState(block as BlockData);
+    const signature = JSON.stringify([options, isLoading, error]);
+    const cached = this.resolvedOptions.get(block);
+    if (cached?.signature === signature) return cached.block;
+
+    const resolved = { ...block, options, optionsLoading: isLoading, optionsError: error };
+    this.resolvedOptions.set(block, { signature, block: resolved });
+    return resolved;
+  }
+
+  private getOptionsState(
+    block: BlockData,
+    { ignoreSearch = false, values = this.state.values }: { ignoreSearch?: boolean; values?: Record<string, any> } = {},
+    visited: Set<string> = new Set()
+  ): OptionsLoadState {
+    const source = block.optionsSource;
+    const contextValues = { ...values, ...this.state.computedValues };
+    const search = ignoreSearch || !block.fieldName ? '' : this.getOptionsSearch(block.fieldName);
+    let state: OptionsLoadState;
+
+    if (source?.type === 'carryForward') {
+      const sourceBlock = this.pages.flat().find((item) => item.fieldName === source.field);
+      if (!sourceBlock || visited.has(source.field)) {
+        console.error(`Cannot carry forward options from field "${source.field}"`);
+        state = { options: [], isLoading: false };
+      } else {
+        visited.add(block.fieldName);
+        const sourceState = this.getOptionsState(this.localizeBlock(sourceBlock), { ignoreSearch: true, values }, visited);
+        state = {
+          ...sourceState,
+          options: carryForwardOptions(sourceState.options, values[source.field], source.include),
+        };
+      }
+    } else if (source?.type === 'provider') {
+      const provider = this.options.optionsProviders?.[source.provider];
+      if (!provider) {
+        return { options: [], isLoading: false, error: `Unknown options provider "${source.provider}"` };
+      }
+      if (search.length < (source.minSearchLength || 0)) {
+        return { options: [], isLoading: false };
+      }
+
+      const dependencies = (source.dependsOn || []).map((field) => contextValues[field]);
+      const key = JSON.stringify([source.provider, source.params, dependencies, this.state.language, search]);
+      state = this.optionsLoader.get(key, () =>
+        provider({ block, search, params: source.params, values: contextValues, language: this.state.language })
+      );
+    } else {
+      state = { options: getStaticOptions(block), isLoading: false };
+    }
+
+    const options: ChoiceOption[] = state.options.filter(
+      (option) => !option.visibleIf || evaluateCondition(option.visibleIf, contextValues)
+    );
+
+    return {
+      ...state,
+      options: source?.type === 'provider' ? options : filterOptionsBySearch(options, search),
+    };
+  }
+
+  private translateMessage(message: string): string {
+    return translateMessage(message, this.state.language, this.localizations);
+  }
+
+  getErrors(): Record<string, string> {
+    return { ...this.state.errors, ...this.state.conditionalErrors };
+  }
+
+  /**
+   * Whether the current block has no errors (used by stepper layouts)
+   */
+  isValid(): boolean {
+    const fieldName = this.getCurrentBlock()?.fieldName;
+    return !fieldName || (!this.state.errors[fieldName] && !this.state.conditionalErrors[fieldName]);
+  }
+
+  /**
+   * Whether every visible field on the current page has no errors
+   */
+  isCurrentPageValid(): boolean {
+    return this.getVisibleBlocks()
+      .filter((block) => block.fieldName)
+      .every((block) => !this.state.errors[block.fieldName!] && !this.state.conditionalErrors[block.fieldName!]);
+  }
+
+  /**
+   * Filters blocks (default: the current page) down to those whose `visibleIf` holds
+   */
+  getVisibleBlocks(blocks: BlockData[] = this.pages[this.state.currentPage] || []): BlockData[] {
+    const contextValues = this.getContextValues();
+    return blocks.filter((block) => !block.visibleIf || isBlockVisible(block, contextValues));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  isFirstPage(): boolean {
+    return this.state.currentPage === 0;
+  }
+
+  isLastPage(): boolean {
+    return this.state.currentPage === this.getTotalPages() - 1;
+  }
+
+  canGoBack(): boolean {
+    return this.state.navigationHistory.length > 1;
+  }
+
+  private buildInitialHistory(startPage: number, saved?: NavigationHistoryEntry[]): NavigationHistoryEntry[] {
+    // We need at least 2 entries for canGoBack to be true, so an incomplete saved history is rebuilt
+    if (saved && saved.length > 0 && (saved.length > 1 || startPage === 0)) {
+      return saved;
+    }
+
+    // Build complete navigation history from page 0 to startPage so users can navigate back when resuming
+    const baseTimestamp = Date.now() - startPage * 1000;
+    const history: NavigationHistoryEntry[] = [];
+
+    for (let i = 0; i <= startPage; i++) {
+      const pageUuid = this.pageIds[i];
+      if (pageUuid) {
+        history.push({
+          pageUuid,
+          blockUuid: undefined,
+          timestamp: baseTimestamp + i * 1000,
+          trigger: i === 0 ? 'initial' : 'forward',
+        });
+      }
+    }
+
+    if (history.length === 0) {
+      history.push({ pageUuid: this.pageIds[0] || '', blockUuid: undefined, timestamp: Date.now(), trigger: 'initial' });
+    }
+
+    return history;
+  }
+
+  private moveTo(
+    pageIndex: number,
+    blockIndex: number,
+    trigger: NavigationHistoryEntry['trigger'],
+    rule?: NavigationRuleRef | null
+  ): void {
+    const pageUuid = this.pageIds[pageIndex];
+    const blockUuid = this.pages[pageIndex]?.[blockIndex]?.uuid;
+    let navigationHistory = this.state.navigationHistory;
+
+    if (!pageUuid) {
+      console.warn('[Navigation] Cannot add to history: invalid page index', pageIndex);
+    } else {
+      // Avoid duplicate consecutive entries
+      const lastEntry = navigationHistory[navigationHistory.length - 1];
+      if (!lastEntry || lastEntry.pageUuid !== pageUuid || lastEntry.blockUuid !== blockUuid) {
+        navigationHistory = [
+          ...navigationHistory,
+          { pageUuid, blockUuid, timestamp: Date.now(), trigger, ...(rule && { rule }) },
+        ].slice(-MAX_HISTORY_ENTRIES);
+      }
+    }
+
+    this.setState({ currentPage: pageIndex, currentBlockIndex: blockIndex, navigationHistory });
+    this.emit('navigate', { pageIndex, blockIndex, trigger, ...(rule && { rule }) });
+  }
+
+  /**
+   * Resolves the page after the current one from branching logic and page-level
+   * navigation rules. Returns null when the survey should be submitted.
+   */
+  getNextPageIndex(values: Record<string, any> = this.state.values): number | null {
+    const { currentPage } = this.state;
+    const currentPageBlocks = this.pages[currentPage] || [];
+    const contextValues = { ...values, ...this.state.computedValues };
+    const totalPages = this.getTotalPages();
+
+    const branchingLogic = currentPageBlocks[0]?.branchingLogic;
+    if (branchingLogic) {
+      const nextIndex = calculateNextPageIndex(currentPage, branchingLogic, contextValues, totalPages);
+      return nextIndex === -1 ? null : nextIndex;
+    }
+
+    const navIndex = getNextPageFromNavigationRules(currentPageBlocks, this.pages, this.pageIds, contextValues);
+    if (navIndex !== null) {
+      return navIndex === -1 ? null : navIndex;
+    }
+
+    return currentPage + 1 < totalPages ? currentPage + 1 : null;
+  }
+
+  /**
+   * Jumps to the first block of a page
+   */
+  goToPage(pageIndex: number): void {
+    if (pageIndex >= 0 && pageIndex < this.getTotalPages()) {
+      this.moveTo(pageIndex, 0, 'jump');
+    }
+  }
+
+  /**
+   * Validates the current block and moves on: block navigation rules and
+   * `nextBlockId`, then the next block, then the next page. Submits at the end,
+   * and ends the survey on reaching an ending block.
+   *
+   * @param overrideValues - Answers to merge first, for layouts that set and advance in one step
+   */
+  async next(overrideValues?: Record<string, any>): Promise<void> {
+    const { currentPage, currentBlockIndex } = this.state;
+    const pageBlocks = this.pages[currentPage] || [];
+    const currentBlock = pageBlocks[currentBlockIndex];
+    const values = overrideValues ? { ...this.state.values, ...overrideValues } : this.state.values;
+
+    if (currentBlock?.isEndBlock) {
+      return this.submit(values);
+    }
+    if (isEndingBlock(currentBlock)) {
+      return this.reachEnding(currentBlock, values);
+    }
+    if (overrideValues) {
+      this.setValues(overrideValues);
+    }
+
+    if (currentBlock?.fieldName) {
+      const fieldName = currentBlock.fieldName;
+      const validationError = this.validateField(fieldName, values[fieldName], values);
+      this.setState({ conditionalErrors: this.withConditionalError(fieldName, validationError) });
+      if (validationError) return;
+    }
+
+    if (currentBlock?.quotaCheckpoint) {
+      const fullQuota = await this.findFullQuota(values);
+      if (fullQuota) {
+        return this.finish(fullQuota.outcome || 'overQuota', values, { fullQuota });
+      }
+    }
+
+    const contextValues = { ...values, ...this.state.computedValues };
+    const target = getNextStepFromNavigationRules(currentBlock, this.pages, this.pageIds, contextValues);
+
+    if (target === 'submit') {
+      return this.submit(values);
+    }
+
+    if (target) {
+      if ('outcome' in target) {
+        return this.end(target.outcome, values);
+      }
+      return this.advance(target.pageIndex, target.blockIndex, values, getMatchedNavigationRule([currentBlock], contextValues));
+    }
+
+    if (currentBlockIndex < pageBlocks.length - 1) {
+      return this.advance(currentPage, currentBlockIndex + 1, values);
+    }
+
+    const nextIndex = this.getNextPageIndex(values);
+    if (nextIndex === null) {
+      const outcome = pageBlocks[0]?.branchingLogic
+        ? null
+        : getEndingFromNavigationRules(pageBlocks, contextValues);
+      // A rule to 'submit' completes, which checks quotas first
+      return outcome && outcome !== 'complete' ? this.end(outcome, values) : this.submit(values);
+    }
+    const pageRule = pageBlocks[0]?.branchingLogic ? null : getMatchedNavigationRule(pageBlocks, contextValues);
+    return this.advance(nextIndex, 0, values, pageRule);
+  }
+
+  // Moves forward, or ends the survey when the position holds an ending block
+  private async advance(
+    pageIndex: number,
+    blockIndex: number,
+    values: Record<string, any>,
+    rule?: NavigationRuleRef | null
+  ): Promise<void> {
+    const block = this.pages[pageIndex]?.[blockIndex];
+    if (isEndingBlock(block)) {
+      return this.reachEnding(block, values);
+    }
+    this.moveTo(pageIndex, blockIndex, 'forward', rule);
+  }
+
+  private async reachEnding(block: BlockData, values: Record<string, any>): Promise<void> {
+    const ending = getEndingInfo(block);
+    return block.outcome && block.outcome !== 'complete'
+      ? this.finish(block.outcome, values, { ending })
+      : this.complete(values, ending);
+  }
+
+  /**
+   * Returns to the previous entry in the navigation history.
+   * Returns false when there is nowhere to go back to.
+   */
+  back(): boolean {
+    const { navigationHistory } = this.state;
+    if (navigationHistory.length <= 1) return false;
+
+    const previous = navigationHistory[navigationHistory.length - 2];
+    const pageIndex = Math.max(0, this.pageIds.indexOf(previous.pageUuid));
+    const blockIndex = previous.blockUuid
+      ? Math.max(0, (this.pages[pageIndex] || []).findIndex((block) => block.uuid === previous.blockUuid))
+      : 0;
+
+    this.setState({
+      navigationHistory: navigationHistory.slice(0, -1),
+      currentPage: pageIndex,
+      currentBlockIndex: blockIndex,
+    });
+    this.emit('navigate', { pageIndex, blockIndex, trigger: 'back' });
+    return true;
+  }
+
+  /**
+   * Completes the survey: checks quotas, then submits the answers merged with
+   * computed values, unless errors were set with `setError`
+   */
+  async submit(overrideValues?: Record<string, any>): Promise<void> {
+    return this.complete(overrideValues);
+  }
+
+  private async complete(overrideValues?: Record<string, any>, ending?: SurveyEndingInfo): Promise<void> {
+    this.setState({ isSubmitting: true });
+    // Completing is always a quota checkpoint
+    const fullQuota = await this.findFullQuota(overrideValues || this.state.values);
+    return fullQuota
+      ? this.finish(fullQuota.outcome || 'overQuota', overrideValues, { fullQuota })
+      : this.finish('complete', overrideValues, { ending });
+  }
+
+  /**
+   * Ends the survey with an outcome, e.g. `end('screenedOut')`, and submits the answers given so far.
+   * `end('complete')` is the same as `submit()`.
+   */
+  async end(outcome: SurveyOutcome, overrideValues?: Record<string, any>): Promise<void> {
+    return outcome === 'complete' ? this.complete(overrideValues) : this.finish(outcome, overrideValues);
+  }
+
+  private async finish(
+    outcome: SurveyOutcome,
+    overrideValues?: Record<string, any>,
+    { fullQuota, ending }: { fullQuota?: QuotaDefinition; ending?: SurveyEndingInfo } = {}
+  ): Promise<void> {
+    this.setState({ isSubmitting: true });
+    this.updateComputedValues();
+
+    const finalValues = overrideValues || this.state.values;
+
+    if (Object.keys(this.state.errors).length > 0) {
+      this.setState({ isSubmitting: false });
+      return;
+    }
+
+    const submissionData = { ...finalValues, ...this.state.computedValues };
+    const quotas = getMatchedQuotas(this.getQuotas(), submissionData);
+    this.emit('submit', submissionData);
+
+    let delivered = true;
+    if (this.options.onSubmit) {
+      const randomized = Object.keys(this.randomizationOrder).length > 0;
+      try {
+        await this.options.onSubmit(submissionData, {
+          outcome,
+          quotas: quotas.map((quota) => quota.id),
+          fullQuota: fullQuota?.id,
+          randomization: randomized ? this.getRandomization() : undefined,
+          ending,
+        });
+      } catch (error) {
+        delivered = false;
+        console.error('Error during form submission:', error);
+      }
+    }
+
+    // Only completes count toward quotas
+    if (delivered && outcome === 'complete' && quotas.length > 0 && this.options.quotaProvider) {
+      try {
+        await this.options.quotaProvider.increment(quotas);
+      } catch (error) {
+        console.error('Error counting quotas:', error);
+      }
+    }
+
+    if (!delivered) {
+      this.setState({ isSubmitting: false });
+      return;
+    }
+    this.setState({ isSubmitting: false, outcome, ending: ending || null });
+    this.emit('end', outcome, ending);
+  }
+
+  /**
+   * The ending block the survey ended on, if any
+   */
+  getEndingBlock(): BlockData | undefined {
+    const id = this.state.ending?.id;
+    return id ? this.pages.flat().find((block) => block.uuid === id) : undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Quotas
+  // ---------------------------------------------------------------------------
+
+  getQuotas(): QuotaDefinition[] {
+    return this.rootNode.quotas || [];
+  }
+
+  // The first full quota the answers fall into; quotas aren't enforced without a provider
+  private async findFullQuota(values: Record<string, any>): Promise<QuotaDefinition | null> {
+    const { quotaProvider } = this.options;
+    const quotas = this.getQuotas();
+    if (!quotaProvider || quotas.length === 0) return null;
+    return findFullQuota(quotas, quotaProvider, { ...values, ...this.state.computedValues });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Progress
+  // ---------------------------------------------------------------------------
+
+  // Longest path from the first block to submit/end, memoized per block (O(n))
+  private getLongestPathLength(): number {
+    if (this.longestPathLength !== null) return this.longestPathLength;
+
+    const allBlocks = this.pages.flat();
+    if (allBlocks.length === 0) return (this.longestPathLength = 0);
+
+    const blockByUuid = new Map(allBlocks.map((block) => [block.uuid, block]));
+    const memo = new Map<string, number>();
+    const inStack = new Set<string>(); // cycle detection
+
+    const dfs = (block: BlockData): number => {
+      if (!block.uuid) return 1;
+      if (memo.has(block.uuid)) return memo.get(block.uuid)!;
+      if (inStack.has(block.uuid)) return 0;
+
+      if (block.isEndBlock || block.nextBlockId === 'submit' || isEndingBlock(block)) {
+        memo.set(block.uuid, 1);
+        return 1;
+      }
+
+      inStack.add(block.uuid);
+      const index = allBlocks.findIndex((candidate) => candidate.uuid === block.uuid);
+      const nextUuids = new Set<string>();
+
+      if (block.nextBlockId) {
+        nextUuids.add(block.nextBlockId);
+      }
+      for (const rule of block.navigationRules || []) {
+        if (rule.target && rule.target !== 'submit') {
+          nextUuids.add(rule.target);
+        }
+      }
+      if (!block.nextBlockId && index >= 0 && index < allBlocks.length - 1) {
+        const sequentialNext = allBlocks[index + 1];
+        if (sequentialNext.uuid) nextUuids.add(sequentialNext.uuid);
+      }
+
+      let maxChild = 0;
+      for (const uuid of nextUuids) {
+        const nextBlock = blockByUuid.get(uuid);
+        if (nextBlock) {
+          maxChild = Math.max(maxChild, dfs(nextBlock));
+        }
+      }
+
+      inStack.delete(block.uuid);
+      memo.set(block.uuid, 1 + maxChild);
+      return 1 + maxChild;
+    };
+
+    return (this.longestPathLength = dfs(allBlocks[0]));
+  }
+
+  /**
+   * Total steps - the longest possible path through the survey
+   */
+  getTotalSteps(): number {
+    return this.getLongestPathLength();
+  }
+
+  /**
+   * Number of blocks visited before the current one
+   */
+  getCurrentStepPosition(): number {
+    return Math.max(0, this.state.navigationHistory.length - 1);
+  }
+
+  /**
+   * Progress in percent, based on the longest path
+   */
+  getProgress(): number {
+    const totalSteps = this.getTotalSteps();
+    if (totalSteps === 0) return 0;
+    return Math.min(100, ((this.getCurrentStepPosition() + 1) / totalSteps) * 100);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Persistence
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Captures the respondent's progress as plain JSON
+   */
+  serialize(): SurveyEngineSnapshot {
+    const { values, currentPage, currentBlockIndex, navigationHistory, language } = this.state;
+    return { values, currentPage, currentBlockIndex, navigationHistory, language, randomization: this.randomization };
+  }
+
+  /**
+   * Restores progress captured with `serialize()`
+   */
+  hydrate(snapshot: SurveyEngineSnapshot): void {
+    const { randomization } = snapshot;
+    if (
+      randomization?.seed &&
+      (randomization.seed !== this.randomization.seed ||
+        randomization.respondentIndex !== this.randomization.respondentIndex)
+    ) {
+      this.randomization = resolveRandomizationSettings(randomization);
+      this.layoutPages();
+    }
+
+    const values = snapshot.values || {};
+    const currentPage = Math.min(Math.max(0, snapshot.currentPage || 0), this.getTotalPages() - 1);
+
+    this.setState({
+      values,
+      errors: {},
+      conditionalErrors: {},
+      computedValues: this.calculateComputedValues(values, {}),
+      currentPage,
+      currentBlockIndex: snapshot.currentBlockIndex || 0,
+      navigationHistory: this.buildInitialHistory(currentPage, snapshot.navigationHistory),
+      language: snapshot.language || this.state.language,
+    });
+  }
+}
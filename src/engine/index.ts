@@ -0,0 +1,18 @@
+export { SurveyEngine } from './SurveyEngine';
+export * from './types';
+export type { OptionsLoadState } from './OptionsLoader';
+export {
+  analyzePathCoverage,
+  getCoverageScenarios,
+  runTestScenario,
+  runTestScenarios,
+} from './scenarios';
+export type {
+  NavigationRuleCoverage,
+  PathCoverageDeadEnd,
+  PathCoverageOptions,
+  PathCoverageReport,
+  ScenarioRoute,
+  ScenarioRunOptions,
+  TestScenarioResult,
+} from './scenarios';
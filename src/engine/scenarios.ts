@@ -0,0 +1,419 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  BlockData,
+  NavigationRuleRef,
+  SurveyDocument,
+  SurveyEndingInfo,
+  SurveyOutcome,
+  TestScenario,
+} from '../types';
+import { collectReferences, compileExpression, tokenize } from '../expressions';
+import { getMatchedNavigationRule } from '../utils/conditionalUtils';
+import { getStaticOptions } from '../utils/optionSources';
+import { isEndingBlock, parseEndingTarget } from '../utils/outcomes';
+import { migrateSurvey } from '../utils/surveyMigrations';
+import { SurveyEngine } from './SurveyEngine';
+import type { SurveyEngineOptions } from './types';
+
+/**
+ * Test scenarios and path coverage: runs answer sets through the headless
+ * engine and checks the route they take, and explores answer combinations to
+ * find navigation rules that never fire, blocks that are never shown and loops.
+ */
+
+export interface ScenarioRunOptions
+  extends Pick<SurveyEngineOptions, 'blockDefinitions' | 'computedFields' | 'customValidators' | 'randomization'> {}
+
+export interface ScenarioRoute {
+  /** UUIDs (or field names) of the blocks shown, in order */
+  path: string[];
+  /** The navigation rules that fired on the way */
+  rules: NavigationRuleRef[];
+  outcome: SurveyOutcome | null;
+  ending: SurveyEndingInfo | null;
+  /** Where the run got stuck, when the survey didn't end */
+  stopped?: { blockUuid: string; reason: 'loop' | 'invalid'; message?: string };
+  /** Answers and computed values at the end of the run */
+  values: Record<string, any>;
+}
+
+export interface TestScenarioResult {
+  scenario: TestScenario;
+  passed: boolean;
+  route: ScenarioRoute;
+  failures: string[];
+}
+
+export interface NavigationRuleCoverage extends NavigationRuleRef {
+  condition: string;
+  target: string;
+  covered: boolean;
+  /** Answers that make the rule fire */
+  values?: Record<string, any>;
+  /** The target is neither a block, a page, `submit` nor an ending */
+  missingTarget?: boolean;
+}
+
+export interface PathCoverageDeadEnd {
+  blockUuid: string;
+  reason: 'loop' | 'missingTarget';
+  message: string;
+  values?: Record<string, any>;
+}
+
+export interface PathCoverageReport {
+  /** Each distinct route found, with answers that take it */
+  paths: Array<{ values: Record<string, any>; route: ScenarioRoute }>;
+  rules: NavigationRuleCoverage[];
+  /** Blocks not shown on any route */
+  unreachableBlocks: string[];
+  deadEnds: PathCoverageDeadEnd[];
+  /** False when exploration stopped at `maxRuns`; uncovered rules and blocks may still be reachable */
+  complete: boolean;
+}
+
+export interface PathCoverageOptions extends ScenarioRunOptions {
+  /** Most routes run while exploring @default 500 */
+  maxRuns?: number;
+}
+
+type ScenarioSurvey = Pick<SurveyDocument, 'rootNode' | 'mode' | 'localizations' | 'schemaVersion'>;
+
+const MAX_STEPS = 1000;
+// Fixed so that randomized surveys take the same route on every run
+const DEFAULT_SEED = 'test-scenarios';
+
+const blockId = (block: BlockData) => block.uuid || block.fieldName || '';
+
+const createEngine = (survey: ScenarioSurvey, initialValues: Record<string, any>, options: ScenarioRunOptions) =>
+  new SurveyEngine({
+    survey,
+    initialValues,
+    blockDefinitions: options.blockDefinitions,
+    computedFields: options.computedFields,
+    customValidators: options.customValidators,
+    randomization: options.randomization ?? { seed: DEFAULT_SEED },
+  });
+
+/**
+ * Answers one run: each block's answer is given when the block is shown, and
+ * the engine moves on until the survey ends or gets stuck
+ */
+async function runRoute(
+  survey: ScenarioSurvey,
+  values: Record<string, any>,
+  options: ScenarioRunOptions,
+  blocks: BlockData[]
+): Promise<ScenarioRoute> {
+  // Values that no block asks for (hidden fields, URL parameters) are there from the start
+  const fieldNames = new Set(blocks.map((block) => block.fieldName).filter(Boolean));
+  const initialValues = Object.fromEntries(Object.entries(values).filter(([key]) => !fieldNames.has(key)));
+
+  const engine = createEngine(survey, initialValues, options);
+  const pages = engine.getPages();
+  const rules: NavigationRuleRef[] = [];
+  engine.on('navigate', (event) => {
+    if (event.rule) rules.push(event.rule);
+  });
+
+  const path: string[] = [];
+  const visited = new Set<string>();
+  let stopped: ScenarioRoute['stopped'];
+
+  for (let step = 0; step < MAX_STEPS; step++) {
+    const { currentPage, currentBlockIndex } = engine.getState();
+    const block = engine.getCurrentBlock();
+    if (!block) break;
+
+    // Answers don't change during a run, so coming back to a block repeats forever
+    const position = `${currentPage}:${currentBlockIndex}`;
+    if (visited.has(position)) {
+      stopped = { blockUuid: blockId(block), reason: 'loop', message: 'The route returns to this block' };
+      break;
+    }
+    visited.add(position);
+
+    const shown = !isEndingBlock(block) && engine.getVisibleBlocks([block]).length > 0;
+    if (shown) {
+      path.push(blockId(block));
+      if (block.fieldName && values[block.fieldName] !== undefined) {
+        engine.setValue(block.fieldName, values[block.fieldName]);
+      }
+    }
+
+    await engine.next();
+    const state = engine.getState();
+
+    if (state.outcome) {
+      // Rules that end the survey don't navigate, so find the one that fired
+      const pageBlocks = pages[currentPage] || [];
+      const context = engine.getContextValues();
+      const rule = block.isEndBlock || isEndingBlock(block)
+        ? null
+        : getMatchedNavigationRule([block], context) ??
+          (currentBlockIndex === pageBlocks.length - 1 && !pageBlocks[0]?.branchingLogic
+            ? getMatchedNavigationRule(pageBlocks, context)
+            : null);
+      if (rule) rules.push(rule);
+      break;
+    }
+
+    if (state.currentPage === currentPage && state.currentBlockIndex === currentBlockIndex) {
+      const message = (block.fieldName && (state.conditionalErrors[block.fieldName] || state.errors[block.fieldName])) ||
+        "Couldn't move on from this block";
+      stopped = { blockUuid: blockId(block), reason: 'invalid', message };
+      break;
+    }
+  }
+
+  const state = engine.getState();
+  return {
+    path,
+    rules,
+    outcome: state.outcome,
+    ending: state.ending,
+    stopped,
+    values: engine.getContextValues(),
+  };
+}
+
+/**
+ * Runs one scenario and compares the route it takes with the expected path,
+ * outcome and ending
+ */
+export async function runTestScenario(
+  survey: ScenarioSurvey,
+  scenario: TestScenario,
+  options: ScenarioRunOptions = {}
+): Promise<TestScenarioResult> {
+  const migrated = migrateSurvey(survey);
+  const blocks = createEngine(migrated, {}, options).getPages().flat();
+  const route = await runRoute(migrated, scenario.values || {}, options, blocks);
+  const name = (id: string) => {
+    const block = blocks.find((item) => item.uuid === id || item.fieldName === id);
+    return block?.fieldName || id;
+  };
+  const failures: string[] = [];
+
+  if (route.stopped) {
+    failures.push(`Stopped at ${name(route.stopped.blockUuid)}: ${route.stopped.message}`);
+  }
+
+  if (scenario.expectedPath) {
+    const matches =
+      scenario.expectedPath.length === route.path.length &&
+      scenario.expectedPath.every((expected, index) => {
+        const block = blocks.find((item) => item.uuid === route.path[index]);
+        return expected === route.path[index] || (!!block?.fieldName && expected === block.fieldName);
+      });
+    if (!matches) {
+      failures.push(
+        `Expected path ${scenario.expectedPath.map(name).join(' → ') || '(none)'}, got ${route.path.map(name).join(' → ') || '(none)'}`
+      );
+    }
+  }
+
+  if (scenario.expectedOutcome && scenario.expectedOutcome !== route.outcome) {
+    failures.push(`Expected to end as ${scenario.expectedOutcome}, ${route.outcome ? `ended as ${route.outcome}` : "didn't end"}`);
+  }
+
+  if (scenario.expectedEnding && scenario.expectedEnding !== route.ending?.id) {
+    const reached = route.ending ? route.ending.name || route.ending.id : 'no ending';
+    failures.push(`Expected to reach ending ${name(scenario.expectedEnding)}, reached ${reached}`);
+  }
+
+  return { scenario, passed: failures.length === 0, route, failures };
+}
+
+/**
+ * Runs scenarios one after another, by default those saved in `rootNode.testScenarios`
+ *
+ * @example
+ * const results = await runTestScenarios(survey, undefined, { blockDefinitions: StandardBlocks });
+ * expect(results.filter((result) => !result.passed)).toEqual([]);
+ */
+export async function runTestScenarios(
+  survey: ScenarioSurvey,
+  scenarios: TestScenario[] = survey.rootNode.testScenarios || [],
+  options: ScenarioRunOptions = {}
+): Promise<TestScenarioResult[]> {
+  const results: TestScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    results.push(await runTestScenario(survey, scenario, options));
+  }
+  return results;
+}
+
+// Every condition in the survey that decides the route or what is shown
+function getRouteConditions(blocks: BlockData[]): string[] {
+  const conditions: string[] = [];
+  for (const block of blocks) {
+    block.navigationRules?.forEach((rule) => {
+      if (typeof rule.condition === 'string') conditions.push(rule.condition);
+    });
+    if (typeof block.visibleIf === 'string') conditions.push(block.visibleIf);
+    if (typeof block.branchingLogic?.condition === 'string') conditions.push(block.branchingLogic.condition);
+  }
+  return conditions;
+}
+
+/**
+ * Values worth trying for each field the route depends on: the literals its
+ * conditions compare it with, and numbers either side of them
+ */
+function getConditionLiterals(conditions: string[]): Map<string, any[]> {
+  const literals = new Map<string, any[]>();
+  for (const condition of conditions) {
+    let names: string[];
+    const values: any[] = [];
+    try {
+      names = collectReferences(compileExpression(condition)).map((reference) => reference.name);
+      for (const token of tokenize(condition)) {
+        if (token.type === 'string') values.push(token.value);
+        if (token.type === 'number' && token.numberValue !== undefined) {
+          values.push(token.numberValue - 1, token.numberValue, token.numberValue + 1);
+        }
+        if (token.type === 'identifier' && (token.value === 'true' || token.value === 'false')) {
+          values.push(token.value === 'true');
+        }
+      }
+    } catch {
+      // Conditions the expression engine can't parse are left to their fields' options
+      continue;
+    }
+    for (const name of names) {
+      literals.set(name, [...(literals.get(name) || []), ...values]);
+    }
+  }
+  return literals;
+}
+
+function getCandidateValues(block: BlockData, literals: any[]): any[] {
+  const options = getStaticOptions(block).map((option) => option.value);
+  const candidates =
+    block.type === 'checkbox' ? options.map((value) => [value]) : options.length > 0 ? options : literals;
+  const unique = new Map(candidates.map((value) => [JSON.stringify(value), value]));
+  // Leaving a question unanswered is a route of its own unless it's required
+  return block.required ? [...unique.values()] : [...unique.values(), undefined];
+}
+
+function hasTarget(target: string, isPage: boolean | undefined, blocks: BlockData[], pageIds: string[]): boolean {
+  if (target === 'submit' || parseEndingTarget(target)) return true;
+  return isPage ? pageIds.includes(target) : blocks.some((block) => block.uuid === target);
+}
+
+/**
+ * Explores answer combinations for the fields the route depends on, running
+ * each through the engine, and reports which navigation rules fired, blocks
+ * that were never shown and routes that loop
+ */
+export async function analyzePathCoverage(
+  survey: ScenarioSurvey,
+  options: PathCoverageOptions = {}
+): Promise<PathCoverageReport> {
+  const migrated = migrateSurvey(survey);
+  const maxRuns = options.maxRuns ?? 500;
+  const probe = createEngine(migrated, {}, options);
+  const blocks = probe.getPages().flat();
+  const pageIds = probe.getPageIds();
+
+  const literals = getConditionLiterals(getRouteConditions(blocks));
+  // Scores used in conditions depend on the questions they add up
+  for (const score of migrated.rootNode.scores || []) {
+    if (literals.has(score.name)) {
+      score.fields.forEach((field) => literals.set(field, literals.get(field) || []));
+    }
+  }
+  const branchingBlocks = new Map(
+    blocks.filter((block) => block.fieldName && literals.has(block.fieldName)).map((block) => [block.fieldName!, block])
+  );
+
+  const paths = new Map<string, { values: Record<string, any>; route: ScenarioRoute }>();
+  let runs = 0;
+  let complete = true;
+
+  // Depth-first: answer the first undecided branching question each way, then carry on
+  const explore = async (assigned: Record<string, any>): Promise<void> => {
+    if (runs >= maxRuns) {
+      complete = false;
+      return;
+    }
+    runs++;
+    const route = await runRoute(migrated, assigned, options, blocks);
+    const next = route.path
+      .map((id) => blocks.find((block) => blockId(block) === id)?.fieldName)
+      .find((fieldName) => fieldName && branchingBlocks.has(fieldName) && !(fieldName in assigned));
+
+    if (!next) {
+      const key = JSON.stringify([route.path, route.outcome, route.ending?.id, route.stopped]);
+      if (!paths.has(key)) {
+        const values = Object.fromEntries(Object.entries(assigned).filter(([, value]) => value !== undefined));
+        paths.set(key, { values, route });
+      }
+      return;
+    }
+
+    for (const candidate of getCandidateValues(branchingBlocks.get(next)!, literals.get(next) || [])) {
+      await explore({ ...assigned, [next]: candidate });
+    }
+  };
+  await explore({});
+
+  const found = [...paths.values()];
+  const fired = (ref: NavigationRuleRef) =>
+    found.find(({ route }) => route.rules.some((rule) => rule.blockUuid === ref.blockUuid && rule.ruleIndex === ref.ruleIndex));
+
+  const rules: NavigationRuleCoverage[] = blocks.flatMap((block) =>
+    (block.navigationRules || []).map((rule, ruleIndex) => {
+      const ref = { blockUuid: blockId(block), ruleIndex };
+      const example = fired(ref);
+      const target = String(rule.target ?? '');
+      return {
+        ...ref,
+        condition: rule.condition,
+        target,
+        covered: !!example,
+        values: example?.values,
+        ...(!hasTarget(target, rule.isPage, blocks, pageIds) && { missingTarget: true }),
+      };
+    })
+  );
+
+  const shown = new Set(found.flatMap(({ route }) => [...route.path, ...(route.ending ? [route.ending.id] : [])]));
+  const unreachableBlocks = blocks.map(blockId).filter((id) => id && !shown.has(id));
+
+  const deadEnds: PathCoverageDeadEnd[] = [];
+  for (const { values, route } of found) {
+    if (route.stopped?.reason === 'loop' && !deadEnds.some((deadEnd) => deadEnd.blockUuid === route.stopped!.blockUuid)) {
+      deadEnds.push({ blockUuid: route.stopped.blockUuid, reason: 'loop', message: route.stopped.message!, values });
+    }
+  }
+  for (const block of blocks) {
+    if (block.nextBlockId && !hasTarget(block.nextBlockId, false, blocks, pageIds)) {
+      deadEnds.push({
+        blockUuid: blockId(block),
+        reason: 'missingTarget',
+        message: `Next block "${block.nextBlockId}" doesn't exist`,
+      });
+    }
+  }
+
+  return { paths: found, rules, unreachableBlocks, deadEnds, complete };
+}
+
+/**
+ * Turns the routes found by `analyzePathCoverage` into scenarios that pin down
+ * the current behaviour, one per route that ends
+ */
+export function getCoverageScenarios(report: PathCoverageReport): TestScenario[] {
+  return report.paths
+    .filter(({ route }) => route.outcome)
+    .map(({ values, route }, index) => ({
+      id: uuidv4(),
+      name: `Route ${index + 1}${route.ending ? `: ${route.ending.name || route.ending.id}` : `: ${route.outcome}`}`,
+      values,
+      expectedPath: route.path,
+      expectedOutcome: route.outcome!,
+      ...(route.ending && { expectedEnding: route.ending.id }),
+    }));
+}
@@ -0,0 +1,131 @@
+// Headless survey engine types - options, state snapshot, persistence and events
+
+import type {
+  BlockDefinition,
+  ComputedFieldsConfig,
+  CustomValidator,
+  LocalizationMap,
+  NavigationHistoryEntry,
+  NavigationRuleRef,
+  NodeData,
+  OptionsProvider,
+  QuotaProvider,
+  SurveyEndingInfo,
+  SurveyMode,
+  SurveyOutcome,
+  SurveyRandomization,
+} from '../types';
+import type { RandomizationSettings } from '../utils/randomization';
+
+export interface SurveyEngineSurvey {
+  rootNode: NodeData;
+  mode?: SurveyMode;
+  localizations?: LocalizationMap;
+}
+
+export interface SurveyEngineOptions {
+  survey: SurveyEngineSurvey;
+  /** Overrides `survey.mode`; auto-detected from the structure when neither is set */
+  mode?: SurveyMode;
+  defaultValues?: Record<string, any>;
+  /** Saved answers, merged over `defaultValues` */
+  initialValues?: Record<string, any>;
+  /** Page to resume from */
+  startPage?: number;
+  /** Block to start from, with a fresh history; overrides `startPage` */
+  startBlockId?: string;
+  initialNavigationHistory?: NavigationHistoryEntry[];
+  language?: string;
+  computedFields?: ComputedFieldsConfig;
+  customValidators?: Record<string, CustomValidator>;
+  /**
+   * Where to find `validateValue` for each block type. The engine has no
+   * built-in registry so that it can run without React.
+   */
+  blockDefinitions?:
+    | BlockDefinition[]
+    | Record<string, BlockDefinition>
+    | ((type: string) => BlockDefinition | undefined);
+  /** Named option loaders for blocks with `optionsSource: { type: 'provider' }` */
+  optionsProviders?: Record<string, OptionsProvider>;
+  /** How long loaded options are reused, in milliseconds (default 5 minutes) */
+  optionsCacheTtlMs?: number;
+  /** Seed and respondent number for `itemOrder`, `optionOrder` and `randomizeRows` */
+  randomization?: RandomizationSettings;
+  /** Quota counts for `rootNode.quotas`; quotas aren't enforced without one */
+  quotaProvider?: QuotaProvider;
+  onSubmit?: (data: Record<string, any>, info?: SurveyEngineSubmitInfo) => void | Promise<void>;
+}
+
+export interface SurveyEngineSubmitInfo {
+  outcome: SurveyOutcome;
+  /** Ids of the quotas the answers match */
+  quotas: string[];
+  /** The full quota that ended the survey */
+  fullQuota?: string;
+  /** The order the respondent was shown, when anything in the survey is randomized */
+  randomization?: SurveyRandomization;
+  /** The ending block reached, when the survey ended on one */
+  ending?: SurveyEndingInfo;
+}
+
+/**
+ * Immutable snapshot of the engine state. A new object is created on every
+ * change, so it can be compared by reference (e.g. by useSyncExternalStore).
+ */
+export interface SurveyEngineState {
+  values: Record<string, any>;
+  /** Errors set with `setError` (exit logic, host code) */
+  errors: Record<string, string>;
+  /** Errors from block validation, validation rules and custom validators */
+  conditionalErrors: Record<string, string>;
+  computedValues: Record<string, any>;
+  currentPage: number;
+  currentBlockIndex: number;
+  isSubmitting: boolean;
+  language: string;
+  navigationHistory: NavigationHistoryEntry[];
+  /** How the survey ended, once it has */
+  outcome: SurveyOutcome | null;
+  /** The ending block the survey ended on, if any */
+  ending: SurveyEndingInfo | null;
+}
+
+/**
+ * JSON-safe progress of a respondent, produced by `serialize()` and restored
+ * with `hydrate()`
+ */
+export interface SurveyEngineSnapshot {
+  values: Record<string, any>;
+  currentPage: number;
+  currentBlockIndex: number;
+  navigationHistory: NavigationHistoryEntry[];
+  language?: string;
+  /** Restored so a resumed respondent sees the same order */
+  randomization?: Omit<SurveyRandomization, 'order'>;
+}
+
+export interface SurveyEngineNavigateEvent {
+  pageIndex: number;
+  blockIndex: number;
+  trigger: NavigationHistoryEntry['trigger'];
+  /** The navigation rule that decided a forward move */
+  rule?: NavigationRuleRef;
+}
+
+export interface SurveyEngineEvents {
+  /** Any state change */
+  change: (state: SurveyEngineState) => void;
+  /** Answers changed */
+  values: (values: Record<string, any>) => void;
+  /** Moved to another position; 'back' when `back()` removed a history entry */
+  navigate: (event: SurveyEngineNavigateEvent) => void;
+  pageChange: (pageIndex: number, totalPages: number) => void;
+  history: (history: NavigationHistoryEntry[]) => void;
+  /** Submission payload, emitted before `onSubmit` is called */
+  submit: (data: Record<string, any>) => void;
+  /** The survey ended and `onSubmit` returned */
+  end: (outcome: SurveyOutcome, ending?: SurveyEndingInfo) => void;
+}
+
+export type SurveyEngineEventName = keyof SurveyEngineEvents;
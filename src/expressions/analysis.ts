@@ -0,0 +1,204 @@
+import type {
+  ExpressionNode,
+  IdentifierNode,
+  MemberExpressionNode,
+  ProgramNode,
+  StatementNode,
+} from './types';
+
+/**
+ * A free identifier in an expression - a name that is not declared inside the
+ * expression itself, so it must come from the evaluation scope (a field) or
+ * from the helper functions.
+ */
+export interface IdentifierReference {
+  /** Root identifier, e.g. "address" for `address.city` */
+  name: string;
+  /** Static dotted path, e.g. "address.city". Stops at the first computed access or method call. */
+  path: string;
+  /** Span of the root identifier */
+  start: number;
+  end: number;
+  /** End offset of the static dotted path */
+  pathEnd: number;
+  /** Whether the identifier is called directly, e.g. `sum(a, b)` */
+  isCall: boolean;
+}
+
+class Scope {
+  private names = new Set<string>();
+
+  constructor(private parent?: Scope) {}
+
+  declare(name: string): void {
+    this.names.add(name);
+  }
+
+  has(name: string): boolean {
+    return this.names.has(name) || !!this.parent?.has(name);
+  }
+
+  child(): Scope {
+    return new Scope(this);
+  }
+}
+
+/**
+ * Collects every free identifier reference in a program, in source order
+ */
+export function collectReferences(program: ProgramNode): IdentifierReference[] {
+  const references: IdentifierReference[] = [];
+
+  const addReference = (root: IdentifierNode, segments: string[], pathEnd: number, isCall: boolean, scope: Scope) => {
+    if (scope.has(root.name)) return;
+    references.push({
+      name: root.name,
+      path: segments.join('.'),
+      start: root.start,
+      end: root.end,
+      pathEnd,
+      isCall,
+    });
+  };
+
+  const visitMember = (node: MemberExpressionNode, scope: Scope, excludeLast: boolean) => {
+    // Unwind `a.b[c].d` into its root and member accesses
+    const members: MemberExpressionNode[] = [];
+    let current: ExpressionNode = node;
+    while (current.type === 'MemberExpression') {
+      members.unshift(current);
+      current = current.object;
+    }
+
+    if (current.type === 'Identifier') {
+      const segments = [current.name];
+      let pathEnd = current.end;
+      const staticMembers = excludeLast ? members.slice(0, -1) : members;
+      for (const member of staticMembers) {
+        if (member.computed || member.property.type !== 'Identifier') break;
+        segments.push(member.property.name);
+        pathEnd = member.property.end;
+      }
+      addReference(current, segments, pathEnd, false, scope);
+    } else {
+      visitExpression(current, scope);
+    }
+
+    for (const member of members) {
+      if (member.computed) visitExpression(member.property, scope);
+    }
+  };
+
+  const visitExpression = (node: ExpressionNode, scope: Scope): void => {
+    switch (node.type) {
+      case 'Literal':
+        return;
+      case 'Identifier':
+        addReference(node, [node.name], node.end, false, scope);
+        return;
+      case 'ArrayExpression':
+        node.elements.forEach(element => visitExpression(element, scope));
+        return;
+      case 'ObjectExpression':
+        node.properties.forEach(property => visitExpression(property.value, scope));
+        return;
+      case 'MemberExpression':
+        visitMember(node, scope, false);
+        return;
+      case 'CallExpression':
+        if (node.callee.type === 'Identifier') {
+          addReference(node.callee, [node.callee.name], node.callee.end, true, scope);
+        } else if (node.callee.type === 'MemberExpression') {
+          // The last member is the method name, not part of the field path
+          visitMember(node.callee, scope, !node.callee.computed);
+        } else {
+          visitExpression(node.callee, scope);
+        }
+        node.arguments.forEach(arg => visitExpression(arg, scope));
+        return;
+      case 'NewExpression':
+        node.arguments.forEach(arg => visitExpression(arg, scope));
+        return;
+      case 'UnaryExpression':
+        visitExpression(node.argument, scope);
+        return;
+      case 'BinaryExpression':
+      case 'LogicalExpression':
+        visitExpression(node.left, scope);
+        visitExpression(node.right, scope);
+        return;
+      case 'ConditionExpression':
+        visitExpression(node.left, scope);
+        if (node.right) visitExpression(node.right, scope);
+        return;
+      case 'ConditionalExpression':
+        visitExpression(node.test, scope);
+        visitExpression(node.consequent, scope);
+        visitExpression(node.alternate, scope);
+        return;
+      case 'ArrowFunctionExpression': {
+        const fnScope = scope.child();
+        node.params.forEach(param => fnScope.declare(param.name));
+        if (node.body.type === 'BlockStatement') {
+          visitStatements(node.body.body, fnScope);
+        } else {
+          visitExpression(node.body, fnScope);
+        }
+        return;
+      }
+      case 'AssignmentExpression':
+        visitExpression(node.target, scope);
+        visitExpression(node.value, scope);
+        return;
+    }
+  };
+
+  const visitStatements = (statements: StatementNode[], scope: Scope) => {
+    // Declarations are visible to the whole block, as with `var`
+    for (const statement of statements) {
+      if (statement.type === 'VariableDeclaration') {
+        statement.declarations.forEach(declaration => scope.declare(declaration.id.name));
+      }
+    }
+    statements.forEach(statement => visitStatement(statement, scope));
+  };
+
+  const visitStatement = (node: StatementNode, scope: Scope): void => {
+    switch (node.type) {
+      case 'VariableDeclaration':
+        node.declarations.forEach(declaration => {
+          if (declaration.init) visitExpression(declaration.init, scope);
+        });
+        return;
+      case 'IfStatement':
+        visitExpression(node.test, scope);
+        visitStatement(node.consequent, scope.child());
+        if (node.alternate) visitStatement(node.alternate, scope.child());
+        return;
+      case 'ForOfStatement': {
+        visitExpression(node.iterable, scope);
+        const loopScope = scope.child();
+        loopScope.declare(node.id.name);
+        visitStatement(node.body, loopScope);
+        return;
+      }
+      case 'ReturnStatement':
+        if (node.argument) visitExpression(node.argument, scope);
+        return;
+      case 'ThrowStatement':
+        visitExpression(node.argument, scope);
+        return;
+      case 'BlockStatement':
+        visitStatements(node.body, scope.child());
+        return;
+      case 'ExpressionStatement':
+        visitExpression(node.expression, scope);
+        return;
+      default:
+        return;
+    }
+  };
+
+  visitStatements(program.body, new Scope());
+  return references;
+}
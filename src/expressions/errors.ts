@@ -0,0 +1,26 @@
+/**
+ * Error kinds raised by the expression engine:
+ * - 'syntax': the source could not be parsed
+ * - 'reference': assignment to an unknown or constant variable
+ * - 'type': an operation on a value of the wrong type (e.g. calling a non-function)
+ * - 'forbidden': access to something outside the sandbox (unknown method, `constructor`, ...)
+ * - 'limit': the evaluation exceeded its step or call depth budget
+ */
+export type ExpressionErrorCode = 'syntax' | 'reference' | 'type' | 'forbidden' | 'limit';
+
+export class ExpressionError extends Error {
+  code: ExpressionErrorCode;
+  /** Character offset in the source where the error was detected, if known */
+  position?: number;
+
+  constructor(code: ExpressionErrorCode, message: string, position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = 'ExpressionError';
+    this.code = code;
+    this.position = position;
+  }
+}
+
+export function isExpressionError(error: unknown): error is ExpressionError {
+  return error instanceof ExpressionError;
+}
@@ -0,0 +1,456 @@
+import { ExpressionError } from './errors';
+import {
+  applyConditionOperator,
+  builtinConstructors,
+  builtinNamespaces,
+  resolveMethod,
+} from './helpers';
+import type {
+  ArrowFunctionNode,
+  AssignmentExpressionNode,
+  CallExpressionNode,
+  ExpressionFunction,
+  ExpressionNode,
+  MemberExpressionNode,
+  ProgramNode,
+  StatementNode,
+} from './types';
+
+/**
+ * Tree-walking interpreter for parsed survey expressions.
+ *
+ * Identifiers resolve to local variables first, then to the evaluation scope
+ * (field values, script context), then to helper functions and namespaces.
+ * Unknown identifiers evaluate to undefined. Property access is limited to
+ * own properties of plain data and whitelisted methods, so globals, prototypes
+ * and constructors are never reachable.
+ */
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+
+const MAX_CALL_DEPTH = 200;
+
+// Marks an optional chain (`a?.b.c`) that short-circuited on a nullish value
+const SHORT_CIRCUIT = Symbol('shortCircuit');
+
+type VariableKind = 'const' | 'let' | 'var';
+
+interface Binding {
+  value: any;
+  kind: VariableKind;
+}
+
+class Environment {
+  private bindings = new Map<string, Binding>();
+
+  constructor(readonly parent?: Environment) {}
+
+  declare(name: string, value: any, kind: VariableKind, position: number): void {
+    const existing = this.bindings.get(name);
+    if (existing && (existing.kind !== 'var' || kind !== 'var')) {
+      throw new ExpressionError('reference', `"${name}" has already been declared`, position);
+    }
+    this.bindings.set(name, { value, kind });
+  }
+
+  lookup(name: string): Binding | undefined {
+    return this.bindings.get(name) ?? this.parent?.lookup(name);
+  }
+}
+
+type Completion =
+  | { type: 'normal' }
+  | { type: 'return'; value: any }
+  | { type: 'break' }
+  | { type: 'continue' };
+
+const NORMAL: Completion = { type: 'normal' };
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+const isArrayIndex = (key: string | number) => /^\d+$/.test(String(key));
+
+const describe = (value: any) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : value instanceof Date ? 'date' : typeof value;
+
+export class Evaluator {
+  private steps = 0;
+  private depth = 0;
+
+  constructor(
+    private scope: Record<string, any>,
+    private functions: Record<string, ExpressionFunction>,
+    private maxSteps: number
+  ) {}
+
+  /**
+   * Runs a program. The result is the value of the first executed `return`,
+   * or else the value of the last top-level expression statement.
+   */
+  run(program: ProgramNode): any {
+    const env = new Environment();
+    let lastValue: any = undefined;
+
+    for (const statement of program.body) {
+      if (statement.type === 'ExpressionStatement') {
+        this.tick(statement.start);
+        lastValue = this.evaluate(statement.expression, env);
+        continue;
+      }
+      const completion = this.execute(statement, env);
+      if (completion.type === 'return') {
+        return completion.value;
+      }
+      if (completion.type !== 'normal') {
+        throw new ExpressionError('syntax', `Illegal ${completion.type} statement`, statement.start);
+      }
+    }
+    return lastValue;
+  }
+
+  private tick(position: number): void {
+    if (++this.steps > this.maxSteps) {
+      throw new ExpressionError('limit', `Expression exceeded the limit of ${this.maxSteps} steps`, position);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private execute(node: StatementNode, env: Environment): Completion {
+    this.tick(node.start);
+
+    switch (node.type) {
+      case 'EmptyStatement':
+        return NORMAL;
+
+      case 'ExpressionStatement':
+        this.evaluate(node.expression, env);
+        return NORMAL;
+
+      case 'VariableDeclaration':
+        for (const declaration of node.declarations) {
+          const value = declaration.init ? this.evaluate(declaration.init, env) : undefined;
+          env.declare(declaration.id.name, value, node.kind, declaration.id.start);
+        }
+        return NORMAL;
+
+      case 'BlockStatement':
+        return this.executeBlock(node.body, new Environment(env));
+
+      case 'IfStatement':
+        if (this.evaluate(node.test, env)) {
+          return this.execute(node.consequent, new Environment(env));
+        }
+        return node.alternate ? this.execute(node.alternate, new Environment(env)) : NORMAL;
+
+      case 'ForOfStatement': {
+        const iterable = this.evaluate(node.iterable, env);
+        if (!Array.isArray(iterable) && typeof iterable !== 'string') {
+          throw new ExpressionError('type', `Cannot iterate over ${describe(iterable)}`, node.iterable.start);
+        }
+        for (const item of Array.from(iterable)) {
+          this.tick(node.start);
+          const loopEnv = new Environment(env);
+          loopEnv.declare(node.id.name, item, node.kind, node.id.start);
+          const completion = this.execute(node.body, loopEnv);
+          if (completion.type === 'break') break;
+          if (completion.type === 'return') return completion;
+        }
+        return NORMAL;
+      }
+
+      case 'ReturnStatement':
+        return { type: 'return', value: node.argument ? this.evaluate(node.argument, env) : undefined };
+
+      case 'ThrowStatement': {
+        const value = this.evaluate(node.argument, env);
+        throw value instanceof Error ? value : new Error(String(value));
+      }
+
+      case 'BreakStatement':
+        return { type: 'break' };
+
+      case 'ContinueStatement':
+        return { type: 'continue' };
+    }
+  }
+
+  private executeBlock(body: StatementNode[], env: Environment): Completion {
+    for (const statement of body) {
+      const completion = this.execute(statement, env);
+      if (completion.type !== 'normal') return completion;
+    }
+    return NORMAL;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private evaluate(node: ExpressionNode, env: Environment): any {
+    this.tick(node.start);
+
+    switch (node.type) {
+      case 'Literal':
+        return node.value;
+
+      case 'Identifier':
+        return this.resolveIdentifier(node.name, env);
+
+      case 'ArrayExpression':
+        return node.elements.map(element => this.evaluate(element, env));
+
+      case 'ObjectExpression': {
+        const result: Record<string, any> = {};
+        for (const property of node.properties) {
+          if (FORBIDDEN_PROPERTIES.has(property.key)) {
+            throw new ExpressionError('forbidden', `Property "${property.key}" is not allowed`, property.start);
+          }
+          result[property.key] = this.evaluate(property.value, env);
+        }
+        return result;
+      }
+
+      case 'MemberExpression':
+      case 'CallExpression': {
+        const value = this.evaluateChain(node, env);
+        return value === SHORT_CIRCUIT ? undefined : value;
+      }
+
+      case 'NewExpression': {
+        const construct = hasOwn(builtinConstructors, node.callee.name) && builtinConstructors[node.callee.name];
+        if (!construct) {
+          throw new ExpressionError('forbidden', `"new ${node.callee.name}" is not allowed`, node.start);
+        }
+        return construct(...node.arguments.map(arg => this.evaluate(arg, env)));
+      }
+
+      case 'UnaryExpression': {
+        const argument = this.evaluate(node.argument, env);
+        switch (node.operator) {
+          case '!': return !argument;
+          case '-': return -argument;
+          case '+': return +argument;
+          case 'typeof': return typeof argument;
+        }
+        break;
+      }
+
+      case 'BinaryExpression': {
+        const left = this.evaluate(node.left, env);
+        const right = this.evaluate(node.right, env);
+        return this.applyBinary(node.operator, left, right);
+      }
+
+      case 'LogicalExpression': {
+        const left = this.evaluate(node.left, env);
+        if (node.operator === '&&') return left ? this.evaluate(node.right, env) : left;
+        if (node.operator === '||') return left ? left : this.evaluate(node.right, env);
+        return left ?? this.evaluate(node.right, env);
+      }
+
+      case 'ConditionExpression': {
+        const left = this.evaluate(node.left, env);
+        const right = node.right ? this.evaluate(node.right, env) : undefined;
+        return applyConditionOperator(left, node.operator, right);
+      }
+
+      case 'ConditionalExpression':
+        return this.evaluate(node.test, env)
+          ? this.evaluate(node.consequent, env)
+          : this.evaluate(node.alternate, env);
+
+      case 'ArrowFunctionExpression':
+        return this.createClosure(node, env);
+
+      case 'AssignmentExpression':
+        return this.assign(node, env);
+    }
+
+    throw new ExpressionError('syntax', `Unsupported expression`, (node as ExpressionNode).start);
+  }
+
+  private applyBinary(operator: string, left: any, right: any): any {
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/': return left / right;
+      case '%': return left % right;
+      case '**': return left ** right;
+      case '==': return left == right;
+      case '!=': return left != right;
+      case '===': return left === right;
+      case '!==': return left !== right;
+      case '<': return left < right;
+      case '>': return left > right;
+      case '<=': return left <= right;
+      case '>=': return left >= right;
+    }
+    throw new ExpressionError('syntax', `Unsupported operator "${operator}"`);
+  }
+
+  private resolveIdentifier(name: string, env: Environment): any {
+    const binding = env.lookup(name);
+    if (binding) return binding.value;
+    if (hasOwn(this.scope, name)) return this.scope[name];
+    if (hasOwn(this.functions, name)) return this.functions[name];
+    if (hasOwn(builtinNamespaces, name)) return builtinNamespaces[name];
+    return undefined;
+  }
+
+  private assign(node: AssignmentExpressionNode, env: Environment): any {
+    const binding = env.lookup(node.target.name);
+    if (!binding) {
+      throw new ExpressionError(
+        'reference',
+        `Cannot assign to "${node.target.name}" - only variables declared in the expression can be changed`,
+        node.target.start
+      );
+    }
+    if (binding.kind === 'const') {
+      throw new ExpressionError('reference', `Cannot assign to constant "${node.target.name}"`, node.target.start);
+    }
+
+    const value = this.evaluate(node.value, env);
+    binding.value = node.operator === '='
+      ? value
+      : this.applyBinary(node.operator.slice(0, -1), binding.value, value);
+    return binding.value;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Member access and calls
+  // ---------------------------------------------------------------------------
+
+  private evaluateChainPart(node: ExpressionNode, env: Environment): any {
+    // `Number.isInteger(x)` / `Date.now()` - the namespace wins over the helper of the same name
+    if (
+      node.type === 'Identifier' &&
+      hasOwn(builtinNamespaces, node.name) &&
+      !env.lookup(node.name) &&
+      !hasOwn(this.scope, node.name)
+    ) {
+      return builtinNamespaces[node.name];
+    }
+    return node.type === 'MemberExpression' || node.type === 'CallExpression'
+      ? this.evaluateChain(node, env)
+      : this.evaluate(node, env);
+  }
+
+  private evaluateChain(node: MemberExpressionNode | CallExpressionNode, env: Environment): any {
+    if (node.type === 'MemberExpression') {
+      const object = this.evaluateChainPart(node.object, env);
+      if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if (object === null || object === undefined) {
+        if (node.optional) return SHORT_CIRCUIT;
+        throw new ExpressionError('type', `Cannot read property of ${object}`, node.property.start);
+      }
+      return this.readProperty(object, this.propertyKey(node, env), node.property.start);
+    }
+
+    return this.evaluateCall(node, env);
+  }
+
+  private propertyKey(node: MemberExpressionNode, env: Environment): string {
+    if (!node.computed && node.property.type === 'Identifier') {
+      return node.property.name;
+    }
+    return String(this.evaluate(node.property, env));
+  }
+
+  private readProperty(object: any, key: string, position: number): any {
+    if (FORBIDDEN_PROPERTIES.has(key)) {
+      throw new ExpressionError('forbidden', `Property "${key}" is not allowed`, position);
+    }
+
+    if (typeof object === 'string' || Array.isArray(object)) {
+      if (key === 'length') return object.length;
+      if (isArrayIndex(key)) return object[Number(key)];
+      return resolveMethod(object, key);
+    }
+
+    if (typeof object === 'function') {
+      throw new ExpressionError('forbidden', `Properties of functions are not accessible`, position);
+    }
+
+    if (typeof object === 'object') {
+      if (hasOwn(object, key)) {
+        return object[key];
+      }
+      return resolveMethod(object, key);
+    }
+
+    return resolveMethod(object, key);
+  }
+
+  private evaluateCall(node: CallExpressionNode, env: Environment): any {
+    let fn: any;
+    let name: string;
+
+    if (node.callee.type === 'MemberExpression') {
+      const member = node.callee;
+      const object = this.evaluateChainPart(member.object, env);
+      if (object === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+      if (object === null || object === undefined) {
+        if (member.optional) return SHORT_CIRCUIT;
+        throw new ExpressionError('type', `Cannot call a method of ${object}`, member.property.start);
+      }
+      name = this.propertyKey(member, env);
+      fn = this.readProperty(object, name, member.property.start);
+      if (fn === undefined && !node.optional && !(typeof object === 'object' && hasOwn(object, name))) {
+        throw new ExpressionError('forbidden', `Method "${name}" is not available on ${describe(object)}`, member.property.start);
+      }
+    } else if (node.callee.type === 'Identifier') {
+      name = node.callee.name;
+      fn = this.resolveIdentifier(name, env);
+      // A field value can share its name with a helper (e.g. a field called "count")
+      if (typeof fn !== 'function' && hasOwn(this.functions, name)) {
+        fn = this.functions[name];
+      }
+    } else {
+      name = 'expression';
+      fn = this.evaluateChainPart(node.callee, env);
+      if (fn === SHORT_CIRCUIT) return SHORT_CIRCUIT;
+    }
+
+    if (fn === null || fn === undefined) {
+      if (node.optional) return SHORT_CIRCUIT;
+    }
+    if (typeof fn !== 'function') {
+      throw new ExpressionError('type', `"${name}" is not a function`, node.callee.start);
+    }
+
+    const args = node.arguments.map(arg => this.evaluate(arg, env));
+    return this.invoke(fn, args, node.start);
+  }
+
+  private invoke(fn: ExpressionFunction, args: any[], position: number): any {
+    this.depth++;
+    try {
+      if (this.depth > MAX_CALL_DEPTH) {
+        throw new ExpressionError('limit', `Expression exceeded the maximum call depth of ${MAX_CALL_DEPTH}`, position);
+      }
+      return fn(...args);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private createClosure(node: ArrowFunctionNode, env: Environment): ExpressionFunction {
+    return (...args: any[]) => {
+      const callEnv = new Environment(env);
+      node.params.forEach((param, index) => {
+        callEnv.declare(param.name, args[index], 'let', param.start);
+      });
+
+      if (node.body.type === 'BlockStatement') {
+        const completion = this.executeBlock(node.body.body, callEnv);
+        return completion.type === 'return' ? completion.value : undefined;
+      }
+      return this.evaluate(node.body, callEnv);
+    };
+  }
+}
@@ -0,0 +1,312 @@
+import type { ConditionOperator } from '../types';
+import type { ExpressionFunction } from './types';
+
+/**
+ * Whitelisted functions, namespaces and methods available to survey expressions.
+ * Anything not listed here cannot be reached from a condition, formula or script.
+ */
+
+const isEmptyValue = (value: any): boolean =>
+  value === '' ||
+  value === null ||
+  value === undefined ||
+  (Array.isArray(value) && value.length === 0);
+
+const toNumbers = (values: any[]): number[] =>
+  values
+    .flat()
+    .map(v => Number(v))
+    .filter(v => !isNaN(v));
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Applies one of the survey ConditionOperators to already-typed values
+ */
+export function applyConditionOperator(
+  fieldValue: any,
+  operator: ConditionOperator,
+  comparisonValue: any
+): boolean {
+  // Handle null/undefined field values specially
+  if (fieldValue === null || fieldValue === undefined) {
+    if (operator === 'empty' || operator === 'isEmpty') return true;
+    if (operator === 'notEmpty' || operator === 'isNotEmpty') return false;
+    // For equality operators when checking against null/undefined
+    if (operator === '==') return comparisonValue === null || comparisonValue === undefined;
+    if (operator === '!=') return comparisonValue !== null && comparisonValue !== undefined;
+    return false; // Most other operations on null/undefined should return false
+  }
+
+  switch (operator) {
+    case '==':
+      return fieldValue == comparisonValue;
+    case '!=':
+      return fieldValue != comparisonValue;
+    case '>':
+      return fieldValue > comparisonValue;
+    case '>=':
+      return fieldValue >= comparisonValue;
+    case '<':
+      return fieldValue < comparisonValue;
+    case '<=':
+      return fieldValue <= comparisonValue;
+    case 'contains':
+      if (Array.isArray(fieldValue)) return fieldValue.includes(comparisonValue);
+      return String(fieldValue).includes(String(comparisonValue));
+    case 'notContains':
+      if (Array.isArray(fieldValue)) return !fieldValue.includes(comparisonValue);
+      return !String(fieldValue).includes(String(comparisonValue));
+    case 'startsWith':
+      return String(fieldValue).startsWith(String(comparisonValue));
+    case 'endsWith':
+      return String(fieldValue).endsWith(String(comparisonValue));
+    case 'empty':
+    case 'isEmpty':
+      return isEmptyValue(fieldValue);
+    case 'notEmpty':
+    case 'isNotEmpty':
+      return !isEmptyValue(fieldValue);
+    case 'between':
+      if (Array.isArray(comparisonValue) && comparisonValue.length === 2) {
+        return fieldValue >= comparisonValue[0] && fieldValue <= comparisonValue[1];
+      }
+      return false;
+    case 'notBetween':
+      if (Array.isArray(comparisonValue) && comparisonValue.length === 2) {
+        return fieldValue < comparisonValue[0] || fieldValue > comparisonValue[1];
+      }
+      return false;
+    case 'in':
+      return Array.isArray(comparisonValue) && comparisonValue.includes(fieldValue);
+    case 'notIn':
+      return Array.isArray(comparisonValue) && !comparisonValue.includes(fieldValue);
+    case 'containsAny':
+      if (Array.isArray(fieldValue) && Array.isArray(comparisonValue)) {
+        return fieldValue.some(v => comparisonValue.includes(v));
+      }
+      return false;
+    case 'containsAll':
+      if (Array.isArray(fieldValue) && Array.isArray(comparisonValue)) {
+        return comparisonValue.every(v => fieldValue.includes(v));
+      }
+      return false;
+    case 'containsNone':
+      if (Array.isArray(fieldValue) && Array.isArray(comparisonValue)) {
+        return !fieldValue.some(v => comparisonValue.includes(v));
+      }
+      return false;
+    case 'matches':
+      try {
+        return new RegExp(String(comparisonValue)).test(String(fieldValue));
+      } catch {
+        return false;
+      }
+    default:
+      console.warn(`Unknown operator: ${operator}`);
+      return false;
+  }
+}
+
+/**
+ * Built-in helper functions callable by name from any expression
+ */
+export const builtinFunctions: Record<string, ExpressionFunction> = {
+  // Conversions
+  Number: (value: any) => Number(value),
+  String: (value: any) => (value === undefined || value === null ? '' : String(value)),
+  Boolean: (value: any) => Boolean(value),
+  parseInt: (value: any, radix?: number) => parseInt(value, radix),
+  parseFloat: (value: any) => parseFloat(value),
+  isNaN: (value: any) => isNaN(value),
+  isFinite: (value: any) => isFinite(value),
+
+  // Survey helpers
+  isEmpty: (value: any) => isEmptyValue(value),
+  isNotEmpty: (value: any) => !isEmptyValue(value),
+  count: (value: any) => {
+    if (Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return isEmptyValue(value) ? 0 : 1;
+  },
+  sum: (...values: any[]) => toNumbers(values).reduce((total, v) => total + v, 0),
+  avg: (...values: any[]) => {
+    const numbers = toNumbers(values);
+    return numbers.length ? numbers.reduce((total, v) => total + v, 0) / numbers.length : 0;
+  },
+  min: (...values: any[]) => Math.min(...toNumbers(values)),
+  max: (...values: any[]) => Math.max(...toNumbers(values)),
+  round: (value: any, digits = 0) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  abs: (value: any) => Math.abs(Number(value)),
+  floor: (value: any) => Math.floor(Number(value)),
+  ceil: (value: any) => Math.ceil(Number(value)),
+
+  // Dates
+  today: () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  },
+  now: () => Date.now(),
+  age: (date: any) => {
+    const birth = new Date(date);
+    if (isNaN(birth.getTime())) return NaN;
+    const now = new Date();
+    let years = now.getFullYear() - birth.getFullYear();
+    const monthDiff = now.getMonth() - birth.getMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && now.getDate() < birth.getDate())) {
+      years--;
+    }
+    return years;
+  },
+  daysBetween: (from: any, to: any) =>
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY),
+};
+
+const pick = <T extends object>(source: T, keys: Array<keyof T>) =>
+  Object.fromEntries(keys.map(key => [key, source[key]]));
+
+/**
+ * Built-in namespaces reachable as `Name.member`
+ */
+export const builtinNamespaces: Record<string, Record<string, any>> = {
+  Math: pick(Math, [
+    'abs', 'ceil', 'floor', 'round', 'trunc', 'sign', 'min', 'max', 'pow', 'sqrt', 'cbrt',
+    'exp', 'log', 'log10', 'log2', 'random', 'PI', 'E',
+  ]),
+  JSON: {
+    parse: (text: string) => JSON.parse(text),
+    stringify: (value: any) => JSON.stringify(value),
+  },
+  Number: pick(Number, ['isInteger', 'isFinite', 'isNaN', 'parseFloat', 'parseInt', 'MAX_SAFE_INTEGER', 'MIN_SAFE_INTEGER', 'EPSILON']),
+  Object: {
+    keys: (value: any) => (value && typeof value === 'object' ? Object.keys(value) : []),
+    values: (value: any) => (value && typeof value === 'object' ? Object.values(value) : []),
+    entries: (value: any) => (value && typeof value === 'object' ? Object.entries(value) : []),
+  },
+  Array: {
+    isArray: (value: any) => Array.isArray(value),
+  },
+  Date: {
+    now: () => Date.now(),
+    parse: (value: string) => Date.parse(value),
+  },
+};
+
+/**
+ * Constructors usable with `new`
+ */
+export const builtinConstructors: Record<string, (...args: any[]) => any> = {
+  Date: (...args: any[]) => new (Date as any)(...args),
+  RegExp: (pattern: any, flags?: string) => new RegExp(String(pattern), flags),
+  Error: (message?: any) => new Error(message === undefined ? '' : String(message)),
+};
+
+const STRING_METHODS = new Set([
+  'includes', 'startsWith', 'endsWith', 'indexOf', 'lastIndexOf', 'toLowerCase', 'toUpperCase',
+  'trim', 'trimStart', 'trimEnd', 'slice', 'substring', 'substr', 'split', 'replace', 'replaceAll',
+  'charAt', 'padStart', 'padEnd', 'repeat', 'concat', 'match', 'search', 'localeCompare', 'at',
+  'toString', 'normalize',
+]);
+
+const ARRAY_METHODS = new Set([
+  'includes', 'indexOf', 'lastIndexOf', 'join', 'slice', 'concat', 'some', 'every', 'filter',
+  'map', 'find', 'findIndex', 'reduce', 'flat', 'at', 'toString',
+]);
+
+// Mutating array methods are applied to a copy so survey values are never modified
+const COPYING_ARRAY_METHODS = new Set(['sort', 'reverse']);
+
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision', 'toString', 'toLocaleString']);
+
+const DATE_METHODS = new Set([
+  'getTime', 'getDay', 'getDate', 'getMonth', 'getFullYear', 'getHours', 'getMinutes', 'getSeconds',
+  'getMilliseconds', 'getTimezoneOffset', 'getUTCDay', 'getUTCDate', 'getUTCMonth', 'getUTCFullYear',
+  'toDateString', 'toISOString', 'toLocaleDateString', 'toLocaleTimeString', 'toLocaleString',
+  'toString', 'valueOf',
+]);
+
+const REGEXP_METHODS = new Set(['test']);
+
+const BOOLEAN_METHODS = new Set(['toString']);
+
+/**
+ * Method aliases kept for backwards compatibility with conditions generated
+ * by the navigation rules editor (e.g. `field.contains("x")`)
+ */
+const METHOD_ALIASES: Record<string, string> = {
+  contains: 'includes',
+};
+
+/**
+ * Resolves a whitelisted method for a receiver value.
+ * Returns undefined when the method is not available in the sandbox.
+ */
+export function resolveMethod(receiver: any, name: string): ExpressionFunction | undefined {
+  const method = METHOD_ALIASES[name] ?? name;
+
+  if (typeof receiver === 'string' && STRING_METHODS.has(method)) {
+    return (...args: any[]) => (String.prototype as any)[method].apply(receiver, args);
+  }
+  if (Array.isArray(receiver)) {
+    if (ARRAY_METHODS.has(method)) {
+      return (...args: any[]) => (Array.prototype as any)[method].apply(receiver, args);
+    }
+    if (COPYING_ARRAY_METHODS.has(method)) {
+      return (...args: any[]) => (Array.prototype as any)[method].apply([...receiver], args);
+    }
+  }
+  if (typeof receiver === 'number' && NUMBER_METHODS.has(method)) {
+    return (...args: any[]) => (Number.prototype as any)[method].apply(receiver, args);
+  }
+  if (typeof receiver === 'boolean' && BOOLEAN_METHODS.has(method)) {
+    return () => String(receiver);
+  }
+  if (receiver instanceof Date && DATE_METHODS.has(method)) {
+    return (...args: any[]) => (Date.prototype as any)[method].apply(receiver, args);
+  }
+  if (receiver instanceof RegExp && REGEXP_METHODS.has(method)) {
+    return (value: any) => receiver.test(String(value ?? ''));
+  }
+  return undefined;
+}
+
+// -----------------------------------------------------------------------------
+// Registry for host-provided functions
+// -----------------------------------------------------------------------------
+
+const customFunctions: Record<string, ExpressionFunction> = {};
+
+/**
+ * Registers an additional function that every expression can call by name
+ */
+export function registerExpressionFunction(name: string, fn: ExpressionFunction): void {
+  customFunctions[name] = fn;
+}
+
+/**
+ * Removes a previously registered expression function
+ */
+export function unregisterExpressionFunction(name: string): void {
+  delete customFunctions[name];
+}
+
+/**
+ * Returns all functions callable by name (built-ins plus registered ones)
+ */
+export function getExpressionFunctions(): Record<string, ExpressionFunction> {
+  return { ...builtinFunctions, ...customFunctions };
+}
+
+/**
+ * Whether a name resolves to a helper function or namespace (e.g. `sum`, `Math`)
+ */
+export function isExpressionGlobal(name: string): boolean {
+  return (
+    Object.prototype.hasOwnProperty.call(builtinFunctions, name) ||
+    Object.prototype.hasOwnProperty.call(customFunctions, name) ||
+    Object.prototype.hasOwnProperty.call(builtinNamespaces, name)
+  );
+}
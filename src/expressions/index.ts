@@ -0,0 +1,91 @@
+import { isExpressionError } from './errors';
+import { Evaluator } from './evaluator';
+import { getExpressionFunctions } from './helpers';
+import { parseProgram } from './parser';
+import type { EvaluateOptions, ExpressionEngineOptions, ProgramNode } from './types';
+
+export * from './types';
+export * from './errors';
+export { tokenize } from './tokenizer';
+export type { Token, TokenType } from './tokenizer';
+export { parseProgram, parseExpression, CONDITION_WORD_OPERATORS, CONDITION_POSTFIX_OPERATORS } from './parser';
+export {
+  applyConditionOperator,
+  registerExpressionFunction,
+  unregisterExpressionFunction,
+  getExpressionFunctions,
+  isExpressionGlobal,
+} from './helpers';
+export { collectReferences } from './analysis';
+export type { IdentifierReference } from './analysis';
+
+const engineOptions: ExpressionEngineOptions = {
+  allowLegacyEval: false,
+  maxSteps: 100000,
+};
+
+/**
+ * Updates the global expression engine settings
+ */
+export function setExpressionEngineOptions(options: Partial<ExpressionEngineOptions>): void {
+  Object.assign(engineOptions, options);
+}
+
+/**
+ * Returns a copy of the current expression engine settings
+ */
+export function getExpressionEngineOptions(): ExpressionEngineOptions {
+  return { ...engineOptions };
+}
+
+// Parsed programs keyed by source; conditions are re-evaluated on every value change
+const MAX_CACHE_SIZE = 500;
+const programCache = new Map<string, ProgramNode>();
+
+/**
+ * Parses (and caches) a condition, formula or script.
+ * Throws an ExpressionError with code 'syntax' on invalid input.
+ */
+export function compileExpression(source: string): ProgramNode {
+  const cached = programCache.get(source);
+  if (cached) return cached;
+
+  const program = parseProgram(source);
+  if (programCache.size >= MAX_CACHE_SIZE) {
+    programCache.delete(programCache.keys().next().value);
+  }
+  programCache.set(source, program);
+  return program;
+}
+
+/**
+ * Evaluates a condition, formula or script in the sandbox.
+ * Identifiers resolve against `scope` (typically the survey field values).
+ *
+ * @example
+ * evaluateExpression('age >= 18 && country in ["US", "CA"]', { age: 21, country: 'US' }); // true
+ */
+export function evaluateExpression(
+  source: string | ProgramNode,
+  scope: Record<string, any> = {},
+  options: EvaluateOptions = {}
+): any {
+  const program = typeof source === 'string' ? compileExpression(source) : source;
+  const functions = options.functions
+    ? { ...getExpressionFunctions(), ...options.functions }
+    : getExpressionFunctions();
+
+  return new Evaluator(scope || {}, functions, options.maxSteps ?? engineOptions.maxSteps).run(program);
+}
+
+/**
+ * Whether a failed sandboxed evaluation should be retried with the legacy evaluator.
+ * Only syntax the sandbox rejects qualifies - runtime errors are never retried.
+ */
+export function shouldUseLegacyEval(error: unknown): boolean {
+  return (
+    engineOptions.allowLegacyEval &&
+    isExpressionError(error) &&
+    (error.code === 'syntax' || error.code === 'forbidden')
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Legacy `new Function` evaluators.
+ *
+ * Only used when `allowLegacyEval` is enabled through setExpressionEngineOptions,
+ * for surveys that rely on JavaScript the sandboxed language does not support.
+ * Requires a Content-Security-Policy that allows 'unsafe-eval'.
+ */
+
+const sanitize = (source: string) =>
+  source
+    .replace(/import\s*\{/g, '')
+    .replace(/require\s*\(/g, '')
+    .replace(/process/g, '')
+    .replace(/global/g, '')
+    .replace(/window/g, '')
+    .replace(/document/g, '')
+    .replace(/eval\s*\(/g, '');
+
+/**
+ * Translates a condition string to use explicit references to the values object
+ * For example, converts "age > 18" to "values.age > 18"
+ * Also handles nested fields like "authResults.email" → "values.authResults.email"
+ */
+function translateConditionToExplicitReferences(condition: string): string {
+  // Replace variable names with values object references
+  // This regex looks for identifiers that:
+  // 1. Are not preceded by a dot (to avoid matching nested property names)
+  // 2. Are not followed by : or ( (to avoid function calls and object literals)
+  return condition.replace(/(?<!\.)(\b[a-zA-Z_$][a-zA-Z0-9_$]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*)\b(?!\s*:|\s*\()/g, (match, name) => {
+    // Extract the root identifier (first part before any dots)
+    const rootName = name.split('.')[0];
+
+    // Don't replace JavaScript keywords and common values
+    const keywords = [
+      'true', 'false', 'null', 'undefined', 'NaN', 'Infinity',
+      'if', 'else', 'return', 'function', 'var', 'let', 'const',
+      'new', 'this', 'typeof', 'instanceof', 'in'
+    ];
+
+    if (keywords.includes(rootName)) {
+      return name;
+    }
+
+    // Replace the entire dotted path with values. prefix
+    return `values.${name}`;
+  });
+}
+
+/**
+ * Evaluates a condition string with `new Function`
+ */
+export function legacyEvaluateCondition(condition: string, fieldValues: Record<string, any>): boolean {
+  // Allow conditions written as "return x > 0;" by stripping leading return
+  const normalized = sanitize(condition)
+    .trim()
+    .replace(/^return\s+/i, '')
+    .replace(/;?\s*$/, '');
+
+  // Create a function that references values by using a parameter object instead of 'with'
+  const conditionFn = new Function('values', `
+    "use strict";
+    return (${translateConditionToExplicitReferences(normalized)});
+  `);
+
+  return Boolean(conditionFn(fieldValues));
+}
+
+/**
+ * Evaluates a navigation rule condition with `new Function`, passing each value as a parameter
+ */
+export function legacyEvaluateNavigationCondition(condition: string, currentValues: Record<string, any>): boolean {
+  const evaluator = new Function(...Object.keys(currentValues), `return ${condition}`);
+  return Boolean(evaluator(...Object.values(currentValues)));
+}
+
+/**
+ * Executes a formula body with `new Function`, declaring each field as a constant
+ */
+export function legacyExecuteCalculation(formula: string, fieldValues: Record<string, any>): any {
+  const functionBody = `
+    "use strict";
+
+    // Make all fields directly available
+    ${Object.keys(fieldValues).map(key =>
+      `const ${key} = ${JSON.stringify(fieldValues[key])};`
+    ).join('\n')}
+
+    // Execute formula
+    ${sanitize(formula)}
+  `;
+
+  return new Function(functionBody)();
+}
+
+/**
+ * Runs a logic script with `new Function`. Errors thrown by the script propagate to the caller.
+ */
+export function legacyEvaluateLogic(script: string, scope: Record<string, any>): any {
+  const fn = new Function('context', `
+    "use strict";
+    ${Object.keys(scope).map(key => `const ${key} = context.${key};`).join('\n')}
+    ${sanitize(script)}
+  `);
+
+  return fn(scope);
+}
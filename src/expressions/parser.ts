@@ -0,0 +1,665 @@
+import { ExpressionError } from './errors';
+import { tokenize, type Token } from './tokenizer';
+import type {
+  ArrowFunctionNode,
+  AssignmentExpressionNode,
+  BlockStatementNode,
+  ConditionPostfixOperator,
+  ConditionWordOperator,
+  ExpressionNode,
+  IdentifierNode,
+  ObjectPropertyNode,
+  ProgramNode,
+  StatementNode,
+  VariableDeclarationNode,
+} from './types';
+
+/**
+ * Recursive-descent parser for the survey expression language.
+ *
+ * The language is a small, side-effect free subset of JavaScript:
+ * - literals, arrays, object literals, dotted field paths and `a[b]`
+ * - arithmetic, comparison, logical and conditional operators
+ * - the survey ConditionOperators as words (`age between [18, 65]`, `name isEmpty`)
+ * - calls to whitelisted helpers/methods, `new Date(...)` and `new RegExp(...)`
+ * - arrow functions for array callbacks and IIFEs
+ * - for formulas and scripts: const/let/var, if/else, for...of, return, throw
+ */
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '>': 5, '<=': 5, '>=': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '**': 8,
+};
+
+const RELATIONAL_PRECEDENCE = 5;
+
+export const CONDITION_WORD_OPERATORS: ReadonlySet<string> = new Set<ConditionWordOperator>([
+  'contains', 'notContains', 'startsWith', 'endsWith', 'matches',
+  'in', 'notIn', 'containsAny', 'containsAll', 'containsNone',
+  'between', 'notBetween',
+]);
+
+export const CONDITION_POSTFIX_OPERATORS: ReadonlySet<string> = new Set<ConditionPostfixOperator>([
+  'empty', 'notEmpty', 'isEmpty', 'isNotEmpty',
+]);
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=']);
+
+const LITERAL_KEYWORDS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+  NaN: NaN,
+  Infinity: Infinity,
+};
+
+const UNSUPPORTED_KEYWORDS = new Set([
+  'function', 'class', 'this', 'while', 'do', 'switch', 'try', 'catch',
+  'import', 'export', 'delete', 'void', 'yield', 'await', 'async', 'with', 'super',
+]);
+
+const RESERVED_NAMES = new Set([
+  ...Object.keys(LITERAL_KEYWORDS), ...UNSUPPORTED_KEYWORDS,
+  'const', 'let', 'var', 'if', 'else', 'for', 'return', 'throw', 'break', 'continue', 'new', 'typeof',
+]);
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private lastEnd = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------------------------------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (this.index < this.tokens.length - 1) this.index++;
+    this.lastEnd = token.end;
+    return token;
+  }
+
+  private isPunctuator(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'punctuator' && token.value === value;
+  }
+
+  private isKeyword(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && token.value === value;
+  }
+
+  private expectPunctuator(value: string): Token {
+    if (!this.isPunctuator(value)) {
+      this.unexpected(`Expected "${value}"`);
+    }
+    return this.next();
+  }
+
+  private unexpected(message?: string): never {
+    const token = this.peek();
+    const found = token.type === 'eof' ? 'end of input' : `"${this.source.slice(token.start, token.end)}"`;
+    throw new ExpressionError('syntax', `${message ? `${message}, found` : 'Unexpected'} ${found}`, token.start);
+  }
+
+  private parseIdentifier(): IdentifierNode {
+    const token = this.peek();
+    if (token.type !== 'identifier' || RESERVED_NAMES.has(token.value)) {
+      this.unexpected('Expected identifier');
+    }
+    this.next();
+    return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  parseProgram(): ProgramNode {
+    const body: StatementNode[] = [];
+    while (this.peek().type !== 'eof') {
+      body.push(this.parseStatement());
+    }
+    return { type: 'Program', body, source: this.source, start: 0, end: this.source.length };
+  }
+
+  parseSingleExpression(): ExpressionNode {
+    const expression = this.parseExpression();
+    if (this.isPunctuator(';')) this.next();
+    if (this.peek().type !== 'eof') {
+      this.unexpected('Expected end of expression');
+    }
+    return expression;
+  }
+
+  private consumeStatementEnd(): void {
+    if (this.isPunctuator(';')) {
+      this.next();
+      return;
+    }
+    const token = this.peek();
+    if (token.type === 'eof' || this.isPunctuator('}') || token.newlineBefore) {
+      return;
+    }
+    this.unexpected('Expected ";"');
+  }
+
+  private parseStatement(): StatementNode {
+    const token = this.peek();
+    const start = token.start;
+
+    if (this.isPunctuator(';')) {
+      this.next();
+      return { type: 'EmptyStatement', start, end: this.lastEnd };
+    }
+
+    if (this.isPunctuator('{')) {
+      return this.parseBlock();
+    }
+
+    if (token.type === 'identifier') {
+      switch (token.value) {
+        case 'const':
+        case 'let':
+        case 'var': {
+          const declaration = this.parseVariableDeclaration();
+          this.consumeStatementEnd();
+          return declaration;
+        }
+
+        case 'if': {
+          this.next();
+          this.expectPunctuator('(');
+          const test = this.parseExpression();
+          this.expectPunctuator(')');
+          const consequent = this.parseStatement();
+          let alternate: StatementNode | undefined;
+          if (this.isKeyword('else')) {
+            this.next();
+            alternate = this.parseStatement();
+          }
+          return { type: 'IfStatement', test, consequent, alternate, start, end: this.lastEnd };
+        }
+
+        case 'for': {
+          this.next();
+          this.expectPunctuator('(');
+          const kindToken = this.peek();
+          if (kindToken.type !== 'identifier' || !['const', 'let', 'var'].includes(kindToken.value)) {
+            this.unexpected('Only "for (const item of list)" loops are supported');
+          }
+          this.next();
+          const id = this.parseIdentifier();
+          if (!this.isKeyword('of')) {
+            this.unexpected('Only "for (const item of list)" loops are supported');
+          }
+          this.next();
+          const iterable = this.parseExpression();
+          this.expectPunctuator(')');
+          const body = this.parseStatement();
+          return {
+            type: 'ForOfStatement',
+            kind: kindToken.value as 'const' | 'let' | 'var',
+            id,
+            iterable,
+            body,
+            start,
+            end: this.lastEnd,
+          };
+        }
+
+        case 'return': {
+          this.next();
+          let argument: ExpressionNode | undefined;
+          const after = this.peek();
+          if (!(after.type === 'eof' || after.newlineBefore || this.isPunctuator(';') || this.isPunctuator('}'))) {
+            argument = this.parseExpression();
+          }
+          this.consumeStatementEnd();
+          return { type: 'ReturnStatement', argument, start, end: this.lastEnd };
+        }
+
+        case 'throw': {
+          this.next();
+          if (this.peek().newlineBefore) {
+            this.unexpected('Expected an expression after "throw"');
+          }
+          const argument = this.parseExpression();
+          this.consumeStatementEnd();
+          return { type: 'ThrowStatement', argument, start, end: this.lastEnd };
+        }
+
+        case 'break':
+        case 'continue': {
+          this.next();
+          this.consumeStatementEnd();
+          return { type: token.value === 'break' ? 'BreakStatement' : 'ContinueStatement', start, end: this.lastEnd };
+        }
+
+        default:
+          if (UNSUPPORTED_KEYWORDS.has(token.value)) {
+            throw new ExpressionError('syntax', `"${token.value}" is not supported in survey expressions`, token.start);
+          }
+      }
+    }
+
+    const expression = this.parseExpression();
+    this.consumeStatementEnd();
+    return { type: 'ExpressionStatement', expression, start, end: this.lastEnd };
+  }
+
+  private parseBlock(): BlockStatementNode {
+    const start = this.expectPunctuator('{').start;
+    const body: StatementNode[] = [];
+    while (!this.isPunctuator('}')) {
+      if (this.peek().type === 'eof') {
+        this.unexpected('Expected "}"');
+      }
+      body.push(this.parseStatement());
+    }
+    this.next();
+    return { type: 'BlockStatement', body, start, end: this.lastEnd };
+  }
+
+  private parseVariableDeclaration(): VariableDeclarationNode {
+    const kindToken = this.next();
+    const declarations: VariableDeclarationNode['declarations'] = [];
+    do {
+      const id = this.parseIdentifier();
+      let init: ExpressionNode | undefined;
+      if (this.isPunctuator('=')) {
+        this.next();
+        init = this.parseExpression();
+      } else if (kindToken.value === 'const') {
+        this.unexpected('Missing initializer in const declaration');
+      }
+      declarations.push({ id, init });
+    } while (this.isPunctuator(',') && this.next());
+
+    return {
+      type: 'VariableDeclaration',
+      kind: kindToken.value as 'const' | 'let' | 'var',
+      declarations,
+      start: kindToken.start,
+      end: this.lastEnd,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  parseExpression(): ExpressionNode {
+    if (this.isArrowFunctionStart()) {
+      return this.parseArrowFunction();
+    }
+
+    const start = this.peek().start;
+    const left = this.parseConditional();
+
+    const token = this.peek();
+    if (token.type === 'punctuator' && ASSIGNMENT_OPERATORS.has(token.value)) {
+      if (left.type !== 'Identifier') {
+        throw new ExpressionError('syntax', 'Only local variables can be assigned to', token.start);
+      }
+      this.next();
+      const value = this.parseExpression();
+      const assignment: AssignmentExpressionNode = {
+        type: 'AssignmentExpression',
+        operator: token.value as AssignmentExpressionNode['operator'],
+        target: left,
+        value,
+        start,
+        end: this.lastEnd,
+      };
+      return assignment;
+    }
+
+    return left;
+  }
+
+  private isArrowFunctionStart(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && this.isPunctuator('=>', 1)) {
+      return true;
+    }
+    if (!this.isPunctuator('(')) {
+      return false;
+    }
+    // Scan to the matching ")" and check for a following "=>"
+    let depth = 0;
+    for (let i = this.index; i < this.tokens.length; i++) {
+      const t = this.tokens[i];
+      if (t.type !== 'punctuator') continue;
+      if (t.value === '(') depth++;
+      if (t.value === ')') {
+        depth--;
+        if (depth === 0) {
+          const after = this.tokens[i + 1];
+          return !!after && after.type === 'punctuator' && after.value === '=>';
+        }
+      }
+    }
+    return false;
+  }
+
+  private parseArrowFunction(): ArrowFunctionNode {
+    const start = this.peek().start;
+    const params: IdentifierNode[] = [];
+
+    if (this.isPunctuator('(')) {
+      this.next();
+      while (!this.isPunctuator(')')) {
+        params.push(this.parseIdentifier());
+        if (!this.isPunctuator(')')) this.expectPunctuator(',');
+      }
+      this.next();
+    } else {
+      params.push(this.parseIdentifier());
+    }
+
+    this.expectPunctuator('=>');
+    const body = this.isPunctuator('{') ? this.parseBlock() : this.parseExpression();
+    return { type: 'ArrowFunctionExpression', params, body, start, end: this.lastEnd };
+  }
+
+  private parseConditional(): ExpressionNode {
+    const start = this.peek().start;
+    const test = this.parseBinary(1);
+    if (!this.isPunctuator('?')) {
+      return test;
+    }
+    this.next();
+    const consequent = this.parseExpression();
+    this.expectPunctuator(':');
+    const alternate = this.parseExpression();
+    return { type: 'ConditionalExpression', test, consequent, alternate, start, end: this.lastEnd };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    const start = this.peek().start;
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+
+      // Word operators - only in operator position and on the same line
+      if (token.type === 'identifier' && !token.newlineBefore) {
+        if (CONDITION_POSTFIX_OPERATORS.has(token.value) && RELATIONAL_PRECEDENCE >= minPrecedence) {
+          this.next();
+          left = {
+            type: 'ConditionExpression',
+            operator: token.value as ConditionPostfixOperator,
+            left,
+            start,
+            end: this.lastEnd,
+          };
+          continue;
+        }
+        if (CONDITION_WORD_OPERATORS.has(token.value) && RELATIONAL_PRECEDENCE >= minPrecedence) {
+          this.next();
+          const right = this.parseBinary(RELATIONAL_PRECEDENCE + 1);
+          left = {
+            type: 'ConditionExpression',
+            operator: token.value as ConditionWordOperator,
+            left,
+            right,
+            start,
+            end: this.lastEnd,
+          };
+          continue;
+        }
+        break;
+      }
+
+      if (token.type !== 'punctuator' || !(token.value in BINARY_PRECEDENCE)) {
+        break;
+      }
+
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence < minPrecedence) {
+        break;
+      }
+
+      this.next();
+      // ** is right-associative, everything else left-associative
+      const right = this.parseBinary(token.value === '**' ? precedence : precedence + 1);
+
+      if (token.value === '&&' || token.value === '||' || token.value === '??') {
+        left = { type: 'LogicalExpression', operator: token.value, left, right, start, end: this.lastEnd };
+      } else {
+        left = {
+          type: 'BinaryExpression',
+          operator: token.value as any,
+          left,
+          right,
+          start,
+          end: this.lastEnd,
+        };
+      }
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) ||
+      (token.type === 'identifier' && token.value === 'typeof')
+    ) {
+      this.next();
+      const argument = this.parseUnary();
+      return {
+        type: 'UnaryExpression',
+        operator: token.value as '!' | '-' | '+' | 'typeof',
+        argument,
+        start: token.start,
+        end: this.lastEnd,
+      };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(expression: ExpressionNode): ExpressionNode {
+    let node = expression;
+    const start = expression.start;
+
+    for (;;) {
+      if (this.isPunctuator('.')) {
+        this.next();
+        const nameToken = this.peek();
+        if (nameToken.type !== 'identifier') {
+          this.unexpected('Expected property name');
+        }
+        this.next();
+        node = {
+          type: 'MemberExpression',
+          object: node,
+          property: { type: 'Identifier', name: nameToken.value, start: nameToken.start, end: nameToken.end },
+          computed: false,
+          optional: false,
+          start,
+          end: this.lastEnd,
+        };
+        continue;
+      }
+
+      if (this.isPunctuator('?.')) {
+        this.next();
+        if (this.isPunctuator('(')) {
+          node = { type: 'CallExpression', callee: node, arguments: this.parseArguments(), optional: true, start, end: this.lastEnd };
+          continue;
+        }
+        if (this.isPunctuator('[')) {
+          this.next();
+          const property = this.parseExpression();
+          this.expectPunctuator(']');
+          node = { type: 'MemberExpression', object: node, property, computed: true, optional: true, start, end: this.lastEnd };
+          continue;
+        }
+        const nameToken = this.peek();
+        if (nameToken.type !== 'identifier') {
+          this.unexpected('Expected property name');
+        }
+        this.next();
+        node = {
+          type: 'MemberExpression',
+          object: node,
+          property: { type: 'Identifier', name: nameToken.value, start: nameToken.start, end: nameToken.end },
+          computed: false,
+          optional: true,
+          start,
+          end: this.lastEnd,
+        };
+        continue;
+      }
+
+      if (this.isPunctuator('[') && !this.peek().newlineBefore) {
+        this.next();
+        const property = this.parseExpression();
+        this.expectPunctuator(']');
+        node = { type: 'MemberExpression', object: node, property, computed: true, optional: false, start, end: this.lastEnd };
+        continue;
+      }
+
+      if (this.isPunctuator('(') && !this.peek().newlineBefore) {
+        node = { type: 'CallExpression', callee: node, arguments: this.parseArguments(), optional: false, start, end: this.lastEnd };
+        continue;
+      }
+
+      return node;
+    }
+  }
+
+  private parseArguments(): ExpressionNode[] {
+    this.expectPunctuator('(');
+    const args: ExpressionNode[] = [];
+    while (!this.isPunctuator(')')) {
+      args.push(this.parseExpression());
+      if (!this.isPunctuator(')')) this.expectPunctuator(',');
+    }
+    this.next();
+    return args;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { type: 'Literal', value: token.numberValue, start: token.start, end: token.end };
+
+      case 'string':
+        this.next();
+        return { type: 'Literal', value: token.value, start: token.start, end: token.end };
+
+      case 'identifier': {
+        if (Object.prototype.hasOwnProperty.call(LITERAL_KEYWORDS, token.value)) {
+          this.next();
+          return { type: 'Literal', value: LITERAL_KEYWORDS[token.value], start: token.start, end: token.end };
+        }
+        if (token.value === 'new') {
+          this.next();
+          const callee = this.parseIdentifier();
+          const args = this.isPunctuator('(') ? this.parseArguments() : [];
+          return { type: 'NewExpression', callee, arguments: args, start: token.start, end: this.lastEnd };
+        }
+        if (UNSUPPORTED_KEYWORDS.has(token.value)) {
+          throw new ExpressionError('syntax', `"${token.value}" is not supported in survey expressions`, token.start);
+        }
+        return this.parseIdentifier();
+      }
+
+      case 'punctuator':
+        if (token.value === '(') {
+          this.next();
+          const expression = this.parseExpression();
+          this.expectPunctuator(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          this.next();
+          const elements: ExpressionNode[] = [];
+          while (!this.isPunctuator(']')) {
+            elements.push(this.parseExpression());
+            if (!this.isPunctuator(']')) this.expectPunctuator(',');
+          }
+          this.next();
+          return { type: 'ArrayExpression', elements, start: token.start, end: this.lastEnd };
+        }
+        if (token.value === '{') {
+          return this.parseObjectLiteral();
+        }
+        break;
+    }
+
+    return this.unexpected();
+  }
+
+  private parseObjectLiteral(): ExpressionNode {
+    const start = this.expectPunctuator('{').start;
+    const properties: ObjectPropertyNode[] = [];
+
+    while (!this.isPunctuator('}')) {
+      const keyToken = this.peek();
+      if (keyToken.type !== 'identifier' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+        this.unexpected('Expected property name');
+      }
+      this.next();
+      const key = keyToken.value;
+
+      if (this.isPunctuator(':')) {
+        this.next();
+        const value = this.parseExpression();
+        properties.push({ key, value, start: keyToken.start, end: this.lastEnd });
+      } else if (keyToken.type === 'identifier') {
+        // Shorthand property: { age }
+        properties.push({
+          key,
+          value: { type: 'Identifier', name: key, start: keyToken.start, end: keyToken.end },
+          start: keyToken.start,
+          end: keyToken.end,
+        });
+      } else {
+        this.unexpected('Expected ":"');
+      }
+
+      if (!this.isPunctuator('}')) this.expectPunctuator(',');
+    }
+    this.next();
+    return { type: 'ObjectExpression', properties, start, end: this.lastEnd };
+  }
+}
+
+/**
+ * Parses a condition, formula or script into a program.
+ * Throws an ExpressionError with code 'syntax' on invalid input.
+ */
+export function parseProgram(source: string): ProgramNode {
+  return new Parser(source).parseProgram();
+}
+
+/**
+ * Parses source that must consist of exactly one expression
+ * (an optional trailing semicolon is allowed).
+ */
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(source).parseSingleExpression();
+}
@@ -0,0 +1,156 @@
+import { ExpressionError } from './errors';
+
+export type TokenType = 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Raw text for identifiers/punctuators, decoded value for strings */
+  value: string;
+  /** Parsed value for number tokens */
+  numberValue?: number;
+  /** Whether a line break separates this token from the previous one */
+  newlineBefore: boolean;
+  start: number;
+  end: number;
+}
+
+// Longest punctuators first so that greedy matching works
+const PUNCTUATORS = [
+  '===', '!==',
+  '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '=>', '**', '+=', '-=', '*=', '/=', '%=',
+  '(', ')', '[', ']', '{', '}', ',', ';', ':', '?', '.', '+', '-', '*', '/', '%', '<', '>', '!', '=',
+];
+
+const isIdentifierStart = (ch: string) => /[A-Za-z_$]/.test(ch);
+const isIdentifierPart = (ch: string) => /[A-Za-z0-9_$]/.test(ch);
+const isDigit = (ch: string) => ch >= '0' && ch <= '9';
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '0': '\0',
+};
+
+/**
+ * Splits expression source into tokens. Comments and whitespace are skipped.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let newlineBefore = false;
+
+  const push = (token: Omit<Token, 'newlineBefore'>) => {
+    tokens.push({ ...token, newlineBefore });
+    newlineBefore = false;
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      if (ch === '\n') newlineBefore = true;
+      pos++;
+      continue;
+    }
+
+    // Comments
+    if (ch === '/' && source[pos + 1] === '/') {
+      while (pos < source.length && source[pos] !== '\n') pos++;
+      continue;
+    }
+    if (ch === '/' && source[pos + 1] === '*') {
+      const close = source.indexOf('*/', pos + 2);
+      if (close === -1) {
+        throw new ExpressionError('syntax', 'Unterminated comment', pos);
+      }
+      if (source.slice(pos, close).includes('\n')) newlineBefore = true;
+      pos = close + 2;
+      continue;
+    }
+
+    // Numbers (including leading-dot decimals like .5)
+    if (isDigit(ch) || (ch === '.' && isDigit(source[pos + 1] || ''))) {
+      const start = pos;
+      const match = /^(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(source.slice(pos));
+      const raw = match ? match[0] : ch;
+      pos += raw.length;
+      if (isIdentifierStart(source[pos] || '')) {
+        throw new ExpressionError('syntax', `Invalid number "${raw}${source[pos]}"`, start);
+      }
+      push({ type: 'number', value: raw, numberValue: Number(raw), start, end: pos });
+      continue;
+    }
+
+    // Strings
+    if (ch === '"' || ch === "'") {
+      const start = pos;
+      const quote = ch;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== quote) {
+        if (source[pos] === '\n') {
+          throw new ExpressionError('syntax', 'Unterminated string', start);
+        }
+        if (source[pos] === '\\') {
+          const next = source[pos + 1];
+          if (next === 'u') {
+            const hex = source.slice(pos + 2, pos + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+              throw new ExpressionError('syntax', 'Invalid unicode escape', pos);
+            }
+            value += String.fromCharCode(parseInt(hex, 16));
+            pos += 6;
+            continue;
+          }
+          value += ESCAPES[next] ?? next ?? '';
+          pos += 2;
+          continue;
+        }
+        value += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) {
+        throw new ExpressionError('syntax', 'Unterminated string', start);
+      }
+      pos++;
+      push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    if (ch === '`') {
+      throw new ExpressionError('syntax', 'Template literals are not supported', pos);
+    }
+
+    // Identifiers and keywords
+    if (isIdentifierStart(ch)) {
+      const start = pos;
+      while (pos < source.length && isIdentifierPart(source[pos])) pos++;
+      push({ type: 'identifier', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    // Punctuators
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, pos));
+    if (punctuator) {
+      // `a?.5:1` is a conditional, not optional chaining
+      if (punctuator === '?.' && isDigit(source[pos + 2] || '')) {
+        push({ type: 'punctuator', value: '?', start: pos, end: pos + 1 });
+        pos++;
+        continue;
+      }
+      push({ type: 'punctuator', value: punctuator, start: pos, end: pos + punctuator.length });
+      pos += punctuator.length;
+      continue;
+    }
+
+    throw new ExpressionError('syntax', `Unexpected character "${ch}"`, pos);
+  }
+
+  push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
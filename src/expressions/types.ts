@@ -0,0 +1,233 @@
+// Expression language types - AST nodes, evaluation options and engine settings
+
+/**
+ * Source span of a node, as character offsets into the original expression
+ * (start inclusive, end exclusive). Used by tooling that needs to point at or
+ * rewrite a specific part of a condition or formula.
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type ConditionWordOperator =
+  | 'contains' | 'notContains' | 'startsWith' | 'endsWith' | 'matches'
+  | 'in' | 'notIn' | 'containsAny' | 'containsAll' | 'containsNone'
+  | 'between' | 'notBetween';
+
+export type ConditionPostfixOperator = 'empty' | 'notEmpty' | 'isEmpty' | 'isNotEmpty';
+
+export interface LiteralNode extends SourceSpan {
+  type: 'Literal';
+  value: string | number | boolean | null | undefined;
+}
+
+export interface IdentifierNode extends SourceSpan {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface ArrayExpressionNode extends SourceSpan {
+  type: 'ArrayExpression';
+  elements: ExpressionNode[];
+}
+
+export interface ObjectPropertyNode extends SourceSpan {
+  key: string;
+  value: ExpressionNode;
+}
+
+export interface ObjectExpressionNode extends SourceSpan {
+  type: 'ObjectExpression';
+  properties: ObjectPropertyNode[];
+}
+
+export interface MemberExpressionNode extends SourceSpan {
+  type: 'MemberExpression';
+  object: ExpressionNode;
+  /** Identifier for `a.b`, any expression for `a[b]` */
+  property: ExpressionNode;
+  computed: boolean;
+  optional: boolean;
+}
+
+export interface CallExpressionNode extends SourceSpan {
+  type: 'CallExpression';
+  callee: ExpressionNode;
+  arguments: ExpressionNode[];
+  optional: boolean;
+}
+
+export interface NewExpressionNode extends SourceSpan {
+  type: 'NewExpression';
+  callee: IdentifierNode;
+  arguments: ExpressionNode[];
+}
+
+export interface UnaryExpressionNode extends SourceSpan {
+  type: 'UnaryExpression';
+  operator: '!' | '-' | '+' | 'typeof';
+  argument: ExpressionNode;
+}
+
+export interface BinaryExpressionNode extends SourceSpan {
+  type: 'BinaryExpression';
+  operator:
+    | '+' | '-' | '*' | '/' | '%' | '**'
+    | '==' | '!=' | '===' | '!=='
+    | '<' | '>' | '<=' | '>=';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface LogicalExpressionNode extends SourceSpan {
+  type: 'LogicalExpression';
+  operator: '&&' | '||' | '??';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Application of one of the survey `ConditionOperator`s written as a word,
+ * e.g. `symptoms containsAny ["fever", "cough"]` or `email isNotEmpty`.
+ */
+export interface ConditionExpressionNode extends SourceSpan {
+  type: 'ConditionExpression';
+  operator: ConditionWordOperator | ConditionPostfixOperator;
+  left: ExpressionNode;
+  right?: ExpressionNode;
+}
+
+export interface ConditionalExpressionNode extends SourceSpan {
+  type: 'ConditionalExpression';
+  test: ExpressionNode;
+  consequent: ExpressionNode;
+  alternate: ExpressionNode;
+}
+
+export interface ArrowFunctionNode extends SourceSpan {
+  type: 'ArrowFunctionExpression';
+  params: IdentifierNode[];
+  body: ExpressionNode | BlockStatementNode;
+}
+
+export interface AssignmentExpressionNode extends SourceSpan {
+  type: 'AssignmentExpression';
+  operator: '=' | '+=' | '-=' | '*=' | '/=' | '%=';
+  target: IdentifierNode;
+  value: ExpressionNode;
+}
+
+export type ExpressionNode =
+  | LiteralNode
+  | IdentifierNode
+  | ArrayExpressionNode
+  | ObjectExpressionNode
+  | MemberExpressionNode
+  | CallExpressionNode
+  | NewExpressionNode
+  | UnaryExpressionNode
+  | BinaryExpressionNode
+  | LogicalExpressionNode
+  | ConditionExpressionNode
+  | ConditionalExpressionNode
+  | ArrowFunctionNode
+  | AssignmentExpressionNode;
+
+export interface VariableDeclarationNode extends SourceSpan {
+  type: 'VariableDeclaration';
+  kind: 'const' | 'let' | 'var';
+  declarations: Array<{ id: IdentifierNode; init?: ExpressionNode }>;
+}
+
+export interface IfStatementNode extends SourceSpan {
+  type: 'IfStatement';
+  test: ExpressionNode;
+  consequent: StatementNode;
+  alternate?: StatementNode;
+}
+
+export interface ForOfStatementNode extends SourceSpan {
+  type: 'ForOfStatement';
+  kind: 'const' | 'let' | 'var';
+  id: IdentifierNode;
+  iterable: ExpressionNode;
+  body: StatementNode;
+}
+
+export interface ReturnStatementNode extends SourceSpan {
+  type: 'ReturnStatement';
+  argument?: ExpressionNode;
+}
+
+export interface ThrowStatementNode extends SourceSpan {
+  type: 'ThrowStatement';
+  argument: ExpressionNode;
+}
+
+export interface BlockStatementNode extends SourceSpan {
+  type: 'BlockStatement';
+  body: StatementNode[];
+}
+
+export interface ExpressionStatementNode extends SourceSpan {
+  type: 'ExpressionStatement';
+  expression: ExpressionNode;
+}
+
+export interface BreakStatementNode extends SourceSpan {
+  type: 'BreakStatement' | 'ContinueStatement';
+}
+
+export interface EmptyStatementNode extends SourceSpan {
+  type: 'EmptyStatement';
+}
+
+export type StatementNode =
+  | VariableDeclarationNode
+  | IfStatementNode
+  | ForOfStatementNode
+  | ReturnStatementNode
+  | ThrowStatementNode
+  | BlockStatementNode
+  | ExpressionStatementNode
+  | BreakStatementNode
+  | EmptyStatementNode;
+
+/**
+ * A parsed condition, formula or script. A single bare expression is a
+ * program with one ExpressionStatement.
+ */
+export interface ProgramNode extends SourceSpan {
+  type: 'Program';
+  body: StatementNode[];
+  source: string;
+}
+
+export type AstNode = ExpressionNode | StatementNode | ProgramNode;
+
+export type ExpressionFunction = (...args: any[]) => any;
+
+/**
+ * Options for a single evaluation
+ */
+export interface EvaluateOptions {
+  /** Extra functions callable by name, in addition to the built-in helpers */
+  functions?: Record<string, ExpressionFunction>;
+  /** Maximum number of evaluation steps before aborting (guards against runaway loops) */
+  maxSteps?: number;
+}
+
+/**
+ * Global engine settings
+ */
+export interface ExpressionEngineOptions {
+  /**
+   * Fall back to the legacy `new Function` evaluator when an expression uses
+   * syntax the sandboxed language does not support.
+   * Off by default - enabling it requires a CSP that allows 'unsafe-eval'.
+   */
+  allowLegacyEval: boolean;
+  /** Default step budget for every evaluation */
+  maxSteps: number;
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import type { BlockData, LocalizationMap } from '../types';
+import { parseBlocksFromClipboard, serializeBlocksForClipboard } from '../utils/blockClipboard';
+import { isEditableTarget } from '../utils/editableTarget';
+
+interface BlockClipboardOptions {
+  /** Blocks that Ctrl/Cmd+C copies; with none, the browser copies as usual */
+  getSelectedBlocks: () => BlockData[];
+  /** The survey's translations; copies carry the copied blocks' entries */
+  localizations?: LocalizationMap;
+  /** Blocks pasted with Ctrl/Cmd+V, as they were copied (uuids and field names unchanged), with their translations */
+  onPaste: (blocks: BlockData[], localizations: LocalizationMap) => void;
+  /** Ctrl/Cmd+X copied these blocks; remove them */
+  onCut?: (blocks: BlockData[]) => void;
+  /** Shortcuts only apply while focus is inside this element (or on the page body) */
+  containerRef?: RefObject<HTMLElement | null>;
+  enabled?: boolean;
+}
+
+/**
+ * Copies, cuts and pastes blocks through the system clipboard, so they can
+ * move between surveys and browser tabs. Also returns `copyBlocks` and
+ * `pasteBlocks` for toolbar buttons.
+ */
+export function useBlockClipboard({
+  getSelectedBlocks,
+  localizations,
+  onPaste,
+  onCut,
+  containerRef,
+  enabled = true,
+}: BlockClipboardOptions) {
+  // Refs keep the listeners stable across renders
+  const optionsRef = useRef({ getSelectedBlocks, localizations, onPaste, onCut });
+  optionsRef.current = { getSelectedBlocks, localizations, onPaste, onCut };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const isActive = () => {
+      const active = document.activeElement;
+      if (isEditableTarget(active)) return false;
+      if (!containerRef?.current || !active || active === document.body) return true;
+      return containerRef.current.contains(active);
+    };
+
+    const handleCopy = (event: ClipboardEvent, cut: boolean) => {
+      if (!isActive() || window.getSelection()?.toString()) return;
+      const blocks = optionsRef.current.getSelectedBlocks();
+      if (blocks.length === 0 || !event.clipboardData) return;
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', serializeBlocksForClipboard(blocks, optionsRef.current.localizations));
+      if (cut) optionsRef.current.onCut?.(blocks);
+    };
+    const handleCopyEvent = (event: ClipboardEvent) => handleCopy(event, false);
+    const handleCutEvent = (event: ClipboardEvent) => handleCopy(event, true);
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!isActive()) return;
+      const copied = parseBlocksFromClipboard(event.clipboardData?.getData('text/plain'));
+      if (!copied) return;
+      event.preventDefault();
+      optionsRef.current.onPaste(copied.blocks, copied.localizations);
+    };
+
+    document.addEventListener('copy', handleCopyEvent);
+    document.addEventListener('cut', handleCutEvent);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopyEvent);
+      document.removeEventListener('cut', handleCutEvent);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [enabled, containerRef]);
+
+  const copyBlocks = useCallback(async (blocks: BlockData[]) => {
+    try {
+      await navigator.clipboard.writeText(serializeBlocksForClipboard(blocks, optionsRef.current.localizations));
+    } catch (error) {
+      console.error('Error copying blocks to the clipboard:', error);
+    }
+  }, []);
+
+  const pasteBlocks = useCallback(async () => {
+    try {
+      const copied = parseBlocksFromClipboard(await navigator.clipboard.readText());
+      if (copied) optionsRef.current.onPaste(copied.blocks, copied.localizations);
+      else console.warn('The clipboard does not hold copied survey blocks');
+    } catch (error) {
+      console.error('Error reading blocks from the clipboard:', error);
+    }
+  }, []);
+
+  return { copyBlocks, pasteBlocks };
+}
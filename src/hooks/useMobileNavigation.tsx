@@ -2,6 +2,7 @@
 import React from 'react';
 import { useEffect, useState, useCallback } from 'react';
 import { MobileNavigationConfig } from '../types';
+import { useSurveyForm } from '../context/SurveyFormContext';
 
 // Hook to detect mobile devices
 export function useIsMobile() {
@@ -26,7 +27,9 @@ export function useIsMobile() {
   return isMobile;
 }
 
-// Hook for mobile-specific navigation features
+// Hook for mobile-specific navigation features.
+// onSwipeLeft/onSwipeRight are the forward/back gestures; with direction 'rtl' they're mirrored.
+// Direction follows the survey's language unless the config sets it
 export function useMobileNavigation(
   config: MobileNavigationConfig = {},
   onSwipeLeft?: () => void,
@@ -38,8 +41,10 @@ export function useMobileNavigation(
     enableDoubleTapToGoBack = true,
     showMobileBackButton = true,
     preventBrowserBack = true,
-    swipeThreshold = 50
+    swipeThreshold = 50,
   } = config;
+  const { direction: surveyDirection } = useSurveyForm();
+  const direction = config.direction ?? surveyDirection;
 
   const isMobile = useIsMobile();
   const [lastTap, setLastTap] = useState<number>(0);
@@ -72,18 +77,20 @@ export function useMobileNavigation(
 
     // Only trigger if horizontal swipe is dominant and exceeds threshold
     if (absDeltaX > absDeltaY && absDeltaX > swipeThreshold) {
-      if (deltaX > 0) {
-        // Swiped left (next)
+      // Right-to-left pages advance with a swipe to the right
+      const isForward = direction === 'rtl' ? deltaX < 0 : deltaX > 0;
+      if (isForward) {
+        // Swiped towards the start (next)
         onSwipeLeft?.();
       } else {
-        // Swiped right (previous)
+        // Swiped towards the end (previous)
         onSwipeRight?.();
       }
     }
 
     setTouchStart(null);
     setTouchEnd(null);
-  }, [enableSwipeNavigation, isMobile, touchStart, touchEnd, swipeThreshold, onSwipeLeft, onSwipeRight]);
+  }, [enableSwipeNavigation, isMobile, touchStart, touchEnd, swipeThreshold, direction, onSwipeLeft, onSwipeRight]);
 
   // Handle double tap
   const handleDoubleTap = useCallback((e: TouchEvent) => {
@@ -179,20 +186,20 @@ export function MobileNavigationHints({
       <div className="flex flex-col space-y-1">
         {showSwipeHint && (
           <div className="flex items-center">
-            <span className="mr-2">👆</span>
+            <span className="me-2">👆</span>
             Swipe left/right to navigate
           </div>
         )}
         {showDoubleTapHint && (
           <div className="flex items-center">
-            <span className="mr-2">👆👆</span>
+            <span className="me-2">👆👆</span>
             Double tap to go back
           </div>
         )}
       </div>
       <button 
         onClick={() => setShowHints(false)}
-        className="absolute top-1 right-2 text-white/70 hover:text-white"
+        className="absolute top-1 end-2 text-white/70 hover:text-white"
       >
         ×
       </button>
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { isEditableTarget } from '../utils/editableTarget';
+
+interface UndoRedoShortcutOptions {
+  undo: () => void;
+  redo: () => void;
+  /** Set to false while another editor (e.g. the flow builder sheet) handles the shortcuts */
+  enabled?: boolean;
+}
+
+/**
+ * Binds Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z / Ctrl+Y to redo
+ */
+export function useUndoRedoShortcuts({ undo, redo, enabled = true }: UndoRedoShortcutOptions) {
+  // Refs keep the listener stable across renders
+  const undoRef = useRef(undo);
+  const redoRef = useRef(redo);
+  undoRef.current = undo;
+  redoRef.current = redo;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        redoRef.current();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
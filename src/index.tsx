@@ -22,6 +22,7 @@ export { SurveyFormProvider, useSurveyForm } from './context/SurveyFormContext';
 // UI components for rendering
 export { DebugInfo } from './components/ui/DebugInfo';
 export { ValidationSummary } from './components/ui/ValidationSummary';
+export { SurveyEndScreen, hasEndScreen } from './components/ui/SurveyEndScreen';
 
 // Themes
 export {
@@ -33,6 +34,7 @@ export {
   corporateTheme,
   darkTheme,
   himsTheme,
+  logicalThemes,
 } from './themes';
 
 // Color utilities
@@ -59,15 +61,228 @@ export {
   detectSurveyMode
 } from './utils/surveyUtils';
 
+// Localization
+export {
+  DEFAULT_LANGUAGE,
+  DEFAULT_UI_STRINGS,
+  LOCALIZABLE_BLOCK_FIELDS,
+  localizeBlock,
+  createBlockLocalizer,
+  resolveLocalizedText,
+  translateUiString,
+  translateMessage,
+  getBlockLocalizationId,
+  collectLocalizationEntries,
+  getEntryTranslation,
+  getLocalizationCoverage
+} from './utils/localization';
+export type { LocalizationEntry, LanguageCoverage } from './utils/localization';
+export {
+  exportLocalizationsToCsv,
+  importLocalizationsFromCsv,
+  exportLocalizationsToXliff,
+  importLocalizationsFromXliff
+} from './utils/localizationFormats';
+export type { LocalizationImportResult } from './utils/localizationFormats';
+export {
+  formatMessage,
+  getMessageParam,
+  getMessageParamNames,
+  getMessageSyntaxError,
+  isMessageTemplate,
+} from './utils/messageFormat';
+export { PIPED_BLOCK_FIELDS, getPipedTexts, interpolateBlock } from './utils/piping';
+export type { PipedText } from './utils/piping';
+export {
+  getRepeaterChildBlock,
+  getRepeaterEntries,
+  getRepeaterFields,
+  getVisibleRepeaterChildren,
+  isRepeaterBlock,
+  validateRepeaterChild,
+  validateRepeaterValue,
+} from './utils/repeater';
+export type { RepeaterEntry, RepeaterValidationResult } from './utils/repeater';
+export {
+  formatMatrixValue,
+  getMatrixCellType,
+  getMatrixOutputSchema,
+  isChoiceMatrix,
+  isMatrixRowAnswered,
+  orderMatrixRows,
+  validateMatrixCell,
+  validateMatrixValue,
+} from './utils/matrix';
+export type { MatrixValidationResult } from './utils/matrix';
+export {
+  arrangeItems,
+  clearRandomizationSeed,
+  createRandomizationSeed,
+  createSeededRandom,
+  getLatinSquareOrder,
+  getSessionRandomizationSeed,
+  hashSeed,
+  randomizeSurvey,
+  resolveRandomizationSettings,
+  shuffleWithSeed,
+  storeRandomizationSeed,
+} from './utils/randomization';
+export type { RandomizationSettings, RandomizedSurvey } from './utils/randomization';
+export { createMemoryQuotaProvider, findFullQuota, getMatchedQuotas } from './utils/quotas';
+export {
+  calculateScore,
+  calculateScores,
+  findScoredBlocks,
+  getBlockScoreItems,
+  getScoreBand,
+  getScoreRange,
+  isScorableBlock,
+} from './utils/scoring';
+export type { ScoreRange } from './utils/scoring';
+export {
+  ENDING_BLOCK_TYPE,
+  SURVEY_OUTCOMES,
+  getEndingInfo,
+  getEndingRedirectUrl,
+  getEndingTarget,
+  isEndingBlock,
+  parseEndingTarget,
+} from './utils/outcomes';
+export {
+  carryForwardOptions,
+  filterOptionsBySearch,
+  getStaticOptions,
+  hasDynamicOptions,
+  isValueInOptions,
+} from './utils/optionSources';
+export {
+  RTL_LANGUAGES,
+  getLanguageDirection,
+  isRtlLanguage,
+  toLogicalClasses,
+  toLogicalTheme,
+} from './utils/direction';
+
+// Survey document versioning
+export {
+  migrateSurvey,
+  registerSurveyMigration,
+  getSurveySchemaVersion,
+  getDocumentSchemaVersion
+} from './utils/surveyMigrations';
+
+// Survey document JSON Schema and validation
+export {
+  generateSurveyJsonSchema,
+  getBlockConfigSchema,
+  validateSurveyDocument
+} from './utils/surveySchema';
+
+// Submission payload types
+export { generateSurveyResponseTypes } from './utils/responseTypes';
+export type { SurveyResponseTypes, SurveyResponseTypesOptions } from './utils/responseTypes';
+
+// Headless survey engine
+export { SurveyEngine } from './engine';
+export type {
+  SurveyEngineEventName,
+  SurveyEngineEvents,
+  SurveyEngineNavigateEvent,
+  SurveyEngineOptions,
+  SurveyEngineSnapshot,
+  SurveyEngineState,
+  SurveyEngineSubmitInfo,
+  SurveyEngineSurvey,
+  OptionsLoadState
+} from './engine';
+
+// Test scenarios and path coverage
+export {
+  analyzePathCoverage,
+  getCoverageScenarios,
+  runTestScenario,
+  runTestScenarios
+} from './engine';
+export type {
+  NavigationRuleCoverage,
+  PathCoverageDeadEnd,
+  PathCoverageOptions,
+  PathCoverageReport,
+  ScenarioRoute,
+  ScenarioRunOptions,
+  TestScenarioResult
+} from './engine';
+
+// Save-and-resume persistence
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createRestPersistenceAdapter,
+  saveSurveySnapshot,
+  loadSurveySnapshot,
+  clearSurveySnapshot,
+  useSurveyAutosave,
+  SubmissionOutbox,
+  createIndexedDBOutboxStorage,
+  createMemoryOutboxStorage
+} from './persistence';
+export type {
+  PersistedSurveySnapshot,
+  RestPersistenceAdapterOptions,
+  OutboxEntry,
+  SubmissionOutboxOptions,
+  SubmissionOutboxStorage,
+  SubmissionQueueState
+} from './persistence';
+
+// Server-side submission validation
+export { validateSubmission } from './utils/submissionValidation';
+export type {
+  SubmissionIssue,
+  SubmissionIssueCode,
+  SubmissionValidationOptions,
+  SubmissionValidationResult
+} from './utils/submissionValidation';
+
 // Conditional utilities
 export {
   evaluateCondition,
   evaluateSimpleCondition,
   isBlockVisible,
   executeCalculation,
-  calculateBMI
+  calculateBMI,
+  getEndingFromNavigationRules,
+  getMatchedNavigationRule
 } from './utils/conditionalUtils';
 
+// Expression language (conditions, formulas, scripts)
+export {
+  evaluateExpression,
+  compileExpression,
+  parseProgram,
+  parseExpression,
+  registerExpressionFunction,
+  unregisterExpressionFunction,
+  getExpressionFunctions,
+  setExpressionEngineOptions,
+  getExpressionEngineOptions,
+  ExpressionError,
+  isExpressionError
+} from './expressions';
+
+export type {
+  ProgramNode,
+  ExpressionNode,
+  StatementNode,
+  AstNode,
+  SourceSpan,
+  ExpressionFunction,
+  EvaluateOptions,
+  ExpressionEngineOptions,
+  ExpressionErrorCode
+} from './expressions';
+
 // Block adapter utilities
 export {
   blockTypeMap,
@@ -120,8 +335,10 @@ export type {
   VoiceSessionConfig,
 } from './renderer/layouts';
 
-// Block registry (needed for renderer to find block renderers)
+// Block registry (needed for renderer to find block renderers). StandardBlocks is
+// here too so Node scripts can validate, type and test surveys without the builder.
 export {
+  StandardBlocks,
   blockRegistry,
   getBlockDefinition,
   getAllBlockDefinitions,
@@ -149,15 +366,25 @@ export type {
   OutputSchemaScalar,
   OutputSchemaArray,
   OutputSchemaObject,
+  OutputSchemaProperty,
   OutputSchemaUnion,
 
   // Node types
   NodeDefinition,
   NodeData,
 
+  // Survey documents
+  SurveyDocument,
+  SurveyMigration,
+  SurveyValidationError,
+  SurveyValidationResult,
+  JsonSchema,
+  JsonSchemaType,
+
   // Theme types
   ThemeDefinition,
   SurveyTheme,
+  TextDirection,
 
   // Layout types
   LayoutDefinition,
@@ -175,6 +402,18 @@ export type {
   ProgressBarOptions,
   NavigationButtonsOptions,
   PageRendererProps,
+  NavigationHistoryEntry,
+  NavigationRuleRef,
+  TestPersona,
+  TestScenario,
+  BlockSnippet,
+  BlockSnippetStore,
+
+  // Save and resume
+  SurveyPersistenceAdapter,
+  SurveyPersistenceOptions,
+  SurveyResumePromptText,
+  SubmissionMeta,
 
   // Conditions and calculations
   ConditionOperator,
@@ -184,6 +423,32 @@ export type {
   CurrentValues,
   EvaluationResult,
 
+  // Choice options
+  ChoiceOption,
+  OptionsSource,
+  OptionsProvider,
+  OptionsProviderRequest,
+
+  // Matrix blocks
+  MatrixCellType,
+  MatrixRow,
+  MatrixColumn,
+
+  // Randomization
+  OrderMode,
+  SurveyRandomization,
+
+  // Scoring
+  ScoreDefinition,
+  ScoreBand,
+
+  // Quotas and endings
+  SurveyOutcome,
+  SurveyEndingScreen,
+  SurveyEndingInfo,
+  QuotaDefinition,
+  QuotaProvider,
+
   // Mobile and AB testing
   MobileNavigationConfig,
   SwipeDirection,
@@ -0,0 +1,139 @@
+import type { SurveyPersistenceAdapter } from '../types';
+
+const DEFAULT_PREFIX = 'survey_resume_';
+
+const getWebStorage = (type: 'localStorage' | 'sessionStorage'): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window[type] : null;
+  } catch {
+    // Accessing storage throws when it is disabled (e.g. blocked cookies)
+    return null;
+  }
+};
+
+const createWebStorageAdapter = (
+  type: 'localStorage' | 'sessionStorage',
+  prefix: string
+): SurveyPersistenceAdapter => ({
+  load: async (key) => getWebStorage(type)?.getItem(prefix + key) ?? null,
+  save: async (key, data) => {
+    getWebStorage(type)?.setItem(prefix + key, data);
+  },
+  remove: async (key) => {
+    getWebStorage(type)?.removeItem(prefix + key);
+  },
+});
+
+/**
+ * Keeps snapshots in localStorage - progress survives closing the browser
+ */
+export function createLocalStorageAdapter(options: { prefix?: string } = {}): SurveyPersistenceAdapter {
+  return createWebStorageAdapter('localStorage', options.prefix ?? DEFAULT_PREFIX);
+}
+
+/**
+ * Keeps snapshots in sessionStorage - progress survives reloads of the same tab
+ */
+export function createSessionStorageAdapter(options: { prefix?: string } = {}): SurveyPersistenceAdapter {
+  return createWebStorageAdapter('sessionStorage', options.prefix ?? DEFAULT_PREFIX);
+}
+
+/**
+ * Keeps snapshots in IndexedDB - for large answers (e.g. signatures) that
+ * exceed the web storage quota
+ */
+export function createIndexedDBAdapter(
+  options: { databaseName?: string; storeName?: string } = {}
+): SurveyPersistenceAdapter {
+  const databaseName = options.databaseName ?? 'survey-form';
+  const storeName = options.storeName ?? 'snapshots';
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    load: async (key) => (await run<string | undefined>('readonly', (store) => store.get(key))) ?? null,
+    save: async (key, data) => {
+      await run('readwrite', (store) => store.put(data, key));
+    },
+    remove: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+    },
+  };
+}
+
+export interface RestPersistenceAdapterOptions {
+  /** Base URL; snapshots live at `${baseUrl}/${encodeURIComponent(key)}` */
+  baseUrl?: string;
+  /** Builds the URL for a key instead of `baseUrl` */
+  url?: (key: string) => string;
+  /** Extra headers, e.g. authorization; may be async to refresh tokens */
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Custom fetch implementation @default globalThis.fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Keeps snapshots on a server. The endpoint answers GET with the stored text
+ * (404 when there is none), stores the body of PUT and deletes on DELETE.
+ */
+export function createRestPersistenceAdapter(options: RestPersistenceAdapterOptions): SurveyPersistenceAdapter {
+  const getUrl = (key: string) =>
+    options.url ? options.url(key) : `${(options.baseUrl || '').replace(/\/$/, '')}/${encodeURIComponent(key)}`;
+
+  const request = async (key: string, init: RequestInit): Promise<Response> => {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    const headers = typeof options.headers === 'function' ? await options.headers() : options.headers;
+    return fetchImpl(getUrl(key), { ...init, headers: { ...(headers || {}), ...(init.headers as Record<string, string>) } });
+  };
+
+  return {
+    load: async (key) => {
+      const response = await request(key, { method: 'GET' });
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Loading survey progress failed with status ${response.status}`);
+      return response.text();
+    },
+    save: async (key, data) => {
+      const response = await request(key, { method: 'PUT', body: data, headers: { 'Content-Type': 'text/plain' } });
+      if (!response.ok) throw new Error(`Saving survey progress failed with status ${response.status}`);
+    },
+    remove: async (key) => {
+      const response = await request(key, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`Removing survey progress failed with status ${response.status}`);
+      }
+    },
+  };
+}
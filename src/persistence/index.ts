@@ -0,0 +1,26 @@
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createIndexedDBAdapter,
+  createRestPersistenceAdapter,
+} from './adapters';
+export type { RestPersistenceAdapterOptions } from './adapters';
+export {
+  saveSurveySnapshot,
+  loadSurveySnapshot,
+  clearSurveySnapshot,
+  DEFAULT_SNAPSHOT_TTL_MS,
+} from './snapshots';
+export type { PersistedSurveySnapshot } from './snapshots';
+export { useSurveyAutosave } from './useSurveyAutosave';
+export {
+  SubmissionOutbox,
+  createIndexedDBOutboxStorage,
+  createMemoryOutboxStorage,
+} from './outbox';
+export type {
+  OutboxEntry,
+  SubmissionOutboxOptions,
+  SubmissionOutboxStorage,
+  SubmissionQueueState,
+} from './outbox';
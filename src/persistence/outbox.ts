@@ -0,0 +1,328 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SubmissionMeta } from '../types';
+
+/**
+ * Offline-first submission queue. Submissions are stored before they are sent
+ * and retried with exponential backoff until the host's `send` succeeds, so a
+ * respondent on a flaky connection never loses their answers.
+ */
+
+export interface OutboxEntry {
+  /** Also the idempotency key sent with every attempt */
+  id: string;
+  /** Queue the entry belongs to, so several surveys can share a database */
+  queue: string;
+  data: Record<string, any>;
+  /** Sent with every attempt, next to the idempotency key */
+  meta?: Omit<SubmissionMeta, 'idempotencyKey' | 'attempt'>;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface SubmissionOutboxStorage {
+  getAll: () => Promise<OutboxEntry[]>;
+  put: (entry: OutboxEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface SubmissionQueueState {
+  /** Submissions stored but not yet accepted by the server */
+  pending: number;
+  isSending: boolean;
+  isOnline: boolean;
+  lastError?: string;
+  /** When the next automatic retry happens (ms since epoch) */
+  nextRetryAt?: number;
+}
+
+export interface SubmissionOutboxOptions {
+  /** Delivers one submission; throw (or reject) to retry later */
+  send: (data: Record<string, any>, meta: SubmissionMeta) => void | Promise<void>;
+  /** @default IndexedDB, falling back to memory */
+  storage?: SubmissionOutboxStorage;
+  /** @default 'default' */
+  queue?: string;
+  /** First retry delay, doubled on every failure @default 1000 */
+  baseDelayMs?: number;
+  /** @default 5 minutes */
+  maxDelayMs?: number;
+}
+
+export function createMemoryOutboxStorage(): SubmissionOutboxStorage {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    getAll: async () => [...entries.values()],
+    put: async (entry) => {
+      entries.set(entry.id, entry);
+    },
+    remove: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+/**
+ * Stores pending submissions in IndexedDB so they survive reloads and crashes
+ */
+export function createIndexedDBOutboxStorage(
+  options: { databaseName?: string; storeName?: string } = {}
+): SubmissionOutboxStorage {
+  const databaseName = options.databaseName ?? 'survey-form-outbox';
+  const storeName = options.storeName ?? 'submissions';
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getAll: () => run<OutboxEntry[]>('readonly', (store) => store.getAll()),
+    put: async (entry) => {
+      await run('readwrite', (store) => store.put(entry));
+    },
+    remove: async (id) => {
+      await run('readwrite', (store) => store.delete(id));
+    },
+  };
+}
+
+/**
+ * IndexedDB storage that switches to memory the first time IndexedDB fails
+ * (private browsing, disabled storage, SSR)
+ */
+function createDefaultOutboxStorage(): SubmissionOutboxStorage {
+  const memory = createMemoryOutboxStorage();
+  let storage = createIndexedDBOutboxStorage();
+  let usingMemory = false;
+
+  const withFallback = <A extends any[], R>(method: (target: SubmissionOutboxStorage) => (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      if (!usingMemory) {
+        try {
+          return await method(storage)(...args);
+        } catch (error) {
+          console.warn('Submission outbox: IndexedDB unavailable, keeping submissions in memory', error);
+          usingMemory = true;
+          storage = memory;
+        }
+      }
+      return method(memory)(...args);
+    };
+
+  return {
+    getAll: withFallback((target) => target.getAll),
+    put: withFallback((target) => target.put),
+    remove: withFallback((target) => target.remove),
+  };
+}
+
+const isBrowserOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export class SubmissionOutbox {
+  private options: SubmissionOutboxOptions;
+  private storage: SubmissionOutboxStorage;
+  private queue: string;
+  private state: SubmissionQueueState;
+  private listeners = new Set<() => void>();
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+  private started = false;
+
+  constructor(options: SubmissionOutboxOptions) {
+    this.options = options;
+    this.storage = options.storage ?? createDefaultOutboxStorage();
+    this.queue = options.queue ?? 'default';
+    this.state = { pending: 0, isSending: false, isOnline: isBrowserOnline() };
+  }
+
+  /**
+   * Replaces the delivery function, e.g. when the host re-renders with a new `onSubmit`
+   */
+  setSend(send: SubmissionOutboxOptions['send']): void {
+    this.options = { ...this.options, send };
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getState = (): SubmissionQueueState => this.state;
+
+  private setState(partial: Partial<SubmissionQueueState>): void {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private handleOnline = () => {
+    this.setState({ isOnline: true });
+    void this.flush({ force: true });
+  };
+
+  private handleOffline = () => {
+    this.setState({ isOnline: false });
+  };
+
+  /**
+   * Starts listening for connectivity changes and sends submissions left over
+   * from earlier sessions
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+    void this.flush();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async getEntries(): Promise<OutboxEntry[]> {
+    const entries = await this.storage.getAll();
+    return entries
+      .filter((entry) => entry.queue === this.queue)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Stores a submission and makes the first delivery attempt. A failed attempt
+   * doesn't reject - the submission stays queued for a retry.
+   */
+  async enqueue(data: Record<string, any>, meta?: OutboxEntry['meta']): Promise<OutboxEntry> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      id: uuidv4(),
+      queue: this.queue,
+      data,
+      meta,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+
+    await this.storage.put(entry);
+    this.setState({ pending: this.state.pending + 1 });
+    await this.flush();
+    return entry;
+  }
+
+  /**
+   * Sends every submission that is due. `force` ignores the backoff, e.g. for
+   * a "retry now" button.
+   */
+  flush(options: { force?: boolean } = {}): Promise<void> {
+    // Queue behind a running flush so entries are never sent twice in parallel
+    const previous = this.flushing ?? Promise.resolve();
+    const run = previous.then(() => this.sendDueEntries(!!options.force));
+    this.flushing = run.finally(() => {
+      if (this.flushing === run) this.flushing = null;
+    });
+    return run;
+  }
+
+  private async sendDueEntries(force: boolean): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    let entries: OutboxEntry[];
+    try {
+      entries = await this.getEntries();
+    } catch (error) {
+      console.error('Error reading submission outbox:', error);
+      return;
+    }
+
+    const isOnline = isBrowserOnline();
+    if (!isOnline || entries.length === 0) {
+      this.setState({ pending: entries.length, isOnline, nextRetryAt: undefined });
+      return;
+    }
+
+    this.setState({ pending: entries.length, isOnline, isSending: true });
+    let lastError: string | undefined;
+
+    for (const entry of entries) {
+      if (!force && entry.nextAttemptAt > Date.now()) continue;
+
+      const attempt = entry.attempts + 1;
+      try {
+        await this.options.send(entry.data, { ...entry.meta, idempotencyKey: entry.id, attempt });
+        await this.storage.remove(entry.id);
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        console.error('Error sending queued submission:', error);
+        await this.storage.put({
+          ...entry,
+          attempts: attempt,
+          nextAttemptAt: Date.now() + this.getRetryDelay(attempt),
+          lastError,
+        });
+      }
+    }
+
+    const remaining = await this.getEntries().catch(() => []);
+    const nextRetryAt = remaining.length > 0 ? Math.min(...remaining.map((entry) => entry.nextAttemptAt)) : undefined;
+    this.setState({
+      pending: remaining.length,
+      isSending: false,
+      lastError: remaining.length > 0 ? lastError ?? this.state.lastError : undefined,
+      nextRetryAt,
+    });
+
+    if (nextRetryAt !== undefined && this.started) {
+      this.retryTimer = setTimeout(() => void this.flush(), Math.max(0, nextRetryAt - Date.now()));
+    }
+  }
+
+  // Exponential backoff with jitter, so many clients coming back online don't retry in lockstep
+  private getRetryDelay(attempt: number): number {
+    const baseDelayMs = this.options.baseDelayMs ?? 1000;
+    const maxDelayMs = this.options.maxDelayMs ?? 5 * 60 * 1000;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+}
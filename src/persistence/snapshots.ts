@@ -0,0 +1,73 @@
+import type { SurveyPersistenceOptions } from '../types';
+import type { SurveyEngineSnapshot } from '../engine';
+import { getABTestAssignments } from '../utils/abTestUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_SNAPSHOT_TTL_MS = 7 * DAY_MS;
+
+/**
+ * What gets stored for a respondent: the engine snapshot plus the A/B variants
+ * they were shown, so a resumed survey looks the same
+ */
+export interface PersistedSurveySnapshot extends SurveyEngineSnapshot {
+  savedAt: number;
+  expiresAt?: number;
+  abTestAssignments?: Record<string, string>;
+}
+
+/**
+ * Serializes, encodes and saves a snapshot. Failures are logged, not thrown -
+ * autosave must never break the survey.
+ */
+export async function saveSurveySnapshot(
+  options: SurveyPersistenceOptions,
+  snapshot: SurveyEngineSnapshot
+): Promise<void> {
+  const ttlMs = options.ttlMs ?? DEFAULT_SNAPSHOT_TTL_MS;
+  const savedAt = Date.now();
+  const persisted: PersistedSurveySnapshot = {
+    ...snapshot,
+    savedAt,
+    expiresAt: ttlMs > 0 ? savedAt + ttlMs : undefined,
+    abTestAssignments: getABTestAssignments(),
+  };
+
+  try {
+    const json = JSON.stringify(persisted);
+    await options.adapter.save(options.key, options.encode ? await options.encode(json) : json);
+  } catch (error) {
+    console.error('Error saving survey progress:', error);
+  }
+}
+
+/**
+ * Loads the saved snapshot, or null if there is none, it has expired or it
+ * can't be read
+ */
+export async function loadSurveySnapshot(options: SurveyPersistenceOptions): Promise<PersistedSurveySnapshot | null> {
+  try {
+    const stored = await options.adapter.load(options.key);
+    if (!stored) return null;
+
+    const snapshot: PersistedSurveySnapshot = JSON.parse(options.decode ? await options.decode(stored) : stored);
+    if (!snapshot || typeof snapshot !== 'object' || !snapshot.values) return null;
+
+    if (snapshot.expiresAt && snapshot.expiresAt < Date.now()) {
+      await clearSurveySnapshot(options);
+      return null;
+    }
+
+    return snapshot;
+  } catch (error) {
+    console.error('Error loading survey progress:', error);
+    return null;
+  }
+}
+
+export async function clearSurveySnapshot(options: SurveyPersistenceOptions): Promise<void> {
+  try {
+    await options.adapter.remove(options.key);
+  } catch (error) {
+    console.error('Error clearing survey progress:', error);
+  }
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef } from 'react';
+import type { SurveyPersistenceOptions } from '../types';
+import type { SurveyEngine } from '../engine';
+import { clearSurveySnapshot, saveSurveySnapshot } from './snapshots';
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Saves the engine's snapshot after answers or position change (debounced),
+ * flushes pending saves when the page is hidden and clears the snapshot once
+ * the survey ends. A submission that fails keeps the snapshot and autosave going.
+ */
+export function useSurveyAutosave(engine: SurveyEngine | null, options: SurveyPersistenceOptions | undefined) {
+  // Ref keeps the listeners stable when the options object is recreated
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const enabled = !!engine && !!options;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let ended = false;
+    // Saves run one after another so the clear on 'end' can't be overtaken by an older save
+    let saving: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (!ended && optionsRef.current) {
+        const options = optionsRef.current;
+        const snapshot = engine.serialize();
+        saving = saving.then(() => saveSurveySnapshot(options, snapshot));
+      }
+    };
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, optionsRef.current?.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    };
+
+    // 'end' only fires after onSubmit delivered the answers
+    const handleEnd = () => {
+      ended = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      if (optionsRef.current && optionsRef.current.clearOnSubmit !== false) {
+        const options = optionsRef.current;
+        saving = saving.then(() => clearSurveySnapshot(options));
+      }
+    };
+
+    const handlePageHide = () => {
+      if (timer) flush();
+    };
+
+    const unsubscribers = [
+      engine.on('values', schedule),
+      engine.on('history', schedule),
+      engine.on('end', handleEnd),
+    ];
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      window.removeEventListener('pagehide', handlePageHide);
+      if (timer) flush();
+    };
+  }, [engine, enabled]);
+}
@@ -1,27 +1,60 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import type { SurveyFormRendererProps } from '../types';
-import { SurveyFormProvider } from '../context/SurveyFormContext';
+import { SurveyFormProvider, useSurveyForm } from '../context/SurveyFormContext';
 import { getLayoutComponent } from './layouts';
 import { themes } from '../themes';
 import { applyDynamicColors } from '../utils/colorUtils';
 import { useFontLoader, getFontCSSProperties } from '../utils/fontLoader';
 import { SurveyAnalyticsProvider } from '../analytics';
 import type { AnalyticsConfig } from '../analytics';
+import { migrateSurvey } from '../utils/surveyMigrations';
+import { clearSurveySnapshot, loadSurveySnapshot } from '../persistence/snapshots';
+import type { PersistedSurveySnapshot } from '../persistence/snapshots';
+import { restoreABTestAssignments } from '../utils/abTestUtils';
+import { ResumePrompt } from '../components/ui/ResumePrompt';
+import { SurveyEndScreen, hasEndScreen } from '../components/ui/SurveyEndScreen';
+import { getLanguageDirection, toLogicalClasses } from '../utils/direction';
 
 // Import the theme isolation CSS
 import '../styles/survey-theme-isolation.css';
 
+// Follows the engine's language, which can change after the form mounts
+const SurveyDirection: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { direction } = useSurveyForm();
+  return (
+    <div dir={direction} className="contents">
+      {children}
+    </div>
+  );
+};
+
+// Once the survey ends on an ending block, a screen-out, over-quota or configured ending, its end page replaces the layout
+const SurveyEnding: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { outcome, ending, engine, surveyData } = useSurveyForm();
+  if (hasEndScreen(outcome, surveyData.rootNode.endings, ending)) {
+    return <SurveyEndScreen outcome={outcome!} block={engine?.getEndingBlock()} />;
+  }
+  return <>{children}</>;
+};
+
 export const SurveyForm: React.FC<SurveyFormRendererProps> = ({
-  survey,
+  survey: surveyDocument,
   onSubmit,
+  outbox,
+  randomization,
+  quotaProvider,
   onChange,
   onPageChange,
   onNavigationHistoryChange,
+  onStateChange,
   defaultValues = {},
   initialValues,
   startPage = 0,
+  startBlockId,
   initialNavigationHistory,
+  persistence,
   language = 'en',
+  dir = 'auto',
   progressBar = true,
   navigationButtons = {
     showPrevious: true,
@@ -48,6 +81,50 @@ export const SurveyForm: React.FC<SurveyFormRendererProps> = ({
   customData,
   mode,
 }) => {
+  // Upgrade documents saved with an older schema version
+  const survey = React.useMemo(
+    () => migrateSurvey(surveyDocument),
+    [surveyDocument]
+  );
+
+  // Saved progress is loaded before the survey mounts, so the engine starts from it
+  const [resumeState, setResumeState] = useState<{
+    status: 'loading' | 'prompt' | 'ready';
+    snapshot?: PersistedSurveySnapshot;
+  }>(() => ({ status: persistence ? 'loading' : 'ready' }));
+
+  const resumeFromSnapshot = (snapshot: PersistedSurveySnapshot) => {
+    restoreABTestAssignments(snapshot.abTestAssignments);
+    setResumeState({ status: 'ready', snapshot });
+  };
+
+  useEffect(() => {
+    if (!persistence) return;
+    let cancelled = false;
+
+    loadSurveySnapshot(persistence).then((snapshot) => {
+      if (cancelled) return;
+      if (!snapshot) {
+        setResumeState({ status: 'ready' });
+      } else if (persistence.resumePrompt === false) {
+        resumeFromSnapshot(snapshot);
+      } else {
+        setResumeState({ status: 'prompt', snapshot });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [persistence?.key]);
+
+  const handleStartOver = () => {
+    if (persistence) {
+      void clearSurveySnapshot(persistence);
+    }
+    setResumeState({ status: 'ready' });
+  };
+
   // Track render count to diagnose re-render issues
   const renderCountRef = React.useRef(0);
   const mountIdRef = React.useRef(Math.random().toString(36).substr(2, 9));
@@ -181,11 +258,12 @@ export const SurveyForm: React.FC<SurveyFormRendererProps> = ({
   }, [themeMode]);
 
   // Enhanced container class with better mobile responsiveness - memoize to prevent recreation
-  const containerClass = React.useMemo(
-    () =>
-      `survey-form-container w-full ${themeConfig.containerLayout} antialiased ${className}`,
-    [themeConfig.containerLayout, className]
-  );
+  const direction = dir === 'auto' ? getLanguageDirection(language) : dir;
+
+  const containerClass = React.useMemo(() => {
+    const classes = `survey-form-container w-full ${themeConfig.containerLayout} antialiased ${className}`;
+    return direction === 'rtl' ? toLogicalClasses(classes) : classes;
+  }, [themeConfig.containerLayout, className, direction]);
 
   // Get the layout component to use
   const LayoutComponent = React.useMemo(() => {
@@ -274,32 +352,55 @@ export const SurveyForm: React.FC<SurveyFormRendererProps> = ({
     <div
       className={`relative survey-theme-container ${themeClass} flex-1 min-h-screen flex flex-col`}
       style={surveyThemeStyle}
+      dir={direction}
     >
       <div className="survey-isolated-content flex-1 flex flex-col min-h-screen">
         <div
           className={`${containerClass} ${themeConfig.background} flex flex-col flex-1 min-h-screen`}
         >
-          <SurveyFormProvider
-            surveyData={survey}
-            defaultValues={defaultValues}
-            initialValues={initialValues}
-            startPage={startPage}
-            initialNavigationHistory={initialNavigationHistory}
-            onSubmit={onSubmit}
-            onChange={onChange}
-            onPageChange={onPageChange}
-            onNavigationHistoryChange={onNavigationHistoryChange}
-            enableDebug={enableDebug}
-            language={language}
-            theme={themeConfig}
-            logo={logo}
-            abTestPreviewMode={abTestPreviewMode}
-            analytics={analytics}
-            customData={customData}
-            mode={mode ?? survey.mode}
-          >
-            <LayoutComponent {...layoutProps} />
-          </SurveyFormProvider>
+          {resumeState.status === 'prompt' && resumeState.snapshot && (
+            <ResumePrompt
+              savedAt={resumeState.snapshot.savedAt}
+              text={typeof persistence?.resumePrompt === 'object' ? persistence.resumePrompt : undefined}
+              onResume={() => resumeFromSnapshot(resumeState.snapshot!)}
+              onStartOver={handleStartOver}
+            />
+          )}
+          {resumeState.status === 'ready' && (
+            <SurveyFormProvider
+              surveyData={survey}
+              defaultValues={defaultValues}
+              initialValues={initialValues}
+              startPage={startPage}
+              startBlockId={startBlockId}
+              initialNavigationHistory={initialNavigationHistory}
+              initialSnapshot={resumeState.snapshot}
+              persistence={persistence}
+              onSubmit={onSubmit}
+              outbox={outbox}
+              randomization={randomization}
+              quotaProvider={quotaProvider}
+              onChange={onChange}
+              onPageChange={onPageChange}
+              onNavigationHistoryChange={onNavigationHistoryChange}
+              onStateChange={onStateChange}
+              enableDebug={enableDebug}
+              language={language}
+              dir={dir}
+              theme={themeConfig}
+              logo={logo}
+              abTestPreviewMode={abTestPreviewMode}
+              analytics={analytics}
+              customData={customData}
+              mode={mode ?? survey.mode}
+            >
+              <SurveyDirection>
+                <SurveyEnding>
+                  <LayoutComponent {...layoutProps} />
+                </SurveyEnding>
+              </SurveyDirection>
+            </SurveyFormProvider>
+          )}
         </div>
       </div>
     </div>
@@ -24,8 +24,8 @@ export const AnalyticsTrackedLayout: React.FC<AnalyticsTrackedLayoutProps> = ({
     totalPages,
     values,
     errors,
-    isSubmitting,
-    surveyData
+    surveyData,
+    engine
   } = useSurveyForm();
 
   const {
@@ -267,11 +267,16 @@ export const AnalyticsTrackedLayout: React.FC<AnalyticsTrackedLayoutProps> = ({
     };
   }, [currentPage, totalPages, values, isEnabled, trackSurveyAbandon]);
 
-  // Track survey completion
+  // Track survey completion once the survey has ended, with the outcome and ending reached.
+  // Subscribed to the engine since an end screen may replace this layout in the same render.
   const hasCompletedRef = useRef(false);
 
   useEffect(() => {
-    if (isEnabled && isSubmitting && !hasCompletedRef.current && Object.keys(values).length > 0) {
+    if (!isEnabled || !engine) return;
+
+    return engine.on('end', (outcome, ending) => {
+      const responses = engine.getState().values;
+      if (hasCompletedRef.current || Object.keys(responses).length === 0) return;
       hasCompletedRef.current = true;
 
       // Calculate completion metrics
@@ -285,15 +290,19 @@ export const AnalyticsTrackedLayout: React.FC<AnalyticsTrackedLayoutProps> = ({
         completedPages,
         totalPages,
         completionRate,
-        responsesCollected: Object.keys(values).length,
-        responses: values,
-        timestamp: new Date().toISOString()
+        responsesCollected: Object.keys(responses).length,
+        responses,
+        timestamp: new Date().toISOString(),
+        outcome,
+        endingId: ending?.id,
+        endingName: ending?.name,
+        outcomeCode: ending?.code
       });
 
       // Set a flag to prevent abandon tracking
       (window as any).surveyCompleted = true;
-    }
-  }, [isSubmitting, isEnabled, trackSurveyComplete, values, currentPage, totalPages]);
+    });
+  }, [engine, isEnabled, trackSurveyComplete, currentPage, totalPages]);
 
   return <>{children}</>;
 };
\ No newline at end of file
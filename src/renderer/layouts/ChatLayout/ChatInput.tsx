@@ -8,6 +8,7 @@ import type {
   BlockDefinition,
 } from '../../../types';
 import { getBlockDefinition } from '../../../blocks';
+import { useSurveyForm } from '../../../context/SurveyFormContext';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Textarea } from '../../../components/ui/textarea';
@@ -51,9 +52,11 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   onSubmit,
   theme,
   disabled = false,
-  placeholder = 'Type your answer...',
+  placeholder: propPlaceholder,
   error,
 }) => {
+  const { t } = useSurveyForm();
+  const placeholder = propPlaceholder || t('ui.answerPlaceholder');
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [localValue, setLocalValue] = useState(value ?? '');
@@ -423,7 +426,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
                 : undefined
             }
           >
-            <span className="inline-block">Continue</span>
+            <span className="inline-block">{t('ui.continue')}</span>
             <Send className="w-3 h-3 lg:w-4 lg:h-4" />
           </Button>
         </div>
@@ -477,7 +480,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         <Send className="w-7 h-7 text-white" />
       </Button>
       {error && (
-        <p className="absolute -bottom-6 left-0 text-sm text-red-500">
+        <p className="absolute -bottom-6 start-0 text-sm text-red-500">
           {error}
         </p>
       )}
@@ -2,7 +2,6 @@ import React, { useEffect, useCallback, useState, useRef } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { cn } from '../../../lib/utils';
 import { useSurveyForm } from '../../../context/SurveyFormContext';
-import { getSurveyPages, detectSurveyMode } from '../../../utils/surveyUtils';
 import { getBlockDefinition } from '../../../blocks';
 import type { BlockData, BlockDefinition } from '../../../types';
 import type {
@@ -18,6 +17,8 @@ import { ChatInput } from './ChatInput';
 import { ChatMultiFieldInput } from './ChatMultiFieldInput';
 import { UnreadIndicator } from './UnreadIndicator';
 import { useChatMessages } from './hooks/useChatMessages';
+import { useRepeaterConversation } from './hooks/useRepeaterConversation';
+import { isRepeaterBlock } from '../../../utils/repeater';
 import { useAutoScroll } from './hooks/useAutoScroll';
 import {
   defaultAIHandler,
@@ -87,7 +88,7 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
   progressBar = { type: 'bar', position: 'top' },
   welcomeMessage: propWelcomeMessage,
   showTimestamps = false,
-  inputPlaceholder = 'Type your answer...',
+  inputPlaceholder: propInputPlaceholder,
   autoScrollToBottom = true,
   chatContainerClassName,
 }) => {
@@ -100,11 +101,13 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
     goToNextBlock,
     isSubmitting,
     theme,
-    surveyData,
     customData,
     getVisibleBlocks,
     getTotalVisibleSteps,
     getCurrentStepPosition,
+    engine,
+    t,
+    localizeBlock,
   } = useSurveyForm();
 
   // Get chat configuration from customData
@@ -113,7 +116,8 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
   const welcomeMessage =
     propWelcomeMessage ||
     chatCustomData?.welcomeMessage ||
-    "Hi! I'm here to help you complete this survey. Let's get started!";
+    t('ui.chat.welcome');
+  const inputPlaceholder = propInputPlaceholder || t('ui.answerPlaceholder');
   const typingDelay = chatCustomData?.typingDelay ?? 500;
 
   // Chat state
@@ -145,15 +149,27 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
     blockDefinition: null,
   });
 
+  // Repeater blocks are asked entry by entry, then finish like any other block
+  const repeater = useRepeaterConversation({
+    addMessage,
+    t,
+    values,
+    onComplete: (block, entries) => {
+      const fieldName = block.fieldName || block.name || '';
+      setValue(fieldName, entries);
+      goToNextBlock({ [fieldName]: entries });
+    },
+  });
+
   // Get current block info
-  const surveyMode = detectSurveyMode(surveyData.rootNode);
-  const pages = getSurveyPages(surveyData.rootNode, surveyMode);
+  const pages = engine?.getPages() || [];
   const currentPageBlocks =
     currentPage < pages.length ? pages[currentPage] : [];
   const visibleBlocks = getVisibleBlocks(currentPageBlocks);
-  const currentBlock = visibleBlocks[currentBlockIndex] as
-    | BlockData
-    | undefined;
+  // Questions, options and prompts are shown in the respondent's language
+  const currentBlock = visibleBlocks[currentBlockIndex]
+    ? localizeBlock(visibleBlocks[currentBlockIndex] as BlockData)
+    : undefined;
 
   // Calculate total questions for context
   const totalQuestions =
@@ -292,6 +308,19 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
         return;
       }
 
+      if (isRepeaterBlock(block)) {
+        addMessage({
+          role: 'assistant',
+          content: block.label || block.name || t('ui.answerPrompt'),
+          blockId,
+          blockType: block.type,
+          originalQuestion: block.label,
+        });
+        repeater.start(block);
+        setQuestionReady(true);
+        return;
+      }
+
       // Check if this block has a chatRenderer - if so, skip inputSchema handling
       // and let ChatInput render the custom chatRenderer
       const { inputSchema, definition } = getBlockInputSchema(block);
@@ -364,7 +393,7 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
       } catch (error) {
         console.error('Error generating AI question:', error);
         updateMessage(loadingId, {
-          content: block.label || block.name || 'Please answer this question:',
+          content: block.label || block.name || `${t('ui.answerPrompt')}:`,
           isLoading: false,
           originalQuestion: block.label,
         });
@@ -387,12 +416,13 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
       getBlockInputSchema,
       generateFieldQuestion,
       goToNextBlock,
+      repeater.start,
     ]
   );
 
   // Watch for block changes and generate questions
   useEffect(() => {
-    if (currentBlock && !isComplete && !multiFieldState.isActive) {
+    if (currentBlock && !isComplete && !multiFieldState.isActive && !repeater.isActive) {
       generateQuestion(currentBlock);
     }
   }, [
@@ -400,6 +430,7 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
     currentBlock?.fieldName,
     isComplete,
     multiFieldState.isActive,
+    repeater.isActive,
     generateQuestion,
   ]);
 
@@ -416,8 +447,7 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
       setIsComplete(true);
       addMessage({
         role: 'assistant',
-        content:
-          'Thank you for completing the survey! Your responses have been recorded.',
+        content: t('ui.chat.completion'),
       });
     }
   }, [isSubmitting, isComplete, addMessage]);
@@ -722,6 +752,18 @@ export const ChatLayout: React.FC<ChatLayoutProps> = ({
               disabled={isSubmitting}
               placeholder={inputPlaceholder}
             />
+          ) : repeater.isActive && repeater.inputBlock ? (
+            <ChatInput
+              key={repeater.inputKey}
+              block={repeater.inputBlock}
+              value={repeater.value}
+              onChange={repeater.handleChange}
+              onSubmit={repeater.handleSubmit}
+              theme={theme}
+              disabled={isSubmitting}
+              placeholder={inputPlaceholder}
+              error={repeater.error}
+            />
           ) : (
             <ChatInput
               block={currentBlock}
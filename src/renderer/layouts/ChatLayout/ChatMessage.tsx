@@ -78,8 +78,8 @@ export const ChatMessageComponent: React.FC<ChatMessageProps> = ({
         className={cn(
           'max-w-[85%] px-4 py-3 rounded-2xl',
           isAssistant
-            ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md'
-            : 'text-white rounded-br-md',
+            ? 'bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-es-md'
+            : 'text-white rounded-ee-md',
           !isAssistant &&
             (theme?.colors?.primary
               ? `bg-[${theme.colors.primary}]`
@@ -153,7 +153,7 @@ export const SchemaBasedInput: React.FC<SchemaBasedInputProps> = ({
           <Send className="w-5 h-5" />
         </Button>
         {error && (
-          <p className="absolute -bottom-6 left-0 text-sm text-red-500">{error}</p>
+          <p className="absolute -bottom-6 start-0 text-sm text-red-500">{error}</p>
         )}
       </div>
     );
@@ -183,7 +183,7 @@ export const SchemaBasedInput: React.FC<SchemaBasedInputProps> = ({
             <div key={fieldName} className="space-y-2">
               <Label className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 {fieldDef.description || fieldName}
-                {isRequired && <span className="text-red-500 ml-1">*</span>}
+                {isRequired && <span className="text-red-500 ms-1">*</span>}
               </Label>
 
               {fieldDef.type === 'boolean' ? (
@@ -232,7 +232,7 @@ export const SchemaBasedInput: React.FC<SchemaBasedInputProps> = ({
                 : undefined
             }
           >
-            <Send className="w-4 h-4 mr-2" />
+            <Send className="w-4 h-4 me-2" />
             Submit
           </Button>
         </div>
@@ -285,7 +285,7 @@ export const SchemaBasedInput: React.FC<SchemaBasedInputProps> = ({
           <Send className="w-5 h-5" />
         </Button>
         {error && (
-          <p className="absolute -bottom-6 left-0 text-sm text-red-500">{error}</p>
+          <p className="absolute -bottom-6 start-0 text-sm text-red-500">{error}</p>
         )}
       </div>
     );
@@ -23,7 +23,7 @@ export const TypingIndicator: React.FC<TypingIndicatorProps> = ({ className }) =
   return (
     <div
       className={cn(
-        'flex items-center gap-1 px-4 py-3 bg-gray-100 dark:bg-gray-800 rounded-2xl rounded-bl-md w-fit',
+        'flex items-center gap-1 px-4 py-3 bg-gray-100 dark:bg-gray-800 rounded-2xl rounded-es-md w-fit',
         className
       )}
     >
@@ -0,0 +1,202 @@
+import { useState, useCallback } from 'react';
+import type { BlockData } from '../../../../types';
+import type { ChatMessage } from '../types';
+import { getBlockDefinition } from '../../../../blocks';
+import {
+  getRepeaterChildBlock,
+  getVisibleRepeaterChildren,
+  validateRepeaterChild,
+  type RepeaterEntry,
+} from '../../../../utils/repeater';
+import { formatResponseForDisplay } from '../utils/defaultAIHandler';
+
+const ADD_ENTRY = 'add';
+const DONE = 'done';
+
+interface RepeaterConversationState {
+  block: BlockData | null;
+  /** Completed entries */
+  entries: RepeaterEntry[];
+  /** Answers of the entry being asked */
+  entry: RepeaterEntry;
+  /** False while asking whether to add an entry */
+  askingEntry: boolean;
+  value?: any;
+  error?: string;
+}
+
+interface UseRepeaterConversationOptions {
+  addMessage: (message: Omit<ChatMessage, 'id' | 'timestamp'>) => string;
+  /** Called with every entry once the respondent is done */
+  onComplete: (block: BlockData, entries: RepeaterEntry[]) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  values: Record<string, any>;
+}
+
+export interface UseRepeaterConversationReturn {
+  isActive: boolean;
+  /** Starts the loop for a repeater block */
+  start: (block: BlockData) => void;
+  /** The block to render in the input area: a template child, or the "add another?" choice */
+  inputBlock: BlockData | null;
+  /** Changes whenever a new question is asked, to remount the input */
+  inputKey: string;
+  value: any;
+  error?: string;
+  handleChange: (value: any) => void;
+  handleSubmit: (value?: any) => void;
+}
+
+const INITIAL_STATE: RepeaterConversationState = {
+  block: null,
+  entries: [],
+  entry: {},
+  askingEntry: false,
+};
+
+// The next question of the entry: the first visible child it has no answer for
+const getPendingChild = (block: BlockData, entry: RepeaterEntry, values: Record<string, any>) =>
+  getVisibleRepeaterChildren(block, entry, values).find(
+    (child) => child.fieldName && !Object.prototype.hasOwnProperty.call(entry, child.fieldName)
+  );
+
+/**
+ * Asks a repeater block as a looped sub-conversation: every template question
+ * for an entry, then whether to add another, until the respondent is done or
+ * `maxItems` is reached
+ */
+export function useRepeaterConversation({
+  addMessage,
+  onComplete,
+  t,
+  values,
+}: UseRepeaterConversationOptions): UseRepeaterConversationReturn {
+  const [state, setState] = useState<RepeaterConversationState>(INITIAL_STATE);
+  const { block } = state;
+
+  const itemLabel = (repeater: BlockData) => repeater.itemLabel || 'Entry';
+
+  // Asks the next visible question of the entry, or wraps the entry up
+  const ask = useCallback(
+    (next: RepeaterConversationState) => {
+      const repeater = next.block!;
+      const child = next.askingEntry ? getPendingChild(repeater, next.entry, values) : undefined;
+
+      if (child) {
+        const title = t('ui.repeater.entry', { item: itemLabel(repeater), number: next.entries.length + 1 });
+        const question = child.label || child.fieldName;
+        addMessage({
+          role: 'assistant',
+          content: Object.keys(next.entry).length === 0 ? `${title}: ${question}` : question,
+          blockId: `${repeater.uuid || repeater.fieldName}-${next.entries.length}-${child.fieldName}`,
+          blockType: child.type,
+          originalQuestion: child.label,
+        });
+        setState({ ...next, value: undefined, error: undefined });
+        return;
+      }
+
+      const entries = next.askingEntry ? [...next.entries, next.entry] : next.entries;
+      if (repeater.maxItems && entries.length >= repeater.maxItems) {
+        setState(INITIAL_STATE);
+        onComplete(repeater, entries);
+        return;
+      }
+      if (entries.length < (repeater.minItems || 0)) {
+        ask({ block: repeater, entries, entry: {}, askingEntry: true });
+        return;
+      }
+
+      addMessage({
+        role: 'assistant',
+        content: entries.length === 0 ? t('ui.repeater.askFirst') : t('ui.repeater.askMore'),
+        blockId: `${repeater.uuid || repeater.fieldName}-more-${entries.length}`,
+        blockType: repeater.type,
+      });
+      setState({ block: repeater, entries, entry: {}, askingEntry: false });
+    },
+    [addMessage, onComplete, t, values]
+  );
+
+  const start = useCallback(
+    (repeater: BlockData) => {
+      ask({ block: repeater, entries: [], entry: {}, askingEntry: (repeater.minItems || 0) > 0 });
+    },
+    [ask]
+  );
+
+  const currentChild = block && state.askingEntry ? getPendingChild(block, state.entry, values) : undefined;
+
+  let inputBlock: BlockData | null = null;
+  if (block && currentChild) {
+    inputBlock = getRepeaterChildBlock(block, currentChild, state.entries.length);
+  } else if (block) {
+    inputBlock = {
+      type: 'radio',
+      uuid: `${block.uuid || block.fieldName}-more`,
+      fieldName: `${block.fieldName}-more`,
+      options: [
+        { id: ADD_ENTRY, label: t('ui.repeater.addEntry'), value: ADD_ENTRY },
+        { id: DONE, label: t('ui.repeater.done'), value: DONE },
+      ],
+    };
+  }
+
+  const handleChange = useCallback((value: any) => {
+    setState((prev) => ({ ...prev, value, error: undefined }));
+  }, []);
+
+  const handleSubmit = useCallback(
+    (submitted?: any) => {
+      if (!block || !inputBlock) return;
+      const value = submitted !== undefined ? submitted : state.value;
+
+      if (!currentChild) {
+        addMessage({
+          role: 'user',
+          content: formatResponseForDisplay(value, inputBlock),
+          blockId: inputBlock.uuid,
+          blockType: block.type,
+        });
+        if (value === ADD_ENTRY) {
+          ask({ ...state, entry: {}, askingEntry: true });
+        } else {
+          setState(INITIAL_STATE);
+          onComplete(block, state.entries);
+        }
+        return;
+      }
+
+      const error = validateRepeaterChild(currentChild, value, getBlockDefinition, {
+        ...values,
+        ...state.entry,
+        [currentChild.fieldName]: value,
+      });
+      if (error) {
+        setState((prev) => ({ ...prev, value, error }));
+        return;
+      }
+
+      addMessage({
+        role: 'user',
+        content: formatResponseForDisplay(value, inputBlock),
+        blockId: inputBlock.uuid,
+        blockType: currentChild.type,
+        userResponse: { value, displayValue: formatResponseForDisplay(value, inputBlock) },
+      });
+      ask({ ...state, entry: { ...state.entry, [currentChild.fieldName]: value } });
+    },
+    [block, inputBlock, currentChild, state, values, addMessage, ask, onComplete]
+  );
+
+  return {
+    isActive: !!block,
+    start,
+    inputBlock,
+    inputKey: `${state.entries.length}-${currentChild?.fieldName ?? 'more'}`,
+    value: state.value,
+    error: state.error,
+    handleChange,
+    handleSubmit,
+  };
+}
@@ -1,4 +1,6 @@
 import type { AIHandler, AIHandlerResponse, AIHandlerContext } from '../types';
+import type { BlockData } from '../../../../types';
+import { formatMatrixValue } from '../../../../utils/matrix';
 
 /**
  * Default AI handler that simply returns the original question text.
@@ -123,6 +125,11 @@ export function formatResponseForDisplay(
     return 'File uploaded';
   }
 
+  // Handle matrix - object keyed by row
+  if (blockType === 'matrix') {
+    return formatMatrixValue(block as BlockData, value);
+  }
+
   // Handle range/slider
   if (blockType === 'range' || blockType === 'slider') {
     return String(value);
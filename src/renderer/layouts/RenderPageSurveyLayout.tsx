@@ -7,6 +7,7 @@ import { ChevronLeft } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { getSurveyPages, detectSurveyMode } from '../../utils/surveyUtils';
 import { AnalyticsTrackedLayout } from './AnalyticsTrackedLayout';
+import { SubmissionQueueStatus } from '../../components/ui/SubmissionQueueStatus';
 
 interface RenderPageSurveyLayoutProps {
   progressBar?:
@@ -74,9 +75,6 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
     showPrevious: true,
     showNext: true,
     showSubmit: true,
-    previousText: 'Previous',
-    nextText: 'Continue',
-    submitText: 'Complete Survey',
     position: 'bottom',
     align: 'center',
     style: 'default',
@@ -84,7 +82,7 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
   autoScroll = true,
   autoFocus = true,
   showSummary = false,
-  submitText = 'Complete Survey',
+  submitText,
   enableDebug = false,
   showNavigationHistory = false,
   logo = null,
@@ -108,6 +106,9 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
     getActualProgress,
     getVisibleBlocks,
     analytics,
+    t,
+    localizeBlock,
+    direction,
   } = useSurveyForm();
 
   // Theme-driven styling (fallbacks keep MedVi defaults)
@@ -170,10 +171,10 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
   };
 
   const currentBlock = currentPageBlocks[currentBlockIndex];
-  const blockDisclaimer = currentBlock?.disclaimer;
+  const blockDisclaimer = currentBlock ? localizeBlock(currentBlock).disclaimer : undefined;
 
-  const continueText = navigationButtons?.nextText || 'Continue';
-  const completeText = navigationButtons?.submitText || submitText;
+  const continueText = navigationButtons?.nextText || t('ui.continue');
+  const completeText = navigationButtons?.submitText || submitText || t('ui.completeSurvey');
 
   const hasExplicitNavigation = (currentBlock?.nextBlockId && currentBlock.nextBlockId !== 'submit')
     || (currentBlock?.navigationRules && currentBlock.navigationRules.length > 0);
@@ -262,7 +263,7 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
                 : 'hidden opacity-0 pointer-events-none',
             )}
           >
-            <ChevronLeft className="size-6 mb-1" />
+            <ChevronLeft className="size-6 mb-1 rtl:rotate-180" />
           </button>
 
           {/* Progress */}
@@ -280,7 +281,7 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
                   style={
                     !themeProgress.bar
                       ? {
-                          background: `linear-gradient(to right, ${gradientStart}, ${gradientEnd})`,
+                          background: `linear-gradient(to ${direction === 'rtl' ? 'left' : 'right'}, ${gradientStart}, ${gradientEnd})`,
                         }
                       : undefined
                   }
@@ -406,6 +407,8 @@ export const RenderPageSurveyLayout: React.FC<RenderPageSurveyLayoutProps> = ({
             </button>
           )}
         </form>
+
+        <SubmissionQueueStatus className="mt-4" />
       </footer>
 
       {/* (Optional) you can add MedVi bottom spacing / background elements here */}
@@ -4,7 +4,6 @@ import React, { useEffect, useCallback, useState, useRef } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
 import { useSurveyForm } from '../../../context/SurveyFormContext';
-import { getSurveyPages, detectSurveyMode } from '../../../utils/surveyUtils';
 import type { BlockData } from '../../../types';
 import type {
   VoiceLayoutProps,
@@ -137,11 +136,13 @@ export const VoiceLayout: React.FC<VoiceLayoutProps> = ({
     isValid,
     isLastPage,
     theme,
-    surveyData,
     customData,
     getVisibleBlocks,
     getTotalVisibleSteps,
     getCurrentStepPosition,
+    engine,
+    t,
+    localizeBlock,
   } = useSurveyForm();
 
   // Voice configuration from customData
@@ -152,11 +153,11 @@ export const VoiceLayout: React.FC<VoiceLayoutProps> = ({
   const welcomeMessage =
     propWelcomeMessage ||
     voiceCustomData?.welcomeMessage ||
-    "Hi! I'm here to help you complete this survey. Let's get started.";
+    t('ui.voice.welcome');
   const completionMessage =
     propCompletionMessage ||
     voiceCustomData?.completionMessage ||
-    'Thank you for completing the survey!';
+    t('ui.voice.completion');
   const autoListen = propAutoListen ?? voiceCustomData?.autoListen ?? true;
   // Note: silenceTimeout and maxListenTime are passed through customData to useVoiceSession
   const orbStyle = propOrbStyle ?? voiceCustomData?.orbStyle ?? 'breathe';
@@ -206,11 +207,13 @@ export const VoiceLayout: React.FC<VoiceLayoutProps> = ({
   });
 
   // Get current block info
-  const surveyMode = detectSurveyMode(surveyData.rootNode);
-  const pages = getSurveyPages(surveyData.rootNode, surveyMode);
+  const pages = engine?.getPages() || [];
   const currentPageBlocks = currentPage < pages.length ? pages[currentPage] : [];
   const visibleBlocks = getVisibleBlocks(currentPageBlocks);
-  const currentBlock = visibleBlocks[currentBlockIndex] as BlockData | undefined;
+  // Questions, options and prompts are spoken and shown in the respondent's language
+  const currentBlock = visibleBlocks[currentBlockIndex]
+    ? localizeBlock(visibleBlocks[currentBlockIndex] as BlockData)
+    : undefined;
 
   // Progress
   const totalQuestions = getTotalVisibleSteps?.() ?? pages.reduce(
@@ -819,7 +822,7 @@ export const VoiceLayout: React.FC<VoiceLayoutProps> = ({
         // The speaking state change will trigger this
       } catch (error) {
         console.error('Error generating question:', error);
-        const fallbackQuestion = block.label || block.name || 'Please answer this question';
+        const fallbackQuestion = block.label || block.name || t('ui.answerPrompt');
         lastQuestionRef.current = fallbackQuestion;
         setCurrentQuestion(fallbackQuestion);
       }
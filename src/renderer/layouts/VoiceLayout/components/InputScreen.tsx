@@ -4,6 +4,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '../../../../lib/utils';
 import { BlockRenderer } from '../../../renderers/BlockRenderer';
+import { useSurveyForm } from '../../../../context/SurveyFormContext';
 import { AmbientProgressLine } from './AmbientProgress';
 import type { InputScreenProps } from '../types';
 
@@ -31,6 +32,7 @@ export const InputScreen: React.FC<InputScreenProps> = ({
   interimTranscript,
   isValid = true,
 }) => {
+  const { t } = useSurveyForm();
   // Determine if continue button should be enabled
   // Use isValid from context (which checks block validation rules)
   // Also require a value to be present (not undefined, null, or empty string for simple values)
@@ -78,7 +80,7 @@ export const InputScreen: React.FC<InputScreenProps> = ({
               )}
             >
               <svg
-                className="w-4 h-4"
+                className="w-4 h-4 rtl:rotate-180"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
@@ -296,7 +298,7 @@ export const InputScreen: React.FC<InputScreenProps> = ({
                   : 'bg-green-300 text-white hover:bg-green-300',
               )}
             >
-              Continue
+              {t('ui.continue')}
             </motion.button>
           </div>
 
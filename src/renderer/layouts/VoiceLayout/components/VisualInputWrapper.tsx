@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../../../../lib/utils';
 import type { VisualInputWrapperProps } from '../types';
 import { getBlockDefinition } from '../../../../blocks';
+import { useSurveyForm } from '../../../../context/SurveyFormContext';
 import type { BlockRendererProps, ChatRendererProps } from '../../../../types';
 
 /**
@@ -23,6 +24,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
   error,
   className,
 }) => {
+  const { t } = useSurveyForm();
   const [localValue, setLocalValue] = useState(value);
   const [showingInput, setShowingInput] = useState(true);
 
@@ -110,7 +112,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
               'transition-colors duration-200'
             )}
           >
-            Continue
+            {t('ui.continue')}
           </button>
         </div>
       );
@@ -162,7 +164,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
               'transition-colors duration-200'
             )}
           >
-            Continue
+            {t('ui.continue')}
           </button>
         </div>
       );
@@ -203,7 +205,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
               'transition-colors duration-200'
             )}
           >
-            Continue
+            {t('ui.continue')}
           </button>
         </div>
       );
@@ -331,7 +333,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
               'transition-colors duration-200'
             )}
           >
-            Continue
+            {t('ui.continue')}
           </button>
         </div>
       );
@@ -368,7 +370,7 @@ export const VisualInputWrapper: React.FC<VisualInputWrapperProps> = ({
             'transition-colors duration-200'
           )}
         >
-          Continue
+          {t('ui.continue')}
         </button>
       </div>
     );
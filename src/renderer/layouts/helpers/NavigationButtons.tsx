@@ -97,9 +97,9 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
   className,
   showPrevious = true,
   showNext = true,
-  previousText = 'Previous',
-  nextText = 'Next',
-  submitText = 'Submit',
+  previousText,
+  nextText,
+  submitText,
   align = 'space-between',
   variant = 'default',
   renderPreviousButton,
@@ -116,6 +116,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
     isValid,
     canGoBack,
     surveyData,
+    t,
   } = useSurveyForm();
 
   // Get the current page blocks to check for showContinueButton
@@ -151,8 +152,9 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
     onNavigate?.('previous');
   };
 
-  // Determine button text
-  const nextButtonText = isFinalStep ? submitText : nextText;
+  // Determine button text, translated unless the host passed its own
+  const previousButtonText = previousText ?? t('ui.previous');
+  const nextButtonText = isFinalStep ? submitText ?? t('ui.submit') : nextText ?? t('ui.next');
 
   // Alignment classes
   const alignmentClass = {
@@ -181,7 +183,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
               renderPreviousButton({
                 onClick: handlePrevious,
                 disabled: !canGoBack,
-                text: previousText,
+                text: previousButtonText,
               })
             ) : variant === 'default' ? (
               <button
@@ -191,7 +193,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
                 className={defaultPreviousButtonClass}
               >
                 <svg
-                  className="w-5 h-5"
+                  className="w-5 h-5 rtl:rotate-180"
                   fill="none"
                   stroke="currentColor"
                   viewBox="0 0 24 24"
@@ -203,11 +205,11 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
                     d="M15 19l-7-7 7-7"
                   />
                 </svg>
-                <span>{previousText}</span>
+                <span>{previousButtonText}</span>
               </button>
             ) : (
               <button type="button" onClick={handlePrevious} disabled={!canGoBack}>
-                {previousText}
+                {previousButtonText}
               </button>
             )}
           </>
@@ -235,7 +237,7 @@ export const NavigationButtons: React.FC<NavigationButtonsProps> = ({
                 <span>{nextButtonText}</span>
                 {!isFinalStep && (
                   <svg
-                    className="w-5 h-5"
+                    className="w-5 h-5 rtl:rotate-180"
                     fill="none"
                     stroke="currentColor"
                     viewBox="0 0 24 24"
@@ -11,13 +11,16 @@ import { ABTestIndicator } from '../../components/ui/ABTestIndicator';
  */
 export const BlockRenderer = forwardRef<HTMLElement, BlockRendererProps>((props, _ref) => {
   const { block, value, onChange, onBlur, error, disabled, customComponents, theme = null, isVisible } = props;
-  const { analytics, enableDebug, abTestPreviewMode } = useSurveyForm();
+  const { analytics, enableDebug, abTestPreviewMode, localizeBlock } = useSurveyForm();
 
   // Apply A/B testing variant selection if enabled
-  const blockToRender = useMemo(() => {
+  const variantBlock = useMemo(() => {
     return getBlockDataForRendering(block, analytics?.sessionId, enableDebug, abTestPreviewMode);
   }, [block, analytics?.sessionId, enableDebug, abTestPreviewMode]);
 
+  // Resolve text, options and validation messages in the respondent's language
+  const blockToRender = localizeBlock(variantBlock);
+
   // If the block has a visibility condition and is explicitly not visible, don't render it
   if (isVisible === false) {
     return null;
@@ -1,4 +1,5 @@
 import type { SurveyTheme, ThemeDefinition } from '../types';
+import { toLogicalTheme } from '../utils/direction';
 
 // Re-export ThemeDefinition type so it can be imported from themes
 export type { ThemeDefinition } from '../types';
@@ -706,3 +707,9 @@ export const themes: Record<SurveyTheme, ThemeDefinition> = {
   hims: himsTheme,
   custom: undefined,
 };
+
+// Built-in themes with logical classes (ms-/me-, text-start, rounded-s, ...) for right-to-left surveys.
+// SurveyForm converts whichever theme it is given the same way when the direction is rtl.
+export const logicalThemes = Object.fromEntries(
+  Object.entries(themes).map(([name, theme]) => [name, theme ? toLogicalTheme(theme) : theme])
+) as Record<SurveyTheme, ThemeDefinition>;
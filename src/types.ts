@@ -1,4 +1,7 @@
 import type { JSX, ReactNode } from "react";
+import type { SurveyEngineState } from "./engine/types";
+import type { SubmissionOutbox } from "./persistence/outbox";
+import type { RandomizationSettings } from "./utils/randomization";
 
 export type UUID = string;
 
@@ -11,12 +14,6 @@ export type SurveyMode = 'pageless' | 'paged';
 
 export type EditorMode = 'full' | 'themeEditor';
 
-export interface NavigationRule {
-  condition: string;
-  target: UUID | string;
-  isPage?: boolean;
-}
-
 export interface ValidationRule {
   id?: string;
   field?: string;
@@ -48,11 +45,17 @@ export type OutputSchemaArray = {
 
 export type OutputSchemaObject = {
   type: 'object';
-  properties: Record<string, {
-    type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
-    optional?: boolean;
-    description?: string;
-  }>;
+  properties: Record<string, OutputSchemaProperty>;
+};
+
+export type OutputSchemaProperty = {
+  type: 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+  optional?: boolean;
+  description?: string;
+  /** Fields of an `object` property */
+  properties?: Record<string, OutputSchemaProperty>;
+  /** Item type of an `array` property */
+  items?: OutputSchemaArray['items'];
 };
 
 // Union type - for blocks that can return different types based on configuration
@@ -67,6 +70,38 @@ export type OutputSchemaUnion = {
 
 export type OutputSchema = OutputSchemaScalar | OutputSchemaArray | OutputSchemaObject | OutputSchemaUnion;
 
+// JSON Schema (draft-07 subset) - used for survey documents and block configuration
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: any[];
+  const?: any;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  definitions?: Record<string, JsonSchema>;
+}
+
 export interface BlockDefinition {
   type: string;
   name: string;
@@ -94,7 +129,14 @@ export interface BlockDefinition {
   validateValue?: (value: any, data: BlockData) => string | null;
   // Output schema - defines what data structure this block returns
   outputSchema?: OutputSchema;
+  /** Output schema for one block's configuration, when it depends on it (e.g. matrix rows) */
+  getOutputSchema?: (data: BlockData) => OutputSchema;
   inputSchema?: OutputSchema;
+  /**
+   * JSON Schema for the block's configuration in the survey document.
+   * Merged over the schema inferred from `defaultData` when validating imports.
+   */
+  configSchema?: JsonSchema;
   blockFunctions?: BlockFunctionDef[];
   /**
    * Skip AI validation for voice/chat layouts.
@@ -108,6 +150,10 @@ export interface BlockDefinition {
    * Useful for blocks that require precise visual input (signatures, file uploads, etc.)
    */
   disableAudioInput?: boolean;
+  /** Group in the builder's block library, e.g. "Choice" */
+  category?: string;
+  /** Extra words the block library search matches, e.g. ["dropdown", "single choice"] */
+  tags?: string[];
 }
 
 export type BlockParameterDef = {
@@ -148,6 +194,9 @@ export type SurveyTheme =
   | "uniloop"
   | "custom";
 
+/** Writing direction of the rendered survey */
+export type TextDirection = 'ltr' | 'rtl';
+
 export interface ThemeDefinition {
   name: SurveyTheme;
   containerLayout: string;
@@ -278,6 +327,14 @@ export interface SurveyBuilderState {
 export interface SurveyBuilderAction {
   type: string;
   payload?: any;
+  /** Set by the provider when dispatching; rapid edits of the same node are grouped into one undo step */
+  timestamp?: number;
+}
+
+/** A navigation rule, by its block and its index in `navigationRules` */
+export interface NavigationRuleRef {
+  blockUuid: string;
+  ruleIndex: number;
 }
 
 export interface NavigationHistoryEntry {
@@ -285,10 +342,65 @@ export interface NavigationHistoryEntry {
   blockUuid?: string;
   timestamp: number;
   trigger: 'forward' | 'back' | 'jump' | 'initial';
+  /** The navigation rule that led here, on forward moves decided by one */
+  rule?: NavigationRuleRef;
+}
+
+/**
+ * Storage backend for save-and-resume. Adapters store opaque strings, so
+ * snapshots can be encrypted before they reach the backend.
+ */
+export interface SurveyPersistenceAdapter {
+  load: (key: string) => Promise<string | null>;
+  save: (key: string, data: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface SurveyResumePromptText {
+  title?: string;
+  description?: string;
+  resumeText?: string;
+  startOverText?: string;
+}
+
+export interface SurveyPersistenceOptions {
+  adapter: SurveyPersistenceAdapter;
+  /** Storage key, e.g. `${surveyId}:${userId}` */
+  key: string;
+  /** Autosave delay after the last change @default 1000 */
+  debounceMs?: number;
+  /** Snapshots older than this are discarded; 0 keeps them forever @default 7 days */
+  ttlMs?: number;
+  /** Ask before resuming; false resumes silently @default true */
+  resumePrompt?: boolean | SurveyResumePromptText;
+  /** Remove the snapshot once the answers are delivered and the survey ends @default true */
+  clearOnSubmit?: boolean;
+  /** Transforms the serialized snapshot before saving, e.g. to encrypt it */
+  encode?: (data: string) => string | Promise<string>;
+  /** Reverses `encode` when loading */
+  decode?: (data: string) => string | Promise<string>;
+}
+
+/** Passed to `onSubmit` for submissions delivered through the outbox */
+export interface SubmissionMeta {
+  /** Same for every retry of a submission - deduplicate on it server-side */
+  idempotencyKey: string;
+  attempt: number;
+  /** Seed and the order of every randomized list the respondent was shown */
+  randomization?: SurveyRandomization;
+  /** How the survey ended - answers of screened-out and over-quota respondents are submitted too */
+  outcome?: SurveyOutcome;
+  /** Ids of the quotas the respondent's answers match */
+  quotas?: string[];
+  /** The full quota that ended the survey, for `overQuota` endings */
+  fullQuota?: string;
+  /** The ending block reached, when the survey ended on one */
+  ending?: SurveyEndingInfo;
 }
 
 export interface SurveyFormRendererProps {
   survey: {
+    schemaVersion?: number;
     rootNode: NodeData;
     localizations?: LocalizationMap;
     theme?: ThemeDefinition;
@@ -301,15 +413,39 @@ export interface SurveyFormRendererProps {
    * @default 'pageless'
    */
   mode?: SurveyMode;
-  onSubmit?: (data: Record<string, any>) => void;
+  onSubmit?: (data: Record<string, any>, meta?: SubmissionMeta) => void | Promise<void>;
   onChange?: (data: Record<string, any>) => void;
   onPageChange?: (pageIndex: number, totalPages: number) => void;
   onNavigationHistoryChange?: (history: NavigationHistoryEntry[]) => void; // New callback for history changes
+  /** Every engine state change: answers, computed values, position and history */
+  onStateChange?: (state: SurveyEngineState) => void;
+  /**
+   * Queue submissions and retry them until `onSubmit` succeeds. `true` uses an
+   * IndexedDB-backed outbox owned by the form; pass a SubmissionOutbox to share one.
+   */
+  outbox?: boolean | SubmissionOutbox;
+  /**
+   * Seed and respondent number for randomized (`shuffle`) and rotated
+   * (`rotate`) order. The seed is generated and kept for the session when omitted.
+   */
+  randomization?: RandomizationSettings;
+  /** Quota counts for `rootNode.quotas`; quotas aren't enforced without one */
+  quotaProvider?: QuotaProvider;
   defaultValues?: Record<string, any>;
   initialValues?: Record<string, any>; // For loading saved answers
   startPage?: number; // For resuming from specific page
+  /** Block to start from, e.g. to preview a branch; overrides `startPage` */
+  startBlockId?: string;
   initialNavigationHistory?: NavigationHistoryEntry[]; // For restoring navigation history on resume
+  /** Built-in save-and-resume: autosaves progress and offers to resume it */
+  persistence?: SurveyPersistenceOptions;
   language?: string;
+  /**
+   * Text direction. `'auto'` follows the active language, so Arabic, Hebrew,
+   * Persian, ... render right to left.
+   * @default 'auto'
+   */
+  dir?: TextDirection | 'auto';
   theme?: SurveyTheme;
   themeMode?: 'light' | 'dark' | 'system';
   progressBar?: ProgressBarOptions | boolean;
@@ -481,6 +617,17 @@ export interface SurveyFormContextProps {
   submit: () => void;
   language: string;
   setLanguage: (lang: string) => void;
+  /** Renderer text (`ui.*` keys) in the current language, formatted as an ICU message with `params` */
+  t: (key: string, params?: Record<string, string | number>) => string;
+  /**
+   * The block with its text, options and validation messages in the current
+   * language, its current options (carried forward, filtered, loaded) and answers piped in
+   */
+  localizeBlock: <T extends BlockData | NodeData>(block: T) => T;
+  /** Formats an ICU message with the current answers and computed values, e.g. "Thanks {firstName}" */
+  formatMessage: (template: string, params?: Record<string, any>) => string;
+  /** Writing direction of the current language (or the `dir` prop) */
+  direction: TextDirection;
   theme: ThemeDefinition;
   surveyData: {
     rootNode: NodeData;
@@ -558,7 +705,7 @@ export interface BranchingLogic {
 
 export interface NavigationRule {
   condition: string;
-  target: string;
+  target: UUID | string;
   isPage?: boolean;
   isDefault?: boolean;
 }
@@ -581,12 +728,33 @@ export interface EvaluationResult {
   error?: any;
 }
 
+// Survey linting - static checks of conditions and formulas in the builder
+export type SurveyLintSeverity = 'error' | 'warning';
+
+export type SurveyLintSource = 'navigationRule' | 'visibleIf' | 'validationRule' | 'formula' | 'pipedText';
+
+export interface SurveyLintIssue {
+  /** UUID of the block that owns the expression */
+  blockId: string;
+  fieldName?: string;
+  source: SurveyLintSource;
+  /** Index of the rule within navigationRules / validationRules */
+  ruleIndex?: number;
+  severity: SurveyLintSeverity;
+  message: string;
+  /** The expression that was checked */
+  expression: string;
+  /** Character offset of the problem within the expression, if known */
+  position?: number;
+}
+
 export interface MobileNavigationConfig {
     enableSwipeNavigation?: boolean;
     enableDoubleTapToGoBack?: boolean;
     showMobileBackButton?: boolean;
     preventBrowserBack?: boolean;
     swipeThreshold?: number; // Minimum distance for swipe gesture
+    direction?: TextDirection; // In 'rtl' swiping right goes forward
 }
 
 export interface SwipeDirection {
@@ -652,9 +820,245 @@ export interface BlockData {
    * When true, the voice input button will be hidden and only visual input allowed.
    */
   disableAudioInput?: boolean;
+  /** Where a choice block gets its options besides the static `options` list */
+  optionsSource?: OptionsSource;
+  /** Show a search box that filters the options (or queries the options provider) */
+  searchable?: boolean;
+  /** Set on the rendered block while options from a provider are loading */
+  optionsLoading?: boolean;
+  /** Set on the rendered block when the options provider failed */
+  optionsError?: string;
+  /** Repeater blocks: the blocks asked for every entry, keyed in the entry by their fieldName */
+  template?: BlockData[];
+  /** Repeater blocks: fewest and most entries a respondent can give */
+  minItems?: number;
+  maxItems?: number;
+  /** Repeater blocks: what one entry is called, e.g. "Medication" */
+  itemLabel?: string;
+  /** Matrix blocks: how cells are answered, see `MatrixCellType` @default 'radio' */
+  cellType?: MatrixCellType;
+  /** Matrix blocks: fewest rows that must be answered */
+  minAnsweredRows?: number;
+  /** Matrix blocks: show the rows in a random order */
+  randomizeRows?: boolean;
+  /** Order of the options of a choice block, see `OrderMode` */
+  optionOrder?: OrderMode;
+  /** Order of the blocks of a page (`set`) or section, see `OrderMode` */
+  itemOrder?: OrderMode;
+  /** Keep this block in its place when its page or section is reordered */
+  pinned?: boolean;
+  /** Check quotas when the respondent moves on from this block */
+  quotaCheckpoint?: boolean;
+  /** Ending blocks: how the survey ended when this ending is reached @default 'complete' */
+  outcome?: SurveyOutcome;
+  /** Ending blocks: reported with the submission, e.g. `booking-confirmed` */
+  outcomeCode?: string;
+  /** Ending blocks: page to send the respondent to after the ending is shown */
+  redirectUrl?: string;
+  /** Ending blocks: seconds before redirecting @default 5 */
+  redirectDelay?: number;
+  /** Ending blocks: answers added to the redirect URL as query parameters, by field name */
+  redirectFields?: string[];
   [key: string]: any;
 }
 
+/**
+ * How a list is ordered for each respondent:
+ * - `fixed` as authored
+ * - `shuffle` a random order from the respondent's seed
+ * - `rotate` a Latin-square row, so every item appears in every position equally often across respondents
+ */
+export type OrderMode = 'fixed' | 'shuffle' | 'rotate';
+
+/**
+ * How a respondent's survey ended:
+ * - `complete` answered to the end
+ * - `screenedOut` not eligible, sent to the screen-out ending by a navigation rule
+ * - `overQuota` eligible, but a quota they fall into is already full
+ */
+export type SurveyOutcome = 'complete' | 'screenedOut' | 'overQuota';
+
+/**
+ * The ending block a respondent reached
+ */
+export interface SurveyEndingInfo {
+  /** uuid of the ending block */
+  id: string;
+  name?: string;
+  /** The block's `outcomeCode` */
+  code?: string;
+}
+
+/**
+ * Page shown when the survey ends with an outcome. Missing text falls back to
+ * the `ui.ending.*` strings.
+ */
+export interface SurveyEndingScreen {
+  title?: string;
+  message?: string;
+}
+
+/**
+ * A score variable, e.g. a PHQ-9 total. Each answered question (each answered
+ * row of a matrix) is an item worth the points of its chosen options. The
+ * score is available under `name` in conditions, piped text and the
+ * submission, and its band's label under `${name}Band`.
+ */
+export interface ScoreDefinition {
+  /** Variable name, e.g. `phq9` */
+  name: string;
+  label?: string;
+  /** fieldNames of the scored blocks */
+  fields: string[];
+  /** Total of the items, or their mean @default 'sum' */
+  method?: 'sum' | 'average';
+  /** Ranges the score falls into, e.g. 0-4 "Minimal", 5-9 "Mild" */
+  bands?: ScoreBand[];
+}
+
+/** A range of scores, bounds included */
+export interface ScoreBand {
+  min: number;
+  max: number;
+  label: string;
+}
+
+/**
+ * A cap on completes from respondents matching a condition,
+ * e.g. 200 completes with `gender == "female" && age_group == "18-24"`
+ */
+export interface QuotaDefinition {
+  id: string;
+  name?: string;
+  /** Expression over the answers; respondents for whom it holds count toward the quota */
+  condition: string;
+  /** Completes accepted before the quota is full */
+  limit: number;
+  /** Ending for respondents who match a full quota @default 'overQuota' */
+  outcome?: Exclude<SurveyOutcome, 'complete'>;
+}
+
+/**
+ * Where quota counts live, usually your API. Checked at quota checkpoints and
+ * on completion; a failing provider lets the respondent continue.
+ */
+export interface QuotaProvider {
+  /** Completes counted so far, by quota id */
+  getCounts: (quotas: QuotaDefinition[]) => Promise<Record<string, number>>;
+  /** Counts one complete toward the quotas the respondent matched */
+  increment: (quotas: QuotaDefinition[]) => Promise<void>;
+}
+
+/**
+ * The order a respondent was shown, sent with the submission
+ */
+export interface SurveyRandomization {
+  seed: string;
+  /** Picks the Latin-square row for lists with `rotate` */
+  respondentIndex: number;
+  /**
+   * Ids in the order shown, for every reordered list: `${containerId}` for blocks
+   * and pages, `${nodeId}.nodes` for sections, `${blockId}.options` for option
+   * values and `${blockId}.rows` for matrix rows
+   */
+  order: Record<string, string[]>;
+}
+
+/**
+ * How a matrix cell is answered:
+ * - `radio` one column per row; the row's answer is the column's value
+ * - `checkbox` any number of columns per row; the row's answer is an array of column values
+ * - `dropdown`, `text`, `number`, `rating` every column is its own question; the row's
+ *   answer is an object keyed by column value. Columns may override the type.
+ */
+export type MatrixCellType = 'radio' | 'checkbox' | 'dropdown' | 'text' | 'number' | 'rating';
+
+/**
+ * A row of a matrix block, stored in `questions`
+ */
+export interface MatrixRow {
+  id: string;
+  text: string;
+  /** The row must be answered */
+  required?: boolean;
+  [key: string]: any;
+}
+
+/**
+ * A column of a matrix block, stored in `options`
+ */
+export interface MatrixColumn {
+  id: string;
+  text: string;
+  value: string;
+  /** Overrides the block's `cellType` in dropdown, text, number and rating matrices */
+  cellType?: Exclude<MatrixCellType, 'radio'>;
+  /** Dropdown cells: the choices offered */
+  choices?: Array<{ id: string; text: string; value: string }>;
+  /** The cell must be answered in every answered row */
+  required?: boolean;
+  /** Number cells: value range. Text cells: length. Rating cells: `max` is the number of stars @default 5 */
+  min?: number;
+  max?: number;
+  /** Text cells: regular expression the answer must match */
+  pattern?: string;
+  /** Radio and checkbox matrices: points for choosing the column in a row */
+  score?: number;
+  [key: string]: any;
+}
+
+/**
+ * An option of a select, radio, checkbox or selectable box block
+ */
+export interface ChoiceOption {
+  id?: string;
+  label: string;
+  value: any;
+  /** Only offer the option when this condition holds */
+  visibleIf?: string | ConditionRule | ConditionRule[];
+  /** Keep the option at the end when options are reordered, e.g. "None of the above" */
+  pinLast?: boolean;
+  /** Points for choosing the option, see `ScoreDefinition`; unscored options don't count */
+  score?: number;
+  [key: string]: any;
+}
+
+/**
+ * Dynamic options for a choice block:
+ * - `carryForward` offers the options answered (or not answered) in an earlier choice question
+ * - `provider` loads options from a function registered in `customData.optionsProviders`
+ */
+export type OptionsSource =
+  | {
+      type: 'carryForward';
+      /** Field name of the earlier choice question */
+      field: string;
+      /** @default 'selected' */
+      include?: 'selected' | 'unselected';
+    }
+  | {
+      type: 'provider';
+      /** Key in `customData.optionsProviders` */
+      provider: string;
+      params?: Record<string, any>;
+      /** Fields whose answers the provider uses; a change reloads the options */
+      dependsOn?: string[];
+      /** Don't query the provider until the search has this many characters @default 0 */
+      minSearchLength?: number;
+    };
+
+export interface OptionsProviderRequest {
+  block: BlockData;
+  /** Current search text, '' when the block isn't searchable */
+  search: string;
+  params?: Record<string, any>;
+  /** Current answers and computed values */
+  values: Record<string, any>;
+  language: string;
+}
+
+export type OptionsProvider = (request: OptionsProviderRequest) => ChoiceOption[] | Promise<ChoiceOption[]>;
+
 export interface NodeData {
   uuid?: UUID;
   name?: string;
@@ -665,9 +1069,108 @@ export interface NodeData {
   entryLogic?: string;
   exitLogic?: string;
   backLogic?: string;
+  /** Order of the node's pages or blocks, and of its child sections, see `OrderMode` */
+  itemOrder?: OrderMode;
+  /** Root node: quotas checked at checkpoints and on completion */
+  quotas?: QuotaDefinition[];
+  /** Root node: score variables computed from the points of the chosen options */
+  scores?: ScoreDefinition[];
+  /** Root node: the page shown for each outcome */
+  endings?: Partial<Record<SurveyOutcome, SurveyEndingScreen>>;
+  /** Root node: named answer sets the builder preview can start from */
+  testPersonas?: TestPersona[];
+  /** Root node: answer sets and the route each should take, checked by `runTestScenarios` */
+  testScenarios?: TestScenario[];
+  [key: string]: any;
+}
+
+/**
+ * Answers saved in the builder to prefill the preview, e.g. "Over 65, smoker"
+ */
+export interface TestPersona {
+  id: string;
+  name: string;
+  values: Record<string, any>;
+}
+
+/**
+ * Answers to give and how the survey should go with them. Answers are given as
+ * each block is reached; keys that aren't fields of a block are set up front.
+ */
+export interface TestScenario {
+  id: string;
+  name: string;
+  values: Record<string, any>;
+  /** Blocks shown, in order, by uuid or field name; omit to check only how it ends */
+  expectedPath?: string[];
+  expectedOutcome?: SurveyOutcome;
+  /** UUID of the ending block it should end on */
+  expectedEnding?: string;
+}
+
+/**
+ * Configured blocks saved in the builder's block library under a name, to be
+ * inserted into any survey
+ */
+export interface BlockSnippet {
+  id: string;
+  name: string;
+  description?: string;
+  /** The blocks as saved; each insert gets new uuids and field names */
+  blocks: BlockData[];
+  /** Whether the navigation rules between the blocks were kept */
+  includesNavigation?: boolean;
+  /** Translations of the blocks, keyed as in the survey they were saved from */
+  localizations?: LocalizationMap;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/**
+ * Where the block library keeps snippets, e.g. an API shared by a team
+ */
+export interface BlockSnippetStore {
+  list: () => Promise<BlockSnippet[]>;
+  /** Adds the snippet, or replaces the one with the same id */
+  save: (snippet: BlockSnippet) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * A saved survey as produced by the builder's export and consumed by SurveyForm.
+ * Documents without `schemaVersion` predate versioning and are treated as version 0.
+ */
+export interface SurveyDocument {
+  schemaVersion?: number;
+  rootNode: NodeData;
+  localizations?: LocalizationMap;
+  theme?: ThemeDefinition;
+  mode?: SurveyMode;
   [key: string]: any;
 }
 
+export interface SurveyValidationError {
+  /** Location in the document, e.g. `rootNode.items[2].navigationRules[0].target` */
+  path: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SurveyValidationResult {
+  /** False if any error (not warning) was found */
+  valid: boolean;
+  errors: SurveyValidationError[];
+}
+
+/**
+ * Upgrades a survey document from `version - 1` to `version`
+ */
+export interface SurveyMigration {
+  version: number;
+  description: string;
+  migrate: (document: SurveyDocument) => SurveyDocument;
+}
+
 export interface LocalizationMap {
   [key: string]: {
     [key: string]: string;
@@ -208,6 +208,38 @@ export function clearABTestSelections(): void {
   }
 }
 
+/**
+ * Returns the stored A/B test selections (storage key -> variant ID), so they
+ * can be saved with a survey snapshot and restored on resume
+ */
+export function getABTestAssignments(): Record<string, string> {
+  const assignments: Record<string, string> = {};
+  try {
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      for (const key of Object.keys(window.sessionStorage)) {
+        if (key.startsWith('abtest_')) {
+          assignments[key] = window.sessionStorage.getItem(key) as string;
+        }
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read A/B test selections:', error);
+  }
+  return assignments;
+}
+
+/**
+ * Restores selections captured with getABTestAssignments
+ */
+export function restoreABTestAssignments(assignments: Record<string, string> | undefined): void {
+  if (!assignments) return;
+  for (const [key, variantId] of Object.entries(assignments)) {
+    if (key.startsWith('abtest_')) {
+      storeVariantId(key, variantId);
+    }
+  }
+}
+
 /**
  * Gets analytics data for the selected variant
  * @param block Block data with A/B test configuration
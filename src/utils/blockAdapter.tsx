@@ -1,7 +1,7 @@
 import { BlockData, BlockDefinition } from "../types";
 import { Activity, ShoppingCart } from "lucide-react";
 import { v4 as uuidv4 } from "uuid";
-import { TextInputBlock, TextareaBlock, SelectBlock, RadioBlock, CheckboxBlock, RangeBlock, DatePickerBlock, FileUploadBlock, MatrixBlock, SelectableBoxQuestionBlock, MarkdownBlock, HtmlBlock, ScriptBlock, AuthBlock } from "../blocks";
+import { TextInputBlock, TextareaBlock, SelectBlock, RadioBlock, CheckboxBlock, RangeBlock, DatePickerBlock, FileUploadBlock, MatrixBlock, SelectableBoxQuestionBlock, MarkdownBlock, HtmlBlock, ScriptBlock, AuthBlock, EndingBlock } from "../blocks";
 
 /**
  * Maps survey builder block types to the appropriate renderer components
@@ -26,6 +26,7 @@ export const blockTypeMap: Record<string, any> = {
   markdown: MarkdownBlock,
   html: HtmlBlock,
   auth: AuthBlock,
+  ending: EndingBlock,
 
   // Logic blocks
   script: ScriptBlock,
@@ -93,7 +94,7 @@ export function getDefaultBlockProperties(blockType: string): Partial<BlockData>
  * Checks if a block is a content block (doesn't collect data)
  */
 export function isContentBlock(blockType: string): boolean {
-  return ['markdown', 'html', 'script', 'calculated'].includes(blockType);
+  return ['markdown', 'html', 'script', 'calculated', 'ending'].includes(blockType);
 }
 
 /**
@@ -0,0 +1,58 @@
+import type { BlockData, LocalizationMap } from '../types';
+import { pickBlockLocalizations } from './blockCloning';
+
+/**
+ * Clipboard format for copied blocks: plain-text JSON, so a copy can be
+ * pasted into another survey, another browser tab or a text editor
+ */
+
+/** Marks clipboard text as copied survey blocks */
+export const BLOCK_CLIPBOARD_FORMAT = 'survey-form-blocks';
+
+interface BlockClipboardData {
+  format: typeof BLOCK_CLIPBOARD_FORMAT;
+  version: 1;
+  blocks: BlockData[];
+  /** Translations of the blocks, so they survive a paste into another survey */
+  localizations?: LocalizationMap;
+}
+
+export interface ClipboardBlocks {
+  blocks: BlockData[];
+  localizations: LocalizationMap;
+}
+
+/**
+ * Clipboard text for the blocks, with their entries from `localizations`
+ */
+export function serializeBlocksForClipboard(blocks: BlockData[], localizations?: LocalizationMap): string {
+  const picked = pickBlockLocalizations(localizations, blocks);
+  const data: BlockClipboardData = {
+    format: BLOCK_CLIPBOARD_FORMAT,
+    version: 1,
+    blocks,
+    ...(Object.keys(picked).length > 0 && { localizations: picked }),
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const isLocalizationMap = (value: any): value is LocalizationMap =>
+  !!value &&
+  typeof value === 'object' &&
+  Object.values(value).every((entries) => !!entries && typeof entries === 'object');
+
+/**
+ * The blocks and translations in clipboard text, or null when it isn't a block copy
+ */
+export function parseBlocksFromClipboard(text: string | null | undefined): ClipboardBlocks | null {
+  if (!text || !text.includes(BLOCK_CLIPBOARD_FORMAT)) return null;
+  try {
+    const data = JSON.parse(text);
+    if (data?.format !== BLOCK_CLIPBOARD_FORMAT || !Array.isArray(data.blocks)) return null;
+    const blocks = data.blocks.filter((block: any) => block && typeof block === 'object' && typeof block.type === 'string');
+    if (blocks.length === 0) return null;
+    return { blocks, localizations: isLocalizationMap(data.localizations) ? data.localizations : {} };
+  } catch {
+    return null;
+  }
+}
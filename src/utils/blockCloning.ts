@@ -0,0 +1,145 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BlockData, LocalizationMap, NavigationRule } from '../types';
+import { generateFieldName } from '../blocks/utils/GenFieldName';
+import { renameBlockFieldReferences, renamePipedTextFields } from './fieldReferences';
+import { getBlockLocalizationId } from './localization';
+import { parseEndingTarget } from './outcomes';
+
+export interface CloneBlocksOptions {
+  /**
+   * Keep navigation rules and `nextBlockId`. Targets inside the cloned set
+   * point at the copies. @default true
+   */
+  navigationRules?: boolean;
+  /**
+   * Whether to keep a rule that points at a block outside the set, e.g. one
+   * that exists where the copies go. Otherwise such rules are dropped.
+   */
+  keepTarget?: (target: string) => boolean;
+  /** Field names already in use where the copies go */
+  existingFieldNames?: Iterable<string>;
+  /** Translations of the blocks; the copies get their own copy of them */
+  localizations?: LocalizationMap;
+}
+
+export interface ClonedBlocks {
+  blocks: BlockData[];
+  /** Old uuid to new uuid */
+  uuids: Record<string, string>;
+  /** Old field name to new field name */
+  fieldNames: Record<string, string>;
+  /** Translations keyed to the copies, to add to the target survey */
+  localizations: LocalizationMap;
+}
+
+// Translation keys are scoped by the block's uuid or field name, e.g. `<uuid>.label`
+const getLocalizationScope = (key: string) => key.split('.')[0];
+
+const collectLocalizationIds = (blocks: BlockData[], ids = new Set<string>()): Set<string> => {
+  for (const block of blocks) {
+    const id = getBlockLocalizationId(block);
+    if (id) ids.add(id);
+    collectLocalizationIds([...(block.items || []), ...(block.template || [])], ids);
+  }
+  return ids;
+};
+
+/**
+ * The translations of the blocks and the blocks nested in them
+ */
+export function pickBlockLocalizations(
+  localizations: LocalizationMap | undefined,
+  blocks: BlockData[]
+): LocalizationMap {
+  const ids = collectLocalizationIds(blocks);
+  const picked: LocalizationMap = {};
+  for (const [language, entries] of Object.entries(localizations || {})) {
+    const kept = Object.entries(entries || {}).filter(([key]) => ids.has(getLocalizationScope(key)));
+    if (kept.length > 0) picked[language] = Object.fromEntries(kept);
+  }
+  return picked;
+}
+
+const isSpecialTarget = (target: string) => target === 'submit' || parseEndingTarget(target) !== null;
+
+/**
+ * Copies blocks (and their nested items) with new uuids and field names.
+ * Conditions, formulas and piped text that refer to fields in the set are
+ * rewritten to the new names, and navigation between the blocks is kept.
+ * Translations given in `localizations` are re-keyed to the copies.
+ */
+export function cloneBlocks(blocks: BlockData[], options: CloneBlocksOptions = {}): ClonedBlocks {
+  const { navigationRules = true, keepTarget } = options;
+  const uuids: Record<string, string> = {};
+  const fieldNames: Record<string, string> = {};
+  // Old translation scope to the copy's
+  const localizationIds: Record<string, string> = {};
+  const taken = new Set(options.existingFieldNames || []);
+
+  const collect = (block: BlockData) => {
+    if (block.uuid) uuids[block.uuid] = uuidv4();
+    if (block.fieldName && !(block.fieldName in fieldNames)) {
+      let fieldName = generateFieldName(block.type);
+      while (taken.has(fieldName)) fieldName = generateFieldName(block.type);
+      taken.add(fieldName);
+      fieldNames[block.fieldName] = fieldName;
+    }
+    const id = getBlockLocalizationId(block);
+    if (id) localizationIds[id] = block.uuid ? uuids[block.uuid] : fieldNames[block.fieldName!];
+    block.items?.forEach(collect);
+  };
+  blocks.forEach(collect);
+
+  // undefined drops the target
+  const remapTarget = (target: string): string | undefined => {
+    if (target in uuids) return uuids[target];
+    if (isSpecialTarget(target) || keepTarget?.(target)) return target;
+    return undefined;
+  };
+
+  const clone = (block: BlockData): BlockData => {
+    let copy: BlockData = renameBlockFieldReferences(JSON.parse(JSON.stringify(block)), fieldNames);
+    copy = {
+      ...copy,
+      ...(block.uuid && { uuid: uuids[block.uuid] }),
+      ...(block.fieldName && { fieldName: fieldNames[block.fieldName] }),
+      ...(block.items && { items: block.items.map(clone) }),
+    };
+
+    if (!navigationRules) {
+      delete copy.navigationRules;
+      delete copy.nextBlockId;
+      return copy;
+    }
+
+    if (copy.navigationRules) {
+      copy.navigationRules = copy.navigationRules.flatMap((rule): NavigationRule[] => {
+        const target = remapTarget(String(rule.target));
+        return target === undefined ? [] : [{ ...rule, target }];
+      });
+    }
+    if (copy.nextBlockId) {
+      const target = remapTarget(copy.nextBlockId);
+      if (target === undefined) delete copy.nextBlockId;
+      else copy.nextBlockId = target;
+    }
+    return copy;
+  };
+
+  // Repeater template children keep their ids, so their translations are copied as they are
+  const localizations: LocalizationMap = {};
+  for (const [language, entries] of Object.entries(pickBlockLocalizations(options.localizations, blocks))) {
+    localizations[language] = {};
+    for (const [key, text] of Object.entries(entries)) {
+      const scope = getLocalizationScope(key);
+      const copyScope = localizationIds[scope];
+      if (copyScope) {
+        localizations[language][copyScope + key.slice(scope.length)] = renamePipedTextFields(text, fieldNames);
+      } else {
+        localizations[language][key] = text;
+      }
+    }
+  }
+
+  return { blocks: blocks.map(clone), uuids, fieldNames, localizations };
+}
@@ -0,0 +1,89 @@
+import type { BlockDefinition } from '../types';
+
+/**
+ * Search and grouping for the builder's block library
+ */
+
+/** Category shown for blocks that don't set one */
+export const UNCATEGORIZED_BLOCKS = 'Other';
+
+/**
+ * How well a single search term matches text: exact > prefix > start of a word
+ * > anywhere > letters in order (typos such as "chekbox"). 0 is no match.
+ */
+export function fuzzyScore(term: string, text: string): number {
+  const needle = term.trim().toLowerCase();
+  const haystack = (text || '').toLowerCase();
+  if (!needle || !haystack) return 0;
+  if (haystack === needle) return 10;
+  if (haystack.startsWith(needle)) return 8;
+
+  const index = haystack.indexOf(needle);
+  if (index > 0) return /[^a-z0-9]/.test(haystack[index - 1]) ? 6 : 4;
+
+  // Letters in order, close enough together to be a misspelling
+  let position = -1;
+  let first = -1;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position === -1) return 0;
+    if (first === -1) first = position;
+  }
+  return position - first < needle.length * 2 ? 2 : 0;
+}
+
+// Name matches count most, description matches least
+const FIELD_WEIGHTS = { name: 3, tags: 2, category: 2, type: 2, description: 1 } as const;
+
+const scoreDefinition = (definition: BlockDefinition, terms: string[]): number => {
+  let total = 0;
+  for (const term of terms) {
+    const best = Math.max(
+      fuzzyScore(term, definition.name) * FIELD_WEIGHTS.name,
+      fuzzyScore(term, definition.type) * FIELD_WEIGHTS.type,
+      fuzzyScore(term, definition.category || '') * FIELD_WEIGHTS.category,
+      fuzzyScore(term, definition.description) * FIELD_WEIGHTS.description,
+      ...(definition.tags || []).map((tag) => fuzzyScore(term, tag) * FIELD_WEIGHTS.tags)
+    );
+    // Every term has to match something
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total;
+};
+
+/**
+ * Block definitions matching the query, best match first. An empty query
+ * returns every definition in its original order.
+ */
+export function searchBlockDefinitions(
+  definitions: BlockDefinition[] | Record<string, BlockDefinition>,
+  query: string
+): BlockDefinition[] {
+  const list = Array.isArray(definitions) ? definitions : Object.values(definitions);
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return list;
+
+  return list
+    .map((definition, index) => ({ definition, index, score: scoreDefinition(definition, terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ definition }) => definition);
+}
+
+/**
+ * Groups definitions by `category`, in order of first appearance, with
+ * uncategorized blocks last
+ */
+export function groupBlockDefinitions(
+  definitions: BlockDefinition[]
+): Array<{ category: string; definitions: BlockDefinition[] }> {
+  const groups = new Map<string, BlockDefinition[]>();
+  for (const definition of definitions) {
+    const category = definition.category || UNCATEGORIZED_BLOCKS;
+    groups.set(category, [...(groups.get(category) || []), definition]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => Number(a === UNCATEGORIZED_BLOCKS) - Number(b === UNCATEGORIZED_BLOCKS))
+    .map(([category, items]) => ({ category, definitions: items }));
+}
@@ -0,0 +1,107 @@
+import type { BlockData, NodeData } from '../types';
+
+/**
+ * Bulk operations on blocks picked by uuid from a list of blocks or of pages
+ * (`set` blocks, whose items are searched too). Every function returns new
+ * arrays and leaves the input alone.
+ */
+
+const toSet = (uuids: Iterable<string>) => (uuids instanceof Set ? uuids : new Set(uuids));
+
+/**
+ * The picked blocks in document order
+ */
+export function pickBlocks(items: BlockData[], uuids: Iterable<string>): BlockData[] {
+  const picked = toSet(uuids);
+  const result: BlockData[] = [];
+  const visit = (list: BlockData[]) => {
+    for (const block of list) {
+      if (block.uuid && picked.has(block.uuid)) result.push(block);
+      else if (block.items) visit(block.items);
+    }
+  };
+  visit(items);
+  return result;
+}
+
+export function removeBlocks(items: BlockData[], uuids: Iterable<string>): BlockData[] {
+  const picked = toSet(uuids);
+  return items
+    .filter((block) => !(block.uuid && picked.has(block.uuid)))
+    .map((block) => (block.items ? { ...block, items: removeBlocks(block.items, picked) } : block));
+}
+
+/**
+ * Sets the same properties on every picked block, e.g. `{ className: 'compact' }`
+ */
+export function updateBlocks(items: BlockData[], uuids: Iterable<string>, changes: Partial<BlockData>): BlockData[] {
+  const picked = toSet(uuids);
+  return items.map((block) => {
+    if (block.uuid && picked.has(block.uuid)) return { ...block, ...changes };
+    return block.items ? { ...block, items: updateBlocks(block.items, picked, changes) } : block;
+  });
+}
+
+/**
+ * Inserts blocks right after `afterUuid`, in whichever list holds it. Without
+ * it, or when it isn't found, they go at the end of `items`.
+ */
+export function insertBlocksAfter(items: BlockData[], afterUuid: string | null | undefined, blocks: BlockData[]): BlockData[] {
+  const insert = (list: BlockData[]): BlockData[] | null => {
+    const index = list.findIndex((block) => block.uuid === afterUuid);
+    if (index >= 0) return [...list.slice(0, index + 1), ...blocks, ...list.slice(index + 1)];
+    for (let i = 0; i < list.length; i++) {
+      const nested = list[i].items && insert(list[i].items!);
+      if (nested) return list.map((block, j) => (j === i ? { ...block, items: nested } : block));
+    }
+    return null;
+  };
+  return (afterUuid && insert(items)) || [...items, ...blocks];
+}
+
+/**
+ * Moves the picked blocks, in document order, to the end of a page
+ */
+export function moveBlocksToPage(items: BlockData[], uuids: Iterable<string>, pageUuid: string): BlockData[] {
+  const picked = toSet(uuids);
+  const moving = pickBlocks(items, picked);
+  return removeBlocks(items, picked).map((page) =>
+    page.uuid === pageUuid ? { ...page, items: [...(page.items || []), ...moving] } : page
+  );
+}
+
+/**
+ * Uuids from `anchor` to `target` inclusive, for shift-click selection
+ */
+export function selectBlockRange(order: string[], anchor: string, target: string): string[] {
+  const from = order.indexOf(anchor);
+  const to = order.indexOf(target);
+  if (from === -1 || to === -1) return [target];
+  return order.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
+
+/**
+ * Every field name in the list, nested items and legacy `nodes` sections included
+ */
+export function collectFieldNames(items: Array<BlockData | NodeData>, names: string[] = []): string[] {
+  for (const block of items) {
+    if (!block || typeof block !== 'object') continue;
+    if (block.fieldName) names.push(block.fieldName);
+    if (Array.isArray(block.items)) collectFieldNames(block.items, names);
+    if (Array.isArray(block.nodes)) {
+      collectFieldNames(block.nodes.filter((node): node is NodeData => typeof node !== 'string'), names);
+    }
+  }
+  return names;
+}
+
+/**
+ * Every block uuid in the list, nested items included
+ */
+export function collectBlockUuids(items: BlockData[], uuids = new Set<string>()): Set<string> {
+  for (const block of items) {
+    if (block.uuid) uuids.add(block.uuid);
+    if (block.items) collectBlockUuids(block.items, uuids);
+  }
+  return uuids;
+}
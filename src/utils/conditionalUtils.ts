@@ -7,7 +7,14 @@ import type {
   CurrentValues,
   EvaluationResult,
 } from '../types';
-import type { BlockData } from '../types';
+import type { BlockData, NavigationRuleRef, SurveyOutcome } from '../types';
+import { parseEndingTarget } from './outcomes';
+import { applyConditionOperator, evaluateExpression, shouldUseLegacyEval } from '../expressions';
+import {
+  legacyEvaluateCondition,
+  legacyEvaluateNavigationCondition,
+  legacyExecuteCalculation,
+} from '../expressions/legacy';
 
 /**
  * Evaluates a simple condition between two values using the specified operator
@@ -20,12 +27,7 @@ export function evaluateSimpleCondition(
 ): boolean {
   // Handle null/undefined field values specially
   if (fieldValue === null || fieldValue === undefined) {
-    if (operator === 'empty') return true;
-    if (operator === 'notEmpty') return false;
-    // For equality operators when checking against null/undefined
-    if (operator === '==') return comparisonValue === null || comparisonValue === undefined;
-    if (operator === '!=') return comparisonValue !== null && comparisonValue !== undefined;
-    return false; // Most other operations on null/undefined should return false
+    return applyConditionOperator(fieldValue, operator, comparisonValue);
   }
 
   // Type conversions based on the specified type
@@ -46,87 +48,7 @@ export function evaluateSimpleCondition(
     typedComparisonValue = String(comparisonValue);
   }
 
-  // Evaluate based on operator
-  switch (operator) {
-    case '==':
-      return typedFieldValue == typedComparisonValue;
-    case '!=':
-      return typedFieldValue != typedComparisonValue;
-    case '>':
-      return typedFieldValue > typedComparisonValue;
-    case '>=':
-      return typedFieldValue >= typedComparisonValue;
-    case '<':
-      return typedFieldValue < typedComparisonValue;
-    case '<=':
-      return typedFieldValue <= typedComparisonValue;
-    case 'contains':
-      return String(typedFieldValue).includes(String(typedComparisonValue));
-    case 'startsWith':
-      return String(typedFieldValue).startsWith(String(typedComparisonValue));
-    case 'endsWith':
-      return String(typedFieldValue).endsWith(String(typedComparisonValue));
-    case 'empty':
-      return typedFieldValue === '' ||
-             typedFieldValue === null ||
-             typedFieldValue === undefined ||
-             (Array.isArray(typedFieldValue) && typedFieldValue.length === 0);
-    case 'notEmpty':
-      return typedFieldValue !== '' &&
-             typedFieldValue !== null &&
-             typedFieldValue !== undefined &&
-             (!Array.isArray(typedFieldValue) || typedFieldValue.length > 0);
-    case 'between':
-      if (Array.isArray(typedComparisonValue) && typedComparisonValue.length === 2) {
-        return typedFieldValue >= typedComparisonValue[0] && typedFieldValue <= typedComparisonValue[1];
-      }
-      return false;
-    case 'in':
-      return Array.isArray(typedComparisonValue) && typedComparisonValue.includes(typedFieldValue);
-    case 'notIn':
-      return Array.isArray(typedComparisonValue) && !typedComparisonValue.includes(typedFieldValue);
-    case 'notContains':
-      return !String(typedFieldValue).includes(String(typedComparisonValue));
-    case 'containsAny':
-      if (Array.isArray(typedFieldValue) && Array.isArray(typedComparisonValue)) {
-        return typedFieldValue.some(v => typedComparisonValue.includes(v));
-      }
-      return false;
-    case 'containsAll':
-      if (Array.isArray(typedFieldValue) && Array.isArray(typedComparisonValue)) {
-        return typedComparisonValue.every(v => typedFieldValue.includes(v));
-      }
-      return false;
-    case 'containsNone':
-      if (Array.isArray(typedFieldValue) && Array.isArray(typedComparisonValue)) {
-        return !typedFieldValue.some(v => typedComparisonValue.includes(v));
-      }
-      return false;
-    case 'notBetween':
-      if (Array.isArray(typedComparisonValue) && typedComparisonValue.length === 2) {
-        return typedFieldValue < typedComparisonValue[0] || typedFieldValue > typedComparisonValue[1];
-      }
-      return false;
-    case 'matches':
-      try {
-        return new RegExp(String(typedComparisonValue)).test(String(typedFieldValue));
-      } catch {
-        return false;
-      }
-    case 'isEmpty':
-      return typedFieldValue === '' ||
-             typedFieldValue === null ||
-             typedFieldValue === undefined ||
-             (Array.isArray(typedFieldValue) && typedFieldValue.length === 0);
-    case 'isNotEmpty':
-      return typedFieldValue !== '' &&
-             typedFieldValue !== null &&
-             typedFieldValue !== undefined &&
-             (!Array.isArray(typedFieldValue) || typedFieldValue.length > 0);
-    default:
-      console.warn(`Unknown operator: ${operator}`);
-      return false;
-  }
+  return applyConditionOperator(typedFieldValue, operator, typedComparisonValue);
 }
 
 /**
@@ -139,8 +61,8 @@ export function evaluateSimpleCondition(
 function getNestedValue(obj: Record<string, any>, path: string): any {
   if (!path || !obj) return undefined;
 
-  // Split by dots and traverse the object
-  return path.split('.').reduce((current, key) => {
+  // Split by dots (and array indexes, e.g. "medications[0].dose") and traverse the object
+  return path.replace(/\[(\d+)\]/g, '.$1').split('.').reduce((current, key) => {
     return current?.[key];
   }, obj);
 }
@@ -174,10 +96,8 @@ function evaluateNavigationalRule(conditionalRule: NavigationRule, currentValues
       };
     }
     
-    // Fallback to Function constructor evaluation for complex conditions
-    const context = { ...currentValues };
-    const evaluator = new Function(...Object.keys(context), `return ${condition}`);
-    const result = evaluator(...Object.values(context));
+    // Fallback to the expression engine for complex conditions
+    const result = evaluateNavigationCondition(condition, currentValues);
     
     if (result) {
       return {
@@ -567,43 +487,21 @@ export function evaluateCondition(
   condition: string | ConditionRule | ConditionRule[],
   fieldValues: Record<string, any>
 ): boolean {
-  // If condition is a string, evaluate it as a JavaScript expression
+  // If condition is a string, evaluate it as an expression
   if (typeof condition === 'string') {
     try {
-      // Basic sanitization
-      const sanitizedCondition = condition
-        .replace(/import\s*\{/g, '')
-        .replace(/require\s*\(/g, '')
-        .replace(/process/g, '')
-        .replace(/global/g, '')
-        .replace(/window/g, '')
-        .replace(/document/g, '')
-        .replace(/eval\s*\(/g, '')
-        .trim();
-
-      // Allow conditions written as "return x > 0;" by stripping leading return
-      const normalized = sanitizedCondition
-        .replace(/^return\s+/i, '')
-        .replace(/;?\s*$/,'');
-
-      // Create a function that references values by using a parameter object instead of 'with'
-      const conditionFn = new Function('values', `
-        "use strict";
+      // Conditions may be written as "return x > 0;" - a program handles both forms
+      return Boolean(evaluateExpression(condition, fieldValues));
+    } catch (error) {
+      if (shouldUseLegacyEval(error)) {
         try {
-          // Access values directly from the values object
-          // Example: If condition is "age > 18", we'll reference values.age
-          const result = (${translateConditionToExplicitReferences(normalized)});
-          return result;
-        } catch (e) {
-          console.error("Error evaluating condition:", e);
+          return legacyEvaluateCondition(condition, fieldValues);
+        } catch (legacyError) {
+          console.error('Error evaluating condition:', legacyError);
           return false;
         }
-      `);
-
-      // Execute the function with the field values
-      return Boolean(conditionFn(fieldValues));
-    } catch (error) {
-      console.error('Error parsing condition expression:', error);
+      }
+      console.error('Error evaluating condition:', error);
       return false;
     }
   }
@@ -620,33 +518,17 @@ export function evaluateCondition(
 }
 
 /**
- * Translates a condition string to use explicit references to the values object
- * For example, converts "age > 18" to "values.age > 18"
- * Also handles nested fields like "authResults.email" → "values.authResults.email"
+ * Evaluates a navigation rule condition with the expression engine
  */
-function translateConditionToExplicitReferences(condition: string): string {
-  // Replace variable names with values object references
-  // This regex looks for identifiers that:
-  // 1. Are not preceded by a dot (to avoid matching nested property names)
-  // 2. Are not followed by : or ( (to avoid function calls and object literals)
-  return condition.replace(/(?<!\.)(\b[a-zA-Z_$][a-zA-Z0-9_$]*(?:\.[a-zA-Z_$][a-zA-Z0-9_$]*)*)\b(?!\s*:|\s*\()/g, (match, name) => {
-    // Extract the root identifier (first part before any dots)
-    const rootName = name.split('.')[0];
-
-    // Don't replace JavaScript keywords and common values
-    const keywords = [
-      'true', 'false', 'null', 'undefined', 'NaN', 'Infinity',
-      'if', 'else', 'return', 'function', 'var', 'let', 'const',
-      'new', 'this', 'typeof', 'instanceof', 'in'
-    ];
-
-    if (keywords.includes(rootName)) {
-      return name;
-    }
-
-    // Replace the entire dotted path with values. prefix
-    return `values.${name}`;
-  });
+function evaluateNavigationCondition(condition: string, currentValues: CurrentValues): boolean {
+  try {
+    return Boolean(evaluateExpression(condition, currentValues));
+  } catch (error) {
+    if (shouldUseLegacyEval(error)) {
+      return legacyEvaluateNavigationCondition(condition, currentValues);
+    }
+    throw error;
+  }
 }
 
 /**
@@ -705,7 +587,8 @@ export function getNextPageFromNavigationRules(
     if (!block.navigationRules) continue;
     for (const rule of block.navigationRules) {
       if (evaluateCondition(rule.condition, fieldValues)) {
-        if (rule.target === "submit") {
+        // Endings are resolved with getEndingFromNavigationRules
+        if (parseEndingTarget(rule.target)) {
           return -1;
         }
         if (rule.isPage) {
@@ -723,6 +606,43 @@ export function getNextPageFromNavigationRules(
   return null;
 }
 
+/**
+ * The outcome of the page-level navigation rule that ends the survey, if the
+ * first matching rule points at an ending
+ */
+export function getEndingFromNavigationRules(
+  blocks: BlockData[],
+  fieldValues: Record<string, any>
+): SurveyOutcome | null {
+  for (const block of blocks) {
+    for (const rule of block.navigationRules || []) {
+      if (evaluateCondition(rule.condition, fieldValues)) {
+        return parseEndingTarget(rule.target);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The first navigation rule of the blocks whose condition holds, i.e. the rule
+ * that decides where to go next
+ */
+export function getMatchedNavigationRule(
+  blocks: BlockData[],
+  fieldValues: Record<string, any>
+): NavigationRuleRef | null {
+  for (const block of blocks) {
+    const ruleIndex = (block?.navigationRules || []).findIndex(
+      (rule) => evaluateNavigationalRule(rule, fieldValues).matched
+    );
+    if (ruleIndex >= 0) {
+      return { blockUuid: block.uuid || block.fieldName || '', ruleIndex };
+    }
+  }
+  return null;
+}
+
 /**
  * Find the page and block index for a block UUID
  */
@@ -747,7 +667,7 @@ export function getNextStepFromNavigationRules(
   pages: Array<BlockData[]>,
   pageIds: string[],
   fieldValues: Record<string, any>
-): { pageIndex: number; blockIndex: number } | 'submit' | null {
+): { pageIndex: number; blockIndex: number } | 'submit' | { outcome: SurveyOutcome } | null {
   if (!block.navigationRules) return null;
 
   for (const rule of block.navigationRules) {
@@ -757,6 +677,10 @@ export function getNextStepFromNavigationRules(
       if (evaluate.target === 'submit') {
         return 'submit';
       }
+      const outcome = parseEndingTarget(evaluate.target);
+      if (outcome) {
+        return { outcome };
+      }
       if (evaluate.isPage) {
         const idx = pageIds.indexOf(String(evaluate.target));
         if (idx >= 0) return { pageIndex: idx, blockIndex: 0 };
@@ -784,6 +708,10 @@ export function getNextStepFromNavigationRules(
     if (block.nextBlockId === 'submit') {
       return 'submit';
     }
+    const outcome = parseEndingTarget(block.nextBlockId);
+    if (outcome) {
+      return { outcome };
+    }
     const pos = findBlockPosition(pages, block.nextBlockId);
     if (pos) return pos;
   }
@@ -799,38 +727,17 @@ export function executeCalculation(
   fieldValues: Record<string, any>
 ): any {
   try {
-    // Basic sanitization
-    const sanitizedFormula = calculationRule.formula
-      .replace(/import\s*\{/g, '')
-      .replace(/require\s*\(/g, '')
-      .replace(/process/g, '')
-      .replace(/global/g, '')
-      .replace(/window/g, '')
-      .replace(/document/g, '')
-      .replace(/eval\s*\(/g, '');
-
-    // Simple direct execution approach
-    const functionBody = `
-      "use strict";
-
+    // Formulas can be a bare expression ("price * quantity") or a body with return statements
+    return evaluateExpression(calculationRule.formula, fieldValues);
+  } catch (error) {
+    if (shouldUseLegacyEval(error)) {
       try {
-        // Make all fields directly available
-        ${Object.keys(fieldValues).map(key =>
-          `const ${key} = ${JSON.stringify(fieldValues[key])};`
-        ).join('\n')}
-
-        // Execute formula
-        ${sanitizedFormula}
-      } catch (error) {
-        console.error("Error in formula execution:", error);
+        return legacyExecuteCalculation(calculationRule.formula, fieldValues);
+      } catch (legacyError) {
+        console.error('Error executing calculation:', legacyError);
         return null;
       }
-    `;
-
-    // Create and execute the function
-    const fn = new Function(functionBody);
-    return fn();
-  } catch (error) {
+    }
     console.error('Error executing calculation:', error);
     return null;
   }
@@ -911,14 +818,9 @@ export function getNavigationTargetForOption(
         return target;
       }
 
-      // Fallback to Function constructor evaluation for complex conditions
-      if (enhancedResult === null) {
-        const context = { ...simulatedValues };
-        const evaluator = new Function(...Object.keys(context), `return ${condition}`);
-        const result = evaluator(...Object.values(context));
-        if (result) {
-          return target;
-        }
+      // Fallback to the expression engine for complex conditions
+      if (enhancedResult === null && evaluateNavigationCondition(condition, simulatedValues)) {
+        return target;
       }
     } catch {
       // Skip rules that fail to evaluate
@@ -0,0 +1,137 @@
+import type { TextDirection, ThemeDefinition } from '../types';
+
+/**
+ * Right-to-left support: the writing direction of a language and converting
+ * theme class strings to logical properties (`ms-`/`me-` instead of
+ * `ml-`/`mr-`, ...) so the same theme lays out correctly in both directions.
+ */
+
+/** Languages written right to left (ISO 639 codes) */
+export const RTL_LANGUAGES = [
+  'ar', // Arabic
+  'arc', // Aramaic
+  'ckb', // Central Kurdish (Sorani)
+  'dv', // Divehi
+  'fa', // Persian
+  'he', // Hebrew
+  'iw', // Hebrew (legacy code)
+  'ks', // Kashmiri
+  'ps', // Pashto
+  'sd', // Sindhi
+  'syr', // Syriac
+  'ug', // Uyghur
+  'ur', // Urdu
+  'yi', // Yiddish
+];
+
+// Script subtags that force right-to-left, e.g. `pa-Arab` or `ms-Arab`
+const RTL_SCRIPTS = ['adlm', 'arab', 'hebr', 'nkoo', 'rohg', 'syrc', 'thaa'];
+
+/**
+ * Writing direction of a BCP 47 language tag such as `ar`, `he-IL` or `pa-Arab`
+ */
+export function getLanguageDirection(language?: string): TextDirection {
+  if (!language) return 'ltr';
+  const [primary, ...subtags] = language.toLowerCase().split(/[-_]/);
+  const script = subtags.find((subtag) => subtag.length === 4 && /^[a-z]+$/.test(subtag));
+  if (script) return RTL_SCRIPTS.includes(script) ? 'rtl' : 'ltr';
+  return RTL_LANGUAGES.includes(primary) ? 'rtl' : 'ltr';
+}
+
+export function isRtlLanguage(language?: string): boolean {
+  return getLanguageDirection(language) === 'rtl';
+}
+
+// Physical utility -> logical utility. Applied to the utility part of a class, after variants.
+const LOGICAL_UTILITIES: Array<[RegExp, string]> = [
+  [/^(-?)ml-/, '$1ms-'],
+  [/^(-?)mr-/, '$1me-'],
+  [/^pl-/, 'ps-'],
+  [/^pr-/, 'pe-'],
+  [/^(-?)left-/, '$1start-'],
+  [/^(-?)right-/, '$1end-'],
+  [/^text-left$/, 'text-start'],
+  [/^text-right$/, 'text-end'],
+  [/^float-left$/, 'float-start'],
+  [/^float-right$/, 'float-end'],
+  [/^border-l(?=-|$)/, 'border-s'],
+  [/^border-r(?=-|$)/, 'border-e'],
+  [/^rounded-l(?=-|$)/, 'rounded-s'],
+  [/^rounded-r(?=-|$)/, 'rounded-e'],
+  [/^rounded-tl(?=-|$)/, 'rounded-ss'],
+  [/^rounded-tr(?=-|$)/, 'rounded-se'],
+  [/^rounded-bl(?=-|$)/, 'rounded-es'],
+  [/^rounded-br(?=-|$)/, 'rounded-ee'],
+];
+
+// Splits `md:hover:!-ml-2` into its variants (`md:hover:`), important flag and utility
+const splitClass = (className: string) => {
+  let depth = 0;
+  let variantEnd = 0;
+  for (let i = 0; i < className.length; i++) {
+    const char = className[i];
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    else if (char === ':' && depth === 0) variantEnd = i + 1;
+  }
+  const variants = className.slice(0, variantEnd);
+  const rest = className.slice(variantEnd);
+  const important = rest.startsWith('!') ? '!' : '';
+  return { variants, important, utility: rest.slice(important.length) };
+};
+
+/**
+ * Rewrites physical Tailwind classes (`ml-2`, `text-left`, `rounded-l-lg`,
+ * `border-l-4`, ...) as their logical equivalents. `space-x-*` and
+ * `divide-x-*` get a matching `rtl:*-reverse` class. Classes that already
+ * target a direction (`rtl:`/`ltr:`) are left alone.
+ */
+export function toLogicalClasses(classString: string): string {
+  if (!classString) return classString;
+
+  const classes = classString.split(/\s+/).filter(Boolean);
+  const reversals = new Set<string>();
+
+  const converted = classes.map((className) => {
+    const { variants, important, utility } = splitClass(className);
+    if (/(^|:)(rtl|ltr):/.test(variants)) return className;
+
+    const spacing = utility.match(/^-?(space-x|divide-x)(?:-|$)/);
+    if (spacing && utility !== `${spacing[1]}-reverse`) {
+      reversals.add(`rtl:${spacing[1]}-reverse`);
+    }
+
+    for (const [pattern, replacement] of LOGICAL_UTILITIES) {
+      if (pattern.test(utility)) {
+        return `${variants}${important}${utility.replace(pattern, replacement)}`;
+      }
+    }
+    return className;
+  });
+
+  reversals.forEach((reversal) => {
+    if (!converted.includes(reversal)) converted.push(reversal);
+  });
+
+  return converted.join(' ');
+}
+
+// Theme sections holding values rather than class strings
+const NON_CLASS_THEME_KEYS = new Set(['name', 'colors', 'fonts']);
+
+const mapClassStrings = (value: any): any => {
+  if (typeof value === 'string') return toLogicalClasses(value);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, mapClassStrings(entry)]));
+};
+
+/**
+ * Copy of a theme whose class strings use logical properties, so it renders
+ * correctly under both `dir="ltr"` and `dir="rtl"`
+ */
+export function toLogicalTheme(theme: ThemeDefinition): ThemeDefinition {
+  if (!theme) return theme;
+  return Object.fromEntries(
+    Object.entries(theme).map(([key, value]) => [key, NON_CLASS_THEME_KEYS.has(key) ? value : mapClassStrings(value)])
+  ) as ThemeDefinition;
+}
@@ -0,0 +1,9 @@
+/**
+ * Whether an event target is a text input, select or contenteditable element,
+ * whose native shortcuts (undo, copy, paste) editor shortcuts should leave alone
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  const tagName = target.tagName;
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT' || target.isContentEditable;
+};
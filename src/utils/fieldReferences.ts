@@ -0,0 +1,383 @@
+import type { BlockData, ConditionRule, LocalizationMap, NodeData } from '../types';
+import { collectReferences, compileExpression } from '../expressions';
+import { getMessageParamSpans } from './messageFormat';
+import { getPipedTexts } from './piping';
+
+/**
+ * Finding and rewriting the field names that conditions, formulas, validation
+ * rules, piped text and translations refer to, for when blocks are renamed,
+ * copied or deleted. A reference to an object output such as
+ * `authResults.email` (see `getFieldAccessPath`) counts as a reference to its
+ * field, `authResults`.
+ */
+
+/** Old field name to new field name */
+export type FieldRenames = Record<string, string>;
+
+// Renames the root of a dotted path, e.g. "address.city"
+const renamePath = (path: string, renames: FieldRenames): string => {
+  const [name, ...rest] = path.split('.');
+  return name in renames ? [renames[name], ...rest].join('.') : path;
+};
+
+/**
+ * Renames the fields an expression reads. Locals, helper functions and
+ * property names are left alone; unparseable expressions are returned as is.
+ *
+ * @example
+ * renameExpressionFields('age >= 18 && address.city == "Oslo"', { age: 'age2' });
+ * // 'age2 >= 18 && address.city == "Oslo"'
+ */
+export function renameExpressionFields(expression: string, renames: FieldRenames): string {
+  if (!expression || Object.keys(renames).length === 0) return expression;
+
+  let references;
+  try {
+    references = collectReferences(compileExpression(expression));
+  } catch {
+    return expression;
+  }
+
+  let result = expression;
+  // Replace from the end so earlier offsets stay valid
+  for (const reference of [...references].reverse()) {
+    if (reference.isCall || !(reference.name in renames)) continue;
+    result = result.slice(0, reference.start) + renames[reference.name] + result.slice(reference.end);
+  }
+  return result;
+}
+
+/**
+ * Renames the fields piped into text, e.g. `{age}` or `{count, plural, ...}`.
+ * Literal text in plural and select options and quoted braces are left alone;
+ * text that doesn't parse as a message is returned as is.
+ */
+export function renamePipedTextFields(text: string, renames: FieldRenames): string {
+  if (!text || !text.includes('{') || Object.keys(renames).length === 0) return text;
+
+  let result = text;
+  // Replace from the end so earlier offsets stay valid
+  for (const { name, start } of [...(getMessageParamSpans(text) || [])].reverse()) {
+    const [root] = name.split('.');
+    if (!(root in renames)) continue;
+    result = result.slice(0, start) + renames[root] + result.slice(start + root.length);
+  }
+  return result;
+}
+
+const setPath = (target: any, path: string, value: any): any => {
+  const [key, ...rest] = path.split('.');
+  const copy = Array.isArray(target) ? [...target] : { ...target };
+  copy[key] = rest.length > 0 ? setPath(target[key], rest.join('.'), value) : value;
+  return copy;
+};
+
+const renameConditionRules = (rules: ConditionRule | ConditionRule[], renames: FieldRenames) =>
+  Array.isArray(rules)
+    ? rules.map((rule) => (rule?.field ? { ...rule, field: renamePath(rule.field, renames) } : rule))
+    : rules?.field
+      ? { ...rules, field: renamePath(rules.field, renames) }
+      : rules;
+
+const renamePaths = (paths: string[], renames: FieldRenames) => paths.map((path) => renamePath(path, renames));
+
+const renameCondition = (condition: string | ConditionRule | ConditionRule[], renames: FieldRenames) =>
+  typeof condition === 'string' ? renameExpressionFields(condition, renames) : renameConditionRules(condition, renames);
+
+/**
+ * Renames field references in one block's navigation rule conditions,
+ * branching logic, `visibleIf`, validation rules, formula, dependencies,
+ * options source and piped text. Nested items are not visited. Returns the
+ * block itself when nothing refers to a renamed field.
+ */
+export function renameBlockFieldReferences(block: BlockData, renames: FieldRenames): BlockData {
+  if (Object.keys(renames).length === 0) return block;
+  let next: BlockData = { ...block };
+
+  if (block.navigationRules) {
+    next.navigationRules = block.navigationRules.map((rule) =>
+      typeof rule.condition === 'string' ? { ...rule, condition: renameExpressionFields(rule.condition, renames) } : rule
+    );
+  }
+
+  if (block.visibleIf) next.visibleIf = renameCondition(block.visibleIf, renames);
+
+  // Page-level branching, read by getNextPageIndex
+  if (block.branchingLogic?.condition) {
+    next.branchingLogic = { ...block.branchingLogic, condition: renameCondition(block.branchingLogic.condition, renames) };
+  }
+
+  if (block.validationRules) {
+    next.validationRules = block.validationRules.map((rule) => ({
+      ...rule,
+      ...(rule.field && { field: renamePath(rule.field, renames) }),
+      ...(rule.condition && { condition: renameExpressionFields(rule.condition, renames) }),
+      ...(rule.dependencies && { dependencies: rule.dependencies.map((field) => renamePath(field, renames)) }),
+      ...(Array.isArray(rule.value) && {
+        value: (rule.value as any[]).map((item) =>
+          item && typeof item === 'object' && item.type === 'variable'
+            ? { ...item, value: renamePath(item.value, renames) }
+            : item
+        ),
+      }),
+    }));
+  }
+
+  if (typeof block.formula === 'string') {
+    next.formula = renameExpressionFields(block.formula, renames);
+  }
+
+  // Conditional blocks
+  if (typeof block.condition === 'string') {
+    next.condition = renameExpressionFields(block.condition, renames);
+  }
+
+  if (Array.isArray(block.dependencies)) next.dependencies = renamePaths(block.dependencies, renames);
+  if (Array.isArray(block.redirectFields)) next.redirectFields = renamePaths(block.redirectFields, renames);
+  if (block.optionsSource?.type === 'provider' && block.optionsSource.dependsOn) {
+    next.optionsSource = { ...block.optionsSource, dependsOn: renamePaths(block.optionsSource.dependsOn, renames) };
+  } else if (block.optionsSource?.type === 'carryForward' && block.optionsSource.field) {
+    next.optionsSource = { ...block.optionsSource, field: renamePath(block.optionsSource.field, renames) };
+  }
+
+  for (const { path, text } of getPipedTexts(block)) {
+    const renamed = renamePipedTextFields(text, renames);
+    if (renamed !== text) next = setPath(next, path, renamed);
+  }
+
+  return JSON.stringify(next) === JSON.stringify(block) ? block : next;
+}
+
+/** A text in the survey that refers to a field */
+export interface FieldReference {
+  /** Block, page or section holding the text; unset for translations */
+  blockUuid?: string;
+  /** Field name or name of the block, for display */
+  blockName: string;
+  /** Where the text is, e.g. `navigationRules.0.condition`, or the translation key */
+  path: string;
+  text: string;
+  /** The text once the field is renamed */
+  renamed?: string;
+}
+
+export interface SurveyFieldRename {
+  rootNode: NodeData;
+  localizations?: LocalizationMap;
+  /** Every text the rename rewrote, the blocks' own field names included */
+  references: FieldReference[];
+}
+
+// Answer sets keyed by field name, e.g. test personas
+const renameKeys = (values: Record<string, any> | undefined, renames: FieldRenames) =>
+  values && Object.fromEntries(Object.entries(values).map(([key, value]) => [renamePath(key, renames), value]));
+
+// Survey-level settings of the root node that name fields
+const renameRootFieldReferences = (root: NodeData, renames: FieldRenames): NodeData => {
+  const next: NodeData = { ...root };
+  if (root.quotas) {
+    next.quotas = root.quotas.map((quota) => ({ ...quota, condition: renameExpressionFields(quota.condition, renames) }));
+  }
+  if (root.scores) {
+    next.scores = root.scores.map((score) => ({ ...score, fields: renamePaths(score.fields, renames) }));
+  }
+  if (root.testPersonas) {
+    next.testPersonas = root.testPersonas.map((persona) => ({ ...persona, values: renameKeys(persona.values, renames)! }));
+  }
+  if (root.testScenarios) {
+    next.testScenarios = root.testScenarios.map((scenario) => ({
+      ...scenario,
+      values: renameKeys(scenario.values, renames)!,
+      ...(scenario.expectedPath && { expectedPath: renamePaths(scenario.expectedPath, renames) }),
+    }));
+  }
+  return next;
+};
+
+// Texts that differ between a block and its renamed copy. Objects keyed by
+// field name report their renamed keys.
+const diffTexts = (before: any, after: any, path: string, out: Array<{ path: string; text: string; renamed: string }>) => {
+  if (before === after) return;
+  if (!before || !after || typeof before !== 'object' || typeof after !== 'object') {
+    if (typeof before === 'string' || typeof after === 'string') {
+      out.push({ path, text: String(before ?? ''), renamed: String(after ?? '') });
+    }
+    return;
+  }
+  const beforeKeys = Object.keys(before);
+  const afterKeys = Object.keys(after);
+  if (!Array.isArray(before)) {
+    const removed = beforeKeys.filter((key) => !(key in after));
+    const added = afterKeys.filter((key) => !(key in before));
+    if (removed.length > 0 || added.length > 0) out.push({ path, text: removed.join(', '), renamed: added.join(', ') });
+  }
+  for (const key of beforeKeys) {
+    if (key in after) diffTexts(before[key], after[key], path ? `${path}.${key}` : key, out);
+  }
+};
+
+const CHILD_LISTS = ['items', 'template', 'nodes'] as const;
+
+// A repeater's template children are answered per entry, and inside the template
+// their field names mean the entry's answers. Survey fields with the same names
+// are out of reach there, so their renames don't apply.
+const getChildRenames = (node: any, list: (typeof CHILD_LISTS)[number], renames: FieldRenames): FieldRenames => {
+  if (list !== 'template') return renames;
+  const local = new Set(node.template.map((child: any) => child?.fieldName).filter(Boolean));
+  return Object.fromEntries(Object.entries(renames).filter(([name]) => !local.has(name)));
+};
+
+const renameNode = <T extends BlockData | NodeData>(
+  node: T,
+  renames: FieldRenames,
+  references: FieldReference[],
+  isRoot = false
+): T => {
+  let next: any = renameBlockFieldReferences(isRoot ? renameRootFieldReferences(node, renames) : node, renames);
+  if (node.fieldName && node.fieldName in renames) next = { ...next, fieldName: renames[node.fieldName] };
+
+  if (next !== node) {
+    const changes: Array<{ path: string; text: string; renamed: string }> = [];
+    diffTexts(node, next, '', changes);
+    const blockName = node.fieldName || node.name || node.type;
+    references.push(...changes.map((change) => ({ blockUuid: node.uuid, blockName, ...change })));
+  }
+
+  for (const list of CHILD_LISTS) {
+    const children = node[list];
+    if (!Array.isArray(children)) continue;
+    const childRenames = getChildRenames(node, list, renames);
+    const renamed = children.map((child: any) =>
+      child && typeof child === 'object' ? renameNode(child, childRenames, references) : child
+    );
+    if (renamed.some((child: any, index: number) => child !== children[index])) {
+      next = { ...(next === node ? { ...node } : next), [list]: renamed };
+    }
+  }
+
+  // The root's settings are always copied; keep the root when none changed
+  return (isRoot && JSON.stringify(next) === JSON.stringify(node) ? node : next) as T;
+};
+
+// Translation keys are scoped to the block's uuid, or to its field name when it has none
+const collectNameScopedBlocks = (node: any, renames: FieldRenames, names: FieldRenames = {}): FieldRenames => {
+  if (!node || typeof node !== 'object') return names;
+  if (!node.uuid && node.fieldName && node.fieldName in renames) names[node.fieldName] = renames[node.fieldName];
+  for (const list of CHILD_LISTS) {
+    if (!Array.isArray(node[list])) continue;
+    const childRenames = getChildRenames(node, list, renames);
+    node[list].forEach((child: any) => collectNameScopedBlocks(child, childRenames, names));
+  }
+  return names;
+};
+
+// The renames that apply to the texts of blocks inside repeater templates, by translation scope
+const collectTemplateRenames = (
+  node: any,
+  renames: FieldRenames,
+  inTemplate = false,
+  scopes: Record<string, FieldRenames> = {}
+): Record<string, FieldRenames> => {
+  if (!node || typeof node !== 'object') return scopes;
+  const id = node.uuid || node.fieldName;
+  if (inTemplate && id) scopes[id] = renames;
+  for (const list of CHILD_LISTS) {
+    if (!Array.isArray(node[list])) continue;
+    const childRenames = getChildRenames(node, list, renames);
+    node[list].forEach((child: any) => collectTemplateRenames(child, childRenames, inTemplate || list === 'template', scopes));
+  }
+  return scopes;
+};
+
+/**
+ * Renames fields throughout a translation map: answers piped into translated
+ * text, and the keys of blocks whose keys start with their field name.
+ * `scopeRenames` replaces `renames` for the texts of some blocks, keyed by the
+ * block's translation scope (its uuid or field name).
+ */
+export function renameLocalizationFields(
+  localizations: LocalizationMap,
+  renames: FieldRenames,
+  keyRenames: FieldRenames = {},
+  references: FieldReference[] = [],
+  scopeRenames: Record<string, FieldRenames> = {}
+): LocalizationMap {
+  let changed = false;
+  const next: LocalizationMap = {};
+
+  for (const [language, entries] of Object.entries(localizations)) {
+    next[language] = {};
+    for (const [key, text] of Object.entries(entries || {})) {
+      const renamedKey = renamePath(key, keyRenames);
+      const textRenames = scopeRenames[key.split('.')[0]] ?? renames;
+      const renamedText = typeof text === 'string' ? renamePipedTextFields(text, textRenames) : text;
+      if (renamedKey !== key) {
+        references.push({ blockName: `Translations (${language})`, path: key, text: key, renamed: renamedKey });
+      }
+      if (renamedText !== text) {
+        references.push({ blockName: `Translations (${language})`, path: key, text, renamed: renamedText });
+      }
+      changed = changed || renamedKey !== key || renamedText !== text;
+      next[language][renamedKey] = renamedText;
+    }
+  }
+
+  return changed ? next : localizations;
+}
+
+/**
+ * Renames fields across the whole survey: the blocks' field names and every
+ * reference to them in blocks, pages, the root node's quotas, scores and test
+ * answers, and the translations. Returns the same objects when nothing
+ * changed.
+ *
+ * @example
+ * const { rootNode, localizations, references } =
+ *   renameSurveyField(survey.rootNode, { authResults: 'login' }, survey.localizations);
+ * // "authResults.email == ''" is now "login.email == ''"
+ */
+export function renameSurveyField(
+  rootNode: NodeData,
+  renames: FieldRenames,
+  localizations?: LocalizationMap
+): SurveyFieldRename {
+  const references: FieldReference[] = [];
+  if (Object.keys(renames).length === 0) return { rootNode, localizations, references };
+
+  const renamedRoot = renameNode(rootNode, renames, references, true);
+  const renamedLocalizations = localizations
+    ? renameLocalizationFields(
+        localizations,
+        renames,
+        collectNameScopedBlocks(rootNode, renames),
+        references,
+        collectTemplateRenames(rootNode, renames)
+      )
+    : localizations;
+
+  return { rootNode: renamedRoot, localizations: renamedLocalizations, references };
+}
+
+// Stands in for a renamed field when only the references are wanted
+const REFERENCE_MARKER = '__field_reference__';
+
+/**
+ * Texts that refer to any of the fields, e.g. to warn that deleting their
+ * blocks would leave conditions pointing at nothing. References inside
+ * `excludeBlocks` (usually the blocks being deleted) are left out.
+ */
+export function findFieldReferences(
+  rootNode: NodeData | null | undefined,
+  fieldNames: string[],
+  options: { localizations?: LocalizationMap; excludeBlocks?: Iterable<string> } = {}
+): FieldReference[] {
+  if (!rootNode || fieldNames.length === 0) return [];
+  const excluded = new Set(options.excludeBlocks);
+  const renames = Object.fromEntries(fieldNames.map((name) => [name, REFERENCE_MARKER]));
+
+  return renameSurveyField(rootNode, renames, options.localizations)
+    .references.filter((reference) => reference.path !== 'fieldName' && !excluded.has(reference.blockUuid!))
+    // Translation keys belong to the block itself
+    .filter((reference) => reference.blockUuid || reference.text !== reference.path)
+    .map(({ renamed: _renamed, ...reference }) => reference);
+}
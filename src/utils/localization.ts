@@ -0,0 +1,384 @@
+import type { BlockData, LocalizationMap, NodeData } from '../types';
+import { formatMessage } from './messageFormat';
+
+/**
+ * Survey localization: translation keys, resolving text for a language and
+ * coverage reports for translators.
+ *
+ * Keys are scoped to the block (`uuid`, falling back to `fieldName`):
+ * - `${id}.label`, `${id}.description`, ... for block text
+ * - `${id}.options.${optionId}.label` for option, matrix row and column text
+ * - `${id}.options.${columnId}.choices.${choiceId}.text` for matrix dropdown choices
+ * - `${id}.labels.${index}` for the legacy `labels` array
+ * - `${id}.validationRules.${ruleId}.message` for validation messages
+ * - `ui.*` for renderer text such as navigation buttons
+ *
+ * Maps written by older versions of the editor use the English text itself as
+ * the key; those entries still resolve.
+ */
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/** Block properties holding text shown to respondents */
+export const LOCALIZABLE_BLOCK_FIELDS = [
+  'label',
+  'description',
+  'placeholder',
+  'text',
+  'html',
+  'helpText',
+  'title',
+  'subtitle',
+  'disclaimer',
+  'columnHeader',
+  'agreementText',
+  'nameLabel',
+  'namePlaceholder',
+  'buttonText',
+  'itemLabel',
+] as const;
+
+/** Block properties holding lists of options, matrix rows or columns */
+const LOCALIZABLE_LIST_FIELDS = ['options', 'questions', 'rows', 'columns'] as const;
+
+/** Text properties of an option, row or column */
+const LOCALIZABLE_LIST_ITEM_FIELDS = ['label', 'text', 'description'] as const;
+
+/**
+ * Text the renderer shows outside of blocks. Override any of these per
+ * language in the survey's `localizations`.
+ */
+export const DEFAULT_UI_STRINGS: Record<string, string> = {
+  'ui.previous': 'Previous',
+  'ui.next': 'Next',
+  'ui.continue': 'Continue',
+  'ui.continueWithSelected': 'Continue with {count} selected',
+  'ui.submit': 'Submit',
+  'ui.completeSurvey': 'Complete Survey',
+  'ui.validationErrors': 'Validation Errors',
+  'ui.answerPlaceholder': 'Type your answer...',
+  'ui.answerPrompt': 'Please answer this question',
+  'ui.searchOptions': 'Search options...',
+  'ui.loadingOptions': 'Loading options...',
+  'ui.optionsError': 'Options could not be loaded',
+  'ui.noOptions': 'No matching options',
+  'ui.repeater.entry': '{item} {number}',
+  'ui.repeater.add': 'Add {item}',
+  'ui.repeater.remove': 'Remove',
+  'ui.repeater.askFirst': 'Would you like to add an entry?',
+  'ui.repeater.askMore': 'Would you like to add another entry?',
+  'ui.repeater.addEntry': 'Yes, add one',
+  'ui.repeater.done': "No, I'm done",
+  'ui.chat.welcome': "Hi! I'm here to help you complete this survey. Let's get started!",
+  'ui.chat.completion': 'Thank you for completing the survey! Your responses have been recorded.',
+  'ui.voice.welcome': "Hi! I'm here to help you complete this survey. Let's get started.",
+  'ui.voice.completion': 'Thank you for completing the survey!',
+  'ui.ending.complete.title': 'Thank you!',
+  'ui.ending.complete.message': 'Your response has been recorded.',
+  'ui.ending.screenedOut.title': 'Thank you for your time',
+  'ui.ending.screenedOut.message': "Unfortunately, you don't qualify for this survey.",
+  'ui.ending.overQuota.title': 'Thank you for your interest',
+  'ui.ending.overQuota.message': 'We have already heard from enough people like you, so this survey is now closed to you.',
+  'ui.ending.redirecting': '{seconds, plural, one {Redirecting in # second...} other {Redirecting in # seconds...}}',
+  'ui.ending.redirectNow': 'Continue now',
+  'validation.required': 'This field is required',
+  'validation.invalidOption': 'Selected value is not valid',
+  'validation.invalidDate': 'Please enter a valid date',
+  'validation.signatureRequired': 'Signature is required',
+  'validation.nameRequired': 'Name is required',
+  'validation.fileRequired': 'At least one file is required',
+  'validation.entriesIncomplete': 'Please complete every entry',
+  'validation.tooFewEntries': 'Please add more entries',
+  'validation.tooManyEntries': 'Please remove some entries',
+  'validation.invalidNumber': 'Please enter a number',
+  'validation.invalidFormat': 'Invalid format',
+  'validation.requiredRows': 'Please answer every required row',
+  'validation.tooFewRows': 'Please answer more rows',
+  'validation.invalidCells': 'Please check the answers in the grid',
+};
+
+// Built-in validation messages are plain English strings; map them back to their keys
+const UI_KEYS_BY_TEXT: Record<string, string> = Object.fromEntries(
+  Object.entries(DEFAULT_UI_STRINGS).map(([key, text]) => [text, key])
+);
+
+export interface LocalizationEntry {
+  key: string;
+  /** Text in the source language, as authored in the survey */
+  source: string;
+  /** Where the text appears, e.g. "age › options" - shown to translators */
+  context: string;
+}
+
+export interface LanguageCoverage {
+  language: string;
+  total: number;
+  translated: number;
+  /** 0-100 */
+  percentage: number;
+  missing: LocalizationEntry[];
+  /** Keys in the map that no longer match anything in the survey */
+  unused: string[];
+}
+
+/**
+ * Adds entries to a localization map, language by language
+ */
+export function mergeLocalizations(localizations: LocalizationMap, additions: LocalizationMap): LocalizationMap {
+  const merged = { ...localizations };
+  for (const [language, entries] of Object.entries(additions)) {
+    merged[language] = { ...(localizations[language] || {}), ...entries };
+  }
+  return merged;
+}
+
+/**
+ * Id used to scope a block's keys
+ */
+export function getBlockLocalizationId(block: BlockData | NodeData): string | undefined {
+  return block.uuid || block.fieldName;
+}
+
+const getListItemId = (item: any, index: number): string =>
+  String(item?.id ?? item?.value ?? index);
+
+/**
+ * Looks up the translation for a key, falling back to the source text
+ */
+export function resolveLocalizedText(
+  key: string,
+  source: string | undefined,
+  language: string,
+  localizations?: LocalizationMap
+): string | undefined {
+  const langMap = localizations?.[language];
+  if (!langMap) return source;
+  return langMap[key] || (source ? langMap[source] : undefined) || source;
+}
+
+/**
+ * Translates renderer text (`ui.*` keys), formatted as an ICU message with
+ * `params` (`{count}`, `{count, plural, one {...} other {...}}`, ...)
+ */
+export function translateUiString(
+  key: string,
+  language: string,
+  localizations?: LocalizationMap,
+  params?: Record<string, string | number>
+): string {
+  const langMap = localizations?.[language] || {};
+  const defaultText = DEFAULT_UI_STRINGS[key];
+  const text = langMap[key] || (defaultText && langMap[defaultText]) || defaultText || key;
+  return params ? formatMessage(text, params, language) : text;
+}
+
+/**
+ * Translates a message produced at runtime (e.g. by a block's `validateValue`)
+ * by matching it against the built-in messages and source-text entries
+ */
+export function translateMessage(message: string, language: string, localizations?: LocalizationMap): string {
+  const langMap = localizations?.[language];
+  if (!langMap || !message) return message;
+  const key = UI_KEYS_BY_TEXT[message];
+  return (key && langMap[key]) || langMap[message] || message;
+}
+
+/**
+ * Returns a copy of the block with its text, options, matrix rows/columns,
+ * validation messages, nested items and repeater template translated. Returns the block itself
+ * when there is nothing to translate into.
+ */
+export function localizeBlock<T extends BlockData | NodeData>(
+  block: T,
+  language: string,
+  localizations?: LocalizationMap
+): T {
+  if (!block || typeof block !== 'object' || !localizations?.[language]) return block;
+
+  const id = getBlockLocalizationId(block);
+  const localized: any = { ...block };
+  const resolve = (key: string, source: any) =>
+    typeof source === 'string' ? resolveLocalizedText(key, source, language, localizations) : source;
+
+  if (id) {
+    for (const field of LOCALIZABLE_BLOCK_FIELDS) {
+      if (typeof block[field] === 'string') {
+        localized[field] = resolve(`${id}.${field}`, block[field]);
+      }
+    }
+
+    for (const listField of LOCALIZABLE_LIST_FIELDS) {
+      if (!Array.isArray(block[listField])) continue;
+      localized[listField] = block[listField].map((item: any, index: number) => {
+        if (!item || typeof item !== 'object') return item;
+        const itemKey = `${id}.${listField}.${getListItemId(item, index)}`;
+        const localizedItem = { ...item };
+        for (const field of LOCALIZABLE_LIST_ITEM_FIELDS) {
+          if (typeof item[field] === 'string') {
+            localizedItem[field] = resolve(`${itemKey}.${field}`, item[field]);
+          }
+        }
+        // Choices of a matrix dropdown column
+        if (Array.isArray(item.choices)) {
+          localizedItem.choices = item.choices.map((choice: any, choiceIndex: number) => ({
+            ...choice,
+            text: resolve(`${itemKey}.choices.${getListItemId(choice, choiceIndex)}.text`, choice.text),
+          }));
+        }
+        return localizedItem;
+      });
+    }
+
+    if (Array.isArray(block.labels)) {
+      localized.labels = block.labels.map((label: any, index: number) => resolve(`${id}.labels.${index}`, label));
+    }
+
+    if (Array.isArray(block.validationRules)) {
+      localized.validationRules = block.validationRules.map((rule: any, index: number) => ({
+        ...rule,
+        message: resolve(`${id}.validationRules.${rule.id ?? index}.message`, rule.message),
+      }));
+    }
+  }
+
+  if (Array.isArray(block.items)) {
+    localized.items = block.items.map((item: BlockData) => localizeBlock(item, language, localizations));
+  }
+
+  if (Array.isArray(block.template)) {
+    localized.template = block.template.map((item: BlockData) => localizeBlock(item, language, localizations));
+  }
+
+  return localized;
+}
+
+/**
+ * Creates a `localizeBlock` for one language that returns the same copy for
+ * the same block, so renderers can memoize on it
+ */
+export function createBlockLocalizer(language: string, localizations?: LocalizationMap) {
+  const cache = new WeakMap<object, any>();
+  return <T extends BlockData | NodeData>(block: T): T => {
+    if (!block || typeof block !== 'object' || !localizations?.[language]) return block;
+    let localized = cache.get(block);
+    if (!localized) {
+      localized = localizeBlock(block, language, localizations);
+      cache.set(block, localized);
+    }
+    return localized;
+  };
+}
+
+/**
+ * Lists every translatable text in the survey, plus the renderer's `ui.*` strings
+ */
+export function collectLocalizationEntries(
+  rootNode: NodeData | null | undefined,
+  options: { includeUiStrings?: boolean } = {}
+): LocalizationEntry[] {
+  const entries: LocalizationEntry[] = [];
+  const seen = new Set<string>();
+
+  const add = (key: string, source: any, context: string) => {
+    if (typeof source !== 'string' || source.trim() === '' || seen.has(key)) return;
+    seen.add(key);
+    entries.push({ key, source, context });
+  };
+
+  const visit = (node: any) => {
+    if (!node || typeof node !== 'object') return;
+    const id = getBlockLocalizationId(node);
+    const name = node.fieldName || node.name || node.type;
+
+    if (id) {
+      for (const field of LOCALIZABLE_BLOCK_FIELDS) {
+        add(`${id}.${field}`, node[field], `${name} › ${field}`);
+      }
+
+      for (const listField of LOCALIZABLE_LIST_FIELDS) {
+        if (!Array.isArray(node[listField])) continue;
+        node[listField].forEach((item: any, index: number) => {
+          if (!item || typeof item !== 'object') return;
+          const itemKey = `${id}.${listField}.${getListItemId(item, index)}`;
+          for (const field of LOCALIZABLE_LIST_ITEM_FIELDS) {
+            add(`${itemKey}.${field}`, item[field], `${name} › ${listField}`);
+          }
+          (item.choices || []).forEach((choice: any, choiceIndex: number) =>
+            add(`${itemKey}.choices.${getListItemId(choice, choiceIndex)}.text`, choice?.text, `${name} › ${listField}`)
+          );
+        });
+      }
+
+      if (Array.isArray(node.labels)) {
+        node.labels.forEach((label: any, index: number) => add(`${id}.labels.${index}`, label, `${name} › options`));
+      }
+
+      if (Array.isArray(node.validationRules)) {
+        node.validationRules.forEach((rule: any, index: number) =>
+          add(`${id}.validationRules.${rule.id ?? index}.message`, rule.message, `${name} › validation`)
+        );
+      }
+    }
+
+    (node.items || []).forEach(visit);
+    (node.template || []).forEach(visit);
+    (node.nodes || []).forEach((child: any) => {
+      if (typeof child !== 'string') visit(child);
+    });
+  };
+
+  visit(rootNode);
+
+  if (options.includeUiStrings !== false) {
+    Object.entries(DEFAULT_UI_STRINGS).forEach(([key, text]) =>
+      add(key, text, key.startsWith('validation.') ? 'Validation message' : 'Survey interface')
+    );
+  }
+
+  return entries;
+}
+
+/**
+ * The translation stored for an entry, including maps keyed by source text
+ */
+export function getEntryTranslation(
+  entry: LocalizationEntry,
+  language: string,
+  localizations?: LocalizationMap
+): string | undefined {
+  const langMap = localizations?.[language];
+  if (!langMap) return undefined;
+  return langMap[entry.key] || langMap[entry.source] || undefined;
+}
+
+/**
+ * How much of the survey is translated for each language (default: every
+ * language in the map except the source language)
+ */
+export function getLocalizationCoverage(
+  rootNode: NodeData | null | undefined,
+  localizations: LocalizationMap = {},
+  languages: string[] = Object.keys(localizations).filter((language) => language !== DEFAULT_LANGUAGE)
+): Record<string, LanguageCoverage> {
+  const entries = collectLocalizationEntries(rootNode);
+  const knownKeys = new Set<string>();
+  entries.forEach((entry) => {
+    knownKeys.add(entry.key);
+    knownKeys.add(entry.source);
+  });
+
+  const coverage: Record<string, LanguageCoverage> = {};
+  for (const language of languages) {
+    const missing = entries.filter((entry) => !getEntryTranslation(entry, language, localizations));
+    const translated = entries.length - missing.length;
+    coverage[language] = {
+      language,
+      total: entries.length,
+      translated,
+      percentage: entries.length === 0 ? 100 : Math.round((translated / entries.length) * 100),
+      missing,
+      unused: Object.keys(localizations[language] || {}).filter((key) => !knownKeys.has(key)),
+    };
+  }
+  return coverage;
+}
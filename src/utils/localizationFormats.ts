@@ -0,0 +1,214 @@
+import type { LocalizationMap } from '../types';
+import { DEFAULT_LANGUAGE, getEntryTranslation } from './localization';
+import type { LocalizationEntry } from './localization';
+
+/**
+ * CSV and XLIFF exchange for translators. Exports list every entry from
+ * `collectLocalizationEntries`; imports merge translations back into a map.
+ */
+
+export interface LocalizationImportResult {
+  localizations: LocalizationMap;
+  /** Languages that received translations */
+  languages: string[];
+  /** Number of translations written */
+  updated: number;
+}
+
+const CSV_META_COLUMNS = ['key', 'source', 'context'];
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per entry: key, source text, context and a column per language
+ */
+export function exportLocalizationsToCsv(
+  entries: LocalizationEntry[],
+  localizations: LocalizationMap,
+  languages: string[] = Object.keys(localizations).filter((language) => language !== DEFAULT_LANGUAGE)
+): string {
+  const rows = [[...CSV_META_COLUMNS, ...languages]];
+  for (const entry of entries) {
+    rows.push([
+      entry.key,
+      entry.source,
+      entry.context,
+      ...languages.map((language) => getEntryTranslation(entry, language, localizations) || ''),
+    ]);
+  }
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+// RFC 4180 parser: quoted cells may contain commas, quotes ("") and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value !== ''));
+};
+
+/**
+ * Merges a CSV produced by `exportLocalizationsToCsv` (or edited in a
+ * spreadsheet) into the map. Empty cells leave existing translations alone.
+ */
+export function importLocalizationsFromCsv(csv: string, localizations: LocalizationMap = {}): LocalizationImportResult {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header || header[0]?.trim().toLowerCase() !== 'key') {
+    throw new Error('CSV must start with a header row whose first column is "key"');
+  }
+
+  const languageColumns = header
+    .map((name, index) => ({ language: name.trim(), index }))
+    .filter(({ language }) => language && !CSV_META_COLUMNS.includes(language.toLowerCase()));
+
+  const result: LocalizationMap = { ...localizations };
+  const languages = new Set<string>();
+  let updated = 0;
+
+  for (const row of rows) {
+    const key = row[0]?.trim();
+    if (!key) continue;
+    for (const { language, index } of languageColumns) {
+      const value = row[index];
+      if (!value) continue;
+      result[language] = { ...(result[language] || {}), [key]: value };
+      languages.add(language);
+      updated++;
+    }
+  }
+
+  return { localizations: result, languages: [...languages], updated };
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escapeXml(data))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex: string, code: string) =>
+      String.fromCodePoint(parseInt(code, hex ? 16 : 10))
+    )
+    .replace(/&amp;/g, '&');
+
+/**
+ * XLIFF 1.2 file for one target language, for CAT tools and translation vendors
+ */
+export function exportLocalizationsToXliff(
+  entries: LocalizationEntry[],
+  localizations: LocalizationMap,
+  targetLanguage: string,
+  sourceLanguage: string = DEFAULT_LANGUAGE
+): string {
+  const units = entries.map((entry) => {
+    const target = getEntryTranslation(entry, targetLanguage, localizations);
+    return [
+      `      <trans-unit id="${escapeXml(entry.key)}">`,
+      `        <source>${escapeXml(entry.source)}</source>`,
+      target ? `        <target>${escapeXml(target)}</target>` : `        <target state="needs-translation"></target>`,
+      `        <note>${escapeXml(entry.context)}</note>`,
+      `      </trans-unit>`,
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file source-language="${escapeXml(sourceLanguage)}" target-language="${escapeXml(targetLanguage)}" datatype="plaintext" original="survey">`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? unescapeXml(match[2] ?? match[3]) : undefined;
+};
+
+/**
+ * Merges an XLIFF 1.2 or 2.0 file into the map. The target language comes
+ * from the file unless `language` is given. Units without a target are skipped.
+ */
+export function importLocalizationsFromXliff(
+  xliff: string,
+  localizations: LocalizationMap = {},
+  language?: string
+): LocalizationImportResult {
+  const rootTag = xliff.match(/<xliff\b[^>]*>/)?.[0];
+  if (!rootTag) {
+    throw new Error('Not an XLIFF document');
+  }
+  const fileTag = xliff.match(/<file\b[^>]*>/)?.[0] || '';
+  const targetLanguage = language || getAttribute(fileTag, 'target-language') || getAttribute(rootTag, 'trgLang');
+  if (!targetLanguage) {
+    throw new Error('XLIFF document has no target language');
+  }
+
+  const langMap = { ...(localizations[targetLanguage] || {}) };
+  let updated = 0;
+
+  // <trans-unit> in 1.2, <unit> (with <segment>s) in 2.0
+  const unitPattern = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  let match: RegExpExecArray | null;
+  while ((match = unitPattern.exec(xliff)) !== null) {
+    const key = getAttribute(match[2], 'id');
+    const target = match[3].match(/<target\b[^>]*>([\s\S]*?)<\/target>/)?.[1];
+    if (!key || target === undefined) continue;
+    const value = unescapeXml(target).trim();
+    if (!value) continue;
+    langMap[key] = value;
+    updated++;
+  }
+
+  return {
+    localizations: { ...localizations, [targetLanguage]: langMap },
+    languages: updated > 0 ? [targetLanguage] : [],
+    updated,
+  };
+}
@@ -0,0 +1,233 @@
+import type { BlockData, MatrixCellType, MatrixColumn, MatrixRow, OutputSchemaObject, OutputSchemaProperty } from '../types';
+
+/**
+ * Helpers for matrix blocks: rows in `questions`, columns in `options`.
+ *
+ * The answer is an object keyed by row id. In `radio` matrices a row holds the
+ * chosen column's value, in `checkbox` matrices an array of column values, and
+ * in every other matrix an object keyed by column value, e.g.
+ * `{ [rowId]: { dose: '10mg', times: 2 } }`.
+ */
+
+export interface MatrixValidationResult {
+  /** Message for the whole block, or null when the answer is valid */
+  error: string | null;
+  /** Errors of each row, by row id */
+  rowErrors: Record<string, string>;
+}
+
+export const DEFAULT_RATING_MAX = 5;
+
+export function getMatrixRows(block: BlockData): MatrixRow[] {
+  return Array.isArray(block.questions) ? block.questions : [];
+}
+
+export function getMatrixColumns(block: BlockData): MatrixColumn[] {
+  return Array.isArray(block.options) ? block.options : [];
+}
+
+/**
+ * Radio and checkbox matrices use the columns as the answer options of every row
+ */
+export function isChoiceMatrix(block: BlockData): boolean {
+  return !block.cellType || block.cellType === 'radio' || block.cellType === 'checkbox';
+}
+
+/**
+ * How a column's cells are answered
+ */
+export function getMatrixCellType(block: BlockData, column?: MatrixColumn): MatrixCellType {
+  if (isChoiceMatrix(block)) return block.cellType || 'radio';
+  return column?.cellType || block.cellType!;
+}
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Whether a row has an answer: a chosen column, or at least one filled cell
+ */
+export function isMatrixRowAnswered(block: BlockData, rowValue: any): boolean {
+  if (isChoiceMatrix(block)) return !isEmpty(rowValue);
+  if (!rowValue || typeof rowValue !== 'object') return false;
+  return Object.values(rowValue).some((cell) => !isEmpty(cell) && cell !== false);
+}
+
+/**
+ * Checks one cell of a dropdown, text, number or rating matrix
+ */
+export function validateMatrixCell(block: BlockData, column: MatrixColumn, value: any): string | null {
+  const cellType = getMatrixCellType(block, column);
+
+  if (isEmpty(value) || (cellType === 'checkbox' && value === false)) {
+    return column.required ? 'This field is required' : null;
+  }
+
+  switch (cellType) {
+    case 'number':
+    case 'rating': {
+      const number = Number(value);
+      if (Number.isNaN(number)) return 'Please enter a number';
+      const min = cellType === 'rating' ? 1 : column.min;
+      const max = cellType === 'rating' ? column.max || DEFAULT_RATING_MAX : column.max;
+      if (min !== undefined && min !== null && number < min) return `Value must be at least ${min}`;
+      if (max !== undefined && max !== null && number > max) return `Value must be at most ${max}`;
+      return null;
+    }
+    case 'text': {
+      const text = String(value);
+      if (column.min && text.length < column.min) return `Minimum ${column.min} characters required`;
+      if (column.max && text.length > column.max) return `Maximum ${column.max} characters allowed`;
+      if (column.pattern) {
+        try {
+          if (!new RegExp(column.pattern).test(text)) return 'Invalid format';
+        } catch (error) {
+          console.error(`Invalid pattern for matrix column ${column.value}:`, error);
+        }
+      }
+      return null;
+    }
+    case 'dropdown':
+      return column.choices && !column.choices.some((choice) => choice.value === value)
+        ? 'Selected value is not valid'
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks required rows, `minAnsweredRows` and, in dropdown, text, number and
+ * rating matrices, every cell of every answered or required row
+ */
+export function validateMatrixValue(value: any, block: BlockData): MatrixValidationResult {
+  const answer = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  const rows = getMatrixRows(block);
+  const columns = getMatrixColumns(block);
+  const rowErrors: Record<string, string> = {};
+  let missingRequired = false;
+
+  for (const row of rows) {
+    const answered = isMatrixRowAnswered(block, answer[row.id]);
+    if (!answered) {
+      if (row.required) {
+        rowErrors[row.id] = 'This field is required';
+        missingRequired = true;
+      }
+      continue;
+    }
+    if (isChoiceMatrix(block)) continue;
+
+    for (const column of columns) {
+      const error = validateMatrixCell(block, column, answer[row.id]?.[column.value]);
+      if (error) {
+        rowErrors[row.id] = error;
+        break;
+      }
+    }
+  }
+
+  const answeredCount = rows.filter((row) => isMatrixRowAnswered(block, answer[row.id])).length;
+
+  let error: string | null = null;
+  if (block.required && answeredCount === 0) {
+    error = 'This field is required';
+  } else if (missingRequired) {
+    error = 'Please answer every required row';
+  } else if (block.minAnsweredRows && answeredCount < block.minAnsweredRows) {
+    error = 'Please answer more rows';
+  } else if (Object.keys(rowErrors).length > 0) {
+    error = 'Please check the answers in the grid';
+  }
+
+  return { error, rowErrors };
+}
+
+const cellSchema = (block: BlockData, column: MatrixColumn): OutputSchemaProperty => {
+  const cellType = getMatrixCellType(block, column);
+  return {
+    type: cellType === 'number' || cellType === 'rating' ? 'number' : cellType === 'checkbox' ? 'boolean' : 'string',
+    optional: !column.required,
+    description: column.text,
+  };
+};
+
+/**
+ * The answer's shape for this block's rows and columns
+ */
+export function getMatrixOutputSchema(block: BlockData): OutputSchemaObject {
+  const cellType = getMatrixCellType(block);
+  const columns = getMatrixColumns(block);
+
+  const rowSchema = (row: MatrixRow): OutputSchemaProperty => {
+    const base = { optional: !row.required, description: row.text };
+    if (cellType === 'radio') return { ...base, type: 'string' };
+    if (cellType === 'checkbox') return { ...base, type: 'array', items: { type: 'string' } };
+    return {
+      ...base,
+      type: 'object',
+      properties: Object.fromEntries(columns.map((column) => [column.value, cellSchema(block, column)])),
+    };
+  };
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(getMatrixRows(block).map((row) => [row.id, rowSchema(row)])),
+  };
+}
+
+/**
+ * The rows in display order: shuffled when `randomizeRows` is set
+ */
+export function orderMatrixRows(block: BlockData, random: () => number = Math.random): MatrixRow[] {
+  const rows = [...getMatrixRows(block)];
+  if (!block.randomizeRows) return rows;
+  for (let i = rows.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [rows[i], rows[j]] = [rows[j], rows[i]];
+  }
+  return rows;
+}
+
+/**
+ * A readable summary of a matrix answer, e.g. "Quality: Good; Price: Poor"
+ */
+export function formatMatrixValue(block: BlockData, value: any): string {
+  if (!value || typeof value !== 'object') return '';
+  const columns = getMatrixColumns(block);
+  const columnText = (columnValue: any) =>
+    columns.find((column) => column.value === columnValue)?.text ?? String(columnValue);
+
+  const formatCell = (column: MatrixColumn, cell: any) => {
+    switch (getMatrixCellType(block, column)) {
+      case 'checkbox':
+        return cell === true ? column.text : null;
+      case 'dropdown':
+        return `${column.text}: ${column.choices?.find((choice) => choice.value === cell)?.text ?? cell}`;
+      case 'rating':
+        return `${column.text}: ${cell}/${column.max || DEFAULT_RATING_MAX}`;
+      default:
+        return `${column.text}: ${cell}`;
+    }
+  };
+
+  return getMatrixRows(block)
+    .filter((row) => isMatrixRowAnswered(block, value[row.id]))
+    .map((row) => {
+      const rowValue = value[row.id];
+      let answer: string;
+      if (Array.isArray(rowValue)) {
+        answer = rowValue.map(columnText).join(', ');
+      } else if (typeof rowValue === 'object') {
+        answer = columns
+          .filter((column) => rowValue[column.value] !== undefined && rowValue[column.value] !== '')
+          .map((column) => formatCell(column, rowValue[column.value]))
+          .filter(Boolean)
+          .join(', ');
+      } else {
+        answer = columnText(rowValue);
+      }
+      return `${row.text}: ${answer}`;
+    })
+    .join('; ');
+}
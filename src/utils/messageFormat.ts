@@ -0,0 +1,403 @@
+/**
+ * A small ICU MessageFormat implementation for piping answers into survey
+ * text, e.g. "Thanks {firstName}!" or
+ * "You selected {symptoms, plural, one {# symptom} other {# symptoms}}".
+ *
+ * Supported arguments:
+ * - `{name}` - the value as text (arrays become a localized list)
+ * - `{name, number}`, `{name, number, integer|percent|::currency/EUR}`
+ * - `{name, date, short|medium|long|full}`, `{name, time, short|...}`
+ * - `{name, plural, offset:1 =0 {...} one {...} other {...}}` with `#`
+ * - `{name, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}`
+ * - `{name, select, yes {...} other {...}}`
+ *
+ * Names may be dotted paths (`{patient.firstName}`). Quote literal braces
+ * with apostrophes: `'{'not an argument'}'`.
+ */
+
+// `nameStart` is the offset of the argument's name in the template
+type MessageNode =
+  | string
+  | { type: 'argument'; name: string; nameStart: number; format?: 'number' | 'date' | 'time'; style?: string }
+  | { type: 'plural' | 'selectordinal'; name: string; nameStart: number; offset: number; options: Record<string, MessageNode[]> }
+  | { type: 'select'; name: string; nameStart: number; options: Record<string, MessageNode[]> }
+  | { type: 'pound' };
+
+class MessageParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): MessageNode[] {
+    const nodes = this.parseMessage(false);
+    if (this.pos < this.text.length) this.fail('Unexpected "}"');
+    return nodes;
+  }
+
+  private fail(message: string): never {
+    throw new SyntaxError(`${message} at position ${this.pos} in "${this.text}"`);
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private readWord(): string {
+    const match = /^[^\s,{}]+/.exec(this.text.slice(this.pos));
+    if (!match) this.fail('Expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private expect(char: string) {
+    this.skipWhitespace();
+    if (this.pos >= this.text.length) this.fail('Unclosed argument');
+    if (this.text[this.pos] !== char) this.fail(`Expected "${char}"`);
+    this.pos++;
+  }
+
+  // Text up to the closing brace of the enclosing argument (or the end of the template)
+  private parseMessage(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let literal = '';
+    const flush = () => {
+      if (literal) nodes.push(literal);
+      literal = '';
+    };
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+
+      if (char === "'") {
+        const next = this.text[this.pos + 1];
+        if (next === "'") {
+          literal += "'";
+          this.pos += 2;
+        } else if (next === '{' || next === '}' || (inPlural && next === '#')) {
+          // Quoted literal text up to the next single apostrophe
+          this.pos++;
+          while (this.pos < this.text.length) {
+            if (this.text[this.pos] === "'") {
+              if (this.text[this.pos + 1] === "'") {
+                literal += "'";
+                this.pos += 2;
+                continue;
+              }
+              this.pos++;
+              break;
+            }
+            literal += this.text[this.pos++];
+          }
+        } else {
+          literal += char;
+          this.pos++;
+        }
+      } else if (char === '{') {
+        flush();
+        this.pos++;
+        nodes.push(this.parseArgument(inPlural));
+      } else if (char === '}') {
+        break;
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        this.pos++;
+      } else {
+        literal += char;
+        this.pos++;
+      }
+    }
+
+    flush();
+    return nodes;
+  }
+
+  private parseArgument(inPlural: boolean): MessageNode {
+    this.skipWhitespace();
+    const nameStart = this.pos;
+    const name = this.readWord();
+    this.skipWhitespace();
+
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return { type: 'argument', name, nameStart };
+    }
+    this.expect(',');
+    this.skipWhitespace();
+    const type = this.readWord();
+    this.skipWhitespace();
+
+    if (type === 'number' || type === 'date' || type === 'time') {
+      let style: string | undefined;
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        const end = this.text.indexOf('}', this.pos);
+        if (end === -1) this.fail('Unclosed argument');
+        style = this.text.slice(this.pos, end).trim();
+        this.pos = end;
+      }
+      this.expect('}');
+      return { type: 'argument', name, nameStart, format: type, style };
+    }
+
+    if (type === 'plural' || type === 'selectordinal' || type === 'select') {
+      this.expect(',');
+      let offset = 0;
+      const options: Record<string, MessageNode[]> = {};
+
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.text.length) this.fail('Unclosed argument');
+        if (this.text[this.pos] === '}') {
+          this.pos++;
+          break;
+        }
+        const selector = this.readWord();
+        if (type !== 'select' && selector.startsWith('offset:')) {
+          offset = Number(selector.slice('offset:'.length));
+          continue;
+        }
+        this.expect('{');
+        options[selector] = this.parseMessage(type === 'select' ? inPlural : true);
+        this.expect('}');
+      }
+
+      if (!options.other) this.fail(`"${name}" needs an "other" option`);
+      return type === 'select' ? { type, name, nameStart, options } : { type, name, nameStart, offset, options };
+    }
+
+    return this.fail(`Unknown argument type "${type}"`);
+  }
+}
+
+interface ParsedTemplate {
+  nodes?: MessageNode[];
+  error?: SyntaxError;
+  /** Parse errors are logged once, not on every render */
+  reported?: boolean;
+}
+
+const parsedTemplates = new Map<string, ParsedTemplate>();
+
+const parseTemplate = (template: string): ParsedTemplate => {
+  let parsed = parsedTemplates.get(template);
+  if (!parsed) {
+    try {
+      parsed = { nodes: new MessageParser(template).parse() };
+    } catch (error) {
+      parsed = { error: error as SyntaxError };
+    }
+    parsedTemplates.set(template, parsed);
+  }
+  return parsed;
+};
+
+const formatters = new Map<string, any>();
+
+// Intl formatters are expensive to create; invalid locales fall back to English
+const getFormatter = <T>(kind: string, locale: string, options: object, create: (locale: string) => T): T => {
+  const cacheKey = `${kind}|${locale}|${JSON.stringify(options)}`;
+  if (!formatters.has(cacheKey)) {
+    let formatter: T;
+    try {
+      formatter = create(locale.replace(/_/g, '-'));
+    } catch {
+      formatter = create('en');
+    }
+    formatters.set(cacheKey, formatter);
+  }
+  return formatters.get(cacheKey);
+};
+
+const formatNumber = (value: number, locale: string, options: Intl.NumberFormatOptions = {}): string =>
+  getFormatter('number', locale, options, (lang) => new Intl.NumberFormat(lang, options)).format(value);
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: 'percent' },
+};
+
+// `integer`, `percent` or a skeleton such as `::currency/EUR`, `::percent`, `::compact-short`, `::.00`
+const getNumberOptions = (style?: string): Intl.NumberFormatOptions => {
+  if (!style) return {};
+  if (NUMBER_STYLES[style]) return NUMBER_STYLES[style];
+  if (!style.startsWith('::')) return {};
+
+  const options: Intl.NumberFormatOptions = {};
+  for (const token of style.slice(2).trim().split(/\s+/)) {
+    const [stem, option] = token.split('/');
+    if (stem === 'currency' && option) {
+      options.style = 'currency';
+      options.currency = option;
+    } else if (stem === 'percent') {
+      options.style = 'percent';
+    } else if (stem === 'compact-short' || stem === 'compact-long') {
+      options.notation = 'compact';
+      options.compactDisplay = stem === 'compact-short' ? 'short' : 'long';
+    } else if (/^\.0*#*$/.test(stem)) {
+      options.minimumFractionDigits = (stem.match(/0/g) || []).length;
+      options.maximumFractionDigits = stem.length - 1;
+    }
+  }
+  return options;
+};
+
+const DATE_STYLES = ['short', 'medium', 'long', 'full'];
+
+const toDate = (value: any): Date | null => {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: any): number => {
+  if (Array.isArray(value)) return value.length;
+  if (typeof value === 'number') return value;
+  const number = Number(value);
+  return Number.isNaN(number) ? 0 : number;
+};
+
+const formatDate = (value: any, locale: string, format: 'date' | 'time', style?: string): string => {
+  const date = toDate(value);
+  if (!date) return value == null ? '' : String(value);
+  const dateStyle = DATE_STYLES.includes(style || '') ? style : 'medium';
+  const options: Intl.DateTimeFormatOptions =
+    format === 'date' ? { dateStyle: dateStyle as any } : { timeStyle: (style ? dateStyle : 'short') as any };
+  return getFormatter('date', locale, options, (lang) => new Intl.DateTimeFormat(lang, options)).format(date);
+};
+
+// Plain `{name}`: text as-is, numbers and dates localized, arrays as a list
+const formatValue = (value: any, locale: string): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return formatNumber(value, locale);
+  if (value instanceof Date) return formatDate(value, locale, 'date');
+  if (Array.isArray(value)) {
+    const items = value.map((item) => formatValue(item, locale)).filter(Boolean);
+    const ListFormat = (Intl as any).ListFormat;
+    return ListFormat
+      ? getFormatter('list', locale, {}, (lang) => new ListFormat(lang, { type: 'conjunction' })).format(items)
+      : items.join(', ');
+  }
+  if (typeof value === 'object') return value.label ?? value.text ?? value.value ?? '';
+  return String(value);
+};
+
+const hasOwn = (value: any, key: string): boolean =>
+  value != null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Reads `name` or a dotted path such as `patient.firstName` from the params.
+ * Only own properties count, so `{constructor}` doesn't print a function.
+ */
+export function getMessageParam(params: Record<string, any>, name: string): any {
+  if (!params) return undefined;
+  if (hasOwn(params, name)) return params[name];
+  return name.split('.').reduce((value, key) => (hasOwn(value, key) ? value[key] : undefined), params as any);
+}
+
+const formatNodes = (
+  nodes: MessageNode[],
+  params: Record<string, any>,
+  locale: string,
+  pluralValue?: number
+): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === 'string') return node;
+      if (node.type === 'pound') return pluralValue === undefined ? '#' : formatNumber(pluralValue, locale);
+
+      const value = getMessageParam(params, node.name);
+
+      if (node.type === 'argument') {
+        if (node.format === 'number') {
+          return value === undefined || value === null || value === ''
+            ? ''
+            : formatNumber(toNumber(value), locale, getNumberOptions(node.style));
+        }
+        if (node.format === 'date' || node.format === 'time') {
+          return value ? formatDate(value, locale, node.format, node.style) : '';
+        }
+        return formatValue(value, locale);
+      }
+
+      if (node.type === 'select') {
+        const option = node.options[String(value)] ?? node.options.other;
+        return formatNodes(option, params, locale, pluralValue);
+      }
+
+      const count = toNumber(value);
+      const relative = count - node.offset;
+      const rules = getFormatter(
+        'plural',
+        locale,
+        { type: node.type },
+        (lang) => new Intl.PluralRules(lang, { type: node.type === 'selectordinal' ? 'ordinal' : 'cardinal' })
+      );
+      const option = node.options[`=${count}`] ?? node.options[rules.select(relative)] ?? node.options.other;
+      return formatNodes(option, params, locale, relative);
+    })
+    .join('');
+
+/**
+ * True when the text contains message arguments and needs `formatMessage`
+ */
+export function isMessageTemplate(text: unknown): text is string {
+  return typeof text === 'string' && text.includes('{');
+}
+
+/**
+ * Formats an ICU message with the given params. Missing params render as
+ * empty text; a template that can't be parsed is returned unchanged.
+ */
+export function formatMessage(template: string, params: Record<string, any> = {}, locale: string = 'en'): string {
+  if (!isMessageTemplate(template)) return template;
+  const parsed = parseTemplate(template);
+  if (!parsed.nodes) {
+    if (!parsed.reported) {
+      console.error('Error parsing message template:', parsed.error);
+      parsed.reported = true;
+    }
+    return template;
+  }
+  try {
+    return formatNodes(parsed.nodes, params, locale);
+  } catch (error) {
+    // e.g. an unknown currency code in a number skeleton
+    console.error('Error formatting message template:', error);
+    return template;
+  }
+}
+
+/**
+ * The syntax error in a template, or null when it parses
+ */
+export function getMessageSyntaxError(template: string): string | null {
+  if (!isMessageTemplate(template)) return null;
+  return parseTemplate(template).error?.message ?? null;
+}
+
+/**
+ * Every argument of a template with where its name is, in template order.
+ * Literal text in plural and select options and quoted braces are not
+ * arguments. Returns null when the template doesn't parse.
+ */
+export function getMessageParamSpans(template: string): Array<{ name: string; start: number; end: number }> | null {
+  if (!isMessageTemplate(template)) return [];
+  const { nodes } = parseTemplate(template);
+  if (!nodes) return null;
+  const spans: Array<{ name: string; start: number; end: number }> = [];
+  const visit = (list: MessageNode[]) =>
+    list.forEach((node) => {
+      if (typeof node === 'string' || node.type === 'pound') return;
+      spans.push({ name: node.name, start: node.nameStart, end: node.nameStart + node.name.length });
+      if ('options' in node) Object.values(node.options).forEach(visit);
+    });
+  visit(nodes);
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Names of the params a template reads, e.g. to check that piped fields exist
+ */
+export function getMessageParamNames(template: string): string[] {
+  return [...new Set((getMessageParamSpans(template) || []).map((span) => span.name))];
+}
@@ -0,0 +1,76 @@
+import type { BlockData, ChoiceOption } from '../types';
+
+/**
+ * Helpers for choice block options: the static list (including the legacy
+ * `labels`/`values` arrays), carry-forward from an earlier answer and search.
+ */
+
+/**
+ * The block's own options, converting the legacy `labels`/`values` arrays
+ */
+export function getStaticOptions(block: BlockData): ChoiceOption[] {
+  if (Array.isArray(block.options)) return block.options;
+  if (Array.isArray(block.labels)) {
+    const values = block.values || [];
+    return block.labels.map((label: string, index: number) => ({
+      id: String(index),
+      label,
+      value: values[index] !== undefined ? values[index] : label,
+    }));
+  }
+  return [];
+}
+
+/**
+ * True when the options depend on answers, a provider or a search, so the
+ * renderer needs the resolved list instead of `block.options`
+ */
+export function hasDynamicOptions(block: BlockData | null | undefined): boolean {
+  if (!block || typeof block !== 'object') return false;
+  return (
+    !!block.optionsSource ||
+    !!block.searchable ||
+    (Array.isArray(block.options) && block.options.some((option: any) => option?.visibleIf))
+  );
+}
+
+const toValueList = (answer: any): string[] => {
+  if (answer === undefined || answer === null || answer === '') return [];
+  return (Array.isArray(answer) ? answer : [answer]).map(String);
+};
+
+/**
+ * The options of an earlier question that were (or were not) chosen in `answer`
+ */
+export function carryForwardOptions(
+  sourceOptions: ChoiceOption[],
+  answer: any,
+  include: 'selected' | 'unselected' = 'selected'
+): ChoiceOption[] {
+  const chosen = new Set(toValueList(answer));
+  return sourceOptions.filter((option) => chosen.has(String(option.value)) === (include === 'selected'));
+}
+
+const normalizeSearchText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Options whose label contains the search text, ignoring case and accents
+ */
+export function filterOptionsBySearch(options: ChoiceOption[], search: string): ChoiceOption[] {
+  const query = normalizeSearchText(search || '');
+  if (!query) return options;
+  return options.filter((option) => normalizeSearchText(String(option.label ?? option.value)).includes(query));
+}
+
+/**
+ * True when every chosen value is one of the options
+ */
+export function isValueInOptions(value: any, options: ChoiceOption[]): boolean {
+  const allowed = new Set(options.map((option) => String(option.value)));
+  return toValueList(value).every((chosen) => allowed.has(chosen));
+}
@@ -0,0 +1,78 @@
+import type { BlockData, SurveyEndingInfo, SurveyOutcome } from '../types';
+
+/**
+ * Navigation targets that end the survey. `'submit'` completes it; `end:<outcome>`
+ * ends it with another outcome, e.g. `end:screenedOut`.
+ */
+
+export const SURVEY_OUTCOMES: SurveyOutcome[] = ['complete', 'screenedOut', 'overQuota'];
+
+const ENDING_TARGET_PREFIX = 'end:';
+
+/**
+ * The navigation target for an outcome
+ */
+export function getEndingTarget(outcome: SurveyOutcome): string {
+  return outcome === 'complete' ? 'submit' : `${ENDING_TARGET_PREFIX}${outcome}`;
+}
+
+/**
+ * The outcome a navigation target ends the survey with, or null for page and block targets
+ */
+export function parseEndingTarget(target: string | null | undefined): SurveyOutcome | null {
+  if (target === 'submit') return 'complete';
+  if (!target || !target.startsWith(ENDING_TARGET_PREFIX)) return null;
+  const outcome = target.slice(ENDING_TARGET_PREFIX.length) as SurveyOutcome;
+  return SURVEY_OUTCOMES.includes(outcome) ? outcome : null;
+}
+
+/** Block type of named endings: a thank-you page with an outcome, an outcome code and an optional redirect */
+export const ENDING_BLOCK_TYPE = 'ending';
+
+export function isEndingBlock(block: BlockData | null | undefined): boolean {
+  return block?.type === ENDING_BLOCK_TYPE;
+}
+
+/**
+ * What a submission reports about the ending block it ended on
+ */
+export function getEndingInfo(block: BlockData): SurveyEndingInfo {
+  return {
+    id: block.uuid || '',
+    name: block.name || block.label || undefined,
+    code: block.outcomeCode || undefined,
+  };
+}
+
+/**
+ * The ending's redirect URL with its `redirectFields` answers added as query
+ * parameters. Lists are joined with commas; objects are left out. Returns null
+ * without a redirect URL, or when it isn't an http(s) URL.
+ */
+export function getEndingRedirectUrl(block: BlockData, values: Record<string, any>): string | null {
+  if (!block.redirectUrl) return null;
+
+  let url: URL;
+  try {
+    url = new URL(block.redirectUrl, typeof window !== 'undefined' ? window.location?.href : undefined);
+  } catch (error) {
+    console.warn(`Invalid redirect URL on ending "${block.uuid}":`, block.redirectUrl);
+    return null;
+  }
+  // Documents can be imported; never follow e.g. a javascript: URL
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    console.warn(`Ignoring non-http redirect URL on ending "${block.uuid}":`, block.redirectUrl);
+    return null;
+  }
+
+  for (const field of block.redirectFields || []) {
+    const value = values[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      url.searchParams.set(field, value.join(','));
+    } else if (typeof value !== 'object') {
+      url.searchParams.set(field, String(value));
+    }
+  }
+  return url.toString();
+}
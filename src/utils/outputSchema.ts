@@ -1,4 +1,4 @@
-import type { OutputSchema, BlockDefinition } from '../types';
+import type { OutputSchema, OutputSchemaProperty, BlockDefinition } from '../types';
 
 /**
  * Utility functions for working with block output schemas
@@ -11,7 +11,7 @@ import type { OutputSchema, BlockDefinition } from '../types';
  * @returns Array of field keys that this block outputs
  */
 export function getOutputKeys(blockDefinition: BlockDefinition, blockData?: any): string[] {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
 
   if (!schema) {
     return [];
@@ -79,9 +79,17 @@ export function resolveUnionSchema(
 /**
  * Get the output schema for a block
  * @param blockDefinition The block definition
+ * @param blockData Optional block configuration data (for schemas built from it, e.g. matrix rows)
  * @returns The output schema or undefined
  */
-export function getOutputSchema(blockDefinition: BlockDefinition): OutputSchema | undefined {
+export function getOutputSchema(blockDefinition: BlockDefinition, blockData?: any): OutputSchema | undefined {
+  if (blockData && blockDefinition.getOutputSchema) {
+    try {
+      return blockDefinition.getOutputSchema(blockData);
+    } catch (error) {
+      console.error(`Error building output schema for ${blockDefinition.type}:`, error);
+    }
+  }
   return blockDefinition.outputSchema;
 }
 
@@ -92,7 +100,7 @@ export function getOutputSchema(blockDefinition: BlockDefinition): OutputSchema
  * @returns true if the block outputs an object
  */
 export function isObjectOutput(blockDefinition: BlockDefinition, blockData?: any): boolean {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
   if (!schema) return false;
 
   if ('oneOf' in schema) {
@@ -110,7 +118,7 @@ export function isObjectOutput(blockDefinition: BlockDefinition, blockData?: any
  * @returns true if the block outputs an array
  */
 export function isArrayOutput(blockDefinition: BlockDefinition, blockData?: any): boolean {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
   if (!schema) return false;
 
   if ('oneOf' in schema) {
@@ -128,7 +136,7 @@ export function isArrayOutput(blockDefinition: BlockDefinition, blockData?: any)
  * @returns true if the block outputs a scalar value
  */
 export function isScalarOutput(blockDefinition: BlockDefinition, blockData?: any): boolean {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
   if (!schema) return false;
 
   if ('oneOf' in schema) {
@@ -146,7 +154,7 @@ export function isScalarOutput(blockDefinition: BlockDefinition, blockData?: any
  * @returns Description string
  */
 export function getOutputDescription(blockDefinition: BlockDefinition, blockData?: any): string {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
 
   if (!schema) {
     return 'Unknown output type';
@@ -214,7 +222,7 @@ function getSchemaDescription(schema: Exclude<OutputSchema, { oneOf: any }>): st
  * @returns Error message if invalid, null if valid
  */
 export function validateOutput(value: any, blockDefinition: BlockDefinition, blockData?: any): string | null {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
 
   if (!schema) {
     return null; // No schema to validate against
@@ -287,7 +295,7 @@ function validateAgainstSchema(value: any, schema: Exclude<OutputSchema, { oneOf
  * @returns TypeScript type string
  */
 export function getTypeScriptType(blockDefinition: BlockDefinition, blockData?: any): string {
-  const schema = blockDefinition.outputSchema;
+  const schema = getOutputSchema(blockDefinition, blockData);
 
   if (!schema) {
     return 'any';
@@ -329,18 +337,25 @@ function schemaToTypeString(schema: Exclude<OutputSchema, { oneOf: any }>): stri
     case 'array':
       return `${schema.items.type}[]`;
     case 'object':
-      const fields = Object.entries(schema.properties)
-        .map(([key, field]) => {
-          const optional = field.optional ? '?' : '';
-          return `${key}${optional}: ${field.type}`;
-        })
-        .join('; ');
-      return `{ ${fields} }`;
+      return propertiesToTypeString(schema.properties);
     default:
       return 'any';
   }
 }
 
+function propertiesToTypeString(properties: Record<string, OutputSchemaProperty>): string {
+  const fields = Object.entries(properties)
+    .map(([key, field]) => {
+      const optional = field.optional ? '?' : '';
+      let type: string = field.type;
+      if (field.type === 'object' && field.properties) type = propertiesToTypeString(field.properties);
+      if (field.type === 'array' && field.items) type = `${field.items.type}[]`;
+      return `${key}${optional}: ${type}`;
+    })
+    .join('; ');
+  return `{ ${fields} }`;
+}
+
 /**
  * Example usage for accessing nested fields in conditional logic or calculated fields
  *
@@ -0,0 +1,91 @@
+import type { BlockData, NodeData } from '../types';
+import { formatMessage, isMessageTemplate } from './messageFormat';
+
+/**
+ * Answer piping: block text written as ICU messages (see `formatMessage`) is
+ * filled in with the respondent's answers and computed values as they answer.
+ */
+
+/** Block properties that may pipe answers */
+export const PIPED_BLOCK_FIELDS = ['label', 'description', 'agreementText'] as const;
+
+/** Lists whose item labels may pipe answers (options, matrix rows and columns) */
+const PIPED_LIST_FIELDS = ['options', 'questions', 'rows', 'columns'] as const;
+
+const PIPED_LIST_ITEM_FIELDS = ['label', 'text'] as const;
+
+export interface PipedText {
+  /** Where the text lives, e.g. `label` or `options.2.label` */
+  path: string;
+  text: string;
+}
+
+/**
+ * Every text of the block (not its nested items) that can pipe answers
+ */
+export function getPipedTexts(block: BlockData | NodeData): PipedText[] {
+  if (!block || typeof block !== 'object') return [];
+  const texts: PipedText[] = [];
+
+  for (const field of PIPED_BLOCK_FIELDS) {
+    if (typeof block[field] === 'string') texts.push({ path: field, text: block[field] });
+  }
+  for (const listField of PIPED_LIST_FIELDS) {
+    if (!Array.isArray(block[listField])) continue;
+    block[listField].forEach((item: any, index: number) => {
+      if (!item || typeof item !== 'object') return;
+      for (const field of PIPED_LIST_ITEM_FIELDS) {
+        if (typeof item[field] === 'string') texts.push({ path: `${listField}.${index}.${field}`, text: item[field] });
+      }
+    });
+  }
+  if (Array.isArray(block.labels)) {
+    block.labels.forEach((label: any, index: number) => {
+      if (typeof label === 'string') texts.push({ path: `labels.${index}`, text: label });
+    });
+  }
+  return texts;
+}
+
+const hasTemplates = (block: any): boolean =>
+  getPipedTexts(block).some(({ text }) => isMessageTemplate(text)) ||
+  (Array.isArray(block?.items) && block.items.some(hasTemplates));
+
+/**
+ * Returns a copy of the block with answers piped into its label, description,
+ * agreement text and option labels (nested items included). Returns the block
+ * itself when none of its text pipes answers.
+ */
+export function interpolateBlock<T extends BlockData | NodeData>(
+  block: T,
+  params: Record<string, any>,
+  locale: string = 'en'
+): T {
+  if (!block || typeof block !== 'object' || !hasTemplates(block)) return block;
+
+  const format = (text: any) => (isMessageTemplate(text) ? formatMessage(text, params, locale) : text);
+  const interpolated: any = { ...block };
+
+  for (const field of PIPED_BLOCK_FIELDS) {
+    if (field in block) interpolated[field] = format(block[field]);
+  }
+  for (const listField of PIPED_LIST_FIELDS) {
+    if (!Array.isArray(block[listField])) continue;
+    interpolated[listField] = block[listField].map((item: any) => {
+      if (!item || typeof item !== 'object') return item;
+      const interpolatedItem = { ...item };
+      for (const field of PIPED_LIST_ITEM_FIELDS) {
+        if (field in item) interpolatedItem[field] = format(item[field]);
+      }
+      return interpolatedItem;
+    });
+  }
+  if (Array.isArray(block.labels)) {
+    interpolated.labels = block.labels.map(format);
+  }
+  if (Array.isArray(block.items)) {
+    interpolated.items = block.items.map((item: BlockData) => interpolateBlock(item, params, locale));
+  }
+
+  return interpolated;
+}
@@ -0,0 +1,53 @@
+import type { QuotaDefinition, QuotaProvider } from '../types';
+import { evaluateCondition } from './conditionalUtils';
+
+/**
+ * Quotas the answers fall into
+ */
+export function getMatchedQuotas(quotas: QuotaDefinition[] | undefined, values: Record<string, any>): QuotaDefinition[] {
+  return (quotas || []).filter((quota) => quota.condition && evaluateCondition(quota.condition, values));
+}
+
+/**
+ * The first quota the answers fall into that has no room left, or null.
+ * Provider errors are logged and treated as room left, so an outage doesn't
+ * turn respondents away.
+ */
+export async function findFullQuota(
+  quotas: QuotaDefinition[] | undefined,
+  provider: QuotaProvider,
+  values: Record<string, any>
+): Promise<QuotaDefinition | null> {
+  const matched = getMatchedQuotas(quotas, values);
+  if (matched.length === 0) return null;
+
+  try {
+    const counts = await provider.getCounts(matched);
+    return matched.find((quota) => (counts[quota.id] ?? 0) >= quota.limit) ?? null;
+  } catch (error) {
+    console.error('Error checking quotas:', error);
+    return null;
+  }
+}
+
+/**
+ * In-memory quota counts, for previews, tests and single-process servers.
+ * Counts are lost on reload; use your API for real fieldwork.
+ */
+export function createMemoryQuotaProvider(
+  initialCounts: Record<string, number> = {}
+): QuotaProvider & { getCount: (quotaId: string) => number; reset: () => void } {
+  let counts = { ...initialCounts };
+  return {
+    getCounts: async (quotas) => Object.fromEntries(quotas.map((quota) => [quota.id, counts[quota.id] ?? 0])),
+    increment: async (quotas) => {
+      for (const quota of quotas) {
+        counts[quota.id] = (counts[quota.id] ?? 0) + 1;
+      }
+    },
+    getCount: (quotaId) => counts[quotaId] ?? 0,
+    reset: () => {
+      counts = { ...initialCounts };
+    },
+  };
+}
@@ -0,0 +1,269 @@
+import type { BlockData, ChoiceOption, NodeData, OrderMode, SurveyRandomization } from '../types';
+
+/**
+ * Seeded randomization of survey order for order-bias control.
+ *
+ * Blocks and nodes opt in with `itemOrder` (blocks of a page, pages of a
+ * section or root, and child sections), choice blocks with `optionOrder`, and
+ * matrix blocks with `randomizeRows`. Everything is derived from one seed, so
+ * the same seed always gives the same survey: store it with the session and a
+ * resumed respondent sees the order they started with.
+ */
+
+export interface RandomizationSettings {
+  /** Seed for every shuffle; generated when omitted */
+  seed?: string;
+  /**
+   * Respondent number for `rotate` lists, e.g. a server-side counter. Successive
+   * numbers walk through the rows of the Latin square; when omitted, a row is
+   * picked from the seed.
+   */
+  respondentIndex?: number;
+}
+
+export interface RandomizedSurvey {
+  /** The root node in this respondent's order (the same object when nothing is reordered) */
+  rootNode: NodeData;
+  /** Ids in the order shown, keyed like `SurveyRandomization.order` */
+  order: Record<string, string[]>;
+}
+
+/**
+ * FNV-1a hash of a string, as an unsigned 32-bit integer
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A deterministic random number generator (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh random seed for a new respondent
+ */
+export function createRandomizationSeed(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffleWithSeed<T>(items: T[], seed: string): T[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * One row of a balanced (Williams) Latin square of the given size: across
+ * respondents, every item appears in every position equally often and follows
+ * every other item equally often. Odd sizes need 2 × size rows to balance.
+ * @returns Item indexes in display order
+ */
+export function getLatinSquareOrder(size: number, respondentIndex: number): number[] {
+  if (size <= 0) return [];
+  const rows = size % 2 === 0 ? size : size * 2;
+  const row = ((respondentIndex % rows) + rows) % rows;
+
+  // First row: 0, 1, n-1, 2, n-2, ...
+  const first: number[] = [];
+  for (let i = 0, low = 1, high = size - 1; i < size; i++) {
+    if (i === 0) first.push(0);
+    else if (i % 2 === 1) first.push(low++);
+    else first.push(high--);
+  }
+
+  const order = first.map((index) => (index + row) % size);
+  return row >= size ? order.reverse() : order;
+}
+
+/**
+ * Reorders a list per `mode`. Items for which `isPinned` holds keep their
+ * position; items for which `isLast` holds are moved to the end in authored order.
+ */
+export function arrangeItems<T>(
+  items: T[],
+  mode: OrderMode | undefined,
+  key: string,
+  settings: { seed: string; respondentIndex: number },
+  isPinned: (item: T) => boolean = () => false,
+  isLast: (item: T) => boolean = () => false
+): T[] {
+  if (!mode || mode === 'fixed' || items.length < 2) return items;
+
+  const last = items.filter(isLast);
+  const body = items.filter((item) => !isLast(item));
+  const movable = body.filter((item) => !isPinned(item));
+
+  let arranged: T[];
+  if (mode === 'rotate') {
+    // Offset by the list's key so lists of the same size don't rotate in lockstep
+    const order = getLatinSquareOrder(movable.length, settings.respondentIndex + hashSeed(key));
+    arranged = order.map((index) => movable[index]);
+  } else {
+    arranged = shuffleWithSeed(movable, `${settings.seed}:${key}`);
+  }
+
+  let next = 0;
+  return [...body.map((item) => (isPinned(item) ? item : arranged[next++])), ...last];
+}
+
+const blockId = (block: BlockData, index: number) => block.uuid || block.fieldName || String(index);
+const nodeId = (node: NodeData | string, index: number) =>
+  typeof node === 'string' ? node : node.uuid || node.name || String(index);
+
+const sameOrder = <T>(a: T[], b: T[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+/**
+ * Applies every `itemOrder`, `optionOrder` and `randomizeRows` in the survey
+ * for one respondent. Unchanged nodes and blocks are returned as is.
+ */
+export function randomizeSurvey(
+  rootNode: NodeData,
+  settings: { seed: string; respondentIndex: number }
+): RandomizedSurvey {
+  const order: Record<string, string[]> = {};
+
+  const randomizeBlock = (block: BlockData, index: number): BlockData => {
+    const id = blockId(block, index);
+    let next = block;
+
+    if (Array.isArray(block.items)) {
+      const items = randomizeItems(block.items, block.itemOrder, id);
+      if (items !== block.items) next = { ...next, items };
+    }
+
+    if (Array.isArray(block.options) && block.optionOrder && block.optionOrder !== 'fixed') {
+      const options = arrangeItems<ChoiceOption>(
+        block.options,
+        block.optionOrder,
+        `${id}.options`,
+        settings,
+        () => false,
+        (option) => !!option.pinLast
+      );
+      order[`${id}.options`] = options.map((option) => String(option.value ?? option.id));
+      if (!sameOrder(options, block.options)) next = { ...next, options };
+    }
+
+    if (block.type === 'matrix' && block.randomizeRows && Array.isArray(block.questions)) {
+      const rows = arrangeItems(block.questions, 'shuffle', `${id}.rows`, settings);
+      order[`${id}.rows`] = rows.map((row: any) => String(row.id));
+      // The renderer would shuffle again on mount - the order is now fixed by the seed
+      next = { ...next, questions: rows, randomizeRows: false };
+    }
+
+    return next;
+  };
+
+  function randomizeItems(items: BlockData[], mode: OrderMode | undefined, containerId: string): BlockData[] {
+    const arranged = arrangeItems(items, mode, containerId, settings, (block) => !!block.pinned);
+    if (mode && mode !== 'fixed') {
+      order[containerId] = arranged.map((block) => blockId(block, items.indexOf(block)));
+    }
+    const randomized = arranged.map((block) => randomizeBlock(block, items.indexOf(block)));
+    return sameOrder(randomized, items) ? items : randomized;
+  }
+
+  const randomizeNode = (node: NodeData, containerId: string): NodeData => {
+    let next = node;
+
+    if (Array.isArray(node.items)) {
+      const items = randomizeItems(node.items, node.itemOrder, containerId);
+      if (items !== node.items) next = { ...next, items };
+    }
+
+    if (Array.isArray(node.nodes)) {
+      const arranged = arrangeItems(
+        node.nodes,
+        node.itemOrder,
+        `${containerId}.nodes`,
+        settings,
+        (child) => typeof child !== 'string' && !!child.pinned
+      );
+      if (node.itemOrder && node.itemOrder !== 'fixed') {
+        order[`${containerId}.nodes`] = arranged.map((child) => nodeId(child, node.nodes!.indexOf(child)));
+      }
+      const nodes = arranged.map((child) =>
+        typeof child === 'string' ? child : randomizeNode(child, nodeId(child, node.nodes!.indexOf(child)))
+      );
+      if (!sameOrder(nodes, node.nodes)) next = { ...next, nodes };
+    }
+
+    return next;
+  };
+
+  return { rootNode: randomizeNode(rootNode, rootNode.uuid || 'root'), order };
+}
+
+const seedStorageKey = (sessionId?: string) => `randomization_seed${sessionId ? `_${sessionId}` : ''}`;
+
+/**
+ * The randomization seed stored for this browser session, if any
+ */
+export function getSessionRandomizationSeed(sessionId?: string): string | null {
+  try {
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      return window.sessionStorage.getItem(seedStorageKey(sessionId));
+    }
+  } catch (error) {
+    console.warn('Failed to retrieve randomization seed:', error);
+  }
+  return null;
+}
+
+/**
+ * Stores the seed so reloads within the session keep the same order
+ */
+export function storeRandomizationSeed(seed: string, sessionId?: string): void {
+  try {
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      window.sessionStorage.setItem(seedStorageKey(sessionId), seed);
+    }
+  } catch (error) {
+    console.warn('Failed to store randomization seed:', error);
+  }
+}
+
+/**
+ * Forgets the stored seed, so the next session is randomized afresh
+ */
+export function clearRandomizationSeed(sessionId?: string): void {
+  try {
+    if (typeof window !== 'undefined' && window.sessionStorage) {
+      window.sessionStorage.removeItem(seedStorageKey(sessionId));
+    }
+  } catch (error) {
+    console.warn('Failed to clear randomization seed:', error);
+  }
+}
+
+/**
+ * Fills in a missing seed and respondent index
+ */
+export function resolveRandomizationSettings(settings?: RandomizationSettings): Omit<SurveyRandomization, 'order'> {
+  const seed = settings?.seed || createRandomizationSeed();
+  return {
+    seed,
+    respondentIndex: settings?.respondentIndex ?? hashSeed(seed),
+  };
+}
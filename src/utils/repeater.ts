@@ -0,0 +1,133 @@
+import type { BlockData, BlockDefinition } from '../types';
+import { evaluateCondition, isBlockVisible } from './conditionalUtils';
+import { validationRuleToFunction } from '../builder/common/validation-rules-types';
+
+/**
+ * Helpers for repeater blocks: a `template` of child blocks answered once per
+ * entry. The answer is an array of entries keyed by the children's field names,
+ * e.g. `[{ name: 'Ibuprofen', dose: '200mg' }]`, so conditions can use
+ * `medications[0].dose` or `medications.length`.
+ */
+
+export type RepeaterEntry = Record<string, any>;
+
+export interface RepeaterValidationResult {
+  /** Message for the whole block, or null when every entry is valid */
+  error: string | null;
+  /** Errors of each entry, by child field name */
+  entryErrors: Array<Record<string, string>>;
+}
+
+// Blocks that display content but never store a value in the entry
+const NON_VALUE_BLOCK_TYPES = new Set(['markdown', 'html', 'script']);
+
+export function isRepeaterBlock(block: BlockData | null | undefined): boolean {
+  return !!block && Array.isArray(block.template);
+}
+
+/**
+ * The entries of a repeater answer, treating anything but an array as no entries
+ */
+export function getRepeaterEntries(value: any): RepeaterEntry[] {
+  return Array.isArray(value) ? value.filter((entry) => entry && typeof entry === 'object') : [];
+}
+
+/**
+ * The template blocks that collect a value
+ */
+export function getRepeaterFields(block: BlockData): BlockData[] {
+  return (block.template || []).filter((child) => child.fieldName && !NON_VALUE_BLOCK_TYPES.has(child.type));
+}
+
+/**
+ * The template blocks shown for an entry; `visibleIf` sees the survey's values
+ * and the entry's own answers
+ */
+export function getVisibleRepeaterChildren(
+  block: BlockData,
+  entry: RepeaterEntry,
+  values: Record<string, any> = {}
+): BlockData[] {
+  const context = { ...values, ...entry };
+  return (block.template || []).filter((child) => isBlockVisible(child, context));
+}
+
+/**
+ * A template block as rendered for one entry, with a field name and uuid unique
+ * to that entry (e.g. `medications[1].dose`)
+ */
+export function getRepeaterChildBlock(block: BlockData, child: BlockData, index: number): BlockData {
+  return {
+    ...child,
+    uuid: child.uuid ? `${child.uuid}-${index}` : undefined,
+    fieldName: `${block.fieldName}[${index}].${child.fieldName}`,
+  };
+}
+
+/**
+ * Checks one child's answer in an entry: the child block's own `validateValue`
+ * (or `required`), then its validation rules. `context` is the survey's values
+ * with the entry's answers on top; warning-level rules don't produce an error.
+ */
+export function validateRepeaterChild(
+  child: BlockData,
+  value: any,
+  getDefinition: (type: string) => BlockDefinition | undefined,
+  context: Record<string, any> = {}
+): string | null {
+  try {
+    const definition = getDefinition(child.type);
+    const error = definition?.validateValue
+      ? definition.validateValue(value, child)
+      : child.required && (value === undefined || value === null || value === '')
+        ? 'This field is required'
+        : null;
+    if (error) return error;
+
+    for (const rule of child.validationRules || []) {
+      if (rule.condition && !evaluateCondition(rule.condition, context)) continue;
+      const ruleError = validationRuleToFunction(rule)(value, context);
+      if (ruleError && rule.severity !== 'warning') return ruleError;
+    }
+  } catch (validationError) {
+    console.error(`Error validating repeater field ${child.fieldName}:`, validationError);
+    return `Validation error: ${(validationError as Error).message}`;
+  }
+  return null;
+}
+
+/**
+ * Checks the number of entries and every visible child of every entry with
+ * `validateRepeaterChild`
+ */
+export function validateRepeaterValue(
+  value: any,
+  block: BlockData,
+  getDefinition: (type: string) => BlockDefinition | undefined,
+  values: Record<string, any> = {}
+): RepeaterValidationResult {
+  const entries = getRepeaterEntries(value);
+  const entryErrors = entries.map((entry) => {
+    const errors: Record<string, string> = {};
+    const context = { ...values, ...entry };
+    for (const child of getVisibleRepeaterChildren(block, entry, values)) {
+      if (!child.fieldName || NON_VALUE_BLOCK_TYPES.has(child.type)) continue;
+      const error = validateRepeaterChild(child, entry[child.fieldName], getDefinition, context);
+      if (error) errors[child.fieldName] = error;
+    }
+    return errors;
+  });
+
+  let error: string | null = null;
+  if (block.required && entries.length === 0) {
+    error = 'This field is required';
+  } else if (block.minItems && entries.length < block.minItems) {
+    error = 'Please add more entries';
+  } else if (block.maxItems && entries.length > block.maxItems) {
+    error = 'Please remove some entries';
+  } else if (entryErrors.some((errors) => Object.keys(errors).length > 0)) {
+    error = 'Please complete every entry';
+  }
+
+  return { error, entryErrors };
+}
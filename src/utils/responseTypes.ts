@@ -0,0 +1,356 @@
+import type { BlockData, BlockDefinition, JsonSchema, NodeData, OutputSchema, OutputSchemaProperty } from '../types';
+import { getOutputSchema, resolveUnionSchema } from './outputSchema';
+import { getRepeaterFields, isRepeaterBlock } from './repeater';
+import { getSurveyPageIds, getSurveyPages } from './surveyUtils';
+
+/**
+ * Generates the type of a survey's `onSubmit` payload from the output schemas
+ * of its blocks, as a TypeScript declaration, a JSON Schema and a Zod schema.
+ *
+ * Pure data in, strings out - safe to run from a Node script.
+ */
+
+export interface SurveyResponseTypesOptions {
+  /** Name of the generated interface / schema @default 'SurveyResponse' */
+  typeName?: string;
+  /** Also emit a Zod schema (as source code importing `zod`) */
+  zod?: boolean;
+}
+
+export interface SurveyResponseTypes {
+  typescript: string;
+  jsonSchema: JsonSchema;
+  zod?: string;
+}
+
+// Blocks that display content or run code but never store a value of their own
+const NON_VALUE_BLOCK_TYPES = new Set(['markdown', 'html', 'script', 'set', 'section']);
+
+type ValueType =
+  | { kind: 'string' | 'number' | 'boolean' | 'date' | 'unknown' | 'record' }
+  | { kind: 'array'; items: ValueType }
+  | { kind: 'object'; properties: Record<string, { type: ValueType; optional: boolean; description?: string }> }
+  | { kind: 'union'; options: ValueType[] };
+
+interface ResponseField {
+  name: string;
+  label?: string;
+  optional: boolean;
+  type: ValueType;
+}
+
+const primitiveType = (type: string): ValueType => {
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'date':
+      return { kind: type };
+    case 'object':
+      return { kind: 'record' };
+    case 'array':
+      return { kind: 'array', items: { kind: 'unknown' } };
+    default:
+      return { kind: 'unknown' };
+  }
+};
+
+function toValueType(schema: OutputSchema | undefined, block: BlockData): ValueType {
+  if (!schema) return { kind: 'unknown' };
+
+  if ('oneOf' in schema) {
+    // A discriminator picks the variant from the block's configuration
+    if (schema.discriminator) {
+      const resolved = resolveUnionSchema(schema, block);
+      if (resolved) return toValueType(resolved, block);
+    }
+    return { kind: 'union', options: schema.oneOf.map((option) => toValueType(option, block)) };
+  }
+
+  switch (schema.type) {
+    case 'array':
+      return { kind: 'array', items: primitiveType(schema.items.type) };
+    case 'object':
+      return toObjectType(schema.properties);
+    default:
+      return primitiveType(schema.type);
+  }
+}
+
+function toObjectType(properties: Record<string, OutputSchemaProperty>): ValueType {
+  const propertyType = (property: OutputSchemaProperty): ValueType => {
+    if (property.type === 'object' && property.properties) return toObjectType(property.properties);
+    if (property.type === 'array' && property.items) return { kind: 'array', items: primitiveType(property.items.type) };
+    return primitiveType(property.type);
+  };
+
+  return {
+    kind: 'object',
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([key, property]) => [
+        key,
+        { type: propertyType(property), optional: !!property.optional, description: property.description },
+      ])
+    ),
+  };
+}
+
+const blockSchema = (definitions: Record<string, BlockDefinition>, block: BlockData) =>
+  definitions[block.type] ? getOutputSchema(definitions[block.type], block) : undefined;
+
+/**
+ * Blocks that every path from the first block to submission passes through.
+ * Successors follow the runtime: navigation rule targets, then `nextBlockId`
+ * or the next block in order; end blocks and "submit" targets finish the survey.
+ */
+function getAlwaysVisitedBlocks(rootNode: NodeData, blocks: BlockData[]): Set<BlockData> {
+  const pages = getSurveyPages(rootNode);
+  const pageIds = getSurveyPageIds(rootNode);
+  const END = blocks.length;
+
+  const indexByUuid = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    if (block.uuid && !indexByUuid.has(block.uuid)) indexByUuid.set(block.uuid, index);
+  });
+
+  const firstBlockOfPage = (pageId: string): number | undefined => {
+    const pageIndex = pageIds.indexOf(pageId);
+    const firstBlock = pageIndex >= 0 ? pages[pageIndex]?.[0] : undefined;
+    return firstBlock ? blocks.indexOf(firstBlock) : undefined;
+  };
+
+  const successors = blocks.map((block, index) => {
+    if (block.isEndBlock) return [END];
+
+    const next = new Set<number>();
+    for (const rule of block.navigationRules || []) {
+      if (!rule.target) continue;
+      const target = String(rule.target);
+      const resolved = target === 'submit'
+        ? END
+        : rule.isPage ? firstBlockOfPage(target) : indexByUuid.get(target);
+      if (resolved !== undefined && resolved >= 0) next.add(resolved);
+    }
+
+    const explicit = block.nextBlockId === 'submit' ? END : block.nextBlockId ? indexByUuid.get(block.nextBlockId) : undefined;
+    next.add(explicit !== undefined ? explicit : index + 1);
+    return [...next];
+  });
+
+  const reachesEnd = (skipped: number): boolean => {
+    if (skipped === 0) return false;
+    const visited = new Set<number>([0]);
+    const queue = [0];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === END) return true;
+      for (const next of successors[current]) {
+        if (next !== skipped && !visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return false;
+  };
+
+  const always = new Set<BlockData>();
+  if (blocks.length === 0) return always;
+  blocks.forEach((block, index) => {
+    if (!reachesEnd(index)) always.add(block);
+  });
+  return always;
+}
+
+/**
+ * A repeater's entries: objects keyed by the template's field names. Children
+ * that are required and always shown are always present in an entry.
+ */
+function toRepeaterType(block: BlockData, definitions: Record<string, BlockDefinition>): ValueType {
+  return {
+    kind: 'array',
+    items: {
+      kind: 'object',
+      properties: Object.fromEntries(
+        getRepeaterFields(block).map((child) => [
+          child.fieldName,
+          {
+            type: toValueType(blockSchema(definitions, child), child),
+            optional: !child.required || !!child.visibleIf,
+            description: child.label,
+          },
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * Lists the fields of the submission payload in survey order
+ */
+function collectResponseFields(
+  rootNode: NodeData,
+  definitions: Record<string, BlockDefinition>
+): ResponseField[] {
+  const blocks = getSurveyPages(rootNode).flat();
+  const alwaysVisited = getAlwaysVisitedBlocks(rootNode, blocks);
+  const fields: ResponseField[] = [];
+  const seen = new Set<string>();
+
+  for (const block of blocks) {
+    if (!block.fieldName || seen.has(block.fieldName) || NON_VALUE_BLOCK_TYPES.has(block.type)) continue;
+    seen.add(block.fieldName);
+
+    fields.push({
+      name: block.fieldName,
+      label: block.label || block.name,
+      // Hidden or skipped blocks leave no value in the payload
+      optional: !!block.visibleIf || !alwaysVisited.has(block),
+      type: isRepeaterBlock(block)
+        ? toRepeaterType(block, definitions)
+        : toValueType(blockSchema(definitions, block), block),
+    });
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Emitters
+// -----------------------------------------------------------------------------
+
+const propertyKey = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+
+const docComment = (text: string | undefined, indent: string) =>
+  text ? `${indent}/** ${text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim()} */\n` : '';
+
+function toTypeScript(type: ValueType): string {
+  switch (type.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'unknown':
+      return type.kind;
+    case 'date':
+      return 'string | Date';
+    case 'record':
+      return 'Record<string, unknown>';
+    case 'array':
+      return `Array<${toTypeScript(type.items)}>`;
+    case 'union':
+      return type.options.map(toTypeScript).join(' | ');
+    case 'object': {
+      const members = Object.entries(type.properties).map(
+        ([key, property]) => `${propertyKey(key)}${property.optional ? '?' : ''}: ${toTypeScript(property.type)}`
+      );
+      return `{ ${members.join('; ')} }`;
+    }
+  }
+}
+
+function toJsonSchema(type: ValueType, description?: string): JsonSchema {
+  const schema: JsonSchema = (() => {
+    switch (type.kind) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return { type: type.kind };
+      case 'date':
+        return { type: 'string', description: 'ISO 8601 date' };
+      case 'unknown':
+        return {};
+      case 'record':
+        return { type: 'object' };
+      case 'array':
+        return { type: 'array', items: toJsonSchema(type.items) };
+      case 'union':
+        return { anyOf: type.options.map((option) => toJsonSchema(option)) };
+      case 'object':
+        return {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.entries(type.properties).map(([key, property]) => [key, toJsonSchema(property.type, property.description)])
+          ),
+          required: Object.entries(type.properties).filter(([, property]) => !property.optional).map(([key]) => key),
+        };
+    }
+  })();
+  return description ? { ...schema, description } : schema;
+}
+
+function toZod(type: ValueType): string {
+  switch (type.kind) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'unknown':
+      return `z.${type.kind}()`;
+    case 'date':
+      return 'z.union([z.string(), z.date()])';
+    case 'record':
+      return 'z.record(z.string(), z.unknown())';
+    case 'array':
+      return `z.array(${toZod(type.items)})`;
+    case 'union':
+      return `z.union([${type.options.map(toZod).join(', ')}])`;
+    case 'object': {
+      const members = Object.entries(type.properties).map(
+        ([key, property]) => `${propertyKey(key)}: ${toZod(property.type)}${property.optional ? '.optional()' : ''}`
+      );
+      return `z.object({ ${members.join(', ')} })`;
+    }
+  }
+}
+
+/**
+ * Generates the type of the `onSubmit` payload for a survey.
+ * Fields behind `visibleIf`, or that some navigation path skips, are optional.
+ *
+ * @example
+ * const { typescript, jsonSchema, zod } = generateSurveyResponseTypes(survey.rootNode, StandardBlocks, { zod: true });
+ */
+export function generateSurveyResponseTypes(
+  rootNode: NodeData,
+  blockDefinitions: BlockDefinition[] | Record<string, BlockDefinition>,
+  options: SurveyResponseTypesOptions = {}
+): SurveyResponseTypes {
+  const typeName = options.typeName || 'SurveyResponse';
+  const definitions = Array.isArray(blockDefinitions)
+    ? Object.fromEntries(blockDefinitions.map((definition) => [definition.type, definition]))
+    : blockDefinitions;
+  const fields = collectResponseFields(rootNode, definitions);
+  const title = rootNode.name ? `Submission payload of "${rootNode.name}"` : 'Survey submission payload';
+
+  const typescript =
+    docComment(title, '') +
+    `export interface ${typeName} {\n` +
+    fields
+      .map((field) => `${docComment(field.label, '  ')}  ${propertyKey(field.name)}${field.optional ? '?' : ''}: ${toTypeScript(field.type)};\n`)
+      .join('') +
+    '}\n';
+
+  const jsonSchema: JsonSchema = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: typeName,
+    description: title,
+    type: 'object',
+    properties: Object.fromEntries(fields.map((field) => [field.name, toJsonSchema(field.type, field.label)])),
+    required: fields.filter((field) => !field.optional).map((field) => field.name),
+  };
+
+  const result: SurveyResponseTypes = { typescript, jsonSchema };
+
+  if (options.zod) {
+    result.zod =
+      "import { z } from 'zod';\n\n" +
+      docComment(title, '') +
+      `export const ${typeName}Schema = z.object({\n` +
+      fields
+        .map((field) => `${docComment(field.label, '  ')}  ${propertyKey(field.name)}: ${toZod(field.type)}${field.optional ? '.optional()' : ''},\n`)
+        .join('') +
+      '});\n\n' +
+      `export type ${typeName} = z.infer<typeof ${typeName}Schema>;\n`;
+  }
+
+  return result;
+}
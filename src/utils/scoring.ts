@@ -0,0 +1,148 @@
+import type { BlockData, ScoreBand, ScoreDefinition } from '../types';
+import { getMatrixColumns, getMatrixRows, isChoiceMatrix } from './matrix';
+
+/**
+ * Declarative scoring: options (and matrix columns) carry points in `score`,
+ * and `rootNode.scores` sums or averages them over chosen blocks. Each answered
+ * question, or each answered row of a matrix, is one item.
+ */
+
+const SCORABLE_BLOCK_TYPES = ['radio', 'select', 'selectablebox', 'checkbox', 'matrix'];
+
+export interface ScoreRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Whether the block's options can carry points
+ */
+export function isScorableBlock(block: BlockData): boolean {
+  if (block.type === 'matrix') return isChoiceMatrix(block);
+  return SCORABLE_BLOCK_TYPES.includes(block.type) && Array.isArray(block.options);
+}
+
+// Choice options and matrix columns
+type ScoredOption = { value: any; score?: number };
+
+const hasScore = (option: ScoredOption) => typeof option.score === 'number' && !Number.isNaN(option.score);
+
+// Points of the options chosen in one item, or null when none of them is scored
+function getChosenPoints(options: ScoredOption[], answer: any): number | null {
+  const chosen = new Set((Array.isArray(answer) ? answer : [answer]).map(String));
+  const scored = options.filter((option) => hasScore(option) && chosen.has(String(option.value)));
+  return scored.length > 0 ? scored.reduce((total, option) => total + option.score!, 0) : null;
+}
+
+const isUnanswered = (answer: any) =>
+  answer === undefined || answer === null || answer === '' || (Array.isArray(answer) && answer.length === 0);
+
+/**
+ * Points of each answered item of a block: one for a question, one per answered
+ * row of a matrix
+ */
+export function getBlockScoreItems(block: BlockData, value: any): number[] {
+  if (!isScorableBlock(block) || isUnanswered(value)) return [];
+
+  if (block.type === 'matrix') {
+    if (typeof value !== 'object') return [];
+    const columns = getMatrixColumns(block);
+    return getMatrixRows(block)
+      .map((row) => (isUnanswered(value[row.id]) ? null : getChosenPoints(columns, value[row.id])))
+      .filter((points): points is number => points !== null);
+  }
+
+  const points = getChosenPoints(block.options, value);
+  return points === null ? [] : [points];
+}
+
+// Lowest and highest points of one item: one option, or any set of options for checkboxes
+function getItemRange(block: BlockData, options: ScoredOption[]): ScoreRange | null {
+  const scores = options.filter(hasScore).map((option) => option.score!);
+  if (scores.length === 0) return null;
+
+  const multiple = block.type === 'checkbox' || (block.type === 'matrix' && block.cellType === 'checkbox');
+  if (multiple) {
+    const negative = scores.filter((score) => score < 0);
+    const positive = scores.filter((score) => score > 0);
+    return {
+      min: negative.length > 0 ? negative.reduce((a, b) => a + b, 0) : Math.min(...scores),
+      max: positive.length > 0 ? positive.reduce((a, b) => a + b, 0) : Math.max(...scores),
+    };
+  }
+  return { min: Math.min(...scores), max: Math.max(...scores) };
+}
+
+/**
+ * Lowest and highest possible score when every item is answered, or null when
+ * none of the scored blocks has points
+ */
+export function getScoreRange(score: ScoreDefinition, blocks: BlockData[]): ScoreRange | null {
+  const items: ScoreRange[] = [];
+  for (const block of findScoredBlocks(score, blocks)) {
+    if (block.type === 'matrix') {
+      const range = getItemRange(block, getMatrixColumns(block));
+      if (range) getMatrixRows(block).forEach(() => items.push(range));
+    } else {
+      const range = getItemRange(block, block.options);
+      if (range) items.push(range);
+    }
+  }
+  if (items.length === 0) return null;
+
+  if (score.method === 'average') {
+    return { min: Math.min(...items.map((item) => item.min)), max: Math.max(...items.map((item) => item.max)) };
+  }
+  return {
+    min: items.reduce((total, item) => total + item.min, 0),
+    max: items.reduce((total, item) => total + item.max, 0),
+  };
+}
+
+/**
+ * The scorable blocks a score adds up, in the order of its `fields`
+ */
+export function findScoredBlocks(score: ScoreDefinition, blocks: BlockData[]): BlockData[] {
+  return (score.fields || [])
+    .map((fieldName) => blocks.find((block) => block.fieldName === fieldName))
+    .filter((block): block is BlockData => !!block && isScorableBlock(block));
+}
+
+/**
+ * A score from the answers. Sums are 0 and averages null until an item is answered.
+ */
+export function calculateScore(score: ScoreDefinition, blocks: BlockData[], values: Record<string, any>): number | null {
+  const items = findScoredBlocks(score, blocks).flatMap((block) => getBlockScoreItems(block, values[block.fieldName!]));
+  const total = items.reduce((sum, points) => sum + points, 0);
+  if (score.method === 'average') {
+    return items.length > 0 ? total / items.length : null;
+  }
+  return total;
+}
+
+/**
+ * The band a score falls into, bounds included
+ */
+export function getScoreBand(bands: ScoreBand[] | undefined, value: number | null): ScoreBand | null {
+  if (value === null || !bands) return null;
+  return bands.find((band) => value >= band.min && value <= band.max) ?? null;
+}
+
+/**
+ * Every score and its band label, keyed `name` and `${name}Band`, ready to merge
+ * into the computed values
+ */
+export function calculateScores(
+  scores: ScoreDefinition[] | undefined,
+  blocks: BlockData[],
+  values: Record<string, any>
+): Record<string, number | string | null> {
+  const results: Record<string, number | string | null> = {};
+  for (const score of scores || []) {
+    if (!score.name) continue;
+    const value = calculateScore(score, blocks, values);
+    results[score.name] = value;
+    results[`${score.name}Band`] = getScoreBand(score.bands, value)?.label ?? null;
+  }
+  return results;
+}
@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BlockData, BlockSnippet, BlockSnippetStore, LocalizationMap } from '../types';
+import { cloneBlocks, pickBlockLocalizations } from './blockCloning';
+import type { ClonedBlocks } from './blockCloning';
+import { collectBlockUuids } from './blockSelection';
+import { parseEndingTarget } from './outcomes';
+
+/**
+ * Block snippets: configured blocks saved under a name and inserted into any
+ * survey with new uuids and field names
+ */
+
+const DEFAULT_STORAGE_KEY = 'survey_builder_snippets';
+
+/**
+ * Saves copies of the blocks, and their entries from `localizations`, as a
+ * snippet. With `includeNavigation`, rules and `nextBlockId` that point inside
+ * the set (or end the survey) are kept; the rest can't be followed in another
+ * survey and are dropped.
+ */
+export function createSnippet(
+  name: string,
+  blocks: BlockData[],
+  options: { description?: string; includeNavigation?: boolean; localizations?: LocalizationMap } = {}
+): BlockSnippet {
+  const uuids = collectBlockUuids(blocks);
+  const keepTarget = (target: string) =>
+    uuids.has(target) || target === 'submit' || parseEndingTarget(target) !== null;
+
+  const strip = (block: BlockData): BlockData => {
+    const copy: BlockData = JSON.parse(JSON.stringify(block));
+    if (options.includeNavigation) {
+      if (copy.navigationRules) {
+        copy.navigationRules = copy.navigationRules.filter((rule) => keepTarget(String(rule.target)));
+      }
+      if (copy.nextBlockId && !keepTarget(copy.nextBlockId)) delete copy.nextBlockId;
+    } else {
+      delete copy.navigationRules;
+      delete copy.nextBlockId;
+    }
+    if (block.items) copy.items = block.items.map(strip);
+    return copy;
+  };
+
+  const localizations = pickBlockLocalizations(options.localizations, blocks);
+
+  return {
+    id: uuidv4(),
+    name,
+    ...(options.description && { description: options.description }),
+    blocks: blocks.map(strip),
+    ...(Object.keys(localizations).length > 0 && { localizations }),
+    includesNavigation: !!options.includeNavigation,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The snippet's blocks, ready to insert: new uuids, field names from
+ * `generateFieldName`, conditions and rules rewritten to match, and the
+ * snippet's translations keyed to the new blocks
+ */
+export function instantiateSnippet(snippet: BlockSnippet, existingFieldNames?: Iterable<string>): ClonedBlocks {
+  return cloneBlocks(snippet.blocks, {
+    navigationRules: !!snippet.includesNavigation,
+    existingFieldNames,
+    localizations: snippet.localizations,
+  });
+}
+
+/**
+ * Keeps snippets in memory, e.g. for tests or as a fallback
+ */
+export function createMemorySnippetStore(initial: BlockSnippet[] = []): BlockSnippetStore {
+  const snippets = new Map(initial.map((snippet) => [snippet.id, snippet]));
+  return {
+    list: async () => [...snippets.values()],
+    save: async (snippet) => {
+      snippets.set(snippet.id, snippet);
+    },
+    remove: async (id) => {
+      snippets.delete(id);
+    },
+  };
+}
+
+const getLocalStorage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Accessing storage throws when it is disabled (e.g. blocked cookies)
+    return null;
+  }
+};
+
+/**
+ * Keeps snippets in localStorage - the builder's default, private to the browser
+ */
+export function createLocalSnippetStore(options: { key?: string } = {}): BlockSnippetStore {
+  const key = options.key ?? DEFAULT_STORAGE_KEY;
+
+  const read = (): BlockSnippet[] => {
+    try {
+      const stored = JSON.parse(getLocalStorage()?.getItem(key) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch (error) {
+      console.warn('Ignoring unreadable block snippets:', error);
+      return [];
+    }
+  };
+  const write = (snippets: BlockSnippet[]) => getLocalStorage()?.setItem(key, JSON.stringify(snippets));
+
+  return {
+    list: async () => read(),
+    save: async (snippet) => {
+      write([...read().filter((item) => item.id !== snippet.id), snippet]);
+    },
+    remove: async (id) => {
+      write(read().filter((item) => item.id !== id));
+    },
+  };
+}
@@ -0,0 +1,253 @@
+import type { BlockData, BlockDefinition, SurveyDocument, SurveyMode } from '../types';
+import { validationRuleToFunction } from '../builder/common/validation-rules-types';
+import {
+  evaluateCondition,
+  getNextPageFromNavigationRules,
+  getNextPageIndex,
+  getNextStepFromNavigationRules,
+  isBlockVisible,
+} from './conditionalUtils';
+import { isEndingBlock } from './outcomes';
+import { isRepeaterBlock, validateRepeaterValue } from './repeater';
+import { validateOutput } from './outputSchema';
+import { calculateScores } from './scoring';
+import { migrateSurvey } from './surveyMigrations';
+import { getSurveyPageIds, getSurveyPages } from './surveyUtils';
+
+/**
+ * Validates submitted survey values against the survey definition, for use in
+ * API handlers. Navigation is replayed with the submitted values to find the
+ * blocks the respondent actually saw; only those are validated.
+ *
+ * No React or DOM access - runs in Node.
+ */
+
+export type SubmissionIssueCode = 'invalid' | 'missing' | 'unreachable' | 'unexpected';
+
+export interface SubmissionIssue {
+  field: string;
+  code: SubmissionIssueCode;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface SubmissionValidationResult {
+  /** False if any issue has severity 'error' */
+  valid: boolean;
+  issues: SubmissionIssue[];
+  /** Field names of the blocks on the replayed path, in order */
+  reachedFields: string[];
+}
+
+export interface SubmissionValidationOptions {
+  /** Block definitions providing `validateValue` and `outputSchema` */
+  blockDefinitions?: BlockDefinition[] | Record<string, BlockDefinition>;
+  /** Overrides `survey.mode` */
+  mode?: SurveyMode;
+  /** Keys that may appear without a matching block, e.g. values set by script blocks */
+  allowedKeys?: string[];
+}
+
+// Blocks that display content or run code but never store a value of their own
+const NON_VALUE_BLOCK_TYPES = new Set(['markdown', 'html', 'script', 'set', 'section']);
+
+const isMissing = (value: any) => value === undefined;
+
+/**
+ * Replays navigation the way SurveyFormContext does on "Next": block navigation
+ * rules and `nextBlockId` first, then the next block on the page, then page-level
+ * branching and navigation rules.
+ */
+function replayNavigation(
+  pages: BlockData[][],
+  pageIds: string[],
+  values: Record<string, any>
+): BlockData[] {
+  const reached: BlockData[] = [];
+  const visited = new Set<string>();
+  let pageIndex = 0;
+  let blockIndex = 0;
+
+  while (pageIndex >= 0 && pageIndex < pages.length) {
+    const pageBlocks = pages[pageIndex] || [];
+    const block = pageBlocks[blockIndex];
+    const position = `${pageIndex}:${blockIndex}`;
+
+    // A loop means the respondent could not have submitted along this path
+    if (!block || visited.has(position)) break;
+    visited.add(position);
+
+    if (isBlockVisible(block, values)) {
+      reached.push(block);
+    }
+
+    if (block.isEndBlock || isEndingBlock(block)) break;
+
+    const target = getNextStepFromNavigationRules(block, pages, pageIds, values);
+    if (target === 'submit') break;
+    if (target) {
+      if ('outcome' in target) break;
+      pageIndex = target.pageIndex;
+      blockIndex = target.blockIndex;
+      continue;
+    }
+
+    if (blockIndex < pageBlocks.length - 1) {
+      blockIndex++;
+      continue;
+    }
+
+    const branchingLogic = pageBlocks[0]?.branchingLogic;
+    let nextPage: number | null;
+    if (branchingLogic) {
+      nextPage = getNextPageIndex(pageIndex, branchingLogic, values, pages.length);
+    } else {
+      nextPage = getNextPageFromNavigationRules(pageBlocks, pages, pageIds, values);
+      if (nextPage === null) {
+        nextPage = pageIndex + 1 < pages.length ? pageIndex + 1 : -1;
+      }
+    }
+
+    if (nextPage === -1 || nextPage === pageIndex) break;
+    pageIndex = nextPage;
+    blockIndex = 0;
+  }
+
+  return reached;
+}
+
+/**
+ * Checks one reached block's value: the block's `validateValue`, its validation
+ * rules and its output schema.
+ */
+function validateBlockValue(
+  block: BlockData,
+  definitions: Record<string, BlockDefinition>,
+  values: Record<string, any>
+): SubmissionIssue[] {
+  const field = block.fieldName!;
+  const value = values[field];
+  const issues: SubmissionIssue[] = [];
+  const report = (code: SubmissionIssueCode, message: string, severity: 'error' | 'warning' = 'error') =>
+    issues.push({ field, code, message, severity });
+
+  // A repeater's children may depend on other answers, which the block's validateValue doesn't see
+  const validateValue = isRepeaterBlock(block)
+    ? (repeaterValue: any) => validateRepeaterValue(repeaterValue, block, (type) => definitions[type], values).error
+    : definitions[block.type]?.validateValue;
+  if (validateValue) {
+    try {
+      const error = validateValue(value, block);
+      if (error) {
+        report(isMissing(value) ? 'missing' : 'invalid', error);
+        return issues;
+      }
+    } catch (error) {
+      report('invalid', `Validation error: ${(error as Error).message}`);
+      return issues;
+    }
+  } else if (block.required && isMissing(value)) {
+    report('missing', 'This field is required');
+    return issues;
+  }
+
+  // Unanswered optional questions have nothing else to check
+  if (isMissing(value)) return issues;
+
+  for (const rule of block.validationRules || []) {
+    try {
+      if (rule.condition && !evaluateCondition(rule.condition, values)) continue;
+      const error = validationRuleToFunction(rule as any)(value, values);
+      if (error) {
+        report('invalid', error, rule.severity === 'warning' ? 'warning' : 'error');
+      }
+    } catch (error) {
+      report('invalid', `Validation error: ${(error as Error).message}`);
+    }
+  }
+
+  const definition = definitions[block.type];
+  if (definition) {
+    const outputError = validateOutput(value, definition, block);
+    if (outputError) report('invalid', outputError);
+  }
+
+  return issues;
+}
+
+/**
+ * Validates a submission (the `onSubmit` payload) against its survey.
+ *
+ * - Fields on the replayed path are checked with the block's `validateValue`,
+ *   its validation rules and its output schema
+ * - Values for blocks the path never reached are reported as warnings
+ *   (respondents can change an answer and take another branch)
+ * - Scores (`rootNode.scores`) are recomputed from the answers and must match
+ * - Keys that match no block are errors, unless listed in `allowedKeys`
+ *
+ * @example
+ * const result = validateSubmission(survey, req.body, { blockDefinitions: StandardBlocks });
+ * if (!result.valid) return res.status(422).json(result.issues);
+ */
+export function validateSubmission(
+  survey: SurveyDocument,
+  values: Record<string, any>,
+  options: SubmissionValidationOptions = {}
+): SubmissionValidationResult {
+  const { rootNode, mode } = migrateSurvey(survey);
+  const definitions: Record<string, BlockDefinition> = Array.isArray(options.blockDefinitions)
+    ? Object.fromEntries(options.blockDefinitions.map((definition) => [definition.type, definition]))
+    : options.blockDefinitions || {};
+  const submitted = values || {};
+
+  const surveyMode = options.mode ?? mode;
+  const pages = getSurveyPages(rootNode, surveyMode);
+  const pageIds = getSurveyPageIds(rootNode, surveyMode);
+
+  const reached = replayNavigation(pages, pageIds, submitted).filter(
+    (block) => block.fieldName && !NON_VALUE_BLOCK_TYPES.has(block.type)
+  );
+  const reachedFields = new Set(reached.map((block) => block.fieldName!));
+
+  const issues: SubmissionIssue[] = [];
+  for (const block of reached) {
+    issues.push(...validateBlockValue(block, definitions, submitted));
+  }
+
+  const knownFields = new Set(
+    pages.flat().filter((block) => block.fieldName).map((block) => block.fieldName!)
+  );
+  const allowedKeys = new Set(options.allowedKeys || []);
+
+  const scores = calculateScores(rootNode.scores, pages.flat(), submitted);
+  for (const [key, expected] of Object.entries(scores)) {
+    if (key in submitted && submitted[key] !== expected) {
+      issues.push({ field: key, code: 'invalid', message: "Score doesn't match the answers", severity: 'error' });
+    }
+  }
+
+  for (const key of Object.keys(submitted)) {
+    if (reachedFields.has(key) || allowedKeys.has(key) || key in scores) continue;
+    if (knownFields.has(key)) {
+      issues.push({
+        field: key,
+        code: 'unreachable',
+        message: 'Value for a question that was not on the path through the survey',
+        severity: 'warning',
+      });
+    } else {
+      issues.push({
+        field: key,
+        code: 'unexpected',
+        message: 'Unexpected field',
+        severity: 'error',
+      });
+    }
+  }
+
+  return {
+    valid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+    reachedFields: [...reachedFields],
+  };
+}
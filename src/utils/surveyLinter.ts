@@ -0,0 +1,315 @@
+import type {
+  BlockData,
+  BlockDefinition,
+  ConditionRule,
+  NodeData,
+  SurveyLintIssue,
+  SurveyLintSeverity,
+  SurveyLintSource,
+} from '../types';
+import {
+  collectReferences,
+  compileExpression,
+  getExpressionEngineOptions,
+  isExpressionError,
+  isExpressionGlobal,
+} from '../expressions';
+import { getOutputKeys, isObjectOutput } from './outputSchema';
+import { getMessageParamNames, getMessageSyntaxError } from './messageFormat';
+import { getPipedTexts } from './piping';
+
+/**
+ * Static checks for the conditions and formulas of a survey, used by the builder
+ * to flag broken rules before they fail silently at runtime.
+ */
+
+export interface ExpressionLintContext {
+  /** Fields that can be referenced, mapped to their object output keys (if any) */
+  fields: Map<string, string[] | undefined>;
+  /** Fields that exist in the survey but are only answered after the expression runs */
+  laterFields?: Set<string>;
+  /** The field that owns the expression, if it may not reference itself */
+  ownField?: string;
+}
+
+export interface ExpressionLintResult {
+  severity: SurveyLintSeverity;
+  message: string;
+  position?: number;
+}
+
+/**
+ * Checks a single condition or formula: syntax, unknown fields, unknown
+ * functions and unknown properties of object outputs.
+ */
+export function lintExpression(expression: string, context: ExpressionLintContext): ExpressionLintResult[] {
+  let program;
+  try {
+    program = compileExpression(expression);
+  } catch (error) {
+    if (!isExpressionError(error)) throw error;
+    return [{
+      severity: getExpressionEngineOptions().allowLegacyEval ? 'warning' : 'error',
+      message: getExpressionEngineOptions().allowLegacyEval
+        ? `Not supported by the expression engine, falls back to legacy evaluation: ${error.message}`
+        : error.message,
+      position: error.position,
+    }];
+  }
+
+  const results: ExpressionLintResult[] = [];
+  const seen = new Set<string>();
+  const report = (severity: SurveyLintSeverity, message: string, position: number) => {
+    if (seen.has(message)) return;
+    seen.add(message);
+    results.push({ severity, message, position });
+  };
+
+  for (const reference of collectReferences(program)) {
+    const { name, path, start } = reference;
+
+    if (reference.isCall) {
+      if (!isExpressionGlobal(name)) {
+        report(
+          'error',
+          context.fields.has(name) ? `"${name}" is a field, not a function` : `Unknown function "${name}"`,
+          start
+        );
+      }
+      continue;
+    }
+
+    if (name === context.ownField) {
+      report('warning', `"${name}" references its own value`, start);
+      continue;
+    }
+
+    if (context.fields.has(name)) {
+      const outputKeys = context.fields.get(name);
+      const [, property] = path.split('.');
+      if (property && outputKeys && !outputKeys.includes(property)) {
+        report('warning', `"${name}" has no output named "${property}"`, start);
+      }
+      continue;
+    }
+
+    if (isExpressionGlobal(name)) continue;
+
+    if (context.laterFields?.has(name)) {
+      report('warning', `Field "${name}" is only answered later in the survey`, start);
+      continue;
+    }
+
+    report('error', `Unknown field "${name}"`, start);
+  }
+
+  return results;
+}
+
+/**
+ * Checks text that pipes answers (`{fieldName}`, `{count, plural, ...}`):
+ * message syntax and the fields it reads.
+ */
+export function lintPipedText(text: string, context: ExpressionLintContext): ExpressionLintResult[] {
+  const syntaxError = getMessageSyntaxError(text);
+  if (syntaxError) {
+    return [{ severity: 'error', message: syntaxError }];
+  }
+
+  const results: ExpressionLintResult[] = [];
+  for (const path of getMessageParamNames(text)) {
+    const [name, property] = path.split('.');
+    const position = text.indexOf(path);
+
+    if (name === context.ownField) {
+      results.push({ severity: 'warning', message: `"${name}" pipes the block's own answer`, position });
+    } else if (context.fields.has(name)) {
+      const outputKeys = context.fields.get(name);
+      if (property && outputKeys && !outputKeys.includes(property)) {
+        results.push({ severity: 'warning', message: `"${name}" has no output named "${property}"`, position });
+      }
+    } else if (context.laterFields?.has(name)) {
+      results.push({ severity: 'warning', message: `Field "${name}" is only answered later in the survey`, position });
+    } else {
+      results.push({ severity: 'error', message: `Unknown field "${name}"`, position });
+    }
+  }
+  return results;
+}
+
+/**
+ * Returns all blocks of a survey in document order (pages/sections included)
+ */
+function flattenBlocks(rootNode: NodeData): BlockData[] {
+  const blocks: BlockData[] = [];
+
+  const traverse = (node: any) => {
+    if (Array.isArray(node.items)) {
+      for (const item of node.items) {
+        blocks.push(item);
+        traverse(item);
+      }
+    }
+    if (Array.isArray(node.nodes)) {
+      for (const childNode of node.nodes) {
+        if (typeof childNode !== 'string') {
+          traverse(childNode);
+        }
+      }
+    }
+  };
+
+  traverse(rootNode);
+  return blocks;
+}
+
+/**
+ * Lints every navigation rule condition, `visibleIf`, validation rule condition,
+ * calculated field formula and piped label in the survey.
+ *
+ * Identifiers resolve against the fields of blocks that come before the owning
+ * block in document order (navigation and validation rules also see the block's
+ * own field). Object outputs are checked against `getOutputKeys`.
+ */
+export function lintSurvey(
+  rootNode: NodeData | null,
+  definitions: Record<string, BlockDefinition> = {}
+): SurveyLintIssue[] {
+  if (!rootNode) return [];
+  const blocks = flattenBlocks(rootNode);
+  const lintBlock = createBlockLinter(rootNode, blocks, definitions);
+  return blocks.flatMap((block, blockIndex) => lintBlock(block, blockIndex));
+}
+
+/**
+ * Lints one block of the survey as if it were `draft`, e.g. rules still being
+ * edited. The draft is checked at the place of the block with the same uuid.
+ */
+export function lintSurveyBlock(
+  rootNode: NodeData | null,
+  draft: BlockData,
+  definitions: Record<string, BlockDefinition> = {}
+): SurveyLintIssue[] {
+  if (!rootNode || !draft.uuid) return [];
+  const blocks = flattenBlocks(rootNode);
+  const blockIndex = blocks.findIndex((block) => block.uuid === draft.uuid);
+  if (blockIndex === -1) return [];
+  return createBlockLinter(rootNode, blocks, definitions)(draft, blockIndex);
+}
+
+const createBlockLinter = (
+  rootNode: NodeData,
+  blocks: BlockData[],
+  definitions: Record<string, BlockDefinition>
+) => {
+
+  const outputKeysFor = (block: BlockData): string[] | undefined => {
+    const definition = definitions[block.type];
+    return definition && isObjectOutput(definition, block) ? getOutputKeys(definition, block) : undefined;
+  };
+
+  const allFields = new Map<string, string[] | undefined>();
+  const fieldIndex = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    if (block.fieldName && !fieldIndex.has(block.fieldName)) {
+      allFields.set(block.fieldName, outputKeysFor(block));
+      fieldIndex.set(block.fieldName, index);
+    }
+  });
+
+  // Scores are recomputed on every change, so they can be referenced anywhere
+  const scoreNames = (rootNode.scores || []).flatMap((score) => (score.name ? [score.name, `${score.name}Band`] : []));
+
+  const contextFor = (blockIndex: number, includeOwn: boolean, ownField?: string): ExpressionLintContext => {
+    const fields = new Map<string, string[] | undefined>();
+    const laterFields = new Set<string>();
+    allFields.forEach((keys, name) => {
+      const index = fieldIndex.get(name)!;
+      if (index < blockIndex || (includeOwn && index === blockIndex)) {
+        fields.set(name, keys);
+      } else {
+        laterFields.add(name);
+      }
+    });
+    scoreNames.forEach((name) => fields.set(name, undefined));
+    return { fields, laterFields, ownField };
+  };
+
+  return (block: BlockData, blockIndex: number): SurveyLintIssue[] => {
+    const issues: SurveyLintIssue[] = [];
+    const blockId = block.uuid || block.fieldName || '';
+
+    const check = (
+      expression: string,
+      source: SurveyLintSource,
+      context: ExpressionLintContext,
+      ruleIndex?: number
+    ) => {
+      for (const result of lintExpression(expression, context)) {
+        issues.push({
+          blockId,
+          fieldName: block.fieldName,
+          source,
+          ruleIndex,
+          expression,
+          ...result,
+        });
+      }
+    };
+
+    // Navigation rules run once the block is answered
+    block.navigationRules?.forEach((rule, ruleIndex) => {
+      if (typeof rule.condition !== 'string' || !rule.condition.trim()) {
+        if (!rule.isDefault) {
+          issues.push({
+            blockId,
+            fieldName: block.fieldName,
+            source: 'navigationRule',
+            ruleIndex,
+            severity: 'warning',
+            message: 'Navigation rule has no condition',
+            expression: rule.condition ?? '',
+          });
+        }
+        return;
+      }
+      check(rule.condition, 'navigationRule', contextFor(blockIndex, true), ruleIndex);
+    });
+
+    // Visibility is decided before the block is answered
+    if (typeof block.visibleIf === 'string' && block.visibleIf.trim()) {
+      check(block.visibleIf, 'visibleIf', contextFor(blockIndex, false, block.fieldName));
+    } else if (block.visibleIf && typeof block.visibleIf === 'object') {
+      const rules: ConditionRule[] = Array.isArray(block.visibleIf) ? block.visibleIf : [block.visibleIf];
+      const context = contextFor(blockIndex, false, block.fieldName);
+      for (const rule of rules) {
+        if (rule?.field) {
+          check(rule.field, 'visibleIf', context);
+        }
+      }
+    }
+
+    block.validationRules?.forEach((rule, ruleIndex) => {
+      if (typeof rule.condition === 'string' && rule.condition.trim()) {
+        check(rule.condition, 'validationRule', contextFor(blockIndex, true), ruleIndex);
+      }
+    });
+
+    if (typeof block.formula === 'string' && block.formula.trim()) {
+      check(block.formula, 'formula', contextFor(blockIndex, false, block.fieldName));
+    }
+
+    // Piped text is filled in while the block is shown, before it is answered
+    const pipedTexts = getPipedTexts(block).filter(({ text }) => text.includes('{'));
+    if (pipedTexts.length > 0) {
+      const context = contextFor(blockIndex, false, block.fieldName);
+      for (const { text } of pipedTexts) {
+        for (const result of lintPipedText(text, context)) {
+          issues.push({ blockId, fieldName: block.fieldName, source: 'pipedText', expression: text, ...result });
+        }
+      }
+    }
+
+    return issues;
+  };
+};
@@ -0,0 +1,144 @@
+import { v5 as uuidv5 } from 'uuid';
+import type { LocalizationMap, NodeData, SurveyDocument, SurveyMigration } from '../types';
+
+/**
+ * Versioned survey documents.
+ *
+ * Every saved survey carries a `schemaVersion`. When a document is loaded, the
+ * registered migrations upgrade it one version at a time until it matches the
+ * latest version, so older JSON keeps working after the format changes.
+ */
+
+// Namespace for the uuids given to legacy nodes
+const LEGACY_UUID_NAMESPACE = '3f6c2a4e-8d1b-4f7a-9c55-0b2e6d9a1c37';
+
+// Gives every node and block a uuid, walking both `items` and legacy `nodes` arrays.
+// The uuid comes from the node's place in the tree and its name, so loading the
+// same document again gives the same uuids (saved progress and scenarios keep matching).
+// `assigned` collects the field names of blocks that got one.
+const ensureUuidsDeep = (node: NodeData, path: string, assigned: Map<string, string>): NodeData => {
+  let uuid = node.uuid;
+  if (!uuid) {
+    uuid = uuidv5(`${path}:${node.fieldName || node.name || node.type || ''}`, LEGACY_UUID_NAMESPACE);
+    if (node.fieldName && !assigned.has(node.fieldName)) assigned.set(node.fieldName, uuid);
+  }
+  const normalized: NodeData = { ...node, uuid };
+
+  if (Array.isArray(node.items)) {
+    normalized.items = node.items.map((item, index) =>
+      item && typeof item === 'object' ? ensureUuidsDeep(item, `${path}.items.${index}`, assigned) : item
+    );
+  }
+
+  if (Array.isArray(node.nodes)) {
+    normalized.nodes = node.nodes.map((childNode, index) =>
+      typeof childNode === 'string' ? childNode : ensureUuidsDeep(childNode, `${path}.nodes.${index}`, assigned)
+    );
+  }
+
+  return normalized;
+};
+
+// Translation keys are scoped to the block's uuid, falling back to its field
+// name; keys of blocks that just got a uuid move over to it
+const moveLocalizationKeys = (localizations: LocalizationMap, assigned: Map<string, string>): LocalizationMap => {
+  if (assigned.size === 0) return localizations;
+  return Object.fromEntries(
+    Object.entries(localizations).map(([language, entries]) => {
+      const moved: Record<string, string> = {};
+      for (const [key, text] of Object.entries(entries || {})) {
+        const dot = key.indexOf('.');
+        const uuid = dot > 0 ? assigned.get(key.slice(0, dot)) : undefined;
+        const target = uuid ? `${uuid}${key.slice(dot)}` : key;
+        if (!(target in moved) || target === key) moved[target] = text;
+      }
+      return [language, moved];
+    })
+  );
+};
+
+const builtinMigrations: SurveyMigration[] = [
+  {
+    version: 1,
+    description: 'Default the root node type to "section" and give every node and block a uuid',
+    migrate: (document) => {
+      const assigned = new Map<string, string>();
+      const rootNode = ensureUuidsDeep({ ...document.rootNode, type: document.rootNode.type || 'section' }, 'root', assigned);
+      return {
+        ...document,
+        rootNode,
+        localizations: moveLocalizationKeys(document.localizations || { en: {} }, assigned),
+      };
+    },
+  },
+];
+
+const migrations = new Map<number, SurveyMigration>(
+  builtinMigrations.map((migration) => [migration.version, migration])
+);
+
+/**
+ * Registers a migration that upgrades documents from `version - 1` to `version`.
+ * Registering an existing version replaces it.
+ */
+export function registerSurveyMigration(migration: SurveyMigration): void {
+  migrations.set(migration.version, migration);
+}
+
+/**
+ * Returns the latest schema version - the one new documents are saved with
+ */
+export function getSurveySchemaVersion(): number {
+  return Math.max(0, ...migrations.keys());
+}
+
+/**
+ * Returns the schema version of a document (0 for documents saved before versioning)
+ */
+export function getDocumentSchemaVersion(document: Partial<SurveyDocument>): number {
+  return typeof document?.schemaVersion === 'number' ? document.schemaVersion : 0;
+}
+
+/**
+ * Upgrades a survey document step by step to the latest (or `targetVersion`) schema.
+ * The input is not modified; an up-to-date document is returned as is.
+ *
+ * @example
+ * const upgraded = migrateSurvey(JSON.parse(savedJson));
+ */
+export function migrateSurvey<T extends SurveyDocument>(
+  document: T,
+  options: { targetVersion?: number } = {}
+): T {
+  if (!document || typeof document.rootNode !== 'object' || document.rootNode === null) {
+    return document;
+  }
+
+  const targetVersion = options.targetVersion ?? getSurveySchemaVersion();
+  const fromVersion = getDocumentSchemaVersion(document);
+
+  if (fromVersion > getSurveySchemaVersion()) {
+    console.warn(
+      `Survey schemaVersion ${fromVersion} is newer than the supported version ${getSurveySchemaVersion()}; loading it unchanged`
+    );
+    return document;
+  }
+
+  let migrated: SurveyDocument = document;
+  for (let version = fromVersion + 1; version <= targetVersion; version++) {
+    const migration = migrations.get(version);
+    if (!migration) {
+      throw new Error(`No survey migration registered for schema version ${version}`);
+    }
+
+    try {
+      migrated = { ...migration.migrate(migrated), schemaVersion: version };
+    } catch (error) {
+      throw new Error(
+        `Survey migration to schema version ${version} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return migrated as T;
+}
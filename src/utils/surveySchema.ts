@@ -0,0 +1,396 @@
+import type {
+  BlockData,
+  BlockDefinition,
+  JsonSchema,
+  JsonSchemaType,
+  NodeData,
+  SurveyDocument,
+  SurveyValidationError,
+  SurveyValidationResult,
+} from '../types';
+
+/**
+ * JSON Schema for survey documents, and validation of imported JSON against it.
+ *
+ * The schema covers the document envelope, nodes and the shared block properties.
+ * Each registered block type gets its own section, inferred from the block's
+ * `defaultData` and refined by its optional `configSchema`.
+ */
+
+// Page and section containers, valid without a registered block definition
+const STRUCTURAL_BLOCK_TYPES = new Set(['set', 'section']);
+
+const navigationRuleSchema: JsonSchema = {
+  type: 'object',
+  required: ['target'],
+  properties: {
+    condition: { type: 'string' },
+    target: { type: 'string' },
+    isPage: { type: 'boolean' },
+    isDefault: { type: 'boolean' },
+  },
+};
+
+const nodeSchema: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    uuid: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', minLength: 1 },
+    items: { type: 'array', items: { $ref: '#/definitions/block' } },
+    nodes: {
+      type: 'array',
+      items: { anyOf: [{ type: 'string' }, { $ref: '#/definitions/node' }] },
+    },
+    navigationLogic: { type: 'string' },
+    entryLogic: { type: 'string' },
+    exitLogic: { type: 'string' },
+    backLogic: { type: 'string' },
+  },
+};
+
+// Properties every block shares; block sections never override these
+const blockBaseSchema: JsonSchema = {
+  type: 'object',
+  required: ['type'],
+  properties: {
+    type: { type: 'string', minLength: 1 },
+    uuid: { type: 'string' },
+    name: { type: 'string' },
+    label: { type: 'string' },
+    description: { type: 'string' },
+    fieldName: { type: 'string' },
+    placeholder: { type: 'string' },
+    className: { type: 'string' },
+    items: { type: 'array', items: { $ref: '#/definitions/block' } },
+    labels: { type: 'array' },
+    values: { type: 'array' },
+    navigationRules: { type: 'array', items: { $ref: '#/definitions/navigationRule' } },
+    validationRules: { type: 'array', items: { type: 'object' } },
+    isEndBlock: { type: 'boolean' },
+    isEndBlockManual: { type: 'boolean' },
+    autoContinueOnSelect: { type: 'boolean' },
+    showContinueButton: { type: 'boolean' },
+    nextBlockId: { type: 'string' },
+    abTest: { type: 'object' },
+    skipAIValidation: { type: 'boolean' },
+    disableAudioInput: { type: 'boolean' },
+  },
+};
+
+// Free-form values whose type legitimately differs between surveys
+const UNTYPED_BLOCK_KEYS = new Set(['defaultValue', 'visibleIf']);
+
+/**
+ * Infers a loose schema for one `defaultData` value. `null` is always allowed,
+ * since cleared number inputs are saved as null.
+ */
+function inferValueSchema(value: any): JsonSchema | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (Array.isArray(value)) {
+    const first = value.find((item) => item !== null && item !== undefined);
+    const itemType = first === undefined ? undefined : inferValueSchema(first);
+    return itemType?.type === 'object' ? { type: 'array', items: { type: 'object' } } : { type: 'array' };
+  }
+  switch (typeof value) {
+    case 'string':
+      return { type: ['string', 'null'] };
+    case 'number':
+      return { type: ['number', 'null'] };
+    case 'boolean':
+      return { type: ['boolean', 'null'] };
+    case 'object':
+      return { type: ['object', 'null'] };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Builds the schema section for a single block type
+ */
+export function getBlockConfigSchema(definition: BlockDefinition): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+
+  for (const [key, value] of Object.entries(definition.defaultData || {})) {
+    if (blockBaseSchema.properties![key] || UNTYPED_BLOCK_KEYS.has(key)) continue;
+    const inferred = inferValueSchema(value);
+    if (inferred) properties[key] = inferred;
+  }
+
+  const configSchema = definition.configSchema || {};
+  return {
+    ...configSchema,
+    title: configSchema.title || definition.name,
+    type: 'object',
+    properties: {
+      ...properties,
+      ...configSchema.properties,
+      type: { const: definition.type },
+    },
+  };
+}
+
+const blockSchemaKey = (type: string) => `block:${type}`;
+
+/**
+ * Generates the JSON Schema (draft-07) for survey documents using the given block types
+ *
+ * @example
+ * const schema = generateSurveyJsonSchema(StandardBlocks);
+ */
+export function generateSurveyJsonSchema(blockDefinitions: BlockDefinition[] = []): JsonSchema {
+  const definitions: Record<string, JsonSchema> = {
+    node: nodeSchema,
+    navigationRule: navigationRuleSchema,
+    blockBase: blockBaseSchema,
+  };
+
+  const blockSchemas: JsonSchema[] = [{ $ref: '#/definitions/blockBase' }];
+  for (const definition of blockDefinitions) {
+    definitions[blockSchemaKey(definition.type)] = getBlockConfigSchema(definition);
+    blockSchemas.push({
+      if: { type: 'object', properties: { type: { const: definition.type } }, required: ['type'] },
+      then: { $ref: `#/definitions/${blockSchemaKey(definition.type)}` },
+    });
+  }
+  definitions.block = { allOf: blockSchemas };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Survey document',
+    type: 'object',
+    required: ['rootNode'],
+    properties: {
+      schemaVersion: { type: 'integer', minimum: 0 },
+      rootNode: { $ref: '#/definitions/node' },
+      localizations: {
+        type: 'object',
+        additionalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+      theme: { type: ['object', 'null'] },
+      mode: { enum: ['paged', 'pageless'] },
+    },
+    definitions,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+const typeOf = (value: any): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: any, type: JsonSchemaType): boolean => {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && !Number.isNaN(value);
+  return typeOf(value) === type;
+};
+
+const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const resolveRef = (root: JsonSchema, ref: string): JsonSchema => {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local schema references are supported: ${ref}`);
+  }
+  let target: any = root;
+  for (const segment of ref.slice(2).split('/')) {
+    target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (!target) {
+    throw new Error(`Unresolved schema reference: ${ref}`);
+  }
+  return target;
+};
+
+/**
+ * Validates a value against a schema, collecting path-addressed errors
+ */
+function validateValue(
+  value: any,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SurveyValidationError[]
+): void {
+  const report = (message: string) => errors.push({ path: path || '(root)', message, severity: 'error' });
+
+  if (schema.$ref) {
+    validateValue(value, resolveRef(root, schema.$ref), path, root, errors);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      report(`Expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    report(`Expected ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    report(`Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report(schema.minLength === 1 ? 'Must not be empty' : `Must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report(`Must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      report(`Must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) report(`Must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) report(`Must be at most ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`Must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report(`Must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items!, joinPath(path, index), root, errors));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) report(`Missing required property "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) continue;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateValue(propertyValue, propertySchema, joinPath(path, key), root, errors);
+      } else if (schema.additionalProperties === false) {
+        report(`Unknown property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateValue(propertyValue, schema.additionalProperties, joinPath(path, key), root, errors);
+      }
+    }
+  }
+
+  schema.allOf?.forEach((subschema) => validateValue(value, subschema, path, root, errors));
+
+  const matches = (subschema: JsonSchema) => {
+    const subErrors: SurveyValidationError[] = [];
+    validateValue(value, subschema, path, root, subErrors);
+    return subErrors.length === 0;
+  };
+
+  if (schema.anyOf && !schema.anyOf.some(matches)) {
+    report('Does not match any of the allowed shapes');
+  }
+  if (schema.oneOf && schema.oneOf.filter(matches).length !== 1) {
+    report('Must match exactly one of the allowed shapes');
+  }
+
+  if (schema.if) {
+    const branch = matches(schema.if) ? schema.then : schema.else;
+    if (branch) validateValue(value, branch, path, root, errors);
+  }
+}
+
+/**
+ * Checks that JSON Schema cannot express: unknown block types and duplicate uuids/field names
+ */
+function validateReferences(
+  rootNode: NodeData,
+  knownTypes: Set<string> | null,
+  errors: SurveyValidationError[]
+): void {
+  const uuids = new Map<string, string>();
+  const fieldNames = new Map<string, string>();
+
+  const visitBlock = (block: BlockData, path: string) => {
+    if (!block || typeof block !== 'object') return;
+
+    if (knownTypes && typeof block.type === 'string' && !knownTypes.has(block.type) && !STRUCTURAL_BLOCK_TYPES.has(block.type)) {
+      errors.push({ path: joinPath(path, 'type'), message: `Unknown block type "${block.type}"`, severity: 'warning' });
+    }
+
+    if (typeof block.uuid === 'string' && block.uuid) {
+      if (uuids.has(block.uuid)) {
+        errors.push({
+          path: joinPath(path, 'uuid'),
+          message: `Duplicate uuid "${block.uuid}" (also used at ${uuids.get(block.uuid)})`,
+          severity: 'error',
+        });
+      } else {
+        uuids.set(block.uuid, path);
+      }
+    }
+
+    if (typeof block.fieldName === 'string' && block.fieldName) {
+      if (fieldNames.has(block.fieldName)) {
+        errors.push({
+          path: joinPath(path, 'fieldName'),
+          message: `Duplicate field name "${block.fieldName}" (also used at ${fieldNames.get(block.fieldName)})`,
+          severity: 'warning',
+        });
+      } else {
+        fieldNames.set(block.fieldName, path);
+      }
+    }
+
+    if (Array.isArray(block.items)) {
+      block.items.forEach((item, index) => visitBlock(item, joinPath(joinPath(path, 'items'), index)));
+    }
+    if (Array.isArray(block.nodes)) {
+      block.nodes.forEach((childNode: NodeData | string, index: number) => {
+        if (typeof childNode !== 'string') visitBlock(childNode, joinPath(joinPath(path, 'nodes'), index));
+      });
+    }
+  };
+
+  visitBlock(rootNode as BlockData, 'rootNode');
+}
+
+/**
+ * Validates a survey document (e.g. parsed import JSON) against the generated schema.
+ * Errors carry a path such as `rootNode.items[3].min`. Unknown block types and
+ * duplicate field names are reported as warnings.
+ *
+ * @example
+ * const { valid, errors } = validateSurveyDocument(JSON.parse(json), { blockDefinitions: StandardBlocks });
+ */
+export function validateSurveyDocument(
+  document: unknown,
+  options: { blockDefinitions?: BlockDefinition[]; schema?: JsonSchema } = {}
+): SurveyValidationResult {
+  const blockDefinitions = options.blockDefinitions || [];
+  const schema = options.schema || generateSurveyJsonSchema(blockDefinitions);
+  const errors: SurveyValidationError[] = [];
+
+  validateValue(document, schema, '', schema, errors);
+
+  const rootNode = (document as SurveyDocument | null)?.rootNode;
+  if (rootNode && typeof rootNode === 'object') {
+    const knownTypes = blockDefinitions.length > 0
+      ? new Set(blockDefinitions.map((definition) => definition.type))
+      : null;
+    validateReferences(rootNode, knownTypes, errors);
+  }
+
+  return {
+    valid: !errors.some((error) => error.severity === 'error'),
+    errors,
+  };
+}
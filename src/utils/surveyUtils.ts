@@ -1,4 +1,7 @@
 import type { NodeData, BlockData, SurveyMode } from "../types";
+import { evaluateExpression, isExpressionError, shouldUseLegacyEval } from "../expressions";
+import { legacyEvaluateLogic } from "../expressions/legacy";
+import { resolveLocalizedText } from "./localization";
 
 /**
  * Detects the survey mode based on the structure of rootNode
@@ -196,41 +199,31 @@ export function evaluateLogic(script: string, context: {
   getFieldValue?: (fieldName: string) => any;
   showAlert?: (message: string) => void;
 }) {
-  try {
-    // Basic sanitization - remove potentially harmful parts of script
-    const sanitizedScript = script
-      .replace(/import\s*\{/g, "")
-      .replace(/require\s*\(/g, "")
-      .replace(/process/g, "")
-      .replace(/global/g, "")
-      .replace(/window/g, "")
-      .replace(/document/g, "")
-      .replace(/eval\s*\(/g, "");
-
-    // Create a function from the script
-    const fn = new Function('context', `
-      "use strict";
-      // Extract context values
-      const fieldValues = context.fieldValues || {};
-      const setValue = context.setValue;
-      const setError = context.setError;
-      const currentPage = context.currentPage;
-      const getFieldValue = context.getFieldValue || ((fieldName) => fieldValues[fieldName]);
-      const showAlert = context.showAlert || ((message) => console.log(message));
-
-      try {
-        ${sanitizedScript}
-        return { isValid: true };
-      } catch (error) {
-        return { isValid: false, errorMessage: error.message };
-      }
-    `);
+  const fieldValues = context.fieldValues || {};
+  const scope = {
+    fieldValues,
+    setValue: context.setValue,
+    setError: context.setError,
+    currentPage: context.currentPage,
+    getFieldValue: context.getFieldValue || ((fieldName: string) => fieldValues[fieldName]),
+    showAlert: context.showAlert || ((message: string) => console.log(message)),
+  };
 
-    // Execute the function with the provided context
-    return fn(context);
+  try {
+    try {
+      evaluateExpression(script, scope);
+    } catch (error) {
+      if (!shouldUseLegacyEval(error)) throw error;
+      legacyEvaluateLogic(script, scope);
+    }
+    return { isValid: true };
   } catch (error) {
-    console.error("Error executing logic script:", error);
-    return { isValid: false, errorMessage: "Error in logic script" };
+    if (isExpressionError(error)) {
+      console.error("Error executing logic script:", error);
+      return { isValid: false, errorMessage: "Error in logic script" };
+    }
+    // Errors thrown by the script itself (`throw new Error("...")`) mark the value as invalid
+    return { isValid: false, errorMessage: (error as Error)?.message };
   }
 }
 
@@ -247,18 +240,12 @@ export function getLocalized(
     return block[field];
   }
 
-  const langMap = localizations[language];
-  if (!langMap) {
-    return block[field];
-  }
-
-  const blockId = block.uuid;
+  const blockId = block.uuid || block.fieldName;
   if (!blockId) {
     return block[field];
   }
 
-  const key = `${blockId}.${field}`;
-  return langMap[key] || block[field];
+  return resolveLocalizedText(`${blockId}.${field}`, block[field], language, localizations);
 }
 
 /**